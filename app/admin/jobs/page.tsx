@@ -0,0 +1,122 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { fetchProblemGenerationJobs } from "@/lib/api/admin";
+import { ApiError } from "@/lib/api/client";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import type { GenerationJob } from "@/lib/types/generation-jobs";
+
+function formatTimestamp(value?: string | null) {
+  return value ? new Date(value).toLocaleString() : "-";
+}
+
+function JobTable({ jobs, emptyLabel }: { jobs: GenerationJob[]; emptyLabel: string }) {
+  if (jobs.length === 0) {
+    return <p className="page-lead">{emptyLabel}</p>;
+  }
+
+  return (
+    <div className="table-scroll">
+      <table className="data-table">
+        <thead>
+          <tr>
+            <th>Job</th>
+            <th>Kind</th>
+            <th>Status</th>
+            <th>Attempts</th>
+            <th>Avatar</th>
+            <th>Created</th>
+            <th>Last activity</th>
+            <th>Last error</th>
+          </tr>
+        </thead>
+        <tbody>
+          {jobs.map((job) => (
+            <tr key={job.id}>
+              <td>
+                <code>{job.id.slice(0, 8)}</code>
+              </td>
+              <td>{job.kind}</td>
+              <td>{job.status}</td>
+              <td>
+                {job.attempts}/{job.max_attempts}
+              </td>
+              <td>
+                <code>{job.avatar_id.slice(0, 8)}</code>
+              </td>
+              <td>{formatTimestamp(job.created_at)}</td>
+              <td>{formatTimestamp(job.dispatched_at ?? job.locked_at ?? job.updated_at)}</td>
+              <td>{job.last_error ?? "-"}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function AdminJobsPage() {
+  const requestId = useMemo(() => getRequestId(), []);
+  const [stuck, setStuck] = useState<GenerationJob[]>([]);
+  const [dead, setDead] = useState<GenerationJob[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadJobs = useCallback(async () => {
+    setIsLoading(true);
+    setStatus(null);
+    try {
+      const result = await fetchProblemGenerationJobs(requestId);
+      setStuck(result.stuck);
+      setDead(result.dead);
+    } catch (error) {
+      logger.error({
+        scope: "http.admin.jobs",
+        msg: "Failed to load generation jobs",
+        requestId,
+        err: error,
+      });
+      setStatus(error instanceof ApiError ? error.message : "Could not load generation jobs.");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    loadJobs();
+  }, [loadJobs]);
+
+  return (
+    <div className="space-y-6">
+      <div className="panel">
+        <h1 className="page-title">Generation jobs</h1>
+        <p className="page-lead">
+          Jobs that have not heard back from n8n in a while, and jobs that ran out of retries. Avatars whose jobs are
+          dead are marked as failed so their owners can retry.
+        </p>
+        <div className="hero-actions">
+          <button className="button" type="button" onClick={loadJobs} disabled={isLoading}>
+            {isLoading ? "Refreshing…" : "Refresh"}
+          </button>
+          <Link className="button secondary" href="/avatars">
+            Back to avatars
+          </Link>
+        </div>
+        {status ? <p className="message error">{status}</p> : null}
+      </div>
+
+      <div className="panel">
+        <h2>Stuck jobs</h2>
+        <JobTable jobs={stuck} emptyLabel="No stuck jobs right now." />
+      </div>
+
+      <div className="panel">
+        <h2>Dead jobs</h2>
+        <JobTable jobs={dead} emptyLabel="No dead jobs." />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { jsonError, requireAdmin } from "@/lib/api/route-context";
+import { logger } from "@/lib/logger";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { getDeadGenerationJobs, getStuckGenerationJobs } from "@/lib/supabase/generation-jobs";
+
+const SCOPE = "http.admin.jobs";
+const STUCK_AFTER_MS = 15 * 60_000;
+
+export async function GET(request: NextRequest) {
+  const result = await requireAdmin(request, SCOPE);
+  if (!result.ok) return result.response;
+
+  const { requestId, http, user } = result.context;
+  const admin = createSupabaseAdminClient();
+  const stuckBefore = new Date(Date.now() - STUCK_AFTER_MS);
+
+  const [stuck, dead] = await Promise.all([
+    getStuckGenerationJobs(admin, stuckBefore),
+    getDeadGenerationJobs(admin),
+  ]);
+
+  const error = stuck.error ?? dead.error;
+  if (error) {
+    logger.error({
+      scope: SCOPE,
+      msg: "Failed to load generation jobs",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 500 },
+      err: error,
+    });
+    return jsonError("Could not load generation jobs.", 500);
+  }
+
+  return NextResponse.json({
+    stuck: stuck.data ?? [],
+    dead: dead.data ?? [],
+    stuckBefore: stuckBefore.toISOString(),
+  });
+}
@@ -0,0 +1,149 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  jsonError,
+  readJsonBody,
+  requireAvatar,
+  requireGenerationQuota,
+  requireRateLimit,
+} from "@/lib/api/route-context";
+import { enqueueGenerationJob, processGenerationJob } from "@/lib/generation-queue";
+import { logger } from "@/lib/logger";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { updateAvatar } from "@/lib/supabase/avatars";
+import { updateGenerationJob } from "@/lib/supabase/generation-jobs";
+import type { AvatarGenerationOperation, AvatarStatus } from "@/lib/types/avatars";
+import type { GenerationJob } from "@/lib/types/generation-jobs";
+import { QUOTA_EXCEEDED_CODE } from "@/lib/usage";
+
+const SCOPE = "http.avatar.generate";
+
+// Which avatar statuses each operation may start from.
+const ALLOWED_STATUSES: Record<AvatarGenerationOperation, AvatarStatus[]> = {
+  generate: ["pending"],
+  retry: ["failed"],
+  regenerate_persona: ["ready"],
+  regenerate_portrait: ["ready"],
+};
+
+function isOperation(value: unknown): value is AvatarGenerationOperation {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ALLOWED_STATUSES, value);
+}
+
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const result = await requireAvatar(request, params.id, SCOPE);
+  if (!result.ok) return result.response;
+
+  const rateLimit = await requireRateLimit(result.context, SCOPE, "avatar.generate");
+  if (!rateLimit.ok) return rateLimit.response;
+
+  const { requestId, http, supabase, user, avatar } = result.context;
+  const body = (await readJsonBody(request)) ?? {};
+  const operation = body.operation ?? "generate";
+
+  if (!isOperation(operation)) {
+    return jsonError(`operation must be one of ${Object.keys(ALLOWED_STATUSES).join(", ")}.`, 400);
+  }
+
+  if (!ALLOWED_STATUSES[operation].includes(avatar.status)) {
+    logger.warn({
+      scope: SCOPE,
+      msg: "Rejected generation for avatar in the wrong state",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      operation,
+      http: { ...http, status: 409 },
+      payloadSummary: { status: avatar.status },
+    });
+    return jsonError(`This avatar is ${avatar.status}, so it can’t be sent for ${operation.replace("_", " ")}.`, 409);
+  }
+
+  const quota = await requireGenerationQuota(result.context, SCOPE, "avatar");
+  if (!quota.ok) return quota.response;
+
+  const admin = createSupabaseAdminClient();
+
+  // Jobs run as the avatar's creator, whose storage folder the results are written to; the caller is charged.
+  const { data: job, error: jobError } = await enqueueGenerationJob(admin, {
+    userId: avatar.user_id,
+    requestedBy: user.id,
+    avatarId: avatar.id,
+    kind: "avatar",
+    payload: { operation },
+  });
+
+  if (jobError || !job) {
+    logger.error({
+      scope: SCOPE,
+      msg: "Failed to enqueue avatar generation",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      operation,
+      http: { ...http, status: 500 },
+      err: jobError ?? new Error("Job insert returned empty response"),
+    });
+    return jsonError("Could not start generation.", 500);
+  }
+
+  // Record the job id before dispatching so the callback can be matched even if n8n answers immediately.
+  const { error: updateError } = await updateAvatar(supabase, avatar.id, avatar.user_id, {
+    status: "generating",
+    n8n_job_id: job.id,
+    failure_reason: null,
+  });
+
+  if (updateError) {
+    logger.error({
+      scope: SCOPE,
+      msg: "Failed to mark avatar as generating",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      jobId: job.id,
+      operation,
+      http: { ...http, status: 500 },
+      err: updateError,
+    });
+
+    // The job was inserted already claimed; close it so the worker doesn't pick it up and charge for it later.
+    const { error: closeError } = await updateGenerationJob(admin, job.id, {
+      status: "failed",
+      locked_at: null,
+      last_error: "The avatar could not be marked as generating.",
+      completed_at: new Date().toISOString(),
+    });
+    if (closeError) {
+      logger.error({
+        scope: SCOPE,
+        msg: "Failed to close generation job after avatar update failed",
+        requestId,
+        userId: user.id,
+        avatarId: avatar.id,
+        jobId: job.id,
+        err: closeError,
+      });
+    }
+    return jsonError("Could not start generation.", 500);
+  }
+
+  const outcome = await processGenerationJob(admin, job as GenerationJob, requestId);
+  if (outcome.status === "over_quota") {
+    return jsonError(outcome.message, 429, { code: QUOTA_EXCEEDED_CODE });
+  }
+  const { status } = outcome;
+
+  logger.info({
+    scope: SCOPE,
+    msg: status === "dispatched" ? "Avatar generation dispatched" : "Avatar generation queued for retry",
+    requestId,
+    userId: user.id,
+    avatarId: avatar.id,
+    jobId: job.id,
+    operation,
+    http: { ...http, status: 202 },
+  });
+
+  return NextResponse.json({ jobId: job.id, status }, { status: 202 });
+}
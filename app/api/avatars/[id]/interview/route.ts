@@ -0,0 +1,145 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { jsonError, readJsonBody, requireAvatar, requireRateLimit } from "@/lib/api/route-context";
+import { getLlmProvider, type LlmProvider } from "@/lib/llm";
+import { logger } from "@/lib/logger";
+import { buildInterviewMessages, conversationTitle, parseInterviewRequest } from "@/lib/persona-chat";
+import {
+  createConversation,
+  getConversationById,
+  getConversationMessages,
+  insertConversationMessages,
+  touchConversation,
+} from "@/lib/supabase/conversations";
+import type { AvatarConversation, AvatarConversationMessage } from "@/lib/types/conversations";
+
+const SCOPE = "http.avatar.interview";
+
+/**
+ * Sends one interview question to the configured LLM provider in the avatar's voice. Both sides of the exchange are
+ * stored only once the provider has answered, so a failed call never leaves an unanswered question in the transcript.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const result = await requireAvatar(request, params.id, SCOPE, "viewer");
+  if (!result.ok) return result.response;
+
+  const rateLimit = await requireRateLimit(result.context, SCOPE, "avatar.interview");
+  if (!rateLimit.ok) return rateLimit.response;
+
+  const { requestId, http, supabase, user, avatar } = result.context;
+  const parsed = parseInterviewRequest(await readJsonBody(request));
+
+  if (!parsed.ok) {
+    return jsonError("Invalid interview message.", 422, { details: parsed.errors });
+  }
+
+  const { conversationId, message } = parsed.value;
+  const context = { scope: SCOPE, requestId, userId: user.id, avatarId: avatar.id, http };
+
+  let history: AvatarConversationMessage[] = [];
+  if (conversationId) {
+    const { data: conversation, error } = await getConversationById(supabase, conversationId, user.id);
+    if (error || !conversation || conversation.avatar_id !== avatar.id) {
+      logger.warn({
+        ...context,
+        msg: "Interview conversation not found",
+        http: { ...http, status: 404 },
+        err: error ?? undefined,
+      });
+      return jsonError("Conversation not found.", 404);
+    }
+
+    const { data: messages, error: messagesError } = await getConversationMessages(supabase, conversationId, user.id);
+    if (messagesError) {
+      logger.error({
+        ...context,
+        msg: "Failed to load interview transcript",
+        http: { ...http, status: 500 },
+        err: messagesError,
+      });
+      return jsonError("Could not load this conversation.", 500);
+    }
+    history = (messages ?? []) as AvatarConversationMessage[];
+  }
+
+  let provider: LlmProvider;
+  try {
+    provider = getLlmProvider();
+  } catch (error) {
+    logger.error({ ...context, msg: "LLM provider misconfigured", http: { ...http, status: 500 }, err: error });
+    return jsonError("The interview model is not configured.", 500);
+  }
+
+  const askedAt = new Date().toISOString();
+  let reply: string;
+  try {
+    reply = await provider.complete(buildInterviewMessages(avatar, history, message), {
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+    });
+  } catch (error) {
+    logger.error({
+      ...context,
+      msg: "Interview model call failed",
+      externalService: `llm.${provider.name}`,
+      http: { ...http, status: 502 },
+      err: error,
+    });
+    return jsonError(`${avatar.name} didn’t answer. Try asking again.`, 502);
+  }
+
+  let conversation: Pick<AvatarConversation, "id">;
+  if (conversationId) {
+    conversation = { id: conversationId };
+    await touchConversation(supabase, conversationId, user.id, { provider: provider.name, model: provider.model });
+  } else {
+    const { data, error } = await createConversation(supabase, {
+      avatar_id: avatar.id,
+      user_id: user.id,
+      title: conversationTitle(message),
+      provider: provider.name,
+      model: provider.model,
+    });
+    if (error || !data) {
+      logger.error({
+        ...context,
+        msg: "Failed to create interview conversation",
+        http: { ...http, status: 500 },
+        err: error ?? new Error("Conversation insert returned empty response"),
+      });
+      return jsonError("Could not save this conversation.", 500);
+    }
+    conversation = data;
+  }
+
+  const { data: saved, error: saveError } = await insertConversationMessages(supabase, [
+    { conversation_id: conversation.id, user_id: user.id, role: "user", content: message, created_at: askedAt },
+    {
+      conversation_id: conversation.id,
+      user_id: user.id,
+      role: "assistant",
+      content: reply,
+      created_at: new Date().toISOString(),
+    },
+  ]);
+
+  if (saveError) {
+    logger.error({
+      ...context,
+      msg: "Failed to save interview messages",
+      http: { ...http, status: 500 },
+      err: saveError,
+    });
+    return jsonError("Could not save this exchange.", 500);
+  }
+
+  logger.info({
+    ...context,
+    msg: "Interview question answered",
+    http: { ...http, status: 200 },
+    payloadSummary: { conversationId: conversation.id, provider: provider.name, turns: history.length / 2 + 1 },
+  });
+
+  return NextResponse.json({ conversationId: conversation.id, messages: saved ?? [] });
+}
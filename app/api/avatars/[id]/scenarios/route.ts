@@ -0,0 +1,124 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  jsonError,
+  readJsonBody,
+  requireAvatar,
+  requireGenerationQuota,
+  requireRateLimit,
+} from "@/lib/api/route-context";
+import { enqueueGenerationJob, processGenerationJob } from "@/lib/generation-queue";
+import { logger } from "@/lib/logger";
+import { buildScenarioJobPayload, fromScenarioPrompt, parseScenarioRequests } from "@/lib/scenario-prompt";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { getScenarioPromptsByIds } from "@/lib/supabase/scenario-prompts";
+import type { GenerationJob } from "@/lib/types/generation-jobs";
+import type { ScenarioPrompt } from "@/lib/types/scenario-prompts";
+import { QUOTA_EXCEEDED_CODE } from "@/lib/usage";
+
+const SCOPE = "http.avatar.scenario";
+
+/** Requests one scene job per picked scenario. Library prompts are loaded here so their saved fields are used. */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const result = await requireAvatar(request, params.id, SCOPE);
+  if (!result.ok) return result.response;
+
+  const rateLimit = await requireRateLimit(result.context, SCOPE, "avatar.scenarios");
+  if (!rateLimit.ok) return rateLimit.response;
+
+  const { requestId, http, supabase, user, avatar } = result.context;
+  const body = (await readJsonBody(request)) ?? {};
+  const parsed = parseScenarioRequests(body);
+  if (!parsed.ok) {
+    return jsonError(parsed.errors.join(" "), 400);
+  }
+
+  if (avatar.status !== "ready") {
+    return jsonError("Scenes can only be generated once the avatar is ready.", 409);
+  }
+
+  const { promptIds, custom } = parsed.value;
+  const { data: promptRows, error: promptsError } = await getScenarioPromptsByIds(supabase, promptIds, user.id);
+  if (promptsError) {
+    logger.error({
+      scope: SCOPE,
+      msg: "Failed to load scenario prompts",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      http: { ...http, status: 500 },
+      err: promptsError,
+    });
+    return jsonError("Could not load the selected scenario prompts.", 500);
+  }
+
+  const prompts = (promptRows ?? []) as ScenarioPrompt[];
+  const missing = promptIds.filter((id) => !prompts.some((prompt) => prompt.id === id));
+  if (missing.length > 0) {
+    return jsonError("Some selected scenario prompts no longer exist.", 404, { details: missing });
+  }
+
+  const scenarios = [
+    ...promptIds.map((id) => fromScenarioPrompt(prompts.find((prompt) => prompt.id === id)!)),
+    ...custom,
+  ];
+
+  const imageCount = scenarios.reduce((total, scenario) => total + scenario.image_count, 0);
+  const quota = await requireGenerationQuota(result.context, SCOPE, "scenario", imageCount);
+  if (!quota.ok) return quota.response;
+
+  const admin = createSupabaseAdminClient();
+  const jobs: { jobId: string; status: string; label: string | null }[] = [];
+
+  for (const scenario of scenarios) {
+    const payload = buildScenarioJobPayload(scenario);
+    const { data: job, error: jobError } = await enqueueGenerationJob(admin, {
+      userId: avatar.user_id,
+      requestedBy: user.id,
+      avatarId: avatar.id,
+      kind: "scenario",
+      payload,
+    });
+
+    if (jobError || !job) {
+      logger.error({
+        scope: SCOPE,
+        msg: "Failed to enqueue scenario generation",
+        requestId,
+        userId: user.id,
+        avatarId: avatar.id,
+        http: { ...http, status: 500 },
+        payloadSummary: { requested: scenarios.length, enqueued: jobs.length },
+        err: jobError ?? new Error("Job insert returned empty response"),
+      });
+      return jobs.length === 0
+        ? jsonError("Could not request new scenes.", 500)
+        : jsonError(`Only ${jobs.length} of ${scenarios.length} scene requests could be queued.`, 500, { jobs });
+    }
+
+    const outcome = await processGenerationJob(admin, job as GenerationJob, requestId);
+    if (outcome.status === "over_quota") {
+      // Another request used up the quota since the check above; report what did get through.
+      return jsonError(outcome.message, 429, { code: QUOTA_EXCEEDED_CODE, jobs });
+    }
+    const { status } = outcome;
+    jobs.push({ jobId: job.id, status, label: payload.image_label });
+
+    logger.info({
+      scope: SCOPE,
+      msg: status === "dispatched" ? "Scenario generation dispatched" : "Scenario generation queued for retry",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      jobId: job.id,
+      http: { ...http, status: 202 },
+      payloadSummary: {
+        scenarioPromptId: scenario.scenario_prompt_id,
+        imageCount: scenario.image_count,
+        prompt: payload.scenario_prompt?.slice(0, 64),
+      },
+    });
+  }
+
+  return NextResponse.json({ jobs }, { status: 202 });
+}
@@ -0,0 +1,173 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  jsonError,
+  readJsonBody,
+  requireGenerationQuota,
+  requireRateLimit,
+  requireWorkspace,
+} from "@/lib/api/route-context";
+import { parseAvatarImportRequest, previewAvatarImport, type ImportedAvatarImage } from "@/lib/avatar-import";
+import { scheduleGenerationJobs } from "@/lib/generation-queue";
+import { logger } from "@/lib/logger";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import {
+  copyAvatarObject,
+  createAvatars,
+  deleteAvatarRows,
+  insertAvatarImages,
+  removeAvatarObjects,
+} from "@/lib/supabase/avatars";
+
+const SCOPE = "http.avatar.import";
+
+export async function POST(request: NextRequest) {
+  const result = await requireWorkspace(request, SCOPE);
+  if (!result.ok) return result.response;
+
+  const rateLimit = await requireRateLimit(result.context, SCOPE, "avatar.import");
+  if (!rateLimit.ok) return rateLimit.response;
+
+  const { requestId, http, supabase, user, membership } = result.context;
+  const parsed = parseAvatarImportRequest(await readJsonBody(request));
+
+  if (!parsed.ok) {
+    logger.warn({
+      scope: SCOPE,
+      msg: "Rejected invalid import request",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 422 },
+      payloadSummary: { errors: parsed.errors },
+    });
+    return jsonError("Invalid import.", 422, { details: parsed.errors });
+  }
+
+  // The browser shows the same dry run before submitting; it is repeated here so nothing invalid is written.
+  const rows = previewAvatarImport(parsed.value, user.id);
+  const invalidRows = rows.filter((row) => row.errors.length > 0);
+  if (invalidRows.length > 0) {
+    logger.warn({
+      scope: SCOPE,
+      msg: "Rejected import with invalid rows",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 422 },
+      payloadSummary: { rows: rows.length, invalid: invalidRows.length },
+    });
+    return jsonError(`${invalidRows.length} row${invalidRows.length === 1 ? " is" : "s are"} invalid.`, 422, {
+      details: invalidRows.map(({ row, errors }) => ({ row, errors })),
+    });
+  }
+
+  const context = { scope: SCOPE, requestId, userId: user.id, http };
+
+  // Ids are assigned up front so copied images and queued jobs can point at their avatar before it is inserted.
+  const planned = rows.map(({ avatar, operation }) => ({
+    avatar: avatar!,
+    operation,
+    id: crypto.randomUUID(),
+    jobId: operation ? crypto.randomUUID() : null,
+  }));
+
+  const generationCount = planned.filter((entry) => entry.operation).length;
+  if (generationCount > 0) {
+    const quota = await requireGenerationQuota(result.context, SCOPE, "avatar", generationCount);
+    if (!quota.ok) return quota.response;
+  }
+
+  // Referenced images are copied into the new avatar's folder, so deleting either avatar never removes the other's
+  // files.
+  const copiedPaths: string[] = [];
+  const images: (ImportedAvatarImage & { avatar_id: string; user_id: string })[] = [];
+  for (const { avatar, id } of planned) {
+    for (const [index, image] of avatar.images.entries()) {
+      const fileName = image.storage_path.split("/").pop();
+      const storagePath = `${user.id}/${id}/imported-${index}-${fileName}`;
+      const { error } = await copyAvatarObject(supabase, image.storage_path, storagePath);
+      if (error) {
+        logger.error({
+          ...context,
+          msg: "Failed to copy imported image",
+          payloadSummary: { from: image.storage_path },
+          err: error,
+        });
+        await removeAvatarObjects(supabase, copiedPaths);
+        return jsonError(`Could not copy ${image.storage_path}. Check that the file still exists.`, 500);
+      }
+      copiedPaths.push(storagePath);
+      images.push({ ...image, storage_path: storagePath, avatar_id: id, user_id: user.id });
+    }
+  }
+
+  const avatars = planned.map(({ avatar: { images: avatarImages, ...fields }, operation, id, jobId }) => ({
+    ...fields,
+    id,
+    user_id: user.id,
+    workspace_id: membership.workspace_id,
+    profile_image_path:
+      images.find((image) => image.avatar_id === id && image.is_primary && image.type === "profile")?.storage_path ??
+      null,
+    // Queued rows wait as pending for the worker; the rest are ready only if they arrived with a persona.
+    status: !operation && fields.persona_summary ? ("ready" as const) : ("pending" as const),
+    n8n_job_id: jobId,
+  }));
+
+  const rollback = async () => {
+    await deleteAvatarRows(
+      supabase,
+      avatars.map((avatar) => avatar.id),
+      user.id
+    );
+    await removeAvatarObjects(supabase, copiedPaths);
+  };
+
+  const { error: avatarsError } = await createAvatars(supabase, avatars);
+  if (avatarsError) {
+    logger.error({ ...context, msg: "Failed to insert imported avatars", err: avatarsError });
+    await removeAvatarObjects(supabase, copiedPaths);
+    return jsonError("Could not create the imported avatars.", 500);
+  }
+
+  if (images.length > 0) {
+    const { error: imagesError } = await insertAvatarImages(supabase, images);
+    if (imagesError) {
+      logger.error({ ...context, msg: "Failed to insert imported image records", err: imagesError });
+      await rollback();
+      return jsonError("Could not save the imported images.", 500);
+    }
+  }
+
+  const jobs = planned
+    .filter((entry) => entry.operation && entry.jobId)
+    .map((entry) => ({
+      id: entry.jobId!,
+      userId: user.id,
+      avatarId: entry.id,
+      kind: "avatar" as const,
+      payload: { operation: entry.operation },
+    }));
+
+  if (jobs.length > 0) {
+    const { error: jobsError } = await scheduleGenerationJobs(createSupabaseAdminClient(), jobs);
+    if (jobsError) {
+      logger.error({ ...context, msg: "Failed to queue generation for imported avatars", err: jobsError });
+      await rollback();
+      return jsonError("Could not queue generation for the imported avatars.", 500);
+    }
+  }
+
+  logger.info({
+    ...context,
+    msg: "Avatars imported",
+    http: { ...http, status: 201 },
+    payloadSummary: {
+      created: avatars.length,
+      queued: jobs.length,
+      images: images.length,
+      generation: parsed.value.generation,
+    },
+  });
+
+  return NextResponse.json({ created: avatars.length, queued: jobs.length }, { status: 201 });
+}
@@ -0,0 +1,106 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  jsonError,
+  readJsonBody,
+  requireGenerationQuota,
+  requireRateLimit,
+  requireWorkspace,
+} from "@/lib/api/route-context";
+import { buildCohortAvatars, parseCohortRequest } from "@/lib/cohorts";
+import { scheduleGenerationJobs } from "@/lib/generation-queue";
+import { logger } from "@/lib/logger";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { createAvatars } from "@/lib/supabase/avatars";
+import { createCohort, deleteCohortWithAvatars } from "@/lib/supabase/cohorts";
+
+const SCOPE = "http.cohort.create";
+
+export async function POST(request: NextRequest) {
+  const result = await requireWorkspace(request, SCOPE);
+  if (!result.ok) return result.response;
+
+  const rateLimit = await requireRateLimit(result.context, SCOPE, "cohort.create");
+  if (!rateLimit.ok) return rateLimit.response;
+
+  const { requestId, http, supabase, user, membership } = result.context;
+  const parsed = parseCohortRequest(await readJsonBody(request));
+
+  if (!parsed.ok) {
+    logger.warn({
+      scope: SCOPE,
+      msg: "Rejected invalid cohort request",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 422 },
+      payloadSummary: { errors: parsed.errors },
+    });
+    return jsonError("Invalid cohort.", 422, { details: parsed.errors });
+  }
+
+  const cohortRequest = parsed.value;
+  const quota = await requireGenerationQuota(result.context, SCOPE, "avatar", cohortRequest.size);
+  if (!quota.ok) return quota.response;
+
+  const { data: cohort, error: cohortError } = await createCohort(supabase, {
+    user_id: user.id,
+    name: cohortRequest.name,
+    size: cohortRequest.size,
+    distribution: cohortRequest.distribution,
+  });
+
+  if (cohortError || !cohort) {
+    logger.error({
+      scope: SCOPE,
+      msg: "Failed to create cohort",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 500 },
+      err: cohortError ?? new Error("Cohort insert returned empty response"),
+    });
+    return jsonError("Could not create the cohort.", 500);
+  }
+
+  const context = { scope: SCOPE, requestId, userId: user.id, http, payloadSummary: { cohortId: cohort.id } };
+
+  // Ids are assigned up front so each avatar already points at its job when the callback arrives.
+  const members = buildCohortAvatars(cohortRequest, user.id, cohort.id).map((avatar) => ({
+    ...avatar,
+    workspace_id: membership.workspace_id,
+    id: crypto.randomUUID(),
+    n8n_job_id: crypto.randomUUID(),
+  }));
+
+  const { error: avatarsError } = await createAvatars(supabase, members);
+  if (avatarsError) {
+    logger.error({ ...context, msg: "Failed to insert cohort avatars", err: avatarsError });
+    await deleteCohortWithAvatars(supabase, cohort.id, user.id);
+    return jsonError("Could not create the cohort’s avatars.", 500);
+  }
+
+  const { error: jobsError } = await scheduleGenerationJobs(
+    createSupabaseAdminClient(),
+    members.map((avatar) => ({
+      id: avatar.n8n_job_id,
+      userId: user.id,
+      avatarId: avatar.id,
+      kind: "avatar" as const,
+      payload: { operation: "generate", cohort_id: cohort.id },
+    }))
+  );
+
+  if (jobsError) {
+    logger.error({ ...context, msg: "Failed to queue cohort generation", err: jobsError });
+    await deleteCohortWithAvatars(supabase, cohort.id, user.id);
+    return jsonError("Could not queue generation for this cohort.", 500);
+  }
+
+  logger.info({
+    ...context,
+    msg: "Cohort created and queued",
+    http: { ...http, status: 201 },
+    payloadSummary: { cohortId: cohort.id, size: members.length },
+  });
+
+  return NextResponse.json({ cohortId: cohort.id, size: members.length }, { status: 201 });
+}
@@ -0,0 +1,103 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  jsonError,
+  readJsonBody,
+  requireGenerationQuota,
+  requireRateLimit,
+  requireUser,
+} from "@/lib/api/route-context";
+import { scheduleGenerationJobs } from "@/lib/generation-queue";
+import { logger } from "@/lib/logger";
+import { parseScenarioPrompt } from "@/lib/scenario-prompt";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { getCollectionAvatars, getCollectionById } from "@/lib/supabase/collections";
+import { getWorkspaceMemberships } from "@/lib/supabase/workspaces";
+import type { Avatar } from "@/lib/types/avatars";
+import type { WorkspaceMember } from "@/lib/types/workspaces";
+import { hasWorkspaceRole } from "@/lib/workspaces";
+
+const SCOPE = "http.collection.scenario";
+
+/**
+ * Queues one scene request for every ready avatar in the collection, paced like cohort generation. Avatars from
+ * workspaces where the caller is only a viewer are skipped.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const result = await requireUser(request, SCOPE);
+  if (!result.ok) return result.response;
+
+  const rateLimit = await requireRateLimit(result.context, SCOPE, "collection.scenarios");
+  if (!rateLimit.ok) return rateLimit.response;
+
+  const { requestId, http, supabase, user } = result.context;
+  const context = { scope: SCOPE, requestId, userId: user.id, http, payloadSummary: { collectionId: params.id } };
+
+  const body = (await readJsonBody(request)) ?? {};
+  const parsedPrompt = parseScenarioPrompt(body.scenario_prompt);
+  if (!parsedPrompt.ok) {
+    return jsonError(parsedPrompt.errors.join(" "), 400);
+  }
+  const scenarioPrompt = parsedPrompt.value;
+
+  const { data: collection, error: collectionError } = await getCollectionById(supabase, params.id, user.id);
+  if (collectionError) {
+    logger.error({ ...context, msg: "Failed to load collection", err: collectionError });
+    return jsonError("Could not load collection.", 500);
+  }
+  if (!collection) {
+    return jsonError("Collection not found.", 404);
+  }
+
+  const { data: avatarRows, error: avatarsError } = await getCollectionAvatars(supabase, params.id, user.id);
+  if (avatarsError) {
+    logger.error({ ...context, msg: "Failed to load collection avatars", err: avatarsError });
+    return jsonError("Could not load collection.", 500);
+  }
+
+  const { data: memberships, error: membershipsError } = await getWorkspaceMemberships(supabase, user.id);
+  if (membershipsError) {
+    logger.error({ ...context, msg: "Failed to load workspaces", err: membershipsError });
+    return jsonError("Could not load collection.", 500);
+  }
+  const editableWorkspaceIds = ((memberships ?? []) as WorkspaceMember[])
+    .filter((membership) => hasWorkspaceRole(membership.role, "editor"))
+    .map((membership) => membership.workspace_id);
+
+  const readyAvatars = ((avatarRows ?? []) as Avatar[]).filter(
+    (avatar) => avatar.status === "ready" && editableWorkspaceIds.includes(avatar.workspace_id)
+  );
+  const skipped = (avatarRows?.length ?? 0) - readyAvatars.length;
+
+  if (readyAvatars.length === 0) {
+    return jsonError("No avatars in this collection are ready for scenes, or you can only view them.", 409);
+  }
+
+  const quota = await requireGenerationQuota(result.context, SCOPE, "scenario", readyAvatars.length);
+  if (!quota.ok) return quota.response;
+
+  const { data: jobs, error: jobsError } = await scheduleGenerationJobs(
+    createSupabaseAdminClient(),
+    readyAvatars.map((avatar) => ({
+      userId: avatar.user_id,
+      requestedBy: user.id,
+      avatarId: avatar.id,
+      kind: "scenario" as const,
+      payload: { scenario_prompt: scenarioPrompt ?? null, collection_id: params.id },
+    }))
+  );
+
+  if (jobsError) {
+    logger.error({ ...context, msg: "Failed to queue collection scenes", err: jobsError });
+    return jsonError("Could not request new scenes.", 500);
+  }
+
+  logger.info({
+    ...context,
+    msg: "Collection scenario generation queued",
+    http: { ...http, status: 202 },
+    payloadSummary: { collectionId: params.id, queued: jobs?.length ?? 0, skipped },
+  });
+
+  return NextResponse.json({ queued: jobs?.length ?? 0, skipped }, { status: 202 });
+}
@@ -0,0 +1,180 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { jsonError } from "@/lib/api/route-context";
+import { createRequestId, logger } from "@/lib/logger";
+import { getShareLinkState, toSharedAvatar } from "@/lib/share-links";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { isImageInAvatarFolder, resolveAvatarImageUrls } from "@/lib/supabase/avatar-urls";
+import { getAvatarById, getAvatarImages, getPrimaryAvatarImages } from "@/lib/supabase/avatars";
+import { getCollectionAvatars, getCollectionById } from "@/lib/supabase/collections";
+import { getShareLinkByToken, recordShareLinkView } from "@/lib/supabase/share-links";
+import { getWorkspaceMemberships } from "@/lib/supabase/workspaces";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+import type { AvatarCollection } from "@/lib/types/collections";
+import type { ShareLink, SharedAvatarDetail, SharedCollection, SharedContent } from "@/lib/types/share-links";
+import type { WorkspaceMembership } from "@/lib/types/workspaces";
+import { hasWorkspaceRole } from "@/lib/workspaces";
+
+const SCOPE = "http.share.view";
+// Signed URLs handed to anonymous viewers are short-lived; the share page refetches before they expire. Every response
+// signs fresh URLs, since a cached one could be close to expiring.
+const SHARE_URL_OPTIONS = { expiresIn: 60 * 60, cache: false };
+const NO_STORE = { "Cache-Control": "private, no-store" };
+
+/**
+ * Workspaces the link owner can still publish from. The service role bypasses RLS, so this re-checks what the share
+ * policy checked at publish time: owners who lost editor rights, or left the workspace, stop sharing its avatars.
+ */
+async function getPublishableWorkspaceIds(admin: SupabaseClient, userId: string) {
+  const { data, error } = await getWorkspaceMemberships(admin, userId);
+  if (error) throw error;
+  return new Set(
+    ((data ?? []) as WorkspaceMembership[])
+      .filter((membership) => hasWorkspaceRole(membership.role, "editor"))
+      .map((membership) => membership.workspace_id)
+  );
+}
+
+async function loadAvatarDetail(admin: SupabaseClient, avatar: Avatar): Promise<SharedAvatarDetail> {
+  const { data, error } = await getAvatarImages(admin, avatar.id);
+  if (error) throw error;
+
+  // Only sign files from the avatar's own folder, whatever paths the image rows claim
+  const images = ((data ?? []) as AvatarImage[]).filter((image) => isImageInAvatarFolder(image, avatar));
+  const [originals, mediums] = await Promise.all([
+    resolveAvatarImageUrls(admin, images, SHARE_URL_OPTIONS),
+    resolveAvatarImageUrls(admin, images, { ...SHARE_URL_OPTIONS, size: "medium" }),
+  ]);
+
+  return {
+    avatar: toSharedAvatar(avatar),
+    images: images
+      .filter((image) => originals.urls[image.id])
+      .map((image) => ({
+        id: image.id,
+        type: image.type,
+        label: image.label,
+        description: image.description,
+        tags: image.tags,
+        is_primary: image.is_primary,
+        url: originals.urls[image.id],
+        medium_url: mediums.urls[image.id] ?? originals.urls[image.id],
+      })),
+  };
+}
+
+async function loadCollection(admin: SupabaseClient, collection: AvatarCollection, avatars: Avatar[]) {
+  const { data, error } = await getPrimaryAvatarImages(admin, avatars.map((avatar) => avatar.id));
+  if (error) throw error;
+
+  const avatarsById = new Map(avatars.map((avatar) => [avatar.id, avatar]));
+  const primaryImages = ((data ?? []) as AvatarImage[]).filter((image) => {
+    const avatar = avatarsById.get(image.avatar_id);
+    return avatar ? isImageInAvatarFolder(image, avatar) : false;
+  });
+  const { urls } = await resolveAvatarImageUrls(admin, primaryImages, { ...SHARE_URL_OPTIONS, size: "thumbnail" });
+  const thumbnailByAvatar = new Map(primaryImages.map((image) => [image.avatar_id, urls[image.id] ?? null]));
+
+  const shared: SharedCollection = {
+    collection: { name: collection.name, description: collection.description },
+    avatars: avatars.map((avatar) => ({
+      ...toSharedAvatar(avatar),
+      thumbnail_url: thumbnailByAvatar.get(avatar.id) ?? null,
+    })),
+  };
+  return shared;
+}
+
+/**
+ * Public, read-only view of a shared avatar or collection. There is no session here: the token is the credential,
+ * so data is read with the service role and only the fields in `SharedAvatar` plus short-lived signed image URLs
+ * leave the server. For collection links, `?avatar=<id>` opens one member avatar.
+ */
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  // The token is a credential, so it never goes into logs.
+  const http = { method: request.method, path: "/api/share/[token]" };
+  const memberId = request.nextUrl.searchParams.get("avatar");
+
+  let admin: SupabaseClient;
+  try {
+    admin = createSupabaseAdminClient();
+  } catch (error) {
+    logger.error({ scope: SCOPE, msg: "Share links need the service role", requestId, http, err: error });
+    return jsonError("Sharing is not configured.", 500);
+  }
+
+  const { data: linkRow, error: linkError } = await getShareLinkByToken(admin, params.token);
+  if (linkError) {
+    logger.error({
+      scope: SCOPE,
+      msg: "Failed to load share link",
+      requestId,
+      http: { ...http, status: 500 },
+      err: linkError,
+    });
+    return jsonError("Could not open this link.", 500);
+  }
+  if (!linkRow) {
+    logger.warn({ scope: SCOPE, msg: "Unknown share token", requestId, http: { ...http, status: 404 } });
+    return jsonError("This share link does not exist.", 404);
+  }
+
+  const link = linkRow as ShareLink;
+  const context = { scope: SCOPE, requestId, userId: link.user_id, http, payloadSummary: { shareLinkId: link.id } };
+  const state = getShareLinkState(link);
+  if (state !== "active") {
+    logger.info({ ...context, msg: "Inactive share link opened", http: { ...http, status: 410 } });
+    return jsonError(state === "revoked" ? "This share link has been revoked." : "This share link has expired.", 410);
+  }
+
+  try {
+    let content: SharedContent | null = null;
+    const publishable = await getPublishableWorkspaceIds(admin, link.user_id);
+
+    if (link.avatar_id) {
+      const { data: avatar, error } = await getAvatarById(admin, link.avatar_id);
+      if (error) throw error;
+      if (avatar && publishable.has((avatar as Avatar).workspace_id)) {
+        content = { kind: "avatar", expiresAt: link.expires_at, ...(await loadAvatarDetail(admin, avatar as Avatar)) };
+      }
+    } else if (link.collection_id) {
+      const [{ data: collection, error }, { data: members, error: membersError }] = await Promise.all([
+        getCollectionById(admin, link.collection_id, link.user_id),
+        getCollectionAvatars(admin, link.collection_id, link.user_id),
+      ]);
+      if (error || membersError) throw error ?? membersError;
+
+      const avatars = ((members ?? []) as Avatar[]).filter((avatar) => publishable.has(avatar.workspace_id));
+      if (collection && memberId) {
+        const member = avatars.find((avatar) => avatar.id === memberId);
+        if (member) {
+          content = { kind: "avatar", expiresAt: link.expires_at, ...(await loadAvatarDetail(admin, member)) };
+        }
+      } else if (collection) {
+        content = {
+          kind: "collection",
+          expiresAt: link.expires_at,
+          ...(await loadCollection(admin, collection as AvatarCollection, avatars)),
+        };
+      }
+    }
+
+    if (!content) {
+      logger.warn({ ...context, msg: "Shared content no longer exists", http: { ...http, status: 404 } });
+      return jsonError("The shared persona is no longer available.", 404);
+    }
+
+    const { error: viewError } = await recordShareLinkView(admin, link);
+    if (viewError) {
+      logger.warn({ ...context, msg: "Failed to record share link view", err: viewError });
+    }
+
+    logger.info({ ...context, msg: "Share link viewed", avatarId: memberId ?? link.avatar_id ?? undefined });
+    return NextResponse.json(content, { headers: NO_STORE });
+  } catch (error) {
+    logger.error({ ...context, msg: "Failed to load shared content", http: { ...http, status: 500 }, err: error });
+    return jsonError("Could not open this link.", 500);
+  }
+}
@@ -0,0 +1,258 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { createRequestId, logger, safeSummary } from "@/lib/logger";
+import { parseAvatarCallback } from "@/lib/n8n-callback";
+import { verifyWebhookRequest } from "@/lib/n8n-signature";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import { avatarFolder } from "@/lib/supabase/avatar-urls";
+import {
+  AVATAR_BUCKET,
+  clearPrimaryAvatarImages,
+  getAvatarById,
+  insertAvatarImage,
+  insertPersonaHistory,
+  updateAvatar,
+} from "@/lib/supabase/avatars";
+import { getGenerationJobById, updateGenerationJob } from "@/lib/supabase/generation-jobs";
+import type { Avatar, AvatarGenerationOperation } from "@/lib/types/avatars";
+
+const SCOPE = "webhook.callback";
+const EVENT_TYPE = "avatar.generation.completed";
+
+type LogFields = { scope: string; requestId: string; userId: string; avatarId: string; jobId?: string; eventType: string };
+
+async function getJobOperation(supabase: SupabaseClient, jobId: string | null): Promise<AvatarGenerationOperation> {
+  if (!jobId) return "generate";
+  const { data } = await getGenerationJobById(supabase, jobId);
+  return data?.payload?.operation ?? "generate";
+}
+
+async function settleGenerationJob(
+  supabase: SupabaseClient,
+  jobId: string | null,
+  status: "completed" | "failed",
+  lastError: string | null,
+  context: LogFields
+) {
+  if (!jobId) return;
+  const { error } = await updateGenerationJob(supabase, jobId, {
+    status,
+    last_error: lastError,
+    completed_at: new Date().toISOString(),
+  });
+  if (error) {
+    logger.warn({ ...context, msg: "Could not update generation job from callback", err: error });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const http = { method: request.method, path: request.nextUrl.pathname };
+  const secret = process.env.N8N_WEBHOOK_SECRET;
+
+  if (!secret) {
+    logger.error({
+      scope: SCOPE,
+      msg: "Webhook secret missing",
+      requestId,
+      eventType: EVENT_TYPE,
+      http: { ...http, status: 500 },
+      err: new Error("N8N_WEBHOOK_SECRET is not configured."),
+    });
+    return NextResponse.json({ error: "Callback endpoint is not configured." }, { status: 500 });
+  }
+
+  const rawBody = await request.text();
+  const verification = await verifyWebhookRequest(request.headers, rawBody, secret);
+
+  if (!verification.ok) {
+    logger.warn({
+      scope: SCOPE,
+      msg: "Rejected callback with invalid signature",
+      requestId,
+      eventType: EVENT_TYPE,
+      http: { ...http, status: 401 },
+      payloadSummary: { reason: verification.reason },
+    });
+    return NextResponse.json({ error: "Invalid signature.", reason: verification.reason }, { status: 401 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(rawBody);
+  } catch (error) {
+    return NextResponse.json({ error: "Body must be valid JSON." }, { status: 400 });
+  }
+
+  const parsed = parseAvatarCallback(body);
+  if (!parsed.ok) {
+    logger.warn({
+      scope: SCOPE,
+      msg: "Rejected malformed callback payload",
+      requestId,
+      eventType: EVENT_TYPE,
+      http: { ...http, status: 422 },
+      payloadSummary: safeSummary(parsed.errors),
+    });
+    return NextResponse.json({ error: "Invalid payload.", details: parsed.errors }, { status: 422 });
+  }
+
+  const payload = parsed.value;
+  const context = {
+    scope: SCOPE,
+    requestId,
+    userId: payload.userId,
+    avatarId: payload.avatarId,
+    jobId: payload.jobId ?? undefined,
+    eventType: EVENT_TYPE,
+  };
+  const supabase = createSupabaseAdminClient();
+
+  const { data: avatarRow, error: avatarError } = await getAvatarById(supabase, payload.avatarId, payload.userId);
+  if (avatarError) {
+    logger.error({ ...context, msg: "Failed to load avatar for callback", http: { ...http, status: 500 }, err: avatarError });
+    return NextResponse.json({ error: "Could not load avatar." }, { status: 500 });
+  }
+  if (!avatarRow) {
+    logger.warn({ ...context, msg: "Callback referenced unknown avatar", http: { ...http, status: 404 } });
+    return NextResponse.json({ error: "Avatar not found." }, { status: 404 });
+  }
+
+  const avatar = avatarRow as Avatar;
+
+  if (payload.jobId && avatar.n8n_job_id && avatar.n8n_job_id !== payload.jobId) {
+    logger.warn({
+      ...context,
+      msg: "Callback job id does not match the avatar's current job",
+      http: { ...http, status: 409 },
+      payloadSummary: { currentJobId: avatar.n8n_job_id },
+    });
+    return NextResponse.json({ error: "Job id does not match the current generation." }, { status: 409 });
+  }
+
+  if (avatar.status === "ready" || avatar.status === "failed") {
+    logger.info({ ...context, msg: "Ignoring duplicate callback", http: { ...http, status: 200 } });
+    return NextResponse.json({ ok: true, duplicate: true, status: avatar.status });
+  }
+
+  const operation = await getJobOperation(supabase, payload.jobId);
+  const isRegeneration = operation === "regenerate_persona" || operation === "regenerate_portrait";
+
+  if (payload.status === "failed") {
+    // A failed regeneration keeps the previous persona and images, so the avatar stays usable.
+    const { error } = await updateAvatar(supabase, avatar.id, avatar.user_id, {
+      status: isRegeneration ? "ready" : "failed",
+      failure_reason: payload.error ?? "The generator reported a failure without details.",
+      n8n_job_id: payload.jobId ?? avatar.n8n_job_id ?? null,
+    });
+    if (error) {
+      logger.error({ ...context, msg: "Failed to mark avatar as failed", http: { ...http, status: 500 }, err: error });
+      return NextResponse.json({ error: "Could not update avatar." }, { status: 500 });
+    }
+    await settleGenerationJob(supabase, payload.jobId, "failed", payload.error, context);
+    logger.info({
+      ...context,
+      msg: "Avatar generation reported as failed",
+      http: { ...http, status: 200 },
+      payloadSummary: safeSummary(payload.error),
+    });
+    return NextResponse.json({ ok: true, status: "failed" });
+  }
+
+  if (!payload.personaSummary && !avatar.persona_summary) {
+    logger.warn({ ...context, msg: "Rejected ready callback without a persona", http: { ...http, status: 422 } });
+    return NextResponse.json(
+      { error: "Invalid payload.", details: ["persona_summary is required when status is ready"] },
+      { status: 422 }
+    );
+  }
+
+  if (payload.personaSummary && avatar.persona_summary && payload.personaSummary !== avatar.persona_summary) {
+    const { error: historyError } = await insertPersonaHistory(supabase, {
+      avatar_id: avatar.id,
+      user_id: avatar.user_id,
+      persona_summary: avatar.persona_summary,
+      job_id: avatar.n8n_job_id ?? null,
+      operation,
+    });
+    if (historyError) {
+      logger.error({ ...context, msg: "Failed to archive previous persona", http: { ...http, status: 500 }, err: historyError });
+      return NextResponse.json({ error: "Could not archive the previous persona." }, { status: 500 });
+    }
+  }
+
+  let profileImagePath = avatar.profile_image_path ?? null;
+
+  if (payload.profileImage) {
+    if (!payload.profileImage.storagePath.startsWith(avatarFolder(avatar))) {
+      logger.warn({
+        ...context,
+        msg: "Rejected profile image outside the avatar's storage folder",
+        http: { ...http, status: 422 },
+        payloadSummary: safeSummary(payload.profileImage.storagePath),
+      });
+      return NextResponse.json(
+        { error: `profile_image.storage_path must live under ${AVATAR_BUCKET}/${avatarFolder(avatar)}.` },
+        { status: 422 }
+      );
+    }
+
+    const { error: clearError } = await clearPrimaryAvatarImages(supabase, avatar.id, avatar.user_id);
+    if (clearError) {
+      logger.error({ ...context, msg: "Failed to reset primary images", http: { ...http, status: 500 }, err: clearError });
+      return NextResponse.json({ error: "Could not store profile image." }, { status: 500 });
+    }
+
+    const { data: imageRow, error: imageError } = await insertAvatarImage(supabase, {
+      avatar_id: avatar.id,
+      user_id: avatar.user_id,
+      type: "profile",
+      label: payload.profileImage.label,
+      description: payload.profileImage.description,
+      storage_path: payload.profileImage.storagePath,
+      is_primary: true,
+    });
+
+    if (imageError || !imageRow) {
+      logger.error({
+        ...context,
+        msg: "Failed to store profile image",
+        http: { ...http, status: 500 },
+        err: imageError ?? new Error("Image insert returned empty response"),
+      });
+      return NextResponse.json({ error: "Could not store profile image." }, { status: 500 });
+    }
+
+    profileImagePath = payload.profileImage.storagePath;
+    logger.info({ ...context, msg: "Profile image stored", imageId: imageRow.id });
+  }
+
+  const { error: updateError } = await updateAvatar(supabase, avatar.id, avatar.user_id, {
+    ...payload.profile,
+    persona_summary: payload.personaSummary ?? avatar.persona_summary ?? null,
+    profile_image_path: profileImagePath,
+    status: "ready",
+    failure_reason: null,
+    n8n_job_id: payload.jobId ?? avatar.n8n_job_id ?? null,
+  });
+
+  if (updateError) {
+    logger.error({ ...context, msg: "Failed to store generated persona", http: { ...http, status: 500 }, err: updateError });
+    return NextResponse.json({ error: "Could not update avatar." }, { status: 500 });
+  }
+
+  await settleGenerationJob(supabase, payload.jobId, "completed", null, context);
+  logger.info({
+    ...context,
+    msg: "Avatar generation completed",
+    http: { ...http, status: 200 },
+    payloadSummary: {
+      fields: Object.keys(payload.profile),
+      hasProfileImage: Boolean(payload.profileImage),
+      operation,
+    },
+  });
+
+  return NextResponse.json({ ok: true, status: "ready" });
+}
@@ -0,0 +1,104 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { jsonError, readJsonBody, requireRateLimit, requireUser } from "@/lib/api/route-context";
+import { logger } from "@/lib/logger";
+import { createSupabaseAdminClient } from "@/lib/supabase/admin";
+import {
+  createWorkspaceInvitation,
+  deleteExpiredWorkspaceInvitations,
+  getWorkspaceMembership,
+} from "@/lib/supabase/workspaces";
+import { createLinkToken } from "@/lib/tokens";
+import { buildInvitationUrl, parseInvitationInput } from "@/lib/workspaces";
+
+const SCOPE = "http.workspace.invite";
+
+/**
+ * Invites someone to a workspace by email. New users get a Supabase invite email that signs them up and lands on
+ * the invitation page; existing accounts can't be re-invited that way, so the owner gets a link to pass on instead.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  const result = await requireUser(request, SCOPE);
+  if (!result.ok) return result.response;
+
+  const rateLimit = await requireRateLimit(result.context, SCOPE, "workspace.invite");
+  if (!rateLimit.ok) return rateLimit.response;
+
+  const { requestId, http, supabase, user } = result.context;
+  const context = { scope: SCOPE, requestId, userId: user.id, http, payloadSummary: { workspaceId: params.id } };
+
+  const { data: membership, error: membershipError } = await getWorkspaceMembership(supabase, params.id, user.id);
+  if (membershipError) {
+    logger.error({ ...context, msg: "Failed to load workspace membership", err: membershipError });
+    return jsonError("Could not load this workspace.", 500);
+  }
+  if (!membership) {
+    return jsonError("Workspace not found.", 404);
+  }
+  if (membership.role !== "owner") {
+    logger.warn({ ...context, msg: "Rejected invitation from a non-owner", http: { ...http, status: 403 } });
+    return jsonError("Only workspace owners can invite people.", 403);
+  }
+  if (membership.workspace.is_personal) {
+    return jsonError("Personal workspaces can’t be shared. Create a team workspace first.", 409);
+  }
+
+  const parsed = parseInvitationInput((await readJsonBody(request)) ?? {});
+  if (!parsed.ok) {
+    return jsonError("Invalid invitation.", 422, { details: parsed.errors });
+  }
+
+  const { error: expiredError } = await deleteExpiredWorkspaceInvitations(supabase, params.id, parsed.value.email);
+  if (expiredError) {
+    logger.error({ ...context, msg: "Failed to clear expired invitation", err: expiredError });
+    return jsonError("Could not create the invitation.", 500);
+  }
+
+  const { data: invitation, error: inviteError } = await createWorkspaceInvitation(supabase, {
+    workspace_id: params.id,
+    email: parsed.value.email,
+    role: parsed.value.role,
+    token: createLinkToken(),
+    invited_by: user.id,
+  });
+
+  if (inviteError || !invitation) {
+    // 23505: a pending invitation for this address already exists
+    if (inviteError?.code === "23505") {
+      return jsonError("This address already has a pending invitation.", 409);
+    }
+    logger.error({
+      ...context,
+      msg: "Failed to create invitation",
+      err: inviteError ?? new Error("Invitation insert returned empty response"),
+    });
+    return jsonError("Could not create the invitation.", 500);
+  }
+
+  const inviteUrl = buildInvitationUrl(request.nextUrl.origin, invitation.token);
+  const { error: emailError } = await createSupabaseAdminClient().auth.admin.inviteUserByEmail(parsed.value.email, {
+    redirectTo: inviteUrl,
+  });
+
+  if (emailError) {
+    logger.warn({
+      ...context,
+      msg: "Invitation email not sent, returning a link instead",
+      payloadSummary: { workspaceId: params.id, invitationId: invitation.id, reason: emailError.message },
+    });
+  }
+
+  logger.info({
+    ...context,
+    msg: "Workspace invitation created",
+    http: { ...http, status: 201 },
+    payloadSummary: {
+      workspaceId: params.id,
+      invitationId: invitation.id,
+      role: invitation.role,
+      emailed: !emailError,
+    },
+  });
+
+  return NextResponse.json({ invitation, inviteUrl, emailed: !emailError }, { status: 201 });
+}
@@ -0,0 +1,96 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+
+import { PersonaCard } from "@/components/persona-card";
+import { useAvatarImageUrls } from "@/lib/hooks/use-avatar-image-urls";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { getAvatarById, getPrimaryAvatarImages } from "@/lib/supabase/avatars";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+
+export default function AvatarCardPage({ params }: { params: { id: string } }) {
+  const avatarId = params.id;
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [avatar, setAvatar] = useState<Avatar | null>(null);
+  const [primaryImages, setPrimaryImages] = useState<AvatarImage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const imageUrls = useAvatarImageUrls(supabase, primaryImages, { size: "medium" });
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push("/login");
+        return;
+      }
+
+      const [{ data, error }, { data: primaryRows }] = await Promise.all([
+        getAvatarById(supabase, avatarId),
+        getPrimaryAvatarImages(supabase, [avatarId]),
+      ]);
+      if (error) {
+        logger.error({
+          scope: "http.avatar.export",
+          msg: "Failed to load avatar for persona card",
+          requestId,
+          userId: user.id,
+          avatarId,
+          err: error,
+        });
+      }
+      if (!isMounted) return;
+
+      setAvatar((data as Avatar) ?? null);
+      setPrimaryImages((primaryRows ?? []) as AvatarImage[]);
+      setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [avatarId, requestId, router, supabase]);
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Preparing persona card…</p>
+      </div>
+    );
+  }
+
+  if (!avatar) {
+    return (
+      <div className="panel">
+        <h1 className="page-title">Avatar not found</h1>
+        <Link href="/avatars">Back to avatars</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="hero-actions no-print">
+        <Link className="button secondary" href={`/avatars/${avatar.id}`}>
+          Back to avatar
+        </Link>
+        <button className="button" type="button" onClick={() => window.print()}>
+          Print or save as PDF
+        </button>
+      </div>
+      <PersonaCard avatar={avatar} imageUrl={primaryImages[0] ? imageUrls[primaryImages[0].id] : null} />
+    </div>
+  );
+}
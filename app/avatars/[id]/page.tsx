@@ -1,24 +1,53 @@
 "use client";
 
 import Image from "next/image";
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import type { User } from "@supabase/supabase-js";
 
 import { logger } from "@/lib/logger";
+import { AvatarEditForm } from "@/components/avatar-edit-form";
+import { AvatarGallery } from "@/components/avatar-gallery";
+import { AvatarHistoryPanel } from "@/components/avatar-history-panel";
+import { ImageUploadForm } from "@/components/image-upload-form";
+import { PersonaChat } from "@/components/persona-chat";
+import { ScenarioPicker } from "@/components/scenario-picker";
+import { ShareLinksPanel } from "@/components/share-links-panel";
+import { requestAvatarGeneration, requestScenarioGeneration, type ScenarioRequestInput } from "@/lib/api/avatars";
+import { ApiError } from "@/lib/api/client";
+import { downloadAvatarExport } from "@/lib/avatar-export";
+import type { AvatarEditablePatch } from "@/lib/avatar-fields";
+import { useAvatarChanges } from "@/lib/hooks/use-avatar-changes";
+import { useAvatarImageUrls } from "@/lib/hooks/use-avatar-image-urls";
 import { getRequestId } from "@/lib/request-id";
-import { triggerScenarioGeneration } from "@/lib/n8n";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { getWorkspaceMembership } from "@/lib/supabase/workspaces";
 import {
+  deleteAvatar,
+  deleteAvatarImage,
   getAvatarById,
   getAvatarImages,
-  getPublicAvatarUrl,
-  getPublicAvatarUrls,
+  getPersonaHistory,
   setPrimaryAvatarImage,
+  updateAvatar,
 } from "@/lib/supabase/avatars";
-import type { Avatar, AvatarImage } from "@/lib/types/avatars";
-
-const POLL_INTERVALS = [5000, 10000, 20000, 40000, 80000];
+import type { Avatar, AvatarGenerationOperation, AvatarImage, AvatarPersonaVersion } from "@/lib/types/avatars";
+import type { WorkspaceRole } from "@/lib/types/workspaces";
+import { hasWorkspaceRole } from "@/lib/workspaces";
+
+const OPERATION_MESSAGES: Record<AvatarGenerationOperation, { pending: string; done: string }> = {
+  generate: { pending: "Sending this avatar to the generator…", done: "Generation started." },
+  retry: { pending: "Retrying generation…", done: "Generation restarted. We’ll update this page when it finishes." },
+  regenerate_persona: {
+    pending: "Requesting a new persona…",
+    done: "A new persona is on its way. The current one is kept in the history below.",
+  },
+  regenerate_portrait: {
+    pending: "Requesting a new portrait…",
+    done: "A new portrait is on its way. The current one stays in the gallery.",
+  },
+};
 
 export default function AvatarDetailPage({ params }: { params: { id: string } }) {
   const supabase = useMemo(() => createSupabaseBrowserClient(), []);
@@ -27,12 +56,114 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
   const [user, setUser] = useState<User | null>(null);
   const [avatar, setAvatar] = useState<Avatar | null>(null);
   const [images, setImages] = useState<AvatarImage[]>([]);
-  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
-  const [primaryImageUrl, setPrimaryImageUrl] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
-  const [scenarioPrompt, setScenarioPrompt] = useState("");
+  const [isAwaitingScenes, setIsAwaitingScenes] = useState(false);
+  const [personaHistory, setPersonaHistory] = useState<AvatarPersonaVersion[]>([]);
+  const [isRequestingGeneration, setIsRequestingGeneration] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [activeTab, setActiveTab] = useState<"profile" | "history">("profile");
+  const [role, setRole] = useState<WorkspaceRole | null>(null);
+  const canEdit = hasWorkspaceRole(role, "editor");
+  const sceneBaseline = useRef(0);
   const avatarId = params.id;
+  const imageUrls = useAvatarImageUrls(supabase, images, { size: "medium" });
+  const primaryImage = images.find((image) => image.is_primary);
+  const primaryImageUrl = primaryImage ? imageUrls[primaryImage.id] ?? null : null;
+
+  const loadImages = useCallback(
+    async (userId: string, operation?: string) => {
+      const { data: imageRows, error: imageError } = await getAvatarImages(supabase, avatarId);
+      if (imageError) {
+        logger.error({
+          scope: "http.avatar.detail",
+          msg: "Failed to fetch avatar images",
+          requestId,
+          userId,
+          avatarId,
+          err: imageError,
+          operation,
+        });
+        return;
+      }
+      if (!imageRows) return;
+
+      const typedImages = imageRows as AvatarImage[];
+      setImages(typedImages);
+      if (typedImages.length > sceneBaseline.current) {
+        setIsAwaitingScenes(false);
+      }
+    },
+    [avatarId, requestId, supabase]
+  );
+
+  const loadPersonaHistory = useCallback(
+    async (userId: string) => {
+      const { data, error } = await getPersonaHistory(supabase, avatarId);
+      if (error) {
+        logger.error({
+          scope: "http.avatar.detail",
+          msg: "Failed to fetch persona history",
+          requestId,
+          userId,
+          avatarId,
+          err: error,
+        });
+        return;
+      }
+      setPersonaHistory((data ?? []) as AvatarPersonaVersion[]);
+    },
+    [avatarId, requestId, supabase]
+  );
+
+  const refreshAvatar = useCallback(async () => {
+    if (!user) return;
+    const { data: latestAvatar, error } = await getAvatarById(supabase, avatarId);
+    if (error) {
+      logger.error({
+        scope: "http.avatar.detail",
+        msg: "Failed to refresh avatar",
+        requestId,
+        userId: user.id,
+        avatarId,
+        err: error,
+        operation: "avatar.refresh",
+      });
+      return;
+    }
+
+    if (latestAvatar) {
+      setAvatar(latestAvatar as Avatar);
+      await Promise.all([loadImages(user.id, "avatar.refresh"), loadPersonaHistory(user.id)]);
+    }
+  }, [avatarId, loadImages, loadPersonaHistory, requestId, supabase, user]);
+
+  useAvatarChanges({
+    supabase,
+    userId: avatar ? user?.id ?? null : null,
+    workspaceId: avatar?.workspace_id,
+    requestId,
+    onAvatarChange: (payload) => {
+      if (payload.eventType === "DELETE") return;
+      if (payload.new.id === avatarId) {
+        setAvatar(payload.new);
+        if (user && payload.new.status === "ready") {
+          loadPersonaHistory(user.id);
+        }
+      }
+    },
+    onImageChange: (payload) => {
+      if (!user) return;
+      const row = payload.eventType === "DELETE" ? payload.old : payload.new;
+      if (row.avatar_id === avatarId) {
+        loadImages(user.id, "avatar.realtime");
+      }
+    },
+    onPoll: refreshAvatar,
+    shouldPoll: () => avatar?.status === "pending" || avatar?.status === "generating" || isAwaitingScenes,
+  });
 
   useEffect(() => {
     let isMounted = true;
@@ -50,7 +181,7 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
       if (!isMounted) return;
       setUser(currentUser);
 
-      const { data: avatarRow, error } = await getAvatarById(supabase, avatarId, currentUser.id);
+      const { data: avatarRow, error } = await getAvatarById(supabase, avatarId);
 
       if (!isMounted) return;
       if (error) {
@@ -66,6 +197,9 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
 
       if (avatarRow) {
         setAvatar(avatarRow as Avatar);
+        const { data: membership } = await getWorkspaceMembership(supabase, avatarRow.workspace_id, currentUser.id);
+        if (!isMounted) return;
+        setRole((membership?.role ?? null) as WorkspaceRole | null);
         logger.info({
           scope: "http.avatar.detail",
           msg: "Avatar loaded",
@@ -73,27 +207,7 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
           userId: currentUser.id,
           avatarId,
         });
-        const { data: imageRows, error: imageError } = await getAvatarImages(supabase, avatarId, currentUser.id);
-        if (imageError) {
-          logger.error({
-            scope: "http.avatar.detail",
-            msg: "Failed to fetch avatar images",
-            requestId,
-            userId: currentUser.id,
-            avatarId,
-            err: imageError,
-          });
-        } else if (imageRows) {
-          const typedImages = imageRows as AvatarImage[];
-          setImages(typedImages);
-          const urlMap = await getPublicAvatarUrls(supabase, typedImages);
-          if (isMounted) {
-            setImageUrls(urlMap);
-            const primaryImage = typedImages.find((image) => image.is_primary);
-            const primaryUrl = primaryImage ? await getPublicAvatarUrl(supabase, primaryImage.storage_path) : null;
-            setPrimaryImageUrl(primaryUrl);
-          }
-        }
+        await Promise.all([loadImages(currentUser.id), loadPersonaHistory(currentUser.id)]);
       }
 
       setIsLoading(false);
@@ -104,71 +218,7 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
     return () => {
       isMounted = false;
     };
-  }, [avatarId, requestId, router, supabase]);
-
-  useEffect(() => {
-    if (!avatar || !user) return;
-    if (avatar.status === "ready" || avatar.status === "failed") return;
-
-    let cancelled = false;
-
-    const pollAvatar = async (attempt = 0): Promise<void> => {
-      if (cancelled || attempt >= POLL_INTERVALS.length) return;
-
-      await new Promise((resolve) => setTimeout(resolve, POLL_INTERVALS[attempt]));
-      if (cancelled) return;
-
-      const { data: latestAvatar, error } = await getAvatarById(supabase, avatarId, user.id);
-      if (error) {
-        logger.error({
-          scope: "http.avatar.detail",
-          msg: "Failed to refresh avatar",
-          requestId,
-          userId: user.id,
-          avatarId,
-          err: error,
-          operation: "avatar.refresh",
-        });
-        return;
-      }
-
-      if (!cancelled && latestAvatar) {
-        setAvatar(latestAvatar as Avatar);
-        const { data: imageRows, error: imageError } = await getAvatarImages(supabase, avatarId, user.id);
-        if (imageError) {
-          logger.error({
-            scope: "http.avatar.detail",
-            msg: "Failed to refresh avatar images",
-            requestId,
-            userId: user.id,
-            avatarId,
-            err: imageError,
-            operation: "avatar.refresh",
-          });
-        } else if (!cancelled && imageRows) {
-          const typedImages = imageRows as AvatarImage[];
-          setImages(typedImages);
-          const urlMap = await getPublicAvatarUrls(supabase, typedImages);
-          if (!cancelled) {
-            setImageUrls(urlMap);
-            const primaryImage = typedImages.find((image) => image.is_primary);
-            const primaryUrl = primaryImage ? await getPublicAvatarUrl(supabase, primaryImage.storage_path) : null;
-            setPrimaryImageUrl(primaryUrl);
-          }
-        }
-
-        if (latestAvatar.status !== "ready" && latestAvatar.status !== "failed") {
-          pollAvatar(attempt + 1);
-        }
-      }
-    };
-
-    pollAvatar();
-
-    return () => {
-      cancelled = true;
-    };
-  }, [avatar, avatarId, requestId, supabase, user]);
+  }, [avatarId, loadImages, loadPersonaHistory, requestId, router, supabase]);
 
   const renderStatus = (status: Avatar["status"]) => {
     const labels: Record<Avatar["status"], string> = {
@@ -180,20 +230,27 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
     return <span className={`pill ${status}`}>{labels[status]}</span>;
   };
 
-  const triggerSceneGeneration = async () => {
-    if (!avatar || !user) return;
+  const triggerSceneGeneration = async (scenarios: ScenarioRequestInput[]) => {
+    if (!avatar || !user) return false;
     setStatusMessage("Requesting new scenes…");
     try {
-      await triggerScenarioGeneration(avatar, scenarioPrompt || undefined, requestId);
+      sceneBaseline.current = images.length;
+      const { jobs } = await requestScenarioGeneration(avatar.id, scenarios, requestId);
+      setIsAwaitingScenes(true);
       logger.info({
         scope: "http.avatar.scenario",
         msg: "Scenario generation requested",
         requestId,
         userId: user.id,
         avatarId: avatar.id,
-        payloadSummary: scenarioPrompt ? scenarioPrompt.slice(0, 64) : undefined,
+        payloadSummary: { jobs: jobs.map((job) => job.jobId) },
       });
-      setStatusMessage("Scenes requested. Check back in a moment as they render.");
+      setStatusMessage(
+        jobs.every((job) => job.status === "dispatched")
+          ? `${jobs.length === 1 ? "Scene" : `${jobs.length} scenes`} requested. Check back in a moment as they render.`
+          : "The generator is busy right now. We’ll keep retrying your scene requests in the background."
+      );
+      return true;
     } catch (error) {
       logger.error({
         scope: "http.avatar.scenario",
@@ -203,7 +260,47 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
         avatarId: avatar.id,
         err: error,
       });
-      setStatusMessage("Could not trigger scene generation. Please try again.");
+      setStatusMessage(
+        error instanceof ApiError ? error.message : "Could not trigger scene generation. Please try again."
+      );
+      return false;
+    }
+  };
+
+  const handleGeneration = async (operation: AvatarGenerationOperation) => {
+    if (!avatar || !user) return;
+    setIsRequestingGeneration(true);
+    setStatusMessage(OPERATION_MESSAGES[operation].pending);
+    try {
+      const { jobId, status } = await requestAvatarGeneration(avatar.id, requestId, operation);
+      logger.info({
+        scope: "http.avatar.generate",
+        msg: "Avatar generation requested",
+        requestId,
+        userId: user.id,
+        avatarId: avatar.id,
+        jobId,
+        operation,
+      });
+      setAvatar((previous) => (previous ? { ...previous, status: "generating", failure_reason: null } : previous));
+      setStatusMessage(
+        status === "dispatched"
+          ? OPERATION_MESSAGES[operation].done
+          : "The generator is busy right now. We’ll keep retrying in the background."
+      );
+    } catch (error) {
+      logger.error({
+        scope: "http.avatar.generate",
+        msg: "Avatar generation request failed",
+        requestId,
+        userId: user.id,
+        avatarId: avatar.id,
+        operation,
+        err: error,
+      });
+      setStatusMessage(error instanceof ApiError ? error.message : "Could not reach the generator. Please try again.");
+    } finally {
+      setIsRequestingGeneration(false);
     }
   };
 
@@ -228,8 +325,6 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
     }
 
     setImages((previous) => previous.map((img) => ({ ...img, is_primary: img.id === image.id })));
-    const publicUrl = await getPublicAvatarUrl(supabase, image.storage_path);
-    setPrimaryImageUrl(publicUrl);
     setStatusMessage("Profile image updated.");
 
     if (data) {
@@ -244,6 +339,110 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
     }
   };
 
+  const handleSaveEdits = async (patch: AvatarEditablePatch) => {
+    if (!avatar || !user) return;
+    setIsSaving(true);
+    setStatusMessage(null);
+
+    const { data, error } = await updateAvatar(supabase, avatar.id, avatar.user_id, patch);
+
+    if (error || !data) {
+      logger.error({
+        scope: "http.avatar.update",
+        msg: "Failed to update avatar",
+        requestId,
+        userId: user.id,
+        avatarId: avatar.id,
+        err: error ?? new Error("Avatar update returned empty response"),
+      });
+      setStatusMessage(error?.message ?? "Could not save your changes. Please try again.");
+      setIsSaving(false);
+      return;
+    }
+
+    logger.info({
+      scope: "http.avatar.update",
+      msg: "Avatar updated",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      payloadSummary: { fields: Object.keys(patch) },
+    });
+    setAvatar(data as Avatar);
+    setIsEditing(false);
+    setIsSaving(false);
+    setStatusMessage("Changes saved.");
+  };
+
+  const handleDeleteAvatar = async () => {
+    if (!avatar || !user) return;
+    if (!window.confirm(`Delete ${avatar.name} and all of its images? This can’t be undone.`)) return;
+    setIsDeleting(true);
+
+    const { error } = await deleteAvatar(supabase, avatar);
+
+    if (error) {
+      logger.error({
+        scope: "http.avatar.delete",
+        msg: "Failed to delete avatar",
+        requestId,
+        userId: user.id,
+        avatarId: avatar.id,
+        err: error,
+      });
+      setStatusMessage("Could not delete this avatar. Please try again.");
+      setIsDeleting(false);
+      return;
+    }
+
+    logger.info({
+      scope: "http.avatar.delete",
+      msg: "Avatar deleted",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      payloadSummary: { imageCount: images.length },
+    });
+    router.push("/avatars");
+  };
+
+  const handleDeleteImage = async (image: AvatarImage) => {
+    if (!avatar || !user) return;
+    if (!window.confirm("Delete this image? This can’t be undone.")) return;
+    setStatusMessage("Deleting image…");
+
+    const { error } = await deleteAvatarImage(supabase, image);
+
+    if (error) {
+      logger.error({
+        scope: "http.avatar.image.delete",
+        msg: "Failed to delete avatar image",
+        requestId,
+        userId: user.id,
+        avatarId: avatar.id,
+        imageId: image.id,
+        err: error,
+      });
+      setStatusMessage("Could not delete this image. Please try again.");
+      return;
+    }
+
+    if (avatar.profile_image_path === image.storage_path) {
+      await updateAvatar(supabase, avatar.id, avatar.user_id, { profile_image_path: null });
+    }
+
+    logger.info({
+      scope: "http.avatar.image.delete",
+      msg: "Avatar image deleted",
+      requestId,
+      userId: user.id,
+      avatarId: avatar.id,
+      imageId: image.id,
+    });
+    setImages((previous) => previous.filter((img) => img.id !== image.id));
+    setStatusMessage("Image deleted.");
+  };
+
   if (isLoading || !avatar) {
     return (
       <div className="panel">
@@ -272,6 +471,9 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
               {avatar.age} · {avatar.job_title} · {avatar.city ? `${avatar.city}, ${avatar.country ?? ""}` : avatar.country}
             </p>
             {renderStatus(avatar.status)}
+            {avatar.failure_reason && avatar.status !== "generating" ? (
+              <p className="message error">{avatar.failure_reason}</p>
+            ) : null}
           </div>
           <div className="space-y-2">
             <h3 className="page-title" style={{ margin: 0 }}>Narrative profile</h3>
@@ -282,54 +484,207 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
           <div className="space-y-2">
             <h3 className="page-title" style={{ margin: 0 }}>Actions</h3>
             <div className="hero-actions">
-              <button className="button" type="button" onClick={triggerSceneGeneration}>
-                Generate more scenes
-              </button>
-              <input
-                className="input"
-                placeholder="Optional scenario prompt"
-                value={scenarioPrompt}
-                onChange={(event) => setScenarioPrompt(event.target.value)}
-              />
+              {!canEdit ? (
+                <span className="page-lead" style={{ margin: 0 }}>
+                  You have view-only access to this workspace.
+                </span>
+              ) : null}
+              {canEdit && avatar.status === "failed" ? (
+                <button
+                  className="button"
+                  type="button"
+                  onClick={() => handleGeneration("retry")}
+                  disabled={isRequestingGeneration}
+                >
+                  Retry generation
+                </button>
+              ) : null}
+              {canEdit && avatar.status === "ready" ? (
+                <>
+                  <button
+                    className="button secondary"
+                    type="button"
+                    onClick={() => handleGeneration("regenerate_persona")}
+                    disabled={isRequestingGeneration}
+                  >
+                    Regenerate persona
+                  </button>
+                  <button
+                    className="button secondary"
+                    type="button"
+                    onClick={() => handleGeneration("regenerate_portrait")}
+                    disabled={isRequestingGeneration}
+                  >
+                    Regenerate portrait
+                  </button>
+                </>
+              ) : null}
             </div>
             {statusMessage ? <p className="message">{statusMessage}</p> : null}
           </div>
         </div>
       </div>
 
-      <div className="panel">
-        <h2 className="page-title">Profile fields</h2>
-        <div className="traits-grid">
-          <div className="field">
-            <span className="label">Life &amp; work</span>
-            <span className="page-lead">{avatar.job_title}</span>
-            {avatar.industry ? <span className="page-lead">Industry: {avatar.industry}</span> : null}
-          </div>
-          <div className="field">
-            <span className="label">Location</span>
-            <span className="page-lead">{avatar.address_line}</span>
-            <span className="page-lead">{avatar.city}</span>
-            <span className="page-lead">{avatar.region}</span>
-            <span className="page-lead">{avatar.country}</span>
-          </div>
-          <div className="field">
-            <span className="label">Appearance</span>
-            <span className="page-lead">Skin tone: {avatar.skin_tone ?? "-"}</span>
-            <span className="page-lead">Hair color: {avatar.hair_color ?? "-"}</span>
-            <span className="page-lead">Height: {avatar.height_cm ? `${avatar.height_cm} cm` : "-"}</span>
+      {user && canEdit && avatar.status === "ready" ? (
+        <div className="panel space-y-2">
+          <h2 className="page-title">Request scenes</h2>
+          <p className="page-lead" style={{ margin: 0 }}>
+            Pick scenarios from your library, describe a new one, or both. Each scenario is sent as its own request and
+            its images are labelled with the scenario’s name.
+          </p>
+          <ScenarioPicker
+            supabase={supabase}
+            userId={user.id}
+            requestId={requestId}
+            onGenerate={triggerSceneGeneration}
+          />
+        </div>
+      ) : null}
+
+      <div className="hero-actions" role="tablist" aria-label="Avatar details">
+        {(["profile", "history"] as const).map((tab) => (
+          <button
+            key={tab}
+            className={activeTab === tab ? "button" : "button secondary"}
+            type="button"
+            role="tab"
+            aria-selected={activeTab === tab}
+            onClick={() => setActiveTab(tab)}
+          >
+            {tab === "profile" ? "Profile" : "History"}
+          </button>
+        ))}
+      </div>
+
+      {activeTab === "history" && user ? (
+        <AvatarHistoryPanel
+          supabase={supabase}
+          userId={user.id}
+          requestId={requestId}
+          avatar={avatar}
+          canEdit={canEdit}
+          onRestored={setAvatar}
+        />
+      ) : isEditing ? (
+        <div className="panel">
+          <h2 className="page-title">Edit avatar</h2>
+          <AvatarEditForm
+            avatar={avatar}
+            isSaving={isSaving}
+            onSave={handleSaveEdits}
+            onCancel={() => setIsEditing(false)}
+          />
+        </div>
+      ) : (
+        <div className="panel">
+          <div className="hero-actions" style={{ justifyContent: "space-between", alignItems: "center" }}>
+            <h2 className="page-title">Profile fields</h2>
+            <div className="hero-actions">
+              {canEdit ? (
+                <button className="button secondary" type="button" onClick={() => setIsEditing(true)}>
+                  Edit avatar
+                </button>
+              ) : null}
+              <button
+                className="button secondary"
+                type="button"
+                onClick={() =>
+                  downloadAvatarExport("json", { type: "avatar", id: avatar.id, name: avatar.name }, [avatar], images)
+                }
+              >
+                Export JSON
+              </button>
+              <button
+                className="button secondary"
+                type="button"
+                onClick={() =>
+                  downloadAvatarExport("csv", { type: "avatar", id: avatar.id, name: avatar.name }, [avatar], images)
+                }
+              >
+                Export CSV
+              </button>
+              <Link className="button secondary" href={`/avatars/${avatar.id}/card`}>
+                Persona card
+              </Link>
+              {canEdit ? (
+                <button className="button danger" type="button" onClick={handleDeleteAvatar} disabled={isDeleting}>
+                  {isDeleting ? "Deleting…" : "Delete avatar"}
+                </button>
+              ) : null}
+            </div>
           </div>
-          <div className="field">
-            <span className="label">Lifestyle</span>
-            <span className="page-lead">Marital status: {avatar.marital_status ?? "-"}</span>
-            <span className="page-lead">Hobbies: {avatar.hobbies || "-"}</span>
-            <span className="page-lead">Orientation: {avatar.political_orientation ?? "-"}</span>
+          <div className="traits-grid">
+            <div className="field">
+              <span className="label">Life &amp; work</span>
+              <span className="page-lead">{avatar.job_title}</span>
+              {avatar.industry ? <span className="page-lead">Industry: {avatar.industry}</span> : null}
+            </div>
+            <div className="field">
+              <span className="label">Location</span>
+              <span className="page-lead">{avatar.address_line}</span>
+              <span className="page-lead">{avatar.city}</span>
+              <span className="page-lead">{avatar.region}</span>
+              <span className="page-lead">{avatar.country}</span>
+            </div>
+            <div className="field">
+              <span className="label">Appearance</span>
+              <span className="page-lead">Skin tone: {avatar.skin_tone ?? "-"}</span>
+              <span className="page-lead">Hair color: {avatar.hair_color ?? "-"}</span>
+              <span className="page-lead">Height: {avatar.height_cm ? `${avatar.height_cm} cm` : "-"}</span>
+            </div>
+            <div className="field">
+              <span className="label">Lifestyle</span>
+              <span className="page-lead">Marital status: {avatar.marital_status ?? "-"}</span>
+              <span className="page-lead">Hobbies: {avatar.hobbies?.length ? avatar.hobbies.join(", ") : "-"}</span>
+              <span className="page-lead">Orientation: {avatar.political_orientation ?? "-"}</span>
+            </div>
+            <div className="field">
+              <span className="label">Other traits &amp; quirks</span>
+              <span className="page-lead">{avatar.other_traits || "No extra traits yet."}</span>
+            </div>
+            {avatar.extra_attributes && Object.keys(avatar.extra_attributes).length > 0 ? (
+              <div className="field">
+                <span className="label">Extra attributes</span>
+                {Object.entries(avatar.extra_attributes).map(([key, value]) => (
+                  <span key={key} className="page-lead">
+                    {key.replace(/_/g, " ")}: {typeof value === "string" ? value : JSON.stringify(value)}
+                  </span>
+                ))}
+              </div>
+            ) : null}
           </div>
-          <div className="field">
-            <span className="label">Other traits &amp; quirks</span>
-            <span className="page-lead">{avatar.other_traits || "No extra traits yet."}</span>
+        </div>
+      )}
+
+      {user ? <PersonaChat supabase={supabase} userId={user.id} requestId={requestId} avatar={avatar} /> : null}
+
+      {user && canEdit ? (
+        <ShareLinksPanel
+          supabase={supabase}
+          userId={user.id}
+          requestId={requestId}
+          avatarId={avatar.id}
+          subject={`${avatar.name}’s profile and images`}
+        />
+      ) : null}
+
+      {personaHistory.length > 0 ? (
+        <div className="panel">
+          <h2 className="page-title">Previous personas</h2>
+          <p className="page-lead">Earlier narratives replaced by a retry or regeneration.</p>
+          <div className="space-y-2">
+            {personaHistory.map((version) => (
+              <details key={version.id} className="history-entry">
+                <summary>
+                  {new Date(version.created_at).toLocaleString()}
+                  {version.operation ? ` · replaced by ${version.operation.replace("_", " ")}` : ""}
+                </summary>
+                <p className="page-lead">{version.persona_summary}</p>
+              </details>
+            ))}
           </div>
         </div>
-      </div>
+      ) : null}
 
       <div className="panel">
         <div className="hero-actions" style={{ justifyContent: "space-between", alignItems: "center" }}>
@@ -338,36 +693,36 @@ export default function AvatarDetailPage({ params }: { params: { id: string } })
               Scenes &amp; moments
             </h2>
             <p className="page-lead" style={{ margin: 0 }}>
-              Explore profile and scenario renders linked to this avatar.
+              Explore profile and scenario renders linked to this avatar. Click an image to view it full screen.
             </p>
           </div>
         </div>
-        {images.length === 0 ? (
-          <p className="page-lead">No scenes yet. Generate more to see this avatar in action.</p>
-        ) : (
-          <div className="gallery-grid">
-            {images
-              .filter((image) => !image.is_primary)
-              .map((image) => (
-              <div key={image.id} className="gallery-card">
-                {imageUrls[image.id] ? (
-                  <Image src={imageUrls[image.id]} alt={image.label ?? image.type} width={400} height={320} style={{ width: "100%", height: "auto" }} />
-                ) : (
-                  <div className="avatar-thumb" style={{ width: "100%", height: "160px" }}>
-                    {avatar.name.slice(0, 1)}
-                  </div>
-                )}
-                <div className="gallery-meta">
-                  <strong>{image.label || image.type}</strong>
-                  {image.description ? <p className="page-lead" style={{ margin: 0 }}>{image.description}</p> : null}
-                  <button className="button" type="button" onClick={() => handleSetPrimaryImage(image)}>
-                    Set as profile image
-                  </button>
-                </div>
-              </div>
-              ))}
-          </div>
-        )}
+        {user && canEdit ? (
+          <ImageUploadForm
+            supabase={supabase}
+            userId={user.id}
+            requestId={requestId}
+            avatar={avatar}
+            onUploaded={(image) => {
+              setStatusMessage(image.is_primary ? "Image uploaded and set as the profile image." : "Image uploaded.");
+              loadImages(user.id, "avatar.upload");
+            }}
+          />
+        ) : null}
+        {user ? (
+          <AvatarGallery
+            supabase={supabase}
+            userId={user.id}
+            requestId={requestId}
+            avatar={avatar}
+            images={images}
+            imageUrls={imageUrls}
+            onImagesChange={setImages}
+            onSetPrimary={handleSetPrimaryImage}
+            onDelete={handleDeleteImage}
+            readOnly={!canEdit}
+          />
+        ) : null}
       </div>
     </div>
   );
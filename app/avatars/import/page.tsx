@@ -0,0 +1,255 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState, type ChangeEvent } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { requestAvatarImport } from "@/lib/api/avatars";
+import {
+  IMPORT_GENERATION_OPTIONS,
+  IMPORT_TARGETS,
+  MAX_IMPORT_ROWS,
+  parseImportFile,
+  previewAvatarImport,
+  suggestImportMapping,
+  type AvatarImportGeneration,
+  type AvatarImportMapping,
+  type AvatarImportTarget,
+} from "@/lib/avatar-import";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import type { AvatarGenerationOperation } from "@/lib/types/avatars";
+
+const OPERATION_LABELS: Record<AvatarGenerationOperation, string> = {
+  generate: "Generate persona and portrait",
+  retry: "Retry generation",
+  regenerate_persona: "Generate persona",
+  regenerate_portrait: "Generate portrait",
+};
+
+function formatSample(value: unknown) {
+  if (value === undefined || value === null) return "";
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}…` : text;
+}
+
+export default function ImportAvatarsPage() {
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [columns, setColumns] = useState<string[]>([]);
+  const [records, setRecords] = useState<Record<string, unknown>[]>([]);
+  const [mapping, setMapping] = useState<AvatarImportMapping>({});
+  const [generation, setGeneration] = useState<AvatarImportGeneration>("missing");
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    supabase.auth.getUser().then(({ data: { user: currentUser } }) => {
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+      if (isMounted) setUser(currentUser);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [router, supabase]);
+
+  const preview = useMemo(
+    () => (user && records.length ? previewAvatarImport({ records, mapping, generation }, user.id) : []),
+    [generation, mapping, records, user]
+  );
+  const invalidCount = preview.filter((row) => row.errors.length > 0).length;
+  const queuedCount = preview.filter((row) => row.operation).length;
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    setStatus(null);
+    setColumns([]);
+    setRecords([]);
+    if (!file) return;
+
+    const parsed = parseImportFile(file.name, await file.text());
+    if (!parsed.ok) {
+      setStatus(parsed.errors.join(" "));
+      return;
+    }
+    if (parsed.value.records.length === 0) {
+      setStatus("The file has a header but no rows.");
+      return;
+    }
+
+    setFileName(file.name);
+    setColumns(parsed.value.columns);
+    setRecords(parsed.value.records);
+    setMapping(suggestImportMapping(parsed.value.columns));
+  };
+
+  const handleImport = async () => {
+    if (!user || invalidCount > 0 || records.length === 0) return;
+    setIsSubmitting(true);
+    setStatus(null);
+
+    try {
+      const { created, queued } = await requestAvatarImport({ records, mapping, generation }, requestId);
+      logger.info({
+        scope: "http.avatar.import",
+        msg: "Avatar import completed",
+        requestId,
+        userId: user.id,
+        payloadSummary: { fileName, created, queued },
+      });
+      router.push("/avatars");
+    } catch (error) {
+      logger.error({
+        scope: "http.avatar.import",
+        msg: "Avatar import failed",
+        requestId,
+        userId: user.id,
+        payloadSummary: { fileName, rows: records.length },
+        err: error,
+      });
+      setStatus(error instanceof Error ? error.message : "Could not import the file.");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="panel space-y-2">
+        <Link href="/avatars">← All avatars</Link>
+        <h1 className="page-title">Import avatars</h1>
+        <p className="page-lead">
+          Upload a CSV with a header row, or a JSON file with a list of avatars (an avatar export works as is). Map
+          the columns, check the preview, then import up to {MAX_IMPORT_ROWS} rows at once.
+        </p>
+        <input className="input" type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+        {status ? <p className="message error">{status}</p> : null}
+      </div>
+
+      {columns.length > 0 ? (
+        <section className="panel space-y-2">
+          <h2>Column mapping</h2>
+          <div className="table-scroll">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Column</th>
+                  <th>First value</th>
+                  <th>Import as</th>
+                </tr>
+              </thead>
+              <tbody>
+                {columns.map((column) => (
+                  <tr key={column}>
+                    <td>{column}</td>
+                    <td>{formatSample(records[0]?.[column])}</td>
+                    <td>
+                      <select
+                        className="input"
+                        value={mapping[column] ?? ""}
+                        aria-label={`Import ${column} as`}
+                        onChange={(event) =>
+                          setMapping((previous) => ({
+                            ...previous,
+                            [column]: event.target.value as AvatarImportTarget,
+                          }))
+                        }
+                      >
+                        {IMPORT_TARGETS.map((target) => (
+                          <option key={target.value} value={target.value}>
+                            {target.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <fieldset className="field">
+            <span className="label">Queue generation for</span>
+            {IMPORT_GENERATION_OPTIONS.map((option) => (
+              <label key={option.value} className="mode-option">
+                <input
+                  type="radio"
+                  name="generation"
+                  value={option.value}
+                  checked={generation === option.value}
+                  onChange={() => setGeneration(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </fieldset>
+        </section>
+      ) : null}
+
+      {preview.length > 0 ? (
+        <section className="panel space-y-2">
+          <h2>Preview</h2>
+          <p className="page-lead" style={{ margin: 0 }}>
+            {preview.length} row{preview.length === 1 ? "" : "s"} · {invalidCount} with errors · {queuedCount} to
+            queue for generation. Nothing is saved until you import.
+          </p>
+          {preview.length > MAX_IMPORT_ROWS ? (
+            <p className="message error">This file has more than {MAX_IMPORT_ROWS} rows; split it before importing.</p>
+          ) : null}
+          <div className="table-scroll">
+            <table className="data-table">
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Name</th>
+                  <th>Result</th>
+                  <th>Generation</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.map((row) => (
+                  <tr key={row.row}>
+                    <td>{row.row}</td>
+                    <td>{row.name || "-"}</td>
+                    <td>
+                      {row.errors.length ? (
+                        <ul className="field-error">
+                          {row.errors.map((error) => (
+                            <li key={error}>{error}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="pill ready">Valid</span>
+                      )}
+                    </td>
+                    <td>{row.operation ? OPERATION_LABELS[row.operation] : "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="hero-actions">
+            <button
+              className="button"
+              type="button"
+              onClick={handleImport}
+              disabled={isSubmitting || invalidCount > 0 || preview.length > MAX_IMPORT_ROWS}
+            >
+              {isSubmitting ? "Importing…" : `Import ${preview.length} avatar${preview.length === 1 ? "" : "s"}`}
+            </button>
+          </div>
+        </section>
+      ) : null}
+    </div>
+  );
+}
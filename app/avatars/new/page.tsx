@@ -1,120 +1,224 @@
 "use client";
 
+import Link from "next/link";
 import { useRouter } from "next/navigation";
-import { useMemo, useState, type FormEvent } from "react";
+import { useEffect, useMemo, useState, type FormEvent } from "react";
 
-import { triggerAvatarGeneration } from "@/lib/n8n";
+import { SaveTemplateForm } from "@/components/save-template-form";
+import { WizardField } from "@/components/wizard-field";
+import { requestAvatarGeneration } from "@/lib/api/avatars";
+import { ageRangeOptions, ethnicityOptions } from "@/lib/avatar-options";
+import {
+  WIZARD_FIELDS,
+  WIZARD_STEPS,
+  applyPersonaTemplate,
+  buildAvatarPayload,
+  buildTemplateValues,
+  createInitialWizardState,
+  randomFieldValue,
+  validateWizardFields,
+  type FieldMode,
+  type WizardFieldKey,
+  type WizardState,
+} from "@/lib/avatar-wizard";
 import { logger, safeSummary } from "@/lib/logger";
 import { getRequestId } from "@/lib/request-id";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 import { createAvatar } from "@/lib/supabase/avatars";
-import type { Avatar } from "@/lib/types/avatars";
-
-const ageRangeOptions = [
-  { label: "Baby", value: "baby", numericAge: 1 },
-  { label: "Toddler", value: "toddler", numericAge: 3 },
-  { label: "Child", value: "child", numericAge: 8 },
-  { label: "Teenager", value: "teenager", numericAge: 16 },
-  { label: "Young adult", value: "young-adult", numericAge: 24 },
-  { label: "Adult", value: "adult", numericAge: 34 },
-  { label: "Middle aged", value: "middle-aged", numericAge: 48 },
-  { label: "Older adult", value: "older-adult", numericAge: 64 },
-  { label: "Senior", value: "senior", numericAge: 74 },
-];
-
-const skinToneOptions = [
-  "Very fair",
-  "Fair",
-  "Medium",
-  "Olive",
-  "Brown",
-  "Dark",
-  "Prefer not to say",
-];
-
-const ethnicityOptions = [
-  "Black or African descent",
-  "East Asian",
-  "Hispanic/Latino",
-  "Indigenous",
-  "Middle Eastern/North African",
-  "South Asian",
-  "Southeast Asian",
-  "White",
-  "Mixed/Other",
-  "Prefer not to say",
-];
+import { createPersonaTemplate, getPersonaTemplates } from "@/lib/supabase/persona-templates";
+import type { PersonaTemplate } from "@/lib/types/persona-templates";
+import { getActiveWorkspaceId, resolveActiveWorkspace } from "@/lib/workspaces";
+
+const REVIEW_STEP = WIZARD_STEPS.length;
+
+const MODE_SUMMARY: Record<FieldMode, string> = {
+  generator: "Generator decides",
+  set: "Set by you",
+  random: "Randomized",
+};
 
 export default function NewAvatarPage() {
   const supabase = useMemo(() => createSupabaseBrowserClient(), []);
   const router = useRouter();
-  const [form, setForm] = useState({
-    ageRange: "young-adult",
-    skinTone: "",
-    ethnicity: "",
-    energyLevel: 3,
-    extroversion: 3,
-    misc: "",
-  });
+  const [form, setForm] = useState<WizardState>(createInitialWizardState);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [errors, setErrors] = useState<Partial<Record<WizardFieldKey | "ageRange", string>>>({});
   const [status, setStatus] = useState<string | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [templates, setTemplates] = useState<PersonaTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const requestId = useMemo(() => getRequestId(), []);
 
-  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
-    event.preventDefault();
-    setStatus(null);
-    setIsSubmitting(true);
+  const applyTemplate = (template: PersonaTemplate) => {
+    setForm(applyPersonaTemplate(template));
+    setTemplateId(template.id);
+    setErrors({});
+    setStepIndex(0);
+    setStatus(`Applied the “${template.name}” template. Adjust anything before forging.`);
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadTemplates = async () => {
+      const { data, error } = await getPersonaTemplates(supabase);
+      if (error) {
+        logger.error({
+          scope: "http.personaTemplate.list",
+          msg: "Failed to fetch persona templates",
+          requestId,
+          err: error,
+        });
+        return;
+      }
+      if (!isMounted || !data) return;
+      const loaded = data as PersonaTemplate[];
+      setTemplates(loaded);
+
+      // The templates page links here with ?template=<id> to start from a preset.
+      const requested = new URLSearchParams(window.location.search).get("template");
+      const match = requested ? loaded.find((template) => template.id === requested) : undefined;
+      if (match) applyTemplate(match);
+    };
 
-    const requestId = getRequestId();
+    loadTemplates();
 
+    return () => {
+      isMounted = false;
+    };
+  }, [requestId, supabase]);
+
+  const handleSaveTemplate = async ({
+    name,
+    description,
+    isShared,
+  }: {
+    name: string;
+    description: string | null;
+    isShared: boolean;
+  }) => {
+    setIsSavingTemplate(true);
     const {
       data: { user },
     } = await supabase.auth.getUser();
-
     if (!user) {
-      logger.warn({
-        scope: "http.avatar.create",
-        msg: "User not authenticated for avatar creation",
+      setIsSavingTemplate(false);
+      router.push("/login");
+      return false;
+    }
+
+    const { membership } = await resolveActiveWorkspace(supabase, user.id, getActiveWorkspaceId());
+    const { data, error } = await createPersonaTemplate(supabase, {
+      user_id: user.id,
+      workspace_id: membership?.workspace_id ?? null,
+      name,
+      description,
+      is_shared: isShared,
+      ...buildTemplateValues(form),
+    });
+    setIsSavingTemplate(false);
+
+    if (error || !data) {
+      setStatus(error?.message ?? "Could not save this template. Try again.");
+      logger.error({
+        scope: "http.personaTemplate.create",
+        msg: "Failed to save persona template",
         requestId,
+        userId: user.id,
+        err: error ?? new Error("Template insert returned empty response"),
       });
-      router.push("/login");
+      return false;
+    }
+
+    logger.info({
+      scope: "http.personaTemplate.create",
+      msg: "Persona template saved",
+      requestId,
+      userId: user.id,
+      payloadSummary: { templateId: data.id, isShared },
+    });
+    setTemplates((previous) => [...previous, data as PersonaTemplate]);
+    setTemplateId(data.id);
+    setStatus(`Saved “${name}” as a template.`);
+    return true;
+  };
+
+  const currentStep = WIZARD_STEPS[stepIndex];
+  const ageSelection = ageRangeOptions.find((option) => option.value === form.ageRange);
+
+  const updateField = (key: WizardFieldKey, patch: Partial<WizardState["fields"][WizardFieldKey]>) => {
+    setForm((previous) => ({
+      ...previous,
+      fields: { ...previous.fields, [key]: { ...previous.fields[key], ...patch } },
+    }));
+    setErrors((previous) => ({ ...previous, [key]: undefined }));
+  };
+
+  const changeMode = (key: WizardFieldKey, mode: FieldMode) => {
+    updateField(key, mode === "random" ? { mode, value: randomFieldValue(key, form) } : { mode });
+  };
+
+  const goToStep = (nextIndex: number) => {
+    if (nextIndex > stepIndex && currentStep) {
+      const stepErrors = validateWizardFields(form, currentStep.fields.map((field) => field.key));
+      setErrors(stepErrors);
+      if (Object.keys(stepErrors).length > 0) return;
+    }
+    setStatus(null);
+    setStepIndex(nextIndex);
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (stepIndex !== REVIEW_STEP) {
+      goToStep(stepIndex + 1);
       return;
     }
 
-    const ageSelection = ageRangeOptions.find((option) => option.value === form.ageRange);
+    setStatus(null);
 
-    if (!ageSelection) {
-      setStatus("Please choose an age range to forge an avatar.");
-      setIsSubmitting(false);
+    const validationErrors = validateWizardFields(form, WIZARD_FIELDS.map((field) => field.key));
+    if (Object.keys(validationErrors).length > 0) {
+      const firstInvalidStep = WIZARD_STEPS.findIndex((step) =>
+        step.fields.some((field) => validationErrors[field.key])
+      );
+      setErrors(validationErrors);
+      setStepIndex(firstInvalidStep === -1 ? 0 : firstInvalidStep);
+      setStatus(
+        validationErrors.ageRange ? "Please choose an age range to forge an avatar." : "Fix the highlighted fields first."
+      );
       logger.warn({
         scope: "http.avatar.create",
-        msg: "Avatar creation blocked due to missing age range",
+        msg: "Avatar creation blocked by wizard validation",
         requestId,
-        userId: user.id,
+        payloadSummary: { invalidFields: Object.keys(validationErrors) },
       });
       return;
     }
 
-    const generatedName = `New avatar (${ageSelection.label})`;
+    setIsSubmitting(true);
 
-    const payload: Partial<Avatar> = {
-      user_id: user.id,
-      name: generatedName,
-      age: ageSelection.numericAge,
-      skin_tone: form.skinTone || null,
-      other_traits: form.misc || null,
-      persona_summary: null,
-      profile_image_path: null,
-      status: "generating",
-      extra_attributes: {
-        age_range: ageSelection.label,
-        ethnicity: form.ethnicity || null,
-        skin_tone_choice: form.skinTone || null,
-        energy_level: form.energyLevel,
-        extroversion: form.extroversion,
-      },
-    };
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      logger.warn({
+        scope: "http.avatar.create",
+        msg: "User not authenticated for avatar creation",
+        requestId,
+      });
+      router.push("/login");
+      return;
+    }
 
-    const { data: created, error } = await createAvatar(supabase, payload as Avatar);
+    // Forge into the workspace picked in the header; without one the database falls back to the personal workspace.
+    const { membership } = await resolveActiveWorkspace(supabase, user.id, getActiveWorkspaceId());
+    const { data: created, error } = await createAvatar(supabase, {
+      ...buildAvatarPayload(form, user.id),
+      workspace_id: membership?.workspace_id,
+    });
 
     if (error || !created) {
       setStatus(error?.message ?? "Could not forge this avatar. Try again.");
@@ -140,11 +244,22 @@ export default function NewAvatarPage() {
         jobTitle: created.job_title,
         city: created.city,
         hasPersonaSummary: Boolean(created.persona_summary),
+        generatorDecides: WIZARD_FIELDS.filter((field) => form.fields[field.key].mode === "generator").length,
+        templateId: templateId || null,
       },
     });
 
     try {
-      await triggerAvatarGeneration(created as Avatar, requestId);
+      const { jobId, status: jobStatus } = await requestAvatarGeneration(created.id, requestId);
+      logger.info({
+        scope: "http.avatar.create",
+        msg: "Avatar generation requested",
+        requestId,
+        userId: user.id,
+        avatarId: created.id,
+        jobId,
+        payloadSummary: { jobStatus },
+      });
       setStatus("We’re crafting this avatar’s story and face…");
       router.push(`/avatars/${created.id}`);
     } catch (hookError) {
@@ -168,107 +283,231 @@ export default function NewAvatarPage() {
     <div className="panel">
       <h1 className="page-title">Forge a new avatar</h1>
       <p className="page-lead">
-        Start with a few quick sliders and dropdowns. We’ll fill in names, backstories, and extra details automatically.
+        Decide each detail yourself, roll the dice, or leave it to the generator. Anything you skip gets filled in with
+        the persona’s backstory.
       </p>
 
-      <form className="form-card" onSubmit={handleSubmit}>
-        <section className="space-y-2">
-          <h2>Quick basics</h2>
-          <label className="field">
-            <span className="label">Age range</span>
-            <select
-              className="input"
-              value={form.ageRange}
-              onChange={(event) => setForm({ ...form, ageRange: event.target.value })}
-            >
-              {ageRangeOptions.map((option) => (
-                <option key={option.value} value={option.value}>
-                  {option.label}
-                </option>
-              ))}
-            </select>
-          </label>
-          <label className="field">
-            <span className="label">Ethnicity</span>
-            <select
-              className="input"
-              value={form.ethnicity}
-              onChange={(event) => setForm({ ...form, ethnicity: event.target.value })}
-            >
-              <option value="">Choose an option</option>
-              {ethnicityOptions.map((option) => (
-                <option key={option} value={option}>
-                  {option}
-                </option>
-              ))}
-            </select>
-          </label>
-        </section>
-
-        <section className="space-y-2">
-          <h2>Appearance</h2>
-          <label className="field">
-            <span className="label">Skin tone</span>
-            <select
-              className="input"
-              value={form.skinTone}
-              onChange={(event) => setForm({ ...form, skinTone: event.target.value })}
-            >
-              <option value="">Choose an option</option>
-              {skinToneOptions.map((tone) => (
-                <option key={tone} value={tone}>
-                  {tone}
-                </option>
-              ))}
-            </select>
-          </label>
-        </section>
-
-        <section className="space-y-2">
-          <h2>Personality vibes</h2>
-          <label className="field">
-            <span className="label">Energy level</span>
-            <input
-              className="input"
-              type="range"
-              min={1}
-              max={5}
-              value={form.energyLevel}
-              onChange={(event) => setForm({ ...form, energyLevel: Number(event.target.value) })}
-            />
-            <small className="page-lead">1 = calm and measured, 5 = high-energy go-getter</small>
-          </label>
-          <label className="field">
-            <span className="label">Social comfort</span>
-            <input
-              className="input"
-              type="range"
-              min={1}
-              max={5}
-              value={form.extroversion}
-              onChange={(event) => setForm({ ...form, extroversion: Number(event.target.value) })}
-            />
-            <small className="page-lead">1 = reserved observer, 5 = outgoing extrovert</small>
-          </label>
-        </section>
-
-        <section className="space-y-2">
-          <h2>MISC input</h2>
-          <p className="page-lead" style={{ margin: 0 }}>
-            Add anything unique: “long beard”, “blue-eyed and blonde”, “loves vintage motorcycles”, or any quirks you want.
-          </p>
-          <textarea
-            className="textarea"
-            value={form.misc}
-            onChange={(event) => setForm({ ...form, misc: event.target.value })}
-          />
-        </section>
+      {templates.length > 0 ? (
+        <label className="field" style={{ marginBottom: "1rem" }}>
+          <span className="label">Start from a template</span>
+          <select
+            className="input"
+            value={templateId}
+            onChange={(event) => {
+              const template = templates.find((entry) => entry.id === event.target.value);
+              if (template) {
+                applyTemplate(template);
+              } else {
+                setForm(createInitialWizardState());
+                setTemplateId("");
+              }
+            }}
+          >
+            <option value="">No template</option>
+            {templates.map((template) => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+                {template.is_builtin ? " (built-in)" : template.is_shared ? " (shared)" : ""}
+              </option>
+            ))}
+          </select>
+          <small className="page-lead">
+            <Link href="/templates">Manage templates</Link>
+          </small>
+        </label>
+      ) : null}
+
+      <ol className="wizard-steps">
+        {[...WIZARD_STEPS.map((step) => step.title), "Review"].map((title, index) => (
+          <li key={title} className={index === stepIndex ? "active" : index < stepIndex ? "done" : undefined}>
+            {index + 1}. {title}
+          </li>
+        ))}
+      </ol>
+
+      <form className="form-card" onSubmit={handleSubmit} noValidate>
+        {currentStep ? (
+          <section className="space-y-2">
+            <h2>{currentStep.title}</h2>
+            <p className="page-lead" style={{ margin: 0 }}>
+              {currentStep.lead}
+            </p>
+
+            {currentStep.id === "basics" ? (
+              <>
+                <label className="field">
+                  <span className="label">Age range</span>
+                  <select
+                    className="input"
+                    value={form.ageRange}
+                    onChange={(event) => setForm({ ...form, ageRange: event.target.value })}
+                    aria-invalid={errors.ageRange ? true : undefined}
+                  >
+                    {ageRangeOptions.map((option) => (
+                      <option key={option.value} value={option.value}>
+                        {option.label}
+                      </option>
+                    ))}
+                  </select>
+                  {errors.ageRange ? <small className="field-error">{errors.ageRange}</small> : null}
+                </label>
+                <label className="field">
+                  <span className="label">Ethnicity</span>
+                  <select
+                    className="input"
+                    value={form.ethnicity}
+                    onChange={(event) => setForm({ ...form, ethnicity: event.target.value })}
+                  >
+                    <option value="">Let the generator decide</option>
+                    {ethnicityOptions.map((option) => (
+                      <option key={option} value={option}>
+                        {option}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </>
+            ) : null}
+
+            {currentStep.fields.map((config) => (
+              <WizardField
+                key={config.key}
+                config={config}
+                state={form.fields[config.key]}
+                error={errors[config.key]}
+                onModeChange={(mode) => changeMode(config.key, mode)}
+                onValueChange={(value) => updateField(config.key, { value })}
+                onReroll={() => updateField(config.key, { value: randomFieldValue(config.key, form) })}
+              />
+            ))}
+
+            {currentStep.id === "lifestyle" ? (
+              <>
+                <label className="field">
+                  <span className="label">Energy level</span>
+                  <input
+                    className="input"
+                    type="range"
+                    min={1}
+                    max={5}
+                    value={form.energyLevel}
+                    onChange={(event) => setForm({ ...form, energyLevel: Number(event.target.value) })}
+                  />
+                  <small className="page-lead">1 = calm and measured, 5 = high-energy go-getter</small>
+                </label>
+                <label className="field">
+                  <span className="label">Social comfort</span>
+                  <input
+                    className="input"
+                    type="range"
+                    min={1}
+                    max={5}
+                    value={form.extroversion}
+                    onChange={(event) => setForm({ ...form, extroversion: Number(event.target.value) })}
+                  />
+                  <small className="page-lead">1 = reserved observer, 5 = outgoing extrovert</small>
+                </label>
+                <label className="field">
+                  <span className="label">MISC input</span>
+                  <small className="page-lead">
+                    Add anything unique: “long beard”, “blue-eyed and blonde”, “loves vintage motorcycles”, or any
+                    quirks you want.
+                  </small>
+                  <textarea
+                    className="textarea"
+                    value={form.misc}
+                    onChange={(event) => setForm({ ...form, misc: event.target.value })}
+                  />
+                </label>
+              </>
+            ) : null}
+          </section>
+        ) : (
+          <section className="space-y-2">
+            <h2>Review</h2>
+            <p className="page-lead" style={{ margin: 0 }}>
+              Check everything before we start forging. Fields left to the generator are filled in with the persona.
+            </p>
+            <div className="table-scroll">
+              <table className="data-table">
+                <thead>
+                  <tr>
+                    <th>Field</th>
+                    <th>Value</th>
+                    <th>Source</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr>
+                    <td>Age range</td>
+                    <td>{ageSelection?.label ?? "—"}</td>
+                    <td>{MODE_SUMMARY.set}</td>
+                  </tr>
+                  <tr>
+                    <td>Ethnicity</td>
+                    <td>{form.ethnicity || "—"}</td>
+                    <td>{form.ethnicity ? MODE_SUMMARY.set : MODE_SUMMARY.generator}</td>
+                  </tr>
+                  {WIZARD_FIELDS.map((config) => {
+                    const field = form.fields[config.key];
+                    return (
+                      <tr key={config.key}>
+                        <td>{config.label}</td>
+                        <td>{field.mode === "generator" ? "—" : field.value || "—"}</td>
+                        <td>{MODE_SUMMARY[field.mode]}</td>
+                      </tr>
+                    );
+                  })}
+                  <tr>
+                    <td>Energy level</td>
+                    <td>{form.energyLevel} / 5</td>
+                    <td>{MODE_SUMMARY.set}</td>
+                  </tr>
+                  <tr>
+                    <td>Social comfort</td>
+                    <td>{form.extroversion} / 5</td>
+                    <td>{MODE_SUMMARY.set}</td>
+                  </tr>
+                  <tr>
+                    <td>MISC input</td>
+                    <td>{form.misc.trim() || "—"}</td>
+                    <td>{form.misc.trim() ? MODE_SUMMARY.set : MODE_SUMMARY.generator}</td>
+                  </tr>
+                </tbody>
+              </table>
+            </div>
+            <SaveTemplateForm isSaving={isSavingTemplate} onSave={handleSaveTemplate} />
+          </section>
+        )}
 
         {status ? <p className="message">{status}</p> : null}
 
-        <button className="button" type="submit" disabled={isSubmitting} title="We’ll send this profile to our generators to create a rich persona and a profile image.">
-          {isSubmitting ? "Forging…" : "Forge avatar"}
-        </button>
+        <div className="hero-actions">
+          {stepIndex > 0 ? (
+            <button
+              className="button secondary"
+              type="button"
+              onClick={() => goToStep(stepIndex - 1)}
+              disabled={isSubmitting}
+            >
+              Back
+            </button>
+          ) : null}
+          {stepIndex === REVIEW_STEP ? (
+            <button
+              className="button"
+              type="submit"
+              disabled={isSubmitting}
+              title="We’ll send this profile to our generators to create a rich persona and a profile image."
+            >
+              {isSubmitting ? "Forging…" : "Forge avatar"}
+            </button>
+          ) : (
+            <button className="button" type="submit">
+              {stepIndex === REVIEW_STEP - 1 ? "Review" : "Next"}
+            </button>
+          )}
+        </div>
       </form>
     </div>
   );
@@ -2,96 +2,136 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
-import { useEffect, useMemo, useState } from "react";
+import { useRouter, useSearchParams } from "next/navigation";
+import { Suspense, useCallback, useEffect, useMemo, useState } from "react";
 import type { User } from "@supabase/supabase-js";
 
+import { AvatarFilters } from "@/components/avatar-filters";
+import { CollectionBulkBar } from "@/components/collection-bulk-bar";
+import {
+  AVATAR_PAGE_SIZE,
+  hasActiveFilters,
+  parseAvatarFilters,
+  toAvatarFilterParams,
+  type AvatarListFilters,
+} from "@/lib/avatar-filters";
+import { useAvatarChanges } from "@/lib/hooks/use-avatar-changes";
+import { useAvatarImageUrls } from "@/lib/hooks/use-avatar-image-urls";
+import { useWorkspaces } from "@/lib/hooks/use-workspaces";
 import { logger } from "@/lib/logger";
 import { getRequestId } from "@/lib/request-id";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
-import { getAvatarsForUser, getPrimaryAvatarImages, getPublicAvatarUrls } from "@/lib/supabase/avatars";
+import { getAvatarsForWorkspace, getPrimaryAvatarImages } from "@/lib/supabase/avatars";
 import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+import { hasWorkspaceRole } from "@/lib/workspaces";
 
-export default function AvatarsPage() {
+function AvatarList() {
   const supabase = useMemo(() => createSupabaseBrowserClient(), []);
   const router = useRouter();
+  const searchParams = useSearchParams();
+  const filterKey = searchParams.toString();
+  const filters = useMemo(() => parseAvatarFilters(new URLSearchParams(filterKey)), [filterKey]);
   const requestId = useMemo(() => getRequestId(), []);
   const [user, setUser] = useState<User | null>(null);
+  const { active: activeWorkspace, isLoading: isLoadingWorkspaces } = useWorkspaces(
+    supabase,
+    user?.id ?? null,
+    requestId
+  );
+  const workspaceId = activeWorkspace?.workspace_id ?? null;
+  const canEdit = hasWorkspaceRole(activeWorkspace?.role, "editor");
   const [avatars, setAvatars] = useState<Avatar[]>([]);
-  const [imageMap, setImageMap] = useState<Record<string, string>>({});
+  const [totalCount, setTotalCount] = useState(0);
+  const [primaryImages, setPrimaryImages] = useState<AvatarImage[]>([]);
+  const primaryImageUrls = useAvatarImageUrls(supabase, primaryImages, { size: "thumbnail" });
+  const imageMap = useMemo(
+    () =>
+      Object.fromEntries(
+        primaryImages
+          .filter((image) => primaryImageUrls[image.id])
+          .map((image) => [image.avatar_id, primaryImageUrls[image.id]] as const)
+      ),
+    [primaryImageUrls, primaryImages]
+  );
   const [isLoading, setIsLoading] = useState(true);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
 
-  useEffect(() => {
-    let isMounted = true;
-
-    const loadAvatars = async () => {
-      setIsLoading(true);
-      const {
-        data: { user: currentUser },
-      } = await supabase.auth.getUser();
+  const loadPrimaryImages = useCallback(
+    async (avatarIds: string[], userId: string) => {
+      const { data: primaryRows, error: primaryError } = await getPrimaryAvatarImages(supabase, avatarIds);
 
-      if (!currentUser) {
-        router.push("/login");
-        return;
+      if (primaryError) {
+        logger.error({
+          scope: "http.avatar.list",
+          msg: "Failed to fetch primary avatar images",
+          requestId,
+          userId,
+          err: primaryError,
+        });
       }
 
-      if (!isMounted) return;
-      setUser(currentUser);
+      if (primaryRows) {
+        setPrimaryImages(primaryRows as AvatarImage[]);
+      }
+    },
+    [requestId, supabase]
+  );
 
-      const { data, error } = await getAvatarsForUser(supabase, currentUser.id);
+  const loadAvatarList = useCallback(
+    async (userId: string) => {
+      if (!workspaceId) return;
+      const { data, error, count } = await getAvatarsForWorkspace(supabase, workspaceId, filters);
 
-      if (!isMounted) return;
       if (error) {
         logger.error({
           scope: "http.avatar.list",
           msg: "Failed to fetch avatars",
           requestId,
-          userId: currentUser.id,
+          userId,
           err: error,
         });
       }
       if (data) {
         setAvatars(data as Avatar[]);
-        const avatarIds = data.map((avatar) => avatar.id);
-        const { data: primaryImages, error: primaryError } = await getPrimaryAvatarImages(
-          supabase,
-          avatarIds,
-          currentUser.id
-        );
-
-        if (primaryError) {
-          logger.error({
-            scope: "http.avatar.list",
-            msg: "Failed to fetch primary avatar images",
-            requestId,
-            userId: currentUser.id,
-            err: primaryError,
-          });
-        }
-
-        if (isMounted && primaryImages) {
-          const typedPrimaryImages = primaryImages as AvatarImage[];
-          const publicUrls = await getPublicAvatarUrls(supabase, typedPrimaryImages);
-          const avatarToUrl = Object.fromEntries(
-            Object.entries(publicUrls)
-              .map(([imageId, url]) => {
-                const matchingImage = typedPrimaryImages.find((img) => img.id === imageId);
-                return matchingImage ? [matchingImage.avatar_id, url] : null;
-              })
-              .filter(Boolean) as [string, string][]
-          );
-          setImageMap(avatarToUrl);
-        }
+        setTotalCount(count ?? data.length);
+        await loadPrimaryImages(data.map((avatar) => avatar.id), userId);
         logger.info({
           scope: "http.avatar.list",
           msg: "Avatars loaded",
           requestId,
-          userId: currentUser.id,
-          payloadSummary: { count: data.length },
+          userId,
+          payloadSummary: {
+            workspaceId,
+            count: data.length,
+            total: count,
+            filters: toAvatarFilterParams(filters).toString(),
+          },
         });
       }
+    },
+    [filters, loadPrimaryImages, requestId, supabase, workspaceId]
+  );
 
-      setIsLoading(false);
+  const updateFilters = (next: AvatarListFilters) => {
+    const query = toAvatarFilterParams(next).toString();
+    router.replace(query ? `/avatars?${query}` : "/avatars", { scroll: false });
+  };
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadAvatars = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      if (isMounted) setUser(currentUser);
     };
 
     loadAvatars();
@@ -99,7 +139,41 @@ export default function AvatarsPage() {
     return () => {
       isMounted = false;
     };
-  }, [requestId, router, supabase]);
+  }, [router, supabase]);
+
+  useEffect(() => {
+    if (!user || isLoadingWorkspaces) return;
+    let isMounted = true;
+
+    loadAvatarList(user.id).then(() => {
+      if (isMounted) setIsLoading(false);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [isLoadingWorkspaces, loadAvatarList, user]);
+
+  useAvatarChanges({
+    supabase,
+    userId: workspaceId ? user?.id ?? null : null,
+    workspaceId,
+    requestId,
+    onAvatarChange: (payload) => {
+      // Inserts and deletes can shift which avatars match the filters and page, so reload instead of patching.
+      if (payload.eventType === "UPDATE") {
+        setAvatars((previous) => previous.map((avatar) => (avatar.id === payload.new.id ? payload.new : avatar)));
+      } else if (user) {
+        loadAvatarList(user.id);
+      }
+    },
+    onImageChange: () => {
+      if (!user) return;
+      loadPrimaryImages(avatars.map((avatar) => avatar.id), user.id);
+    },
+    onPoll: () => (user ? loadAvatarList(user.id) : undefined),
+    shouldPoll: () => avatars.some((avatar) => avatar.status === "pending" || avatar.status === "generating"),
+  });
 
   const renderStatus = (status: Avatar["status"]) => {
     const labels: Record<Avatar["status"], string> = {
@@ -111,6 +185,48 @@ export default function AvatarsPage() {
     return <span className={`pill ${status}`}>{labels[status]}</span>;
   };
 
+  const toggleSelected = (avatarId: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(avatarId)) {
+        next.delete(avatarId);
+      } else {
+        next.add(avatarId);
+      }
+      return next;
+    });
+  };
+
+  const renderCardBody = (avatar: Avatar) => (
+    <>
+      <header>
+        <div className="avatar-thumb">
+          {imageMap[avatar.id] ? (
+            <Image src={imageMap[avatar.id]} alt={`${avatar.name} avatar`} width={64} height={64} />
+          ) : (
+            <span>{avatar.name.slice(0, 1).toUpperCase()}</span>
+          )}
+        </div>
+        <div>
+          <h3 className="page-title" style={{ margin: 0 }}>
+            {avatar.name}
+          </h3>
+          <p className="page-lead" style={{ margin: 0 }}>
+            {avatar.age} yrs · {avatar.job_title ?? "Role tbd"}
+          </p>
+        </div>
+      </header>
+      {renderStatus(avatar.status)}
+      <div className="avatar-traits">
+        <span>{avatar.city ? `${avatar.city}, ${avatar.country ?? ""}` : avatar.country ?? "Location tbd"}</span>
+        {avatar.political_orientation ? <span>Orientation: {avatar.political_orientation}</span> : null}
+        {avatar.hobbies?.length ? <span>Hobbies: {avatar.hobbies.join(", ")}</span> : null}
+      </div>
+    </>
+  );
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / AVATAR_PAGE_SIZE));
+
   if (isLoading) {
     return (
       <div className="panel">
@@ -127,12 +243,68 @@ export default function AvatarsPage() {
           Craft rich, lifelike digital humans for research, testing, and storytelling. The more detail you add, the sharper
           your insights will be.
         </p>
-        <Link className="button" href="/avatars/new">
-          Forge new human
-        </Link>
+        {activeWorkspace && !activeWorkspace.workspace.is_personal ? (
+          <p className="page-lead">
+            Showing the <strong>{activeWorkspace.workspace.name}</strong> workspace
+            {canEdit ? "." : ". You have view-only access here."}
+          </p>
+        ) : null}
+        <div className="hero-actions">
+          {canEdit ? (
+            <Link className="button" href="/avatars/new">
+              Forge new human
+            </Link>
+          ) : null}
+          <Link className="button secondary" href="/templates">
+            Persona templates
+          </Link>
+          <Link className="button secondary" href="/cohorts">
+            Cohorts
+          </Link>
+          <Link className="button secondary" href="/collections">
+            Collections
+          </Link>
+          <Link className="button secondary" href="/scenarios">
+            Scenarios
+          </Link>
+          {canEdit ? (
+            <Link className="button secondary" href="/avatars/import">
+              Import
+            </Link>
+          ) : null}
+          {avatars.length > 0 ? (
+            <button
+              className="button secondary"
+              type="button"
+              onClick={() => {
+                setIsSelecting((previous) => !previous);
+                setSelected(new Set());
+              }}
+            >
+              {isSelecting ? "Done selecting" : "Select avatars"}
+            </button>
+          ) : null}
+        </div>
       </div>
 
-      {avatars.length === 0 ? (
+      {isSelecting && user ? (
+        <CollectionBulkBar
+          supabase={supabase}
+          userId={user.id}
+          requestId={requestId}
+          selectedIds={Array.from(selected)}
+          onDone={() => setSelected(new Set())}
+        />
+      ) : null}
+
+      <AvatarFilters filters={filters} onChange={updateFilters} />
+
+      {avatars.length === 0 && (hasActiveFilters(filters) || filters.page > 1) ? (
+        <div className="panel">
+          <h2>No matching avatars</h2>
+          <p className="page-lead">Try a broader search or clear some filters.</p>
+        </div>
+      ) : avatars.length === 0 ? (
         <div className="panel">
           <h2>No avatars yet</h2>
           <p className="page-lead">
@@ -144,35 +316,63 @@ export default function AvatarsPage() {
         </div>
       ) : (
         <div className="avatar-grid">
-          {avatars.map((avatar) => (
-            <Link key={avatar.id} href={`/avatars/${avatar.id}`} className="avatar-card">
-              <header>
-                <div className="avatar-thumb">
-                  {imageMap[avatar.id] ? (
-                    <Image src={imageMap[avatar.id]} alt={`${avatar.name} avatar`} width={64} height={64} />
-                  ) : (
-                    <span>{avatar.name.slice(0, 1).toUpperCase()}</span>
-                  )}
-                </div>
-                <div>
-                  <h3 className="page-title" style={{ margin: 0 }}>
-                    {avatar.name}
-                  </h3>
-                  <p className="page-lead" style={{ margin: 0 }}>
-                    {avatar.age} yrs · {avatar.job_title ?? "Role tbd"}
-                  </p>
-                </div>
-              </header>
-              {renderStatus(avatar.status)}
-              <div className="avatar-traits">
-                <span>{avatar.city ? `${avatar.city}, ${avatar.country ?? ""}` : avatar.country ?? "Location tbd"}</span>
-                {avatar.political_orientation ? <span>Orientation: {avatar.political_orientation}</span> : null}
-                {avatar.hobbies ? <span>Hobbies: {avatar.hobbies}</span> : null}
-              </div>
-            </Link>
-          ))}
+          {avatars.map((avatar) =>
+            isSelecting ? (
+              <button
+                key={avatar.id}
+                type="button"
+                className={selected.has(avatar.id) ? "avatar-card selectable selected" : "avatar-card selectable"}
+                aria-pressed={selected.has(avatar.id)}
+                onClick={() => toggleSelected(avatar.id)}
+              >
+                {renderCardBody(avatar)}
+              </button>
+            ) : (
+              <Link key={avatar.id} href={`/avatars/${avatar.id}`} className="avatar-card">
+                {renderCardBody(avatar)}
+              </Link>
+            )
+          )}
         </div>
       )}
+
+      {totalCount > 0 ? (
+        <nav className="hero-actions" aria-label="Pagination" style={{ alignItems: "center" }}>
+          <button
+            className="button secondary"
+            type="button"
+            disabled={filters.page <= 1}
+            onClick={() => updateFilters({ ...filters, page: filters.page - 1 })}
+          >
+            Previous
+          </button>
+          <span className="page-lead" style={{ margin: 0 }}>
+            Page {filters.page} of {pageCount} · {totalCount} avatar{totalCount === 1 ? "" : "s"}
+          </span>
+          <button
+            className="button secondary"
+            type="button"
+            disabled={filters.page >= pageCount}
+            onClick={() => updateFilters({ ...filters, page: filters.page + 1 })}
+          >
+            Next
+          </button>
+        </nav>
+      ) : null}
     </div>
   );
 }
+
+export default function AvatarsPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="panel">
+          <p className="page-lead">Loading your forged humans…</p>
+        </div>
+      }
+    >
+      <AvatarList />
+    </Suspense>
+  );
+}
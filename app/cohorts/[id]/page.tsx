@@ -0,0 +1,194 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { CohortProgress } from "@/components/cohort-progress";
+import { COHORT_DIMENSIONS, allocateCounts, summarizeCohortProgress } from "@/lib/cohorts";
+import { useAvatarChanges } from "@/lib/hooks/use-avatar-changes";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { getCohortAvatars, getCohortById } from "@/lib/supabase/cohorts";
+import type { Avatar } from "@/lib/types/avatars";
+import type { AvatarCohort } from "@/lib/types/cohorts";
+
+const STATUS_LABELS: Record<Avatar["status"], string> = {
+  pending: "Queued",
+  generating: "Generating",
+  ready: "Ready",
+  failed: "Failed",
+};
+
+export default function CohortDetailPage({ params }: { params: { id: string } }) {
+  const cohortId = params.id;
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [cohort, setCohort] = useState<AvatarCohort | null>(null);
+  const [avatars, setAvatars] = useState<Avatar[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadMembers = useCallback(
+    async (userId: string) => {
+      const { data, error } = await getCohortAvatars(supabase, cohortId, userId);
+      if (error) {
+        logger.error({
+          scope: "http.cohort.detail",
+          msg: "Failed to fetch cohort avatars",
+          requestId,
+          userId,
+          payloadSummary: { cohortId },
+          err: error,
+        });
+      }
+      if (data) setAvatars(data as Avatar[]);
+    },
+    [cohortId, requestId, supabase]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      const { data, error } = await getCohortById(supabase, cohortId, currentUser.id);
+      if (error) {
+        logger.error({
+          scope: "http.cohort.detail",
+          msg: "Failed to fetch cohort",
+          requestId,
+          userId: currentUser.id,
+          payloadSummary: { cohortId },
+          err: error,
+        });
+      }
+      if (!isMounted) return;
+
+      setUser(currentUser);
+      setCohort((data as AvatarCohort) ?? null);
+      await loadMembers(currentUser.id);
+      if (isMounted) setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [cohortId, loadMembers, requestId, router, supabase]);
+
+  useAvatarChanges({
+    supabase,
+    userId: user?.id ?? null,
+    requestId,
+    onAvatarChange: (payload) => {
+      if (payload.eventType === "DELETE") {
+        setAvatars((previous) => previous.filter((avatar) => avatar.id !== payload.old.id));
+      } else if (payload.new.cohort_id === cohortId) {
+        setAvatars((previous) =>
+          previous.some((avatar) => avatar.id === payload.new.id)
+            ? previous.map((avatar) => (avatar.id === payload.new.id ? payload.new : avatar))
+            : [...previous, payload.new]
+        );
+      }
+    },
+    onPoll: () => (user ? loadMembers(user.id) : undefined),
+    shouldPoll: () => avatars.some((avatar) => avatar.status === "pending" || avatar.status === "generating"),
+  });
+
+  const progress = useMemo(() => summarizeCohortProgress(avatars), [avatars]);
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading cohort…</p>
+      </div>
+    );
+  }
+
+  if (!cohort) {
+    return (
+      <div className="panel">
+        <h1 className="page-title">Cohort not found</h1>
+        <Link href="/cohorts">Back to cohorts</Link>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="panel space-y-2">
+        <Link href="/cohorts">← All cohorts</Link>
+        <h1 className="page-title">{cohort.name}</h1>
+        <p className="page-lead">
+          {cohort.size} avatars requested · created {new Date(cohort.created_at).toLocaleString()}
+        </p>
+        <CohortProgress progress={progress} />
+      </div>
+
+      <section className="panel">
+        <h2>Target distribution</h2>
+        <div className="traits-grid">
+          {COHORT_DIMENSIONS.map((dimension) => {
+            const counts = allocateCounts(cohort.size, cohort.distribution?.[dimension.key] ?? {});
+            const entries = dimension.options.filter((option) => counts[option.value]);
+            return (
+              <div key={dimension.key} className="field">
+                <span className="label">{dimension.label}</span>
+                <span>
+                  {entries.length
+                    ? entries.map((option) => `${option.label}: ${counts[option.value]}`).join(", ")
+                    : "Generator decides"}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      </section>
+
+      <section className="panel">
+        <h2>Members</h2>
+        <div className="table-scroll">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Age</th>
+                <th>Country</th>
+                <th>Job</th>
+                <th>Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {avatars.map((avatar) => (
+                <tr key={avatar.id}>
+                  <td>
+                    <Link href={`/avatars/${avatar.id}`}>{avatar.name}</Link>
+                  </td>
+                  <td>{avatar.age}</td>
+                  <td>{avatar.country ?? "-"}</td>
+                  <td>{avatar.job_title ?? "-"}</td>
+                  <td>
+                    <span className={`pill ${avatar.status}`}>{STATUS_LABELS[avatar.status]}</span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
+    </div>
+  );
+}
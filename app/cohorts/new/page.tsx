@@ -0,0 +1,178 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useMemo, useState, type FormEvent } from "react";
+
+import { ApiError } from "@/lib/api/client";
+import { requestCohortCreation } from "@/lib/api/cohorts";
+import { COHORT_DIMENSIONS, MAX_COHORT_SIZE, MIN_COHORT_SIZE, allocateCounts } from "@/lib/cohorts";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import type { CohortDimension, CohortDistribution } from "@/lib/types/cohorts";
+
+function createInitialDistribution(): CohortDistribution {
+  return {
+    ageRanges: { "young-adult": 1, adult: 1, "middle-aged": 1, "older-adult": 1 },
+    ethnicities: {},
+    countries: {},
+    energyLevels: {},
+    extroversion: {},
+  };
+}
+
+export default function NewCohortPage() {
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [name, setName] = useState("");
+  const [size, setSize] = useState("50");
+  const [distribution, setDistribution] = useState<CohortDistribution>(createInitialDistribution);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const parsedSize = Number(size);
+  const sizeIsValid = Number.isInteger(parsedSize) && parsedSize >= MIN_COHORT_SIZE && parsedSize <= MAX_COHORT_SIZE;
+
+  const setWeight = (dimension: CohortDimension, option: string, value: string) => {
+    const weight = Number(value);
+    setDistribution((previous) => {
+      const weights = { ...previous[dimension] };
+      if (value === "" || !Number.isFinite(weight) || weight <= 0) {
+        delete weights[option];
+      } else {
+        weights[option] = weight;
+      }
+      return { ...previous, [dimension]: weights };
+    });
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setStatus(null);
+
+    if (!name.trim()) {
+      setStatus("Give the cohort a name.");
+      return;
+    }
+    if (!sizeIsValid) {
+      setStatus(`Cohorts can have between ${MIN_COHORT_SIZE} and ${MAX_COHORT_SIZE} avatars.`);
+      return;
+    }
+    if (Object.keys(distribution.ageRanges).length === 0) {
+      setStatus("Give at least one age range a weight.");
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      const { cohortId, size: created } = await requestCohortCreation(
+        { name: name.trim(), size: parsedSize, distribution },
+        requestId
+      );
+      logger.info({
+        scope: "http.cohort.create",
+        msg: "Cohort forging requested",
+        requestId,
+        payloadSummary: { cohortId, size: created },
+      });
+      router.push(`/cohorts/${cohortId}`);
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        router.push("/login");
+        return;
+      }
+      logger.error({ scope: "http.cohort.create", msg: "Failed to create cohort", requestId, err: error });
+      const details = error instanceof ApiError && Array.isArray(error.details) ? ` ${error.details.join("; ")}` : "";
+      setStatus(`${error instanceof Error ? error.message : "Could not create the cohort."}${details}`);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="panel">
+      <h1 className="page-title">Forge a cohort</h1>
+      <p className="page-lead">
+        Choose how many people you need and how they should be spread out. Weights are relative: 2 and 1 means twice as
+        many of the first. Leave a whole dimension at zero to let the generator decide.
+      </p>
+
+      <form className="form-card" onSubmit={handleSubmit}>
+        <div className="traits-grid">
+          <label className="field">
+            <span className="label">Cohort name</span>
+            <input
+              className="input"
+              value={name}
+              placeholder="e.g. Q3 commuter study"
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <label className="field">
+            <span className="label">Size</span>
+            <input
+              className="input"
+              type="number"
+              inputMode="numeric"
+              min={MIN_COHORT_SIZE}
+              max={MAX_COHORT_SIZE}
+              value={size}
+              onChange={(event) => setSize(event.target.value)}
+              aria-invalid={sizeIsValid ? undefined : true}
+            />
+          </label>
+        </div>
+
+        {COHORT_DIMENSIONS.map((dimension) => {
+          const counts = sizeIsValid ? allocateCounts(parsedSize, distribution[dimension.key]) : {};
+          const isEmpty = Object.keys(distribution[dimension.key]).length === 0;
+          return (
+            <section key={dimension.key} className="space-y-2">
+              <h2>{dimension.label}</h2>
+              {isEmpty ? (
+                <p className="page-lead" style={{ margin: 0 }}>
+                  {dimension.key === "ageRanges" ? "Required." : "Left to the generator."}
+                </p>
+              ) : null}
+              <div className="table-scroll">
+                <table className="data-table">
+                  <thead>
+                    <tr>
+                      <th>Option</th>
+                      <th>Weight</th>
+                      <th>Avatars</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {dimension.options.map((option) => (
+                      <tr key={option.value}>
+                        <td>{option.label}</td>
+                        <td>
+                          <input
+                            className="input"
+                            style={{ maxWidth: "6rem" }}
+                            type="number"
+                            min={0}
+                            step="any"
+                            value={distribution[dimension.key][option.value] ?? ""}
+                            placeholder="0"
+                            onChange={(event) => setWeight(dimension.key, option.value, event.target.value)}
+                          />
+                        </td>
+                        <td>{counts[option.value] ?? 0}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+          );
+        })}
+
+        {status ? <p className="message">{status}</p> : null}
+
+        <button className="button" type="submit" disabled={isSubmitting}>
+          {isSubmitting ? "Forging cohort…" : `Forge ${sizeIsValid ? parsedSize : ""} avatars`}
+        </button>
+      </form>
+    </div>
+  );
+}
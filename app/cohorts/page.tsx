@@ -0,0 +1,144 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { CohortProgress } from "@/components/cohort-progress";
+import { summarizeCohortProgress } from "@/lib/cohorts";
+import { useAvatarChanges } from "@/lib/hooks/use-avatar-changes";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { getCohortAvatarStatuses, getCohortsForUser } from "@/lib/supabase/cohorts";
+import type { Avatar } from "@/lib/types/avatars";
+import type { AvatarCohort } from "@/lib/types/cohorts";
+
+type MemberStatus = Pick<Avatar, "id" | "cohort_id" | "status">;
+
+export default function CohortsPage() {
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [cohorts, setCohorts] = useState<AvatarCohort[]>([]);
+  const [members, setMembers] = useState<MemberStatus[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadCohorts = useCallback(
+    async (userId: string) => {
+      const [{ data: cohortRows, error: cohortError }, { data: memberRows, error: memberError }] = await Promise.all([
+        getCohortsForUser(supabase, userId),
+        getCohortAvatarStatuses(supabase, userId),
+      ]);
+
+      if (cohortError || memberError) {
+        logger.error({
+          scope: "http.cohort.list",
+          msg: "Failed to fetch cohorts",
+          requestId,
+          userId,
+          err: cohortError ?? memberError,
+        });
+      }
+      if (cohortRows) setCohorts(cohortRows as AvatarCohort[]);
+      if (memberRows) setMembers(memberRows as MemberStatus[]);
+    },
+    [requestId, supabase]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      if (!isMounted) return;
+      setUser(currentUser);
+      await loadCohorts(currentUser.id);
+      if (isMounted) setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [loadCohorts, router, supabase]);
+
+  useAvatarChanges({
+    supabase,
+    userId: user?.id ?? null,
+    requestId,
+    onAvatarChange: (payload) => {
+      if (payload.eventType === "DELETE") {
+        setMembers((previous) => previous.filter((member) => member.id !== payload.old.id));
+        return;
+      }
+      const { id, cohort_id, status } = payload.new;
+      if (!cohort_id) return;
+      setMembers((previous) => [...previous.filter((member) => member.id !== id), { id, cohort_id, status }]);
+    },
+    onPoll: () => (user ? loadCohorts(user.id) : undefined),
+    shouldPoll: () => members.some((member) => member.status === "pending" || member.status === "generating"),
+  });
+
+  const progressByCohort = useMemo(() => {
+    const grouped = new Map<string, MemberStatus[]>();
+    for (const member of members) {
+      if (!member.cohort_id) continue;
+      grouped.set(member.cohort_id, [...(grouped.get(member.cohort_id) ?? []), member]);
+    }
+    return new Map(Array.from(grouped, ([cohortId, rows]) => [cohortId, summarizeCohortProgress(rows)] as const));
+  }, [members]);
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading your cohorts…</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="panel">
+        <h1 className="page-title">Cohorts</h1>
+        <p className="page-lead">
+          Forge whole panels of personas at once from target distributions. Generation is queued and paced so large
+          cohorts finish steadily in the background.
+        </p>
+        <Link className="button" href="/cohorts/new">
+          Forge cohort
+        </Link>
+      </div>
+
+      {cohorts.length === 0 ? (
+        <div className="panel">
+          <h2>No cohorts yet</h2>
+          <p className="page-lead">Forge your first cohort to build a balanced study panel in one go.</p>
+        </div>
+      ) : (
+        cohorts.map((cohort) => (
+          <section key={cohort.id} className="panel space-y-2">
+            <h2 style={{ margin: 0 }}>
+              <Link href={`/cohorts/${cohort.id}`}>{cohort.name}</Link>
+            </h2>
+            <p className="page-lead" style={{ margin: 0 }}>
+              {cohort.size} avatars · created {new Date(cohort.created_at).toLocaleDateString()}
+            </p>
+            <CohortProgress progress={progressByCohort.get(cohort.id) ?? summarizeCohortProgress([])} />
+          </section>
+        ))
+      )}
+    </div>
+  );
+}
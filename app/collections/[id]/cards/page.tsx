@@ -0,0 +1,100 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+
+import { PersonaCard } from "@/components/persona-card";
+import { useAvatarImageUrls } from "@/lib/hooks/use-avatar-image-urls";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { getPrimaryAvatarImages } from "@/lib/supabase/avatars";
+import { getCollectionAvatars } from "@/lib/supabase/collections";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+
+/** Every persona card in a collection, one per printed page. */
+export default function CollectionCardsPage({ params }: { params: { id: string } }) {
+  const collectionId = params.id;
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [avatars, setAvatars] = useState<Avatar[]>([]);
+  const [primaryImages, setPrimaryImages] = useState<AvatarImage[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const primaryImageUrls = useAvatarImageUrls(supabase, primaryImages, { size: "medium" });
+  const imageMap = useMemo(
+    () =>
+      Object.fromEntries(
+        primaryImages
+          .filter((image) => primaryImageUrls[image.id])
+          .map((image) => [image.avatar_id, primaryImageUrls[image.id]] as const)
+      ),
+    [primaryImageUrls, primaryImages]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        router.push("/login");
+        return;
+      }
+
+      const { data, error } = await getCollectionAvatars(supabase, collectionId, user.id);
+      if (error) {
+        logger.error({
+          scope: "http.collection.export",
+          msg: "Failed to load collection for persona cards",
+          requestId,
+          userId: user.id,
+          payloadSummary: { collectionId },
+          err: error,
+        });
+      }
+      const members = (data ?? []) as Avatar[];
+      const { data: primaryRows } = await getPrimaryAvatarImages(supabase, members.map((avatar) => avatar.id));
+      if (!isMounted) return;
+
+      setAvatars(members);
+      setPrimaryImages((primaryRows ?? []) as AvatarImage[]);
+      setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [collectionId, requestId, router, supabase]);
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Preparing persona cards…</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="hero-actions no-print">
+        <Link className="button secondary" href={`/collections/${collectionId}`}>
+          Back to collection
+        </Link>
+        <button className="button" type="button" onClick={() => window.print()} disabled={avatars.length === 0}>
+          Print or save as PDF
+        </button>
+      </div>
+      {avatars.length === 0 ? <p className="page-lead">This collection has no avatars to print.</p> : null}
+      {avatars.map((avatar) => (
+        <PersonaCard key={avatar.id} avatar={avatar} imageUrl={imageMap[avatar.id]} />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { ShareLinksPanel } from "@/components/share-links-panel";
+import { requestCollectionScenarioGeneration } from "@/lib/api/collections";
+import { downloadAvatarExport, type AvatarExportFormat } from "@/lib/avatar-export";
+import { useAvatarImageUrls } from "@/lib/hooks/use-avatar-image-urls";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { MAX_SCENARIO_PROMPT_LENGTH } from "@/lib/scenario-prompt";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { getImagesForAvatars, getPrimaryAvatarImages } from "@/lib/supabase/avatars";
+import {
+  deleteCollection,
+  getCollectionAvatars,
+  getCollectionById,
+  removeAvatarsFromCollection,
+} from "@/lib/supabase/collections";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+import type { AvatarCollection } from "@/lib/types/collections";
+
+export default function CollectionDetailPage({ params }: { params: { id: string } }) {
+  const collectionId = params.id;
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [collection, setCollection] = useState<AvatarCollection | null>(null);
+  const [avatars, setAvatars] = useState<Avatar[]>([]);
+  const [primaryImages, setPrimaryImages] = useState<AvatarImage[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [scenarioPrompt, setScenarioPrompt] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const primaryImageUrls = useAvatarImageUrls(supabase, primaryImages, { size: "thumbnail" });
+  const imageMap = useMemo(
+    () =>
+      Object.fromEntries(
+        primaryImages
+          .filter((image) => primaryImageUrls[image.id])
+          .map((image) => [image.avatar_id, primaryImageUrls[image.id]] as const)
+      ),
+    [primaryImageUrls, primaryImages]
+  );
+
+  const loadMembers = useCallback(
+    async (userId: string) => {
+      const { data, error } = await getCollectionAvatars(supabase, collectionId, userId);
+      if (error) {
+        logger.error({
+          scope: "http.collection.detail",
+          msg: "Failed to fetch collection avatars",
+          requestId,
+          userId,
+          payloadSummary: { collectionId },
+          err: error,
+        });
+        return;
+      }
+
+      const members = (data ?? []) as Avatar[];
+      setAvatars(members);
+      const { data: primaryRows } = await getPrimaryAvatarImages(supabase, members.map((avatar) => avatar.id));
+      setPrimaryImages((primaryRows ?? []) as AvatarImage[]);
+    },
+    [collectionId, requestId, supabase]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      const { data, error } = await getCollectionById(supabase, collectionId, currentUser.id);
+      if (error) {
+        logger.error({
+          scope: "http.collection.detail",
+          msg: "Failed to fetch collection",
+          requestId,
+          userId: currentUser.id,
+          payloadSummary: { collectionId },
+          err: error,
+        });
+      }
+      if (!isMounted) return;
+
+      setUser(currentUser);
+      setCollection((data as AvatarCollection) ?? null);
+      await loadMembers(currentUser.id);
+      if (isMounted) setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [collectionId, loadMembers, requestId, router, supabase]);
+
+  const toggleSelected = (avatarId: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(avatarId)) {
+        next.delete(avatarId);
+      } else {
+        next.add(avatarId);
+      }
+      return next;
+    });
+  };
+
+  const handleRemoveSelected = async () => {
+    if (!user || selected.size === 0) return;
+    setIsBusy(true);
+    setStatus(null);
+    const avatarIds = Array.from(selected);
+    const { error } = await removeAvatarsFromCollection(supabase, collectionId, user.id, avatarIds);
+    setIsBusy(false);
+
+    if (error) {
+      logger.error({
+        scope: "http.collection.members",
+        msg: "Failed to remove avatars from collection",
+        requestId,
+        userId: user.id,
+        payloadSummary: { collectionId, count: avatarIds.length },
+        err: error,
+      });
+      setStatus("Could not remove the selected avatars.");
+      return;
+    }
+
+    setAvatars((previous) => previous.filter((avatar) => !selected.has(avatar.id)));
+    setSelected(new Set());
+    setStatus(`Removed ${avatarIds.length} avatar${avatarIds.length === 1 ? "" : "s"} from this collection.`);
+  };
+
+  const handleGenerateScenes = async () => {
+    setIsBusy(true);
+    setStatus(null);
+    try {
+      const { queued, skipped } = await requestCollectionScenarioGeneration(
+        collectionId,
+        scenarioPrompt || undefined,
+        requestId
+      );
+      logger.info({
+        scope: "http.collection.scenario",
+        msg: "Collection scenario generation requested",
+        requestId,
+        userId: user?.id,
+        payloadSummary: { collectionId, queued, skipped },
+      });
+      setStatus(
+        `Queued new scenes for ${queued} avatar${queued === 1 ? "" : "s"}` +
+          (skipped ? `; ${skipped} not ready yet were skipped.` : ".")
+      );
+      setScenarioPrompt("");
+    } catch (error) {
+      logger.error({
+        scope: "http.collection.scenario",
+        msg: "Collection scenario generation request failed",
+        requestId,
+        userId: user?.id,
+        payloadSummary: { collectionId },
+        err: error,
+      });
+      setStatus(error instanceof Error ? error.message : "Could not request new scenes.");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExport = async (format: AvatarExportFormat) => {
+    if (!user || !collection) return;
+    const source = { type: "collection" as const, id: collection.id, name: collection.name };
+    if (format === "csv") {
+      downloadAvatarExport(format, source, avatars, []);
+      return;
+    }
+
+    setIsBusy(true);
+    const { data: images, error } = await getImagesForAvatars(supabase, avatars.map((avatar) => avatar.id));
+    setIsBusy(false);
+
+    if (error) {
+      logger.error({
+        scope: "http.collection.export",
+        msg: "Failed to load images for export",
+        requestId,
+        userId: user.id,
+        payloadSummary: { collectionId },
+        err: error,
+      });
+      setStatus("Could not export this collection.");
+      return;
+    }
+
+    downloadAvatarExport(format, source, avatars, (images ?? []) as AvatarImage[]);
+  };
+
+  const handleDelete = async () => {
+    if (!user || !collection) return;
+    if (!window.confirm(`Delete “${collection.name}”? The avatars themselves are kept.`)) return;
+    setIsBusy(true);
+    const { error } = await deleteCollection(supabase, collectionId, user.id);
+    if (error) {
+      setIsBusy(false);
+      logger.error({
+        scope: "http.collection.delete",
+        msg: "Failed to delete collection",
+        requestId,
+        userId: user.id,
+        payloadSummary: { collectionId },
+        err: error,
+      });
+      setStatus("Could not delete this collection.");
+      return;
+    }
+    router.push("/collections");
+  };
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading collection…</p>
+      </div>
+    );
+  }
+
+  if (!collection) {
+    return (
+      <div className="panel">
+        <h1 className="page-title">Collection not found</h1>
+        <Link href="/collections">Back to collections</Link>
+      </div>
+    );
+  }
+
+  const readyCount = avatars.filter((avatar) => avatar.status === "ready").length;
+
+  return (
+    <div className="space-y-6">
+      <div className="panel space-y-2">
+        <Link href="/collections">← All collections</Link>
+        <h1 className="page-title">{collection.name}</h1>
+        {collection.description ? <p className="page-lead">{collection.description}</p> : null}
+        <div className="hero-actions">
+          <button className="button secondary" type="button" onClick={() => handleExport("json")} disabled={isBusy}>
+            Export JSON
+          </button>
+          <button className="button secondary" type="button" onClick={() => handleExport("csv")} disabled={isBusy}>
+            Export CSV
+          </button>
+          <Link className="button secondary" href={`/collections/${collection.id}/cards`}>
+            Print persona cards
+          </Link>
+          <button className="button danger" type="button" onClick={handleDelete} disabled={isBusy}>
+            Delete collection
+          </button>
+        </div>
+      </div>
+
+      <section className="panel space-y-2">
+        <h2>Generate scenes</h2>
+        <p className="page-lead" style={{ margin: 0 }}>
+          Requests one new scene for each of the {readyCount} ready avatar{readyCount === 1 ? "" : "s"} in this
+          collection. Requests are queued and sent gradually.
+        </p>
+        <textarea
+          className="textarea"
+          placeholder="Optional scenario prompt"
+          maxLength={MAX_SCENARIO_PROMPT_LENGTH}
+          value={scenarioPrompt}
+          onChange={(event) => setScenarioPrompt(event.target.value)}
+        />
+        <div>
+          <button
+            className="button"
+            type="button"
+            onClick={handleGenerateScenes}
+            disabled={isBusy || readyCount === 0}
+          >
+            Generate scenes for collection
+          </button>
+        </div>
+      </section>
+
+      {status ? <p className="message">{status}</p> : null}
+
+      <section className="panel space-y-2">
+        <h2>Avatars</h2>
+        {avatars.length === 0 ? (
+          <p className="page-lead">
+            No avatars yet. Select some on the <Link href="/avatars">avatar list</Link> and add them here.
+          </p>
+        ) : (
+          <>
+            <div className="hero-actions">
+              <button
+                className="button secondary"
+                type="button"
+                onClick={handleRemoveSelected}
+                disabled={isBusy || selected.size === 0}
+              >
+                Remove {selected.size || ""} from collection
+              </button>
+            </div>
+            <div className="avatar-grid">
+              {avatars.map((avatar) => (
+                <div key={avatar.id} className="avatar-card">
+                  <header>
+                    <div className="avatar-thumb">
+                      {imageMap[avatar.id] ? (
+                        <Image src={imageMap[avatar.id]} alt={`${avatar.name} avatar`} width={64} height={64} />
+                      ) : (
+                        <span>{avatar.name.slice(0, 1).toUpperCase()}</span>
+                      )}
+                    </div>
+                    <div>
+                      <h3 className="page-title" style={{ margin: 0 }}>
+                        <Link href={`/avatars/${avatar.id}`}>{avatar.name}</Link>
+                      </h3>
+                      <p className="page-lead" style={{ margin: 0 }}>
+                        {avatar.age} yrs · {avatar.job_title ?? "Role tbd"}
+                      </p>
+                    </div>
+                  </header>
+                  <label className="mode-option">
+                    <input
+                      type="checkbox"
+                      checked={selected.has(avatar.id)}
+                      onChange={() => toggleSelected(avatar.id)}
+                    />
+                    Select
+                  </label>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </section>
+
+      {user ? (
+        <ShareLinksPanel
+          supabase={supabase}
+          userId={user.id}
+          requestId={requestId}
+          collectionId={collection.id}
+          subject="this collection and its personas"
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useMemo, useState, type FormEvent } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { createCollection, getCollectionsForUser } from "@/lib/supabase/collections";
+import type { AvatarCollectionWithCount } from "@/lib/types/collections";
+
+export default function CollectionsPage() {
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [collections, setCollections] = useState<AvatarCollectionWithCount[]>([]);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const loadCollections = useCallback(
+    async (userId: string) => {
+      const { data, error } = await getCollectionsForUser(supabase, userId);
+      if (error) {
+        logger.error({ scope: "http.collection.list", msg: "Failed to fetch collections", requestId, userId, err: error });
+      }
+      if (data) setCollections(data as AvatarCollectionWithCount[]);
+    },
+    [requestId, supabase]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      if (!isMounted) return;
+      setUser(currentUser);
+      await loadCollections(currentUser.id);
+      if (isMounted) setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [loadCollections, router, supabase]);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!user) return;
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setStatus("Give the collection a name.");
+      return;
+    }
+
+    setIsCreating(true);
+    setStatus(null);
+    const { data, error } = await createCollection(supabase, {
+      user_id: user.id,
+      name: trimmed,
+      description: description.trim() || null,
+    });
+    setIsCreating(false);
+
+    if (error || !data) {
+      logger.error({
+        scope: "http.collection.create",
+        msg: "Failed to create collection",
+        requestId,
+        userId: user.id,
+        err: error ?? new Error("Collection insert returned empty response"),
+      });
+      setStatus(error?.message ?? "Could not create this collection.");
+      return;
+    }
+
+    logger.info({
+      scope: "http.collection.create",
+      msg: "Collection created",
+      requestId,
+      userId: user.id,
+      payloadSummary: { collectionId: data.id },
+    });
+    setName("");
+    setDescription("");
+    setCollections((previous) => [{ ...data, avatar_collection_members: [{ count: 0 }] }, ...previous]);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading your collections…</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="panel">
+        <h1 className="page-title">Collections</h1>
+        <p className="page-lead">
+          Group avatars into projects. An avatar can sit in as many collections as you like; add them in bulk from the{" "}
+          <Link href="/avatars">avatar list</Link>.
+        </p>
+        <form className="form-card" onSubmit={handleCreate}>
+          <div className="traits-grid">
+            <label className="field">
+              <span className="label">Name</span>
+              <input
+                className="input"
+                value={name}
+                placeholder="e.g. Checkout usability study"
+                onChange={(event) => setName(event.target.value)}
+              />
+            </label>
+            <label className="field">
+              <span className="label">Description</span>
+              <input className="input" value={description} onChange={(event) => setDescription(event.target.value)} />
+            </label>
+          </div>
+          {status ? <p className="message">{status}</p> : null}
+          <div>
+            <button className="button" type="submit" disabled={isCreating}>
+              {isCreating ? "Creating…" : "Create collection"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {collections.length === 0 ? (
+        <div className="panel">
+          <h2>No collections yet</h2>
+          <p className="page-lead">Create one above to start grouping avatars.</p>
+        </div>
+      ) : (
+        <div className="avatar-grid">
+          {collections.map((collection) => (
+            <Link key={collection.id} href={`/collections/${collection.id}`} className="avatar-card">
+              <h3 className="page-title" style={{ margin: 0 }}>
+                {collection.name}
+              </h3>
+              {collection.description ? (
+                <p className="page-lead" style={{ margin: 0 }}>
+                  {collection.description}
+                </p>
+              ) : null}
+              <span className="pill">{collection.avatar_collection_members[0]?.count ?? 0} avatars</span>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
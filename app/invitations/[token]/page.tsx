@@ -0,0 +1,108 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { acceptWorkspaceInvitation } from "@/lib/supabase/workspaces";
+import { setActiveWorkspaceId } from "@/lib/workspaces";
+
+const SCOPE = "http.workspace.accept";
+
+type InvitationState =
+  | { status: "loading" }
+  | { status: "signed-out" }
+  | { status: "accepted" }
+  | { status: "error"; message: string };
+
+export default function InvitationPage({ params }: { params: { token: string } }) {
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const requestId = useMemo(() => getRequestId(), []);
+  const [state, setState] = useState<InvitationState>({ status: "loading" });
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const accept = async () => {
+      const {
+        data: { user },
+      } = await supabase.auth.getUser();
+
+      if (!user) {
+        if (isMounted) setState({ status: "signed-out" });
+        return;
+      }
+
+      const { data, error } = await acceptWorkspaceInvitation(supabase, params.token);
+      if (!isMounted) return;
+
+      if (error || !data) {
+        logger.warn({
+          scope: SCOPE,
+          msg: "Failed to accept workspace invitation",
+          requestId,
+          userId: user.id,
+          err: error ?? new Error("Invitation acceptance returned empty response"),
+        });
+        setState({ status: "error", message: error?.message ?? "This invitation could not be accepted." });
+        return;
+      }
+
+      logger.info({
+        scope: SCOPE,
+        msg: "Workspace invitation accepted",
+        requestId,
+        userId: user.id,
+        payloadSummary: { workspaceId: data.workspace_id, role: data.role },
+      });
+      setActiveWorkspaceId(data.workspace_id);
+      setState({ status: "accepted" });
+    };
+
+    accept();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [params.token, requestId, supabase]);
+
+  return (
+    <div className="panel">
+      <h1 className="page-title">Workspace invitation</h1>
+      {state.status === "loading" ? <p className="page-lead">Checking your invitation…</p> : null}
+      {state.status === "signed-out" ? (
+        <>
+          <p className="page-lead">
+            Log in or create an account with the email address this invitation was sent to, then open this link
+            again to join the workspace.
+          </p>
+          <div className="hero-actions">
+            <Link className="button" href="/login">
+              Log in
+            </Link>
+            <Link className="button secondary" href="/signup">
+              Create an account
+            </Link>
+          </div>
+        </>
+      ) : null}
+      {state.status === "accepted" ? (
+        <>
+          <p className="page-lead">You’ve joined the workspace. It’s now your active workspace.</p>
+          <div className="hero-actions">
+            <Link className="button" href="/avatars">
+              Browse avatars
+            </Link>
+          </div>
+        </>
+      ) : null}
+      {state.status === "error" ? (
+        <p className="message" role="status">
+          {state.message}
+        </p>
+      ) : null}
+    </div>
+  );
+}
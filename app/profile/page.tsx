@@ -4,6 +4,8 @@ import { useEffect, useMemo, useState, type FormEvent } from "react";
 import { useRouter } from "next/navigation";
 import type { User } from "@supabase/supabase-js";
 
+import { UsageMeter } from "@/components/usage-meter";
+import { getRequestId } from "@/lib/request-id";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
 
 type Profile = {
@@ -15,6 +17,7 @@ type Profile = {
 export default function ProfilePage() {
   const supabase = useMemo(() => createSupabaseBrowserClient(), []);
   const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile>({ full_name: "", avatar_url: "", bio: "" });
   const [status, setStatus] = useState<string | null>(null);
@@ -109,6 +112,8 @@ export default function ProfilePage() {
         <dd>{user?.email}</dd>
       </dl>
 
+      {user ? <UsageMeter supabase={supabase} userId={user.id} requestId={requestId} /> : null}
+
       <form className="form-card" onSubmit={handleSubmit}>
         <label className="field">
           <span className="label">Full name</span>
@@ -0,0 +1,215 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { createEmptyScenarioDraft, ScenarioFieldsForm, type ScenarioDraft } from "@/components/scenario-fields-form";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { describeScenario, parseScenarioFields } from "@/lib/scenario-prompt";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import {
+  createScenarioPrompt,
+  deleteScenarioPrompt,
+  getScenarioPromptsForUser,
+} from "@/lib/supabase/scenario-prompts";
+import type { ScenarioPrompt } from "@/lib/types/scenario-prompts";
+
+export default function ScenarioLibraryPage() {
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const [prompts, setPrompts] = useState<ScenarioPrompt[]>([]);
+  const [name, setName] = useState("");
+  const [draft, setDraft] = useState<ScenarioDraft>(createEmptyScenarioDraft);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      const { data, error: listError } = await getScenarioPromptsForUser(supabase, currentUser.id);
+      if (listError) {
+        logger.error({
+          scope: "http.scenarioPrompt.list",
+          msg: "Failed to fetch scenario prompts",
+          requestId,
+          userId: currentUser.id,
+          err: listError,
+        });
+      }
+      if (!isMounted) return;
+
+      setUser(currentUser);
+      setPrompts((data ?? []) as ScenarioPrompt[]);
+      setIsLoading(false);
+    };
+
+    load();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [requestId, router, supabase]);
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!user) return;
+
+    const trimmed = name.trim();
+    const fields = parseScenarioFields(draft);
+    if (!trimmed) {
+      setError("Give the scenario a name.");
+      return;
+    }
+    if (!fields.ok) {
+      setError(fields.errors[0].replace(/^scenario(\.| )/, "The scenario "));
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    const { data, error: createError } = await createScenarioPrompt(supabase, {
+      user_id: user.id,
+      name: trimmed,
+      ...fields.value,
+    });
+    setIsSaving(false);
+
+    if (createError || !data) {
+      logger.error({
+        scope: "http.scenarioPrompt.create",
+        msg: "Failed to save scenario prompt",
+        requestId,
+        userId: user.id,
+        err: createError ?? new Error("Scenario prompt insert returned empty response"),
+      });
+      setError(
+        createError?.code === "23505" ? `You already have a scenario named “${trimmed}”.` : "Could not save it."
+      );
+      return;
+    }
+
+    logger.info({
+      scope: "http.scenarioPrompt.create",
+      msg: "Scenario prompt saved",
+      requestId,
+      userId: user.id,
+      payloadSummary: { scenarioPromptId: data.id },
+    });
+    setPrompts((previous) => [...previous, data as ScenarioPrompt].sort((a, b) => a.name.localeCompare(b.name)));
+    setName("");
+    setDraft(createEmptyScenarioDraft());
+  };
+
+  const handleDelete = async (prompt: ScenarioPrompt) => {
+    if (!user) return;
+    if (!window.confirm(`Delete “${prompt.name}”? Images it already produced keep their label.`)) return;
+    setBusyId(prompt.id);
+    setError(null);
+    const { error: deleteError } = await deleteScenarioPrompt(supabase, prompt.id, user.id);
+    setBusyId(null);
+
+    if (deleteError) {
+      logger.error({
+        scope: "http.scenarioPrompt.delete",
+        msg: "Failed to delete scenario prompt",
+        requestId,
+        userId: user.id,
+        payloadSummary: { scenarioPromptId: prompt.id },
+        err: deleteError,
+      });
+      setError("Could not delete this scenario.");
+      return;
+    }
+
+    setPrompts((previous) => previous.filter((entry) => entry.id !== prompt.id));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading your scenario library…</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="panel">
+        <h1 className="page-title">Scenario library</h1>
+        <p className="page-lead">
+          Named scenes you can request for any avatar. Pick several at once on an avatar’s page; each generated image is
+          labelled with the scenario’s name. Go back to the <Link href="/avatars">avatar list</Link>.
+        </p>
+        <form className="form-card space-y-2" onSubmit={handleCreate}>
+          <label className="field">
+            <span className="label">Name</span>
+            <input
+              className="input"
+              value={name}
+              placeholder="e.g. Weekend brunch"
+              maxLength={80}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <ScenarioFieldsForm draft={draft} onChange={setDraft} />
+          {error ? <p className="message error">{error}</p> : null}
+          <div>
+            <button className="button" type="submit" disabled={isSaving}>
+              {isSaving ? "Saving…" : "Save scenario"}
+            </button>
+          </div>
+        </form>
+      </div>
+
+      {prompts.length === 0 ? (
+        <div className="panel">
+          <h2>No scenarios yet</h2>
+          <p className="page-lead">Save one above to reuse it across avatars.</p>
+        </div>
+      ) : (
+        <div className="gallery-grid">
+          {prompts.map((prompt) => (
+            <article key={prompt.id} className="gallery-card space-y-2">
+              <header className="hero-actions" style={{ justifyContent: "space-between" }}>
+                <strong>{prompt.name}</strong>
+                <span className="pill">
+                  {prompt.image_count} × {prompt.aspect_ratio}
+                </span>
+              </header>
+              <p className="page-lead" style={{ margin: 0 }}>
+                {describeScenario(prompt)}
+              </p>
+              <div>
+                <button
+                  className="button danger"
+                  type="button"
+                  onClick={() => handleDelete(prompt)}
+                  disabled={busyId === prompt.id}
+                >
+                  Delete
+                </button>
+              </div>
+            </article>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
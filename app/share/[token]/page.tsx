@@ -0,0 +1,197 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { ImageLightbox } from "@/components/image-lightbox";
+import { PersonaCard } from "@/components/persona-card";
+import { fetchSharedContent } from "@/lib/api/share-links";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import type { SharedContent } from "@/lib/types/share-links";
+
+// Image URLs from the share route are signed for an hour; reload well before that.
+const REFRESH_INTERVAL_MS = 45 * 60_000;
+
+export default function SharedPersonaPage({
+  params,
+  searchParams,
+}: {
+  params: { token: string };
+  searchParams: { avatar?: string };
+}) {
+  const requestId = useMemo(() => getRequestId(), []);
+  const memberId = searchParams.avatar ?? null;
+  const [content, setContent] = useState<SharedContent | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const closeLightbox = useCallback(() => setLightboxIndex(null), []);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const load = async () => {
+      try {
+        const shared = await fetchSharedContent(params.token, memberId, requestId);
+        if (!isMounted) return;
+        setContent(shared);
+        setError(null);
+      } catch (loadError) {
+        logger.warn({ scope: "http.share.view", msg: "Failed to open share link", requestId, err: loadError });
+        if (!isMounted) return;
+        setContent(null);
+        setError(loadError instanceof Error ? loadError.message : "Could not open this link.");
+      } finally {
+        if (isMounted) setIsLoading(false);
+      }
+    };
+
+    load();
+    const refreshTimer = setInterval(load, REFRESH_INTERVAL_MS);
+
+    return () => {
+      isMounted = false;
+      clearInterval(refreshTimer);
+    };
+  }, [memberId, params.token, requestId]);
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading shared persona…</p>
+      </div>
+    );
+  }
+
+  if (error || !content) {
+    return (
+      <div className="panel">
+        <h1 className="page-title">Link unavailable</h1>
+        <p className="page-lead">{error ?? "Could not open this link."} Ask the person who shared it for a new one.</p>
+      </div>
+    );
+  }
+
+  const expiryNote = content.expiresAt
+    ? `This link stops working on ${new Date(content.expiresAt).toLocaleString()}.`
+    : null;
+
+  if (content.kind === "collection") {
+    return (
+      <div className="space-y-6">
+        <div className="panel">
+          <h1 className="page-title">{content.collection.name}</h1>
+          {content.collection.description ? <p className="page-lead">{content.collection.description}</p> : null}
+          <p className="page-lead" style={{ margin: 0 }}>
+            {content.avatars.length} personas, shared read-only. {expiryNote}
+          </p>
+        </div>
+        {content.avatars.length === 0 ? (
+          <div className="panel">
+            <p className="page-lead">This collection is empty.</p>
+          </div>
+        ) : (
+          <div className="avatar-grid">
+            {content.avatars.map((avatar) => (
+              <Link
+                key={avatar.id}
+                href={`/share/${params.token}?avatar=${avatar.id}`}
+                className="avatar-card"
+              >
+                <header>
+                  <div className="avatar-thumb">
+                    {avatar.thumbnail_url ? (
+                      <Image src={avatar.thumbnail_url} alt={`${avatar.name} avatar`} width={64} height={64} />
+                    ) : (
+                      <span>{avatar.name.slice(0, 1).toUpperCase()}</span>
+                    )}
+                  </div>
+                  <div>
+                    <h3 className="page-title" style={{ margin: 0 }}>
+                      {avatar.name}
+                    </h3>
+                    <p className="page-lead" style={{ margin: 0 }}>
+                      {avatar.age} yrs · {avatar.job_title ?? "Role tbd"}
+                    </p>
+                  </div>
+                </header>
+                <div className="avatar-traits">
+                  <span>{[avatar.city, avatar.country].filter(Boolean).join(", ") || "Location tbd"}</span>
+                  {avatar.hobbies?.length ? <span>Hobbies: {avatar.hobbies.join(", ")}</span> : null}
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const primaryImage = content.images.find((image) => image.is_primary);
+  const galleryImages = content.images.filter((image) => !image.is_primary);
+
+  return (
+    <div className="space-y-6">
+      <div className="panel no-print">
+        <p className="page-lead" style={{ margin: 0 }}>
+          {memberId ? (
+            <>
+              <Link href={`/share/${params.token}`}>Back to the collection</Link> ·{" "}
+            </>
+          ) : null}
+          Shared read-only. {expiryNote}
+        </p>
+      </div>
+
+      <div className="panel">
+        <PersonaCard avatar={content.avatar} imageUrl={primaryImage?.medium_url ?? null} />
+      </div>
+
+      {galleryImages.length > 0 ? (
+        <div className="panel">
+          <h2 className="page-title">Scenes &amp; moments</h2>
+          <div className="gallery-grid">
+            {galleryImages.map((image, index) => (
+              <div key={image.id} className="gallery-card">
+                <button
+                  className="gallery-open"
+                  type="button"
+                  onClick={() => setLightboxIndex(index)}
+                  aria-label={`Open ${image.label || image.type} full screen`}
+                >
+                  <Image
+                    src={image.medium_url}
+                    alt={image.label ?? image.type}
+                    width={400}
+                    height={320}
+                    style={{ width: "100%", height: "auto" }}
+                  />
+                </button>
+                <div className="gallery-meta">
+                  <strong>{image.label || image.type}</strong>
+                  {image.description ? (
+                    <p className="page-lead" style={{ margin: 0 }}>
+                      {image.description}
+                    </p>
+                  ) : null}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {lightboxIndex !== null && galleryImages[lightboxIndex] ? (
+        <ImageLightbox
+          images={galleryImages}
+          urls={Object.fromEntries(galleryImages.map((image) => [image.id, image.url]))}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={closeLightbox}
+        />
+      ) : null}
+    </div>
+  );
+}
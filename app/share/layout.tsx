@@ -0,0 +1,13 @@
+import type { Metadata } from "next";
+import type { ReactNode } from "react";
+
+export const metadata: Metadata = {
+  title: "Shared persona",
+  description: "A read-only persona shared from Human Forge.",
+  robots: { index: false, follow: false },
+  referrer: "no-referrer",
+};
+
+export default function ShareLayout({ children }: { children: ReactNode }) {
+  return children;
+}
@@ -0,0 +1,280 @@
+"use client";
+
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { useWorkspaces } from "@/lib/hooks/use-workspaces";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import {
+  deletePersonaTemplate,
+  getPersonaTemplates,
+  updatePersonaTemplate,
+} from "@/lib/supabase/persona-templates";
+import type { PersonaTemplate } from "@/lib/types/persona-templates";
+import { getActiveWorkspaceId, pickActiveMembership } from "@/lib/workspaces";
+
+function describeTemplate(template: PersonaTemplate) {
+  const values = template.field_values ?? {};
+  const parts = [
+    template.extra_attributes?.age_range,
+    values.job_title,
+    values.industry,
+    values.city ?? values.country,
+    values.hobbies?.length ? `into ${values.hobbies.join(", ")}` : null,
+  ];
+  return parts.filter(Boolean).join(" · ") || "No fixed fields — everything is left to the generator.";
+}
+
+function TemplateList({
+  templates,
+  emptyLabel,
+  userId,
+  workspaceNames,
+  busyId,
+  onToggleShare,
+  onDelete,
+}: {
+  templates: PersonaTemplate[];
+  emptyLabel: string;
+  userId: string | null;
+  workspaceNames: Record<string, string>;
+  busyId: string | null;
+  onToggleShare: (template: PersonaTemplate) => void;
+  onDelete: (template: PersonaTemplate) => void;
+}) {
+  if (templates.length === 0) {
+    return <p className="page-lead">{emptyLabel}</p>;
+  }
+
+  return (
+    <div className="gallery-grid">
+      {templates.map((template) => {
+        const isOwner = template.user_id === userId;
+        return (
+          <article key={template.id} className="gallery-card space-y-2">
+            <header className="hero-actions" style={{ justifyContent: "space-between" }}>
+              <strong>{template.name}</strong>
+              {template.is_builtin ? <span className="pill">Built-in</span> : null}
+              {!template.is_builtin && template.is_shared ? (
+                <span className="pill">
+                  Shared
+                  {template.workspace_id && workspaceNames[template.workspace_id]
+                    ? ` · ${workspaceNames[template.workspace_id]}`
+                    : ""}
+                </span>
+              ) : null}
+            </header>
+            {template.description ? <p style={{ margin: 0 }}>{template.description}</p> : null}
+            <p className="page-lead" style={{ margin: 0 }}>
+              {describeTemplate(template)}
+            </p>
+            <div className="hero-actions">
+              <Link className="button" href={`/avatars/new?template=${template.id}`}>
+                Use template
+              </Link>
+              {isOwner ? (
+                <>
+                  <button
+                    className="button secondary"
+                    type="button"
+                    disabled={busyId === template.id}
+                    onClick={() => onToggleShare(template)}
+                  >
+                    {template.is_shared ? "Stop sharing" : "Share with workspace"}
+                  </button>
+                  <button
+                    className="button danger"
+                    type="button"
+                    disabled={busyId === template.id}
+                    onClick={() => onDelete(template)}
+                  >
+                    Delete
+                  </button>
+                </>
+              ) : null}
+            </div>
+          </article>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function PersonaTemplatesPage() {
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const requestId = useMemo(() => getRequestId(), []);
+  const router = useRouter();
+  const [user, setUser] = useState<User | null>(null);
+  const [templates, setTemplates] = useState<PersonaTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { memberships } = useWorkspaces(supabase, user?.id ?? null, requestId);
+  const workspaceNames = useMemo(
+    () => Object.fromEntries(memberships.map((membership) => [membership.workspace_id, membership.workspace.name])),
+    [memberships]
+  );
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadTemplates = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+
+      const { data, error: loadError } = await getPersonaTemplates(supabase);
+      if (!isMounted) return;
+
+      if (loadError) {
+        logger.error({
+          scope: "http.personaTemplate.list",
+          msg: "Failed to fetch persona templates",
+          requestId,
+          userId: currentUser.id,
+          err: loadError,
+        });
+        setError("Could not load templates. Try again.");
+      }
+
+      setUser(currentUser);
+      setTemplates((data as PersonaTemplate[]) ?? []);
+      setIsLoading(false);
+    };
+
+    loadTemplates();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [requestId, router, supabase]);
+
+  const handleToggleShare = async (template: PersonaTemplate) => {
+    if (!user) return;
+    setBusyId(template.id);
+    setError(null);
+    // Sharing publishes the template to the workspace currently picked in the header
+    const workspace = pickActiveMembership(memberships, getActiveWorkspaceId());
+    const { data, error: updateError } = await updatePersonaTemplate(supabase, template.id, user.id, {
+      is_shared: !template.is_shared,
+      ...(!template.is_shared && workspace ? { workspace_id: workspace.workspace_id } : {}),
+    });
+    setBusyId(null);
+
+    if (updateError || !data) {
+      logger.error({
+        scope: "http.personaTemplate.update",
+        msg: "Failed to update template sharing",
+        requestId,
+        userId: user.id,
+        payloadSummary: { templateId: template.id },
+        err: updateError ?? new Error("Template update returned empty response"),
+      });
+      setError("Could not update sharing for this template.");
+      return;
+    }
+
+    setTemplates((previous) => previous.map((entry) => (entry.id === template.id ? (data as PersonaTemplate) : entry)));
+  };
+
+  const handleDelete = async (template: PersonaTemplate) => {
+    if (!user) return;
+    if (!window.confirm(`Delete the “${template.name}” template? Avatars created from it are not affected.`)) return;
+    setBusyId(template.id);
+    setError(null);
+    const { error: deleteError } = await deletePersonaTemplate(supabase, template.id, user.id);
+    setBusyId(null);
+
+    if (deleteError) {
+      logger.error({
+        scope: "http.personaTemplate.delete",
+        msg: "Failed to delete persona template",
+        requestId,
+        userId: user.id,
+        payloadSummary: { templateId: template.id },
+        err: deleteError,
+      });
+      setError("Could not delete this template.");
+      return;
+    }
+
+    logger.info({
+      scope: "http.personaTemplate.delete",
+      msg: "Persona template deleted",
+      requestId,
+      userId: user.id,
+      payloadSummary: { templateId: template.id },
+    });
+    setTemplates((previous) => previous.filter((entry) => entry.id !== template.id));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading templates…</p>
+      </div>
+    );
+  }
+
+  const listProps = {
+    userId: user?.id ?? null,
+    workspaceNames,
+    busyId,
+    onToggleShare: handleToggleShare,
+    onDelete: handleDelete,
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="panel">
+        <h1 className="page-title">Persona templates</h1>
+        <p className="page-lead">
+          Presets for the kinds of people you forge again and again. Save one from the review step of the new-avatar
+          wizard, then start any new avatar from it. Sharing a template makes it available to everyone in the workspace
+          picked in the header.
+        </p>
+        <Link className="button" href="/avatars/new">
+          Forge new human
+        </Link>
+      </div>
+
+      {error ? <p className="message error">{error}</p> : null}
+
+      <section className="panel">
+        <h2>Your templates</h2>
+        <TemplateList
+          {...listProps}
+          templates={templates.filter((template) => template.user_id === user?.id)}
+          emptyLabel="You haven’t saved any templates yet."
+        />
+      </section>
+
+      <section className="panel">
+        <h2>Shared with you</h2>
+        <TemplateList
+          {...listProps}
+          templates={templates.filter((template) => !template.is_builtin && template.user_id !== user?.id)}
+          emptyLabel="No one in your workspaces has shared a template yet."
+        />
+      </section>
+
+      <section className="panel">
+        <h2>Built-in</h2>
+        <TemplateList
+          {...listProps}
+          templates={templates.filter((template) => template.is_builtin)}
+          emptyLabel="No built-in templates are installed."
+        />
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,286 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useEffect, useMemo, useState, type FormEvent } from "react";
+import type { User } from "@supabase/supabase-js";
+
+import { WorkspaceMembersPanel } from "@/components/workspace-members-panel";
+import { useWorkspaces } from "@/lib/hooks/use-workspaces";
+import { logger } from "@/lib/logger";
+import { getRequestId } from "@/lib/request-id";
+import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import {
+  createWorkspace,
+  deleteWorkspace,
+  removeWorkspaceMember,
+  renameWorkspace,
+} from "@/lib/supabase/workspaces";
+import type { WorkspaceMembership } from "@/lib/types/workspaces";
+import { MAX_WORKSPACE_NAME_LENGTH, WORKSPACE_ROLES, setActiveWorkspaceId } from "@/lib/workspaces";
+
+const SCOPE = "http.workspace.manage";
+
+export default function WorkspacesPage() {
+  const supabase = useMemo(() => createSupabaseBrowserClient(), []);
+  const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
+  const [user, setUser] = useState<User | null>(null);
+  const { memberships, active, isLoading, reload } = useWorkspaces(supabase, user?.id ?? null, requestId);
+  const [name, setName] = useState("");
+  const [rename, setRename] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadUser = async () => {
+      const {
+        data: { user: currentUser },
+      } = await supabase.auth.getUser();
+
+      if (!currentUser) {
+        router.push("/login");
+        return;
+      }
+      if (isMounted) setUser(currentUser);
+    };
+
+    loadUser();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [router, supabase]);
+
+  useEffect(() => {
+    setRename(active?.workspace.name ?? "");
+  }, [active?.workspace.name]);
+
+  const switchTo = (workspaceId: string) => {
+    setActiveWorkspaceId(workspaceId);
+    window.location.reload();
+  };
+
+  const handleCreate = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!user) return;
+
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setStatus("Give the workspace a name.");
+      return;
+    }
+
+    setIsBusy(true);
+    setStatus(null);
+    const { data, error } = await createWorkspace(supabase, user.id, trimmed);
+    setIsBusy(false);
+
+    if (error || !data) {
+      logger.error({
+        scope: SCOPE,
+        msg: "Failed to create workspace",
+        requestId,
+        userId: user.id,
+        err: error ?? new Error("Workspace insert returned empty response"),
+      });
+      setStatus(error?.message ?? "Could not create this workspace.");
+      return;
+    }
+
+    logger.info({
+      scope: SCOPE,
+      msg: "Workspace created",
+      requestId,
+      userId: user.id,
+      payloadSummary: { workspaceId: data.id },
+    });
+    setName("");
+    switchTo(data.id);
+  };
+
+  const handleRename = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!user || !active) return;
+
+    const trimmed = rename.trim();
+    if (!trimmed) return;
+
+    const { error } = await renameWorkspace(supabase, active.workspace_id, trimmed);
+    if (error) {
+      logger.error({ scope: SCOPE, msg: "Failed to rename workspace", requestId, userId: user.id, err: error });
+      setStatus("Could not rename this workspace.");
+      return;
+    }
+    setStatus("Workspace renamed.");
+    await reload();
+  };
+
+  const handleLeave = async (membership: WorkspaceMembership) => {
+    if (!user) return;
+    if (!window.confirm(`Leave ${membership.workspace.name}? You’ll need a new invitation to get back in.`)) return;
+
+    const { error } = await removeWorkspaceMember(supabase, membership.workspace_id, user.id);
+    if (error) {
+      logger.error({ scope: SCOPE, msg: "Failed to leave workspace", requestId, userId: user.id, err: error });
+      setStatus(error.message);
+      return;
+    }
+    logger.info({
+      scope: SCOPE,
+      msg: "Left workspace",
+      requestId,
+      userId: user.id,
+      payloadSummary: { workspaceId: membership.workspace_id },
+    });
+    await reload();
+  };
+
+  const handleDelete = async () => {
+    if (!user || !active) return;
+    if (
+      !window.confirm(
+        `Delete ${active.workspace.name} and every avatar in it for all members? This can’t be undone.`
+      )
+    ) {
+      return;
+    }
+
+    const { error } = await deleteWorkspace(supabase, active.workspace_id);
+    if (error) {
+      logger.error({ scope: SCOPE, msg: "Failed to delete workspace", requestId, userId: user.id, err: error });
+      setStatus("Could not delete this workspace.");
+      return;
+    }
+    logger.info({
+      scope: SCOPE,
+      msg: "Workspace deleted",
+      requestId,
+      userId: user.id,
+      payloadSummary: { workspaceId: active.workspace_id },
+    });
+    const personal = memberships.find((membership) => membership.workspace.is_personal);
+    if (personal) switchTo(personal.workspace_id);
+  };
+
+  if (!user || isLoading) {
+    return (
+      <div className="panel">
+        <p className="page-lead">Loading your workspaces…</p>
+      </div>
+    );
+  }
+
+  const isSharedOwner = active?.role === "owner" && !active.workspace.is_personal;
+
+  return (
+    <div className="space-y-6">
+      <div className="panel">
+        <h1 className="page-title">Workspaces</h1>
+        <p className="page-lead">
+          Avatars live in a workspace. Your personal workspace is only yours; team workspaces are shared with everyone
+          you invite. Viewers can browse, editors can also create and change avatars, and owners manage the team.
+        </p>
+        <form className="form-card" onSubmit={handleCreate}>
+          <label className="field">
+            <span className="label">New team workspace</span>
+            <input
+              className="input"
+              value={name}
+              maxLength={MAX_WORKSPACE_NAME_LENGTH}
+              placeholder="e.g. Research team"
+              onChange={(event) => setName(event.target.value)}
+            />
+          </label>
+          <div>
+            <button className="button" type="submit" disabled={isBusy}>
+              {isBusy ? "Creating…" : "Create workspace"}
+            </button>
+          </div>
+        </form>
+        {status ? <p className="message">{status}</p> : null}
+      </div>
+
+      <div className="panel">
+        <h2 className="page-title">Your workspaces</h2>
+        <div className="table-scroll">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Your role</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {memberships.map((membership) => (
+                <tr key={membership.workspace_id}>
+                  <td>
+                    {membership.workspace.name}
+                    {membership.workspace.is_personal ? " (personal)" : ""}
+                  </td>
+                  <td>{WORKSPACE_ROLES.find((option) => option.value === membership.role)?.label}</td>
+                  <td>
+                    <div className="hero-actions">
+                      {membership.workspace_id === active?.workspace_id ? (
+                        <span className="pill">Active</span>
+                      ) : (
+                        <button
+                          className="button secondary"
+                          type="button"
+                          onClick={() => switchTo(membership.workspace_id)}
+                        >
+                          Switch to
+                        </button>
+                      )}
+                      {membership.workspace.is_personal ? null : (
+                        <button className="button secondary" type="button" onClick={() => handleLeave(membership)}>
+                          Leave
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {active && isSharedOwner ? (
+        <div className="panel space-y-2">
+          <h2 className="page-title" style={{ margin: 0 }}>
+            Settings for {active.workspace.name}
+          </h2>
+          <form className="hero-actions" onSubmit={handleRename}>
+            <input
+              className="input"
+              style={{ maxWidth: "20rem" }}
+              aria-label="Workspace name"
+              value={rename}
+              maxLength={MAX_WORKSPACE_NAME_LENGTH}
+              onChange={(event) => setRename(event.target.value)}
+            />
+            <button className="button secondary" type="submit">
+              Rename
+            </button>
+            <button className="button danger" type="button" onClick={handleDelete}>
+              Delete workspace
+            </button>
+          </form>
+        </div>
+      ) : null}
+
+      {active && !active.workspace.is_personal ? (
+        <WorkspaceMembersPanel
+          key={active.workspace_id}
+          supabase={supabase}
+          userId={user.id}
+          requestId={requestId}
+          membership={active}
+        />
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import { useState, type FormEvent } from "react";
+
+import {
+  toAvatarDraft,
+  validateAvatarDraft,
+  type AvatarDraft,
+  type AvatarEditablePatch,
+  type AvatarFieldErrors,
+  type AvatarTextField,
+} from "@/lib/avatar-fields";
+import type { Avatar } from "@/lib/types/avatars";
+
+type FieldConfig = { field: AvatarTextField | "age" | "height_cm" | "hobbies"; label: string; type?: "number" };
+
+const FIELD_GROUPS: { title: string; fields: FieldConfig[] }[] = [
+  {
+    title: "Basics",
+    fields: [
+      { field: "name", label: "Name" },
+      { field: "age", label: "Age", type: "number" },
+      { field: "marital_status", label: "Marital status" },
+    ],
+  },
+  {
+    title: "Life & work",
+    fields: [
+      { field: "job_title", label: "Job title" },
+      { field: "industry", label: "Industry" },
+    ],
+  },
+  {
+    title: "Location",
+    fields: [
+      { field: "address_line", label: "Address" },
+      { field: "city", label: "City" },
+      { field: "region", label: "Region" },
+      { field: "country", label: "Country" },
+    ],
+  },
+  {
+    title: "Appearance",
+    fields: [
+      { field: "skin_tone", label: "Skin tone" },
+      { field: "hair_color", label: "Hair color" },
+      { field: "height_cm", label: "Height (cm)", type: "number" },
+    ],
+  },
+  {
+    title: "Lifestyle",
+    fields: [
+      { field: "hobbies", label: "Hobbies (comma separated)" },
+      { field: "political_orientation", label: "Political orientation" },
+    ],
+  },
+];
+
+interface AvatarEditFormProps {
+  avatar: Avatar;
+  isSaving: boolean;
+  onSave: (patch: AvatarEditablePatch) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+export function AvatarEditForm({ avatar, isSaving, onSave, onCancel }: AvatarEditFormProps) {
+  const [draft, setDraft] = useState<AvatarDraft>(() => toAvatarDraft(avatar));
+  const [errors, setErrors] = useState<AvatarFieldErrors>({});
+
+  const updateField = (field: keyof Omit<AvatarDraft, "extra_attributes">, value: string) => {
+    setDraft((previous) => ({ ...previous, [field]: value }));
+  };
+
+  const updateExtra = (index: number, key: "key" | "value", value: string) => {
+    setDraft((previous) => ({
+      ...previous,
+      extra_attributes: previous.extra_attributes.map((entry, entryIndex) =>
+        entryIndex === index ? { ...entry, [key]: value } : entry
+      ),
+    }));
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const { patch, errors: validationErrors, isValid } = validateAvatarDraft(draft);
+    setErrors(validationErrors);
+    if (!isValid) return;
+    await onSave(patch);
+  };
+
+  return (
+    <form className="form-card" onSubmit={handleSubmit}>
+      {FIELD_GROUPS.map((group) => (
+        <section key={group.title} className="space-y-2">
+          <h3 className="page-title" style={{ margin: 0 }}>
+            {group.title}
+          </h3>
+          <div className="traits-grid">
+            {group.fields.map(({ field, label, type }) => (
+              <label key={field} className="field">
+                <span className="label">{label}</span>
+                <input
+                  className="input"
+                  type={type ?? "text"}
+                  inputMode={type === "number" ? "numeric" : undefined}
+                  value={draft[field]}
+                  onChange={(event) => updateField(field, event.target.value)}
+                  aria-invalid={errors[field] ? true : undefined}
+                />
+                {errors[field] ? <small className="field-error">{errors[field]}</small> : null}
+              </label>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      <label className="field">
+        <span className="label">Other traits &amp; quirks</span>
+        <textarea
+          className="textarea"
+          value={draft.other_traits}
+          onChange={(event) => updateField("other_traits", event.target.value)}
+        />
+      </label>
+
+      <label className="field">
+        <span className="label">Narrative profile</span>
+        <textarea
+          className="textarea"
+          value={draft.persona_summary}
+          onChange={(event) => updateField("persona_summary", event.target.value)}
+        />
+      </label>
+
+      <section className="space-y-2">
+        <h3 className="page-title" style={{ margin: 0 }}>
+          Extra attributes
+        </h3>
+        <p className="page-lead" style={{ margin: 0 }}>
+          Free-form details sent to the generator. Numbers, true/false and JSON values keep their type.
+        </p>
+        {draft.extra_attributes.map((entry, index) => (
+          <div key={index} className="hero-actions">
+            <input
+              className="input"
+              style={{ flex: 1 }}
+              placeholder="Attribute"
+              value={entry.key}
+              onChange={(event) => updateExtra(index, "key", event.target.value)}
+            />
+            <input
+              className="input"
+              style={{ flex: 2 }}
+              placeholder="Value"
+              value={entry.value}
+              onChange={(event) => updateExtra(index, "value", event.target.value)}
+            />
+            <button
+              className="button secondary"
+              type="button"
+              onClick={() =>
+                setDraft((previous) => ({
+                  ...previous,
+                  extra_attributes: previous.extra_attributes.filter((_, entryIndex) => entryIndex !== index),
+                }))
+              }
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        {errors.extra_attributes ? <small className="field-error">{errors.extra_attributes}</small> : null}
+        <div>
+          <button
+            className="button secondary"
+            type="button"
+            onClick={() =>
+              setDraft((previous) => ({
+                ...previous,
+                extra_attributes: [...previous.extra_attributes, { key: "", value: "" }],
+              }))
+            }
+          >
+            Add attribute
+          </button>
+        </div>
+      </section>
+
+      <div className="hero-actions">
+        <button className="button" type="submit" disabled={isSaving}>
+          {isSaving ? "Saving…" : "Save changes"}
+        </button>
+        <button className="button secondary" type="button" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
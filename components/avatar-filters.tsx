@@ -0,0 +1,164 @@
+"use client";
+
+import { useEffect, useState, type FormEvent } from "react";
+
+import { AVATAR_SORTS, type AvatarListFilters, type AvatarSort } from "@/lib/avatar-filters";
+import { ageRangeOptions, countryOptions, hobbyOptions, industryOptions } from "@/lib/avatar-options";
+import type { AvatarStatus } from "@/lib/types/avatars";
+
+const STATUS_OPTIONS: { value: AvatarStatus; label: string }[] = [
+  { value: "pending", label: "Queued" },
+  { value: "generating", label: "Generating" },
+  { value: "ready", label: "Ready" },
+  { value: "failed", label: "Failed" },
+];
+
+interface AvatarFiltersProps {
+  filters: AvatarListFilters;
+  onChange: (filters: AvatarListFilters) => void;
+}
+
+/**
+ * Filter and sort controls for the avatar list. Text fields are applied on submit; selects apply immediately. Any
+ * change resets to the first page.
+ */
+export function AvatarFilters({ filters, onChange }: AvatarFiltersProps) {
+  const [draft, setDraft] = useState(filters);
+
+  useEffect(() => {
+    setDraft(filters);
+  }, [filters]);
+
+  const apply = (next: AvatarListFilters) => onChange({ ...next, page: 1 });
+
+  const setText = (key: "q" | "country" | "city" | "job" | "industry" | "hobby", value: string) => {
+    setDraft((previous) => ({ ...previous, [key]: value || undefined }));
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    apply(draft);
+  };
+
+  return (
+    <form className="panel form-card" onSubmit={handleSubmit} role="search">
+      <label className="field">
+        <span className="label">Search personas</span>
+        <input
+          className="input"
+          type="search"
+          placeholder="e.g. night shift -smoker, “vintage motorcycles”"
+          value={draft.q ?? ""}
+          onChange={(event) => setText("q", event.target.value)}
+        />
+      </label>
+
+      <div className="traits-grid">
+        <label className="field">
+          <span className="label">Status</span>
+          <select
+            className="input"
+            value={filters.status ?? ""}
+            onChange={(event) => apply({ ...draft, status: (event.target.value || undefined) as AvatarStatus })}
+          >
+            <option value="">Any</option>
+            {STATUS_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span className="label">Age range</span>
+          <select
+            className="input"
+            value={filters.ageRange ?? ""}
+            onChange={(event) => apply({ ...draft, ageRange: event.target.value || undefined })}
+          >
+            <option value="">Any</option>
+            {ageRangeOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label} ({option.minAge}–{option.maxAge})
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span className="label">Country</span>
+          <input
+            className="input"
+            list="avatar-filter-countries"
+            value={draft.country ?? ""}
+            onChange={(event) => setText("country", event.target.value)}
+          />
+        </label>
+        <label className="field">
+          <span className="label">City</span>
+          <input className="input" value={draft.city ?? ""} onChange={(event) => setText("city", event.target.value)} />
+        </label>
+        <label className="field">
+          <span className="label">Job title</span>
+          <input className="input" value={draft.job ?? ""} onChange={(event) => setText("job", event.target.value)} />
+        </label>
+        <label className="field">
+          <span className="label">Industry</span>
+          <input
+            className="input"
+            list="avatar-filter-industries"
+            value={draft.industry ?? ""}
+            onChange={(event) => setText("industry", event.target.value)}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Hobby</span>
+          <input
+            className="input"
+            list="avatar-filter-hobbies"
+            value={draft.hobby ?? ""}
+            onChange={(event) => setText("hobby", event.target.value)}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Sort by</span>
+          <select
+            className="input"
+            value={filters.sort}
+            onChange={(event) => apply({ ...draft, sort: event.target.value as AvatarSort })}
+          >
+            {Object.entries(AVATAR_SORTS).map(([value, sort]) => (
+              <option key={value} value={value}>
+                {sort.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      <datalist id="avatar-filter-countries">
+        {countryOptions.map((option) => (
+          <option key={option} value={option} />
+        ))}
+      </datalist>
+      <datalist id="avatar-filter-industries">
+        {industryOptions.map((option) => (
+          <option key={option} value={option} />
+        ))}
+      </datalist>
+      <datalist id="avatar-filter-hobbies">
+        {hobbyOptions.map((option) => (
+          <option key={option} value={option} />
+        ))}
+      </datalist>
+
+      <div className="hero-actions">
+        <button className="button" type="submit">
+          Apply filters
+        </button>
+        <button className="button secondary" type="button" onClick={() => apply({ sort: "newest", page: 1 })}>
+          Clear
+        </button>
+      </div>
+    </form>
+  );
+}
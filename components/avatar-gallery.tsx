@@ -0,0 +1,358 @@
+"use client";
+
+import Image from "next/image";
+import { useCallback, useMemo, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { ImageLightbox } from "@/components/image-lightbox";
+import {
+  GALLERY_TYPE_FILTERS,
+  MAX_IMAGE_DESCRIPTION_LENGTH,
+  MAX_IMAGE_LABEL_LENGTH,
+  collectImageTags,
+  filterGalleryImages,
+  moveImage,
+  parseImageTagsInput,
+  type GalleryFilters,
+  type GalleryTypeFilter,
+} from "@/lib/avatar-gallery";
+import { useAvatarImageUrls } from "@/lib/hooks/use-avatar-image-urls";
+import { logger } from "@/lib/logger";
+import { reorderAvatarImages, updateAvatarImage } from "@/lib/supabase/avatars";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+
+const NO_IMAGES: AvatarImage[] = [];
+
+type ImageDraft = { label: string; description: string; tags: string };
+
+interface AvatarGalleryProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  avatar: Avatar;
+  images: AvatarImage[];
+  imageUrls: Record<string, string>;
+  onImagesChange: (images: AvatarImage[]) => void;
+  onSetPrimary: (image: AvatarImage) => void;
+  onDelete: (image: AvatarImage) => void;
+  /** Workspace viewers can browse and filter, but not edit, reorder or delete. */
+  readOnly?: boolean;
+}
+
+/**
+ * The "Scenes & moments" grid: every image except the current portrait, in the order the user arranged them.
+ * Cards can be dragged (or moved with the arrow buttons) to reorder, edited in place, and opened in a lightbox.
+ */
+export function AvatarGallery({
+  supabase,
+  userId,
+  requestId,
+  avatar,
+  images,
+  imageUrls,
+  onImagesChange,
+  onSetPrimary,
+  onDelete,
+  readOnly = false,
+}: AvatarGalleryProps) {
+  const [filters, setFilters] = useState<GalleryFilters>({ type: "all", tag: "" });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<ImageDraft>({ label: "", description: "", tags: "" });
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [lightboxIndex, setLightboxIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const galleryImages = useMemo(() => images.filter((image) => !image.is_primary), [images]);
+  const tags = useMemo(() => collectImageTags(galleryImages), [galleryImages]);
+  const visibleImages = useMemo(() => filterGalleryImages(galleryImages, filters), [filters, galleryImages]);
+  const isFiltered = filters.type !== "all" || Boolean(filters.tag);
+  const closeLightbox = useCallback(() => setLightboxIndex(null), []);
+  // `imageUrls` are the medium variants used by the cards; originals are only signed while the lightbox is open.
+  const originalUrls = useAvatarImageUrls(supabase, lightboxIndex === null ? NO_IMAGES : visibleImages);
+
+  const persistOrder = async (next: AvatarImage[]) => {
+    const previous = images;
+    onImagesChange(next);
+    setError(null);
+
+    const { error: reorderError } = await reorderAvatarImages(
+      supabase,
+      avatar.id,
+      next.map((image) => image.id)
+    );
+    if (reorderError) {
+      logger.error({
+        scope: "http.avatar.image.reorder",
+        msg: "Failed to reorder avatar images",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        err: reorderError,
+      });
+      onImagesChange(previous);
+      setError("Could not save the new order. Please try again.");
+    }
+  };
+
+  const handleDrop = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return;
+    const next = moveImage(images, draggedId, targetId);
+    setDraggedId(null);
+    persistOrder(next);
+  };
+
+  // Keyboard-friendly alternative to dragging: swap with the neighbouring visible card.
+  const handleStep = (image: AvatarImage, step: -1 | 1) => {
+    const neighbour = visibleImages[visibleImages.findIndex((entry) => entry.id === image.id) + step];
+    if (neighbour) persistOrder(moveImage(images, image.id, neighbour.id));
+  };
+
+  const startEditing = (image: AvatarImage) => {
+    setEditingId(image.id);
+    setError(null);
+    setDraft({ label: image.label ?? "", description: image.description ?? "", tags: (image.tags ?? []).join(", ") });
+  };
+
+  const handleSave = async (event: FormEvent<HTMLFormElement>, image: AvatarImage) => {
+    event.preventDefault();
+    setIsSaving(true);
+    setError(null);
+
+    const patch = {
+      label: draft.label.trim() || null,
+      description: draft.description.trim() || null,
+      tags: parseImageTagsInput(draft.tags),
+    };
+    const { data, error: updateError } = await updateAvatarImage(supabase, image.id, image.user_id, patch);
+    setIsSaving(false);
+
+    if (updateError || !data) {
+      logger.error({
+        scope: "http.avatar.image.update",
+        msg: "Failed to update avatar image",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        imageId: image.id,
+        err: updateError ?? new Error("Avatar image update returned empty response"),
+      });
+      setError("Could not save this image’s details. Please try again.");
+      return;
+    }
+
+    logger.info({
+      scope: "http.avatar.image.update",
+      msg: "Avatar image updated",
+      requestId,
+      userId,
+      avatarId: avatar.id,
+      imageId: image.id,
+      payloadSummary: { tagCount: patch.tags.length },
+    });
+    onImagesChange(images.map((entry) => (entry.id === image.id ? (data as AvatarImage) : entry)));
+    setEditingId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {galleryImages.length > 0 ? (
+        <div className="hero-actions" style={{ alignItems: "center" }}>
+          <select
+            className="input"
+            style={{ maxWidth: "12rem" }}
+            aria-label="Image type"
+            value={filters.type}
+            onChange={(event) => setFilters({ ...filters, type: event.target.value as GalleryTypeFilter })}
+          >
+            {GALLERY_TYPE_FILTERS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          <select
+            className="input"
+            style={{ maxWidth: "12rem" }}
+            aria-label="Tag"
+            value={filters.tag}
+            onChange={(event) => setFilters({ ...filters, tag: event.target.value })}
+            disabled={tags.length === 0}
+          >
+            <option value="">Any tag</option>
+            {tags.map((tag) => (
+              <option key={tag} value={tag}>
+                #{tag}
+              </option>
+            ))}
+          </select>
+          {isFiltered ? (
+            <button className="button secondary" type="button" onClick={() => setFilters({ type: "all", tag: "" })}>
+              Clear filters
+            </button>
+          ) : null}
+          {readOnly ? null : (
+            <span className="page-lead" style={{ margin: 0 }}>
+              Drag images to change their order.
+            </span>
+          )}
+        </div>
+      ) : null}
+
+      {error ? <p className="message error">{error}</p> : null}
+
+      {galleryImages.length === 0 ? (
+        <p className="page-lead">No scenes yet. Generate more to see this avatar in action.</p>
+      ) : visibleImages.length === 0 ? (
+        <p className="page-lead">No images match these filters.</p>
+      ) : (
+        <div className="gallery-grid">
+          {visibleImages.map((image, index) => (
+            <div
+              key={image.id}
+              className={`gallery-card${draggedId === image.id ? " dragging" : ""}`}
+              draggable={!readOnly && editingId !== image.id}
+              onDragStart={(event) => {
+                event.dataTransfer.effectAllowed = "move";
+                setDraggedId(image.id);
+              }}
+              onDragEnd={() => setDraggedId(null)}
+              onDragOver={(event) => {
+                if (draggedId) event.preventDefault();
+              }}
+              onDrop={(event) => {
+                event.preventDefault();
+                handleDrop(image.id);
+              }}
+            >
+              <button
+                className="gallery-open"
+                type="button"
+                onClick={() => setLightboxIndex(index)}
+                aria-label={`Open ${image.label || image.type} full screen`}
+              >
+                {imageUrls[image.id] ? (
+                  <Image
+                    src={imageUrls[image.id]}
+                    alt={image.label ?? image.type}
+                    width={400}
+                    height={320}
+                    style={{ width: "100%", height: "auto" }}
+                  />
+                ) : (
+                  <div className="avatar-thumb" style={{ width: "100%", height: "160px" }}>
+                    {avatar.name.slice(0, 1)}
+                  </div>
+                )}
+              </button>
+              {editingId === image.id ? (
+                <form className="gallery-meta space-y-2" onSubmit={(event) => handleSave(event, image)}>
+                  <input
+                    className="input"
+                    aria-label="Label"
+                    placeholder="Label"
+                    maxLength={MAX_IMAGE_LABEL_LENGTH}
+                    value={draft.label}
+                    onChange={(event) => setDraft({ ...draft, label: event.target.value })}
+                  />
+                  <textarea
+                    className="textarea"
+                    aria-label="Description"
+                    placeholder="Description"
+                    maxLength={MAX_IMAGE_DESCRIPTION_LENGTH}
+                    value={draft.description}
+                    onChange={(event) => setDraft({ ...draft, description: event.target.value })}
+                  />
+                  <input
+                    className="input"
+                    aria-label="Tags"
+                    placeholder="Tags, separated by commas"
+                    value={draft.tags}
+                    onChange={(event) => setDraft({ ...draft, tags: event.target.value })}
+                  />
+                  <div className="hero-actions">
+                    <button className="button" type="submit" disabled={isSaving}>
+                      {isSaving ? "Saving…" : "Save"}
+                    </button>
+                    <button className="button secondary" type="button" onClick={() => setEditingId(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </form>
+              ) : (
+                <div className="gallery-meta">
+                  <strong>{image.label || image.type}</strong>
+                  {image.description ? (
+                    <p className="page-lead" style={{ margin: 0 }}>
+                      {image.description}
+                    </p>
+                  ) : null}
+                  {image.tags?.length ? (
+                    <div className="hero-actions" style={{ gap: "0.25rem" }}>
+                      {image.tags.map((tag) => (
+                        <button
+                          key={tag}
+                          className="pill"
+                          type="button"
+                          onClick={() => setFilters({ ...filters, tag })}
+                          title={`Show images tagged #${tag}`}
+                        >
+                          #{tag}
+                        </button>
+                      ))}
+                    </div>
+                  ) : null}
+                  {readOnly ? null : (
+                    <>
+                      <div className="hero-actions">
+                        <button className="button" type="button" onClick={() => onSetPrimary(image)}>
+                          Set as profile image
+                        </button>
+                        <button className="button secondary" type="button" onClick={() => startEditing(image)}>
+                          Edit
+                        </button>
+                        <button className="button secondary" type="button" onClick={() => onDelete(image)}>
+                          Delete
+                        </button>
+                      </div>
+                      <div className="hero-actions">
+                        <button
+                          className="button secondary"
+                          type="button"
+                          aria-label="Move earlier"
+                          onClick={() => handleStep(image, -1)}
+                          disabled={index === 0}
+                        >
+                          ←
+                        </button>
+                        <button
+                          className="button secondary"
+                          type="button"
+                          aria-label="Move later"
+                          onClick={() => handleStep(image, 1)}
+                          disabled={index === visibleImages.length - 1}
+                        >
+                          →
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {lightboxIndex !== null && visibleImages[lightboxIndex] ? (
+        <ImageLightbox
+          images={visibleImages}
+          urls={{ ...imageUrls, ...originalUrls }}
+          index={lightboxIndex}
+          onIndexChange={setLightboxIndex}
+          onClose={closeLightbox}
+        />
+      ) : null}
+    </div>
+  );
+}
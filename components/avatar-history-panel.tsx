@@ -0,0 +1,182 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  NARRATIVE_FIELDS,
+  REVISION_FIELD_LABELS,
+  REVISION_SOURCE_LABELS,
+  diffWords,
+  formatRevisionValue,
+} from "@/lib/avatar-revisions";
+import { logger } from "@/lib/logger";
+import { getAvatarRevisions, restoreAvatarRevision } from "@/lib/supabase/avatars";
+import { getWorkspaceMembers } from "@/lib/supabase/workspaces";
+import type { Avatar, AvatarRevision, AvatarRevisionField } from "@/lib/types/avatars";
+import type { WorkspaceMember } from "@/lib/types/workspaces";
+
+const SCOPE = "http.avatar.history";
+
+interface AvatarHistoryPanelProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  avatar: Avatar;
+  canEdit: boolean;
+  onRestored: (avatar: Avatar) => void;
+}
+
+function NarrativeDiff({ before, after }: { before: string; after: string }) {
+  const segments = diffWords(before, after);
+  return (
+    <div className="diff-columns">
+      <p className="diff-side">
+        {segments
+          .filter((segment) => segment.type !== "added")
+          .map((segment, index) =>
+            segment.type === "removed" ? <del key={index}>{segment.text}</del> : <span key={index}>{segment.text}</span>
+          )}
+      </p>
+      <p className="diff-side">
+        {segments
+          .filter((segment) => segment.type !== "removed")
+          .map((segment, index) =>
+            segment.type === "added" ? <ins key={index}>{segment.text}</ins> : <span key={index}>{segment.text}</span>
+          )}
+      </p>
+    </div>
+  );
+}
+
+/**
+ * Every recorded change to an avatar's fields, newest first. Restoring an entry writes back the values it replaced;
+ * the restore shows up as a new entry, so it can be undone the same way.
+ */
+export function AvatarHistoryPanel({
+  supabase,
+  userId,
+  requestId,
+  avatar,
+  canEdit,
+  onRestored,
+}: AvatarHistoryPanelProps) {
+  const [revisions, setRevisions] = useState<AvatarRevision[]>([]);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const avatarId = avatar.id;
+  const workspaceId = avatar.workspace_id;
+
+  const loadRevisions = useCallback(async () => {
+    const { data, error } = await getAvatarRevisions(supabase, avatarId);
+    if (error) {
+      logger.error({ scope: SCOPE, msg: "Failed to fetch avatar revisions", requestId, userId, avatarId, err: error });
+      return;
+    }
+    setRevisions((data ?? []) as AvatarRevision[]);
+  }, [avatarId, requestId, supabase, userId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, avatar.updated_at]);
+
+  useEffect(() => {
+    getWorkspaceMembers(supabase, workspaceId).then(({ data }) => setMembers((data ?? []) as WorkspaceMember[]));
+  }, [supabase, workspaceId]);
+
+  const describeAuthor = (revision: AvatarRevision) => {
+    if (revision.source === "n8n") return revision.job_id ? `n8n job ${revision.job_id}` : "n8n callback";
+    if (revision.changed_by === userId) return "you";
+    const member = members.find((entry) => entry.user_id === revision.changed_by);
+    return member?.email ?? "a former member";
+  };
+
+  const handleRestore = async (revision: AvatarRevision) => {
+    setRestoringId(revision.id);
+    setStatus(null);
+
+    const { data, error } = await restoreAvatarRevision(supabase, revision.id);
+    setRestoringId(null);
+
+    if (error || !data) {
+      logger.error({
+        scope: SCOPE,
+        msg: "Failed to restore avatar revision",
+        requestId,
+        userId,
+        avatarId,
+        err: error ?? new Error("Restore returned empty response"),
+        payloadSummary: { revisionId: revision.id },
+      });
+      setStatus(error?.message ?? "Could not restore this version. Please try again.");
+      return;
+    }
+
+    logger.info({
+      scope: SCOPE,
+      msg: "Avatar revision restored",
+      requestId,
+      userId,
+      avatarId,
+      payloadSummary: { revisionId: revision.id, fields: revision.changed_fields },
+    });
+    setStatus(`Restored the version from before ${new Date(revision.created_at).toLocaleString()}.`);
+    onRestored(data as Avatar);
+  };
+
+  const renderChange = (revision: AvatarRevision, field: AvatarRevisionField) => {
+    const before = revision.snapshot[field];
+    const after = revision.changes[field];
+
+    if (NARRATIVE_FIELDS.includes(field)) {
+      return <NarrativeDiff before={String(before ?? "")} after={String(after ?? "")} />;
+    }
+    return (
+      <p className="page-lead" style={{ margin: 0 }}>
+        <del>{formatRevisionValue(before)}</del> → <ins>{formatRevisionValue(after)}</ins>
+      </p>
+    );
+  };
+
+  return (
+    <div className="panel space-y-2">
+      <h2 className="page-title" style={{ margin: 0 }}>
+        History
+      </h2>
+      <p className="page-lead" style={{ margin: 0 }}>
+        Every change to this avatar’s profile fields, whether edited here or written by the generator.
+        {canEdit ? " Restoring an entry puts back the values it replaced." : ""}
+      </p>
+      {status ? <p className="message">{status}</p> : null}
+      {revisions.length === 0 ? <p className="page-lead">No changes recorded yet.</p> : null}
+      {revisions.map((revision) => (
+        <details key={revision.id} className="history-entry">
+          <summary>
+            {new Date(revision.created_at).toLocaleString()} · {REVISION_SOURCE_LABELS[revision.source]} by{" "}
+            {describeAuthor(revision)} ·{" "}
+            {revision.changed_fields.map((field) => REVISION_FIELD_LABELS[field]).join(", ")}
+          </summary>
+          <div className="space-y-2" style={{ marginTop: "0.5rem" }}>
+            {revision.changed_fields.map((field) => (
+              <div key={field} className="field">
+                <span className="label">{REVISION_FIELD_LABELS[field]}</span>
+                {renderChange(revision, field)}
+              </div>
+            ))}
+            {canEdit ? (
+              <button
+                className="button secondary"
+                type="button"
+                onClick={() => handleRestore(revision)}
+                disabled={restoringId !== null}
+              >
+                {restoringId === revision.id ? "Restoring…" : "Restore the version before this change"}
+              </button>
+            ) : null}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+import type { CohortProgress as CohortProgressCounts } from "@/lib/types/cohorts";
+
+const SEGMENTS = [
+  { key: "ready", label: "Ready" },
+  { key: "generating", label: "Generating" },
+  { key: "pending", label: "Queued" },
+  { key: "failed", label: "Failed" },
+] as const;
+
+export function CohortProgress({ progress }: { progress: CohortProgressCounts }) {
+  const done = progress.ready + progress.failed;
+  const percent = progress.total ? Math.round((done / progress.total) * 100) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div
+        className="progress-bar"
+        role="progressbar"
+        aria-valuemin={0}
+        aria-valuemax={progress.total}
+        aria-valuenow={done}
+        aria-label="Cohort progress"
+      >
+        {SEGMENTS.map(({ key }) =>
+          progress[key] > 0 ? (
+            <span
+              key={key}
+              className={`progress-segment ${key}`}
+              style={{ width: `${(progress[key] / progress.total) * 100}%` }}
+            />
+          ) : null
+        )}
+      </div>
+      <p className="page-lead" style={{ margin: 0 }}>
+        {percent}% finished ·{" "}
+        {SEGMENTS.map(({ key, label }) => `${progress[key]} ${label.toLowerCase()}`).join(" · ")}
+      </p>
+    </div>
+  );
+}
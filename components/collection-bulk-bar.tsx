@@ -0,0 +1,169 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { logger } from "@/lib/logger";
+import {
+  addAvatarsToCollection,
+  createCollection,
+  getCollectionsForUser,
+  removeAvatarsFromCollection,
+} from "@/lib/supabase/collections";
+import type { AvatarCollection } from "@/lib/types/collections";
+
+const NEW_COLLECTION = "__new__";
+
+interface CollectionBulkBarProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  selectedIds: string[];
+  onDone: () => void;
+}
+
+/** Adds or removes the avatars selected on the list view to or from one collection. */
+export function CollectionBulkBar({ supabase, userId, requestId, selectedIds, onDone }: CollectionBulkBarProps) {
+  const [collections, setCollections] = useState<AvatarCollection[]>([]);
+  const [collectionId, setCollectionId] = useState("");
+  const [newName, setNewName] = useState("");
+  const [status, setStatus] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getCollectionsForUser(supabase, userId).then(({ data, error }) => {
+      if (error) {
+        logger.error({ scope: "http.collection.list", msg: "Failed to fetch collections", requestId, userId, err: error });
+      }
+      if (!isMounted || !data) return;
+      setCollections(data as AvatarCollection[]);
+      setCollectionId((current) => current || (data[0]?.id ?? NEW_COLLECTION));
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [requestId, supabase, userId]);
+
+  const resolveCollection = async () => {
+    if (collectionId !== NEW_COLLECTION) {
+      return collections.find((collection) => collection.id === collectionId) ?? null;
+    }
+
+    const name = newName.trim();
+    if (!name) {
+      setStatus("Name the new collection first.");
+      return null;
+    }
+    const { data, error } = await createCollection(supabase, { user_id: userId, name });
+    if (error || !data) {
+      logger.error({
+        scope: "http.collection.create",
+        msg: "Failed to create collection",
+        requestId,
+        userId,
+        err: error ?? new Error("Collection insert returned empty response"),
+      });
+      setStatus(error?.message ?? "Could not create this collection.");
+      return null;
+    }
+    setCollections((previous) => [data as AvatarCollection, ...previous]);
+    setCollectionId(data.id);
+    setNewName("");
+    return data as AvatarCollection;
+  };
+
+  const handleChange = async (action: "add" | "remove") => {
+    if (selectedIds.length === 0) return;
+    setIsBusy(true);
+    setStatus(null);
+
+    const collection = await resolveCollection();
+    if (!collection) {
+      setIsBusy(false);
+      return;
+    }
+
+    const { error } =
+      action === "add"
+        ? await addAvatarsToCollection(supabase, collection.id, userId, selectedIds)
+        : await removeAvatarsFromCollection(supabase, collection.id, userId, selectedIds);
+    setIsBusy(false);
+
+    if (error) {
+      logger.error({
+        scope: "http.collection.members",
+        msg: action === "add" ? "Failed to add avatars to collection" : "Failed to remove avatars from collection",
+        requestId,
+        userId,
+        payloadSummary: { collectionId: collection.id, count: selectedIds.length },
+        err: error,
+      });
+      setStatus("Could not update the collection. Try again.");
+      return;
+    }
+
+    logger.info({
+      scope: "http.collection.members",
+      msg: action === "add" ? "Avatars added to collection" : "Avatars removed from collection",
+      requestId,
+      userId,
+      payloadSummary: { collectionId: collection.id, count: selectedIds.length },
+    });
+    setStatus(
+      `${action === "add" ? "Added" : "Removed"} ${selectedIds.length} avatar${selectedIds.length === 1 ? "" : "s"} ` +
+        `${action === "add" ? "to" : "from"} “${collection.name}”.`
+    );
+    onDone();
+  };
+
+  return (
+    <div className="panel space-y-2">
+      <div className="hero-actions" style={{ alignItems: "center" }}>
+        <strong>{selectedIds.length} selected</strong>
+        <select
+          className="input"
+          style={{ maxWidth: "16rem" }}
+          value={collectionId}
+          onChange={(event) => setCollectionId(event.target.value)}
+          aria-label="Collection"
+        >
+          {collections.map((collection) => (
+            <option key={collection.id} value={collection.id}>
+              {collection.name}
+            </option>
+          ))}
+          <option value={NEW_COLLECTION}>New collection…</option>
+        </select>
+        {collectionId === NEW_COLLECTION ? (
+          <input
+            className="input"
+            style={{ maxWidth: "16rem" }}
+            placeholder="Collection name"
+            value={newName}
+            onChange={(event) => setNewName(event.target.value)}
+          />
+        ) : null}
+        <button
+          className="button"
+          type="button"
+          onClick={() => handleChange("add")}
+          disabled={isBusy || selectedIds.length === 0}
+        >
+          Add to collection
+        </button>
+        <button
+          className="button secondary"
+          type="button"
+          onClick={() => handleChange("remove")}
+          disabled={isBusy || selectedIds.length === 0 || collectionId === NEW_COLLECTION}
+        >
+          Remove from collection
+        </button>
+      </div>
+      {status ? <p className="message">{status}</p> : null}
+    </div>
+  );
+}
@@ -5,7 +5,10 @@ import Link from "next/link";
 import { usePathname, useRouter } from "next/navigation";
 import type { User } from "@supabase/supabase-js";
 
+import { useWorkspaces } from "@/lib/hooks/use-workspaces";
+import { getRequestId } from "@/lib/request-id";
 import { createSupabaseBrowserClient } from "@/lib/supabase/client";
+import { setActiveWorkspaceId } from "@/lib/workspaces";
 
 const navigationLinks = [
   { href: "/", label: "Home" },
@@ -19,8 +22,10 @@ export function Header() {
   const supabase = useMemo(() => createSupabaseBrowserClient(), []);
   const pathname = usePathname();
   const router = useRouter();
+  const requestId = useMemo(() => getRequestId(), []);
   const [user, setUser] = useState<User | null>(null);
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const { memberships, active } = useWorkspaces(supabase, user?.id ?? null, requestId);
 
   useEffect(() => {
     let isMounted = true;
@@ -56,6 +61,13 @@ export function Header() {
     router.push("/");
   };
 
+  // Pages load their data for the active workspace on mount, so switching reloads; an open avatar belongs to the
+  // old workspace, so its pages go back to the list instead.
+  const handleSwitchWorkspace = (workspaceId: string) => {
+    setActiveWorkspaceId(workspaceId);
+    window.location.assign(pathname.startsWith("/avatars/") ? "/avatars" : pathname);
+  };
+
   return (
     <header className="site-header" role="banner">
       <div className="header-inner">
@@ -80,6 +92,24 @@ export function Header() {
         <div className="auth-actions">
           {user ? (
             <>
+              {memberships.length > 1 && active ? (
+                <select
+                  className="input workspace-switcher"
+                  aria-label="Workspace"
+                  value={active.workspace_id}
+                  onChange={(event) => handleSwitchWorkspace(event.target.value)}
+                >
+                  {memberships.map((membership) => (
+                    <option key={membership.workspace_id} value={membership.workspace_id}>
+                      {membership.workspace.name}
+                      {membership.role === "viewer" ? " (view only)" : ""}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              <Link className="button secondary" href="/workspaces">
+                Workspaces
+              </Link>
               <Link className="button secondary" href="/profile">
                 Profile
               </Link>
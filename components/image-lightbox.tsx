@@ -0,0 +1,117 @@
+"use client";
+
+import Image from "next/image";
+import { useEffect, useRef } from "react";
+
+import type { AvatarImage } from "@/lib/types/avatars";
+
+interface ImageLightboxProps {
+  images: Pick<AvatarImage, "id" | "type" | "label" | "description" | "tags">[];
+  urls: Record<string, string>;
+  index: number;
+  onIndexChange: (index: number) => void;
+  onClose: () => void;
+}
+
+/** Full-screen viewer for the gallery. Arrow keys step through `images`, Escape closes and returns focus. */
+export function ImageLightbox({ images, urls, index, onIndexChange, onClose }: ImageLightboxProps) {
+  const closeRef = useRef<HTMLButtonElement>(null);
+  const image = images[index];
+  const hasMany = images.length > 1;
+
+  useEffect(() => {
+    const previouslyFocused = document.activeElement as HTMLElement | null;
+    closeRef.current?.focus();
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = "hidden";
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      previouslyFocused?.focus();
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") {
+        onClose();
+      } else if (event.key === "ArrowRight" && hasMany) {
+        onIndexChange((index + 1) % images.length);
+      } else if (event.key === "ArrowLeft" && hasMany) {
+        onIndexChange((index - 1 + images.length) % images.length);
+      } else if (event.key === "Home") {
+        onIndexChange(0);
+      } else if (event.key === "End") {
+        onIndexChange(images.length - 1);
+      } else {
+        return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [hasMany, images.length, index, onClose, onIndexChange]);
+
+  if (!image) return null;
+
+  return (
+    <div
+      className="lightbox"
+      role="dialog"
+      aria-modal="true"
+      aria-label={image.label || "Image viewer"}
+      onClick={(event) => {
+        if (event.target === event.currentTarget) onClose();
+      }}
+    >
+      <div className="lightbox-toolbar">
+        <span>
+          {index + 1} / {images.length}
+        </span>
+        <button ref={closeRef} className="button secondary" type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <div className="lightbox-stage">
+        {hasMany ? (
+          <button
+            className="lightbox-nav"
+            type="button"
+            aria-label="Previous image"
+            onClick={() => onIndexChange((index - 1 + images.length) % images.length)}
+          >
+            ‹
+          </button>
+        ) : null}
+        {urls[image.id] ? (
+          <Image
+            src={urls[image.id]}
+            alt={image.label ?? image.type}
+            width={1600}
+            height={1200}
+            sizes="100vw"
+            style={{ width: "auto", height: "auto", maxWidth: "100%", maxHeight: "75vh" }}
+          />
+        ) : (
+          <p>Loading image…</p>
+        )}
+        {hasMany ? (
+          <button
+            className="lightbox-nav"
+            type="button"
+            aria-label="Next image"
+            onClick={() => onIndexChange((index + 1) % images.length)}
+          >
+            ›
+          </button>
+        ) : null}
+      </div>
+      <div className="lightbox-caption">
+        <strong>{image.label || image.type}</strong>
+        {image.description ? <p>{image.description}</p> : null}
+        {image.tags?.length ? <p>{image.tags.map((tag) => `#${tag}`).join(" ")}</p> : null}
+      </div>
+    </div>
+  );
+}
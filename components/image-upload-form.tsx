@@ -0,0 +1,193 @@
+"use client";
+
+import { useRef, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  MAX_UPLOAD_BYTES,
+  UPLOAD_IMAGE_ACCEPT,
+  UPLOAD_IMAGE_KINDS,
+  buildUploadPath,
+  labelFromFileName,
+  validateImageUpload,
+} from "@/lib/avatar-upload";
+import { logger } from "@/lib/logger";
+import {
+  insertAvatarImage,
+  removeAvatarObjects,
+  setPrimaryAvatarImage,
+  uploadAvatarObject,
+} from "@/lib/supabase/avatars";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+
+const SCOPE = "http.avatar.image.upload";
+
+interface ImageUploadFormProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  avatar: Avatar;
+  onUploaded: (image: AvatarImage) => void;
+}
+
+/**
+ * Uploads the user's own photo straight to the private `avatars` bucket and records it in `avatar_images`. If the row
+ * can't be written the file is removed again, so storage never holds images the gallery doesn't know about.
+ */
+export function ImageUploadForm({ supabase, userId, requestId, avatar, onUploaded }: ImageUploadFormProps) {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [kind, setKind] = useState<AvatarImage["type"]>("scenario");
+  const [label, setLabel] = useState("");
+  const [makePrimary, setMakePrimary] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const reset = () => {
+    setFile(null);
+    setLabel("");
+    setMakePrimary(false);
+    if (fileRef.current) fileRef.current.value = "";
+  };
+
+  const handleFileChange = async (selected: File | null) => {
+    setErrors([]);
+    setFile(selected);
+    if (!selected) return;
+    const validation = await validateImageUpload(selected);
+    if (!validation.ok) setErrors(validation.errors);
+    if (!label) setLabel(labelFromFileName(selected.name) ?? "");
+  };
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!file) return;
+
+    const validation = await validateImageUpload(file);
+    if (!validation.ok) {
+      setErrors(validation.errors);
+      return;
+    }
+
+    setIsUploading(true);
+    setErrors([]);
+    const startedAt = Date.now();
+    const storagePath = buildUploadPath(avatar.user_id, avatar.id, validation.value.extension);
+
+    try {
+      const { error: uploadError } = await uploadAvatarObject(supabase, storagePath, file, validation.value.mimeType);
+      if (uploadError) throw uploadError;
+
+      const { data, error: insertError } = await insertAvatarImage(supabase, {
+        avatar_id: avatar.id,
+        user_id: avatar.user_id,
+        type: makePrimary ? "profile" : kind,
+        label: label.trim() || null,
+        storage_path: storagePath,
+      });
+      if (insertError || !data) {
+        await removeAvatarObjects(supabase, [storagePath]);
+        throw insertError ?? new Error("Avatar image insert returned empty response");
+      }
+
+      let image = data as AvatarImage;
+      if (makePrimary) {
+        const { data: primary, error: primaryError } = await setPrimaryAvatarImage(supabase, image.id);
+        if (primaryError) {
+          logger.warn({
+            scope: SCOPE,
+            msg: "Uploaded image could not be made primary",
+            requestId,
+            userId,
+            avatarId: avatar.id,
+            imageId: image.id,
+            err: primaryError,
+          });
+          setErrors(["The image was uploaded, but it could not be set as the profile image."]);
+        } else if (primary) {
+          image = primary as AvatarImage;
+        }
+      }
+
+      logger.info({
+        scope: SCOPE,
+        msg: "Avatar image uploaded",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        imageId: image.id,
+        durationMs: Date.now() - startedAt,
+        payloadSummary: { bytes: file.size, contentType: validation.value.mimeType, isPrimary: image.is_primary },
+      });
+      onUploaded(image);
+      reset();
+    } catch (uploadError) {
+      logger.error({
+        scope: SCOPE,
+        msg: "Failed to upload avatar image",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        durationMs: Date.now() - startedAt,
+        err: uploadError,
+      });
+      setErrors(["Could not upload this image. Please try again."]);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <form className="form-card space-y-2" onSubmit={handleSubmit}>
+      <div className="hero-actions" style={{ alignItems: "flex-end" }}>
+        <label className="field">
+          <span className="label">Upload your own image</span>
+          <input
+            ref={fileRef}
+            className="input"
+            type="file"
+            accept={UPLOAD_IMAGE_ACCEPT}
+            onChange={(event) => handleFileChange(event.target.files?.[0] ?? null)}
+            disabled={isUploading}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Label</span>
+          <input className="input" value={label} maxLength={80} onChange={(event) => setLabel(event.target.value)} />
+        </label>
+        <label className="field">
+          <span className="label">Kind</span>
+          <select
+            className="input"
+            value={makePrimary ? "profile" : kind}
+            onChange={(event) => setKind(event.target.value as AvatarImage["type"])}
+            disabled={makePrimary}
+          >
+            {UPLOAD_IMAGE_KINDS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="mode-option">
+        <input type="checkbox" checked={makePrimary} onChange={(event) => setMakePrimary(event.target.checked)} />
+        Use as {avatar.name}’s profile image
+      </label>
+      <p className="page-lead" style={{ margin: 0 }}>
+        JPEG, PNG or WebP, up to {Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))} MB.
+      </p>
+      {errors.map((message) => (
+        <p key={message} className="message error">
+          {message}
+        </p>
+      ))}
+      <div>
+        <button className="button" type="submit" disabled={!file || isUploading || errors.length > 0}>
+          {isUploading ? "Uploading…" : "Upload image"}
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,81 @@
+import Image from "next/image";
+
+import type { SharedAvatar } from "@/lib/types/share-links";
+
+interface PersonaCardProps {
+  /** Any avatar row, or the reduced profile a share link exposes. */
+  avatar: SharedAvatar;
+  imageUrl?: string | null;
+}
+
+/** Print-ready persona sheet with the same profile fields as the detail page. */
+export function PersonaCard({ avatar, imageUrl }: PersonaCardProps) {
+  const location = [avatar.city, avatar.region, avatar.country].filter(Boolean).join(", ");
+  const extras = Object.entries(avatar.extra_attributes ?? {});
+
+  return (
+    <article className="persona-card">
+      <header className="persona-card-header">
+        <div className="persona-card-image">
+          {imageUrl ? (
+            <Image src={imageUrl} alt={`${avatar.name} portrait`} width={400} height={400} priority />
+          ) : (
+            <div className="avatar-thumb" style={{ width: "100%", height: "100%" }}>
+              {avatar.name.slice(0, 1)}
+            </div>
+          )}
+        </div>
+        <div className="space-y-2">
+          <h1 className="page-title">{avatar.name}</h1>
+          <p className="page-lead" style={{ margin: 0 }}>
+            {[`${avatar.age} years`, avatar.job_title, location].filter(Boolean).join(" · ")}
+          </p>
+        </div>
+      </header>
+
+      <section>
+        <h2>Narrative profile</h2>
+        <p>{avatar.persona_summary || "No narrative yet."}</p>
+      </section>
+
+      <section className="traits-grid">
+        <div className="field">
+          <span className="label">Life &amp; work</span>
+          <span>{avatar.job_title ?? "-"}</span>
+          {avatar.industry ? <span>Industry: {avatar.industry}</span> : null}
+        </div>
+        <div className="field">
+          <span className="label">Location</span>
+          {avatar.address_line ? <span>{avatar.address_line}</span> : null}
+          <span>{location || "-"}</span>
+        </div>
+        <div className="field">
+          <span className="label">Appearance</span>
+          <span>Skin tone: {avatar.skin_tone ?? "-"}</span>
+          <span>Hair color: {avatar.hair_color ?? "-"}</span>
+          <span>Height: {avatar.height_cm ? `${avatar.height_cm} cm` : "-"}</span>
+        </div>
+        <div className="field">
+          <span className="label">Lifestyle</span>
+          <span>Marital status: {avatar.marital_status ?? "-"}</span>
+          <span>Hobbies: {avatar.hobbies?.length ? avatar.hobbies.join(", ") : "-"}</span>
+          <span>Orientation: {avatar.political_orientation ?? "-"}</span>
+        </div>
+        <div className="field">
+          <span className="label">Other traits &amp; quirks</span>
+          <span>{avatar.other_traits || "-"}</span>
+        </div>
+        {extras.length > 0 ? (
+          <div className="field">
+            <span className="label">Extra attributes</span>
+            {extras.map(([key, value]) => (
+              <span key={key}>
+                {key.replace(/_/g, " ")}: {typeof value === "string" ? value : JSON.stringify(value)}
+              </span>
+            ))}
+          </div>
+        ) : null}
+      </section>
+    </article>
+  );
+}
@@ -0,0 +1,216 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState, type FormEvent, type KeyboardEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { requestInterviewReply } from "@/lib/api/avatars";
+import { logger } from "@/lib/logger";
+import { MAX_INTERVIEW_MESSAGE_LENGTH } from "@/lib/persona-chat";
+import { deleteConversation, getConversationMessages, getConversationsForAvatar } from "@/lib/supabase/conversations";
+import type { Avatar } from "@/lib/types/avatars";
+import type { AvatarConversation, AvatarConversationMessage, ConversationRole } from "@/lib/types/conversations";
+
+const NEW_CONVERSATION = "";
+
+type ChatEntry = { id: string; role: ConversationRole; content: string; pending?: boolean };
+
+interface PersonaChatProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  avatar: Avatar;
+}
+
+/** Interview panel on the avatar page. Every exchange is saved, so earlier transcripts can be reopened from the list. */
+export function PersonaChat({ supabase, userId, requestId, avatar }: PersonaChatProps) {
+  const [conversations, setConversations] = useState<AvatarConversation[]>([]);
+  const [conversationId, setConversationId] = useState(NEW_CONVERSATION);
+  const [messages, setMessages] = useState<ChatEntry[]>([]);
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isSending, setIsSending] = useState(false);
+  const logRef = useRef<HTMLDivElement>(null);
+
+  const loadConversations = useCallback(async () => {
+    const { data, error: listError } = await getConversationsForAvatar(supabase, avatar.id, userId);
+    if (listError) {
+      logger.error({
+        scope: "http.avatar.interview",
+        msg: "Failed to fetch interview conversations",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        err: listError,
+      });
+      return;
+    }
+    setConversations((data ?? []) as AvatarConversation[]);
+  }, [avatar.id, requestId, supabase, userId]);
+
+  useEffect(() => {
+    loadConversations();
+  }, [loadConversations]);
+
+  useEffect(() => {
+    logRef.current?.scrollTo({ top: logRef.current.scrollHeight });
+  }, [messages]);
+
+  const openConversation = async (id: string) => {
+    setConversationId(id);
+    setError(null);
+    setMessages([]);
+    if (id === NEW_CONVERSATION) return;
+
+    const { data, error: messagesError } = await getConversationMessages(supabase, id, userId);
+    if (messagesError) {
+      logger.error({
+        scope: "http.avatar.interview",
+        msg: "Failed to fetch interview transcript",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        payloadSummary: { conversationId: id },
+        err: messagesError,
+      });
+      setError("Could not load this conversation.");
+      return;
+    }
+    setMessages((data ?? []) as AvatarConversationMessage[]);
+  };
+
+  const sendMessage = async () => {
+    const message = draft.trim();
+    if (!message || isSending) return;
+
+    setIsSending(true);
+    setError(null);
+    setDraft("");
+    setMessages((previous) => [...previous, { id: "pending", role: "user", content: message, pending: true }]);
+
+    try {
+      const result = await requestInterviewReply(avatar.id, conversationId || null, message, requestId);
+      setMessages((previous) => [...previous.filter((entry) => !entry.pending), ...result.messages]);
+      if (result.conversationId !== conversationId) {
+        setConversationId(result.conversationId);
+      }
+      await loadConversations();
+    } catch (sendError) {
+      logger.error({
+        scope: "http.avatar.interview",
+        msg: "Interview message failed",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        err: sendError,
+      });
+      setMessages((previous) => previous.filter((entry) => !entry.pending));
+      setDraft(message);
+      setError(sendError instanceof Error ? sendError.message : "The message could not be sent.");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    sendMessage();
+  };
+
+  // Enter sends; Shift+Enter keeps typing on a new line.
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      sendMessage();
+    }
+  };
+
+  const handleDelete = async () => {
+    const conversation = conversations.find((entry) => entry.id === conversationId);
+    if (!conversation || !window.confirm(`Delete the transcript “${conversation.title}”?`)) return;
+
+    const { error: deleteError } = await deleteConversation(supabase, conversation.id, userId);
+    if (deleteError) {
+      logger.error({
+        scope: "http.avatar.interview",
+        msg: "Failed to delete interview conversation",
+        requestId,
+        userId,
+        avatarId: avatar.id,
+        payloadSummary: { conversationId: conversation.id },
+        err: deleteError,
+      });
+      setError("Could not delete this transcript.");
+      return;
+    }
+    setConversations((previous) => previous.filter((entry) => entry.id !== conversation.id));
+    openConversation(NEW_CONVERSATION);
+  };
+
+  return (
+    <div className="panel space-y-2">
+      <div className="hero-actions" style={{ justifyContent: "space-between", alignItems: "center" }}>
+        <div>
+          <h2 className="page-title" style={{ margin: 0 }}>
+            Interview {avatar.name}
+          </h2>
+          <p className="page-lead" style={{ margin: 0 }}>
+            Ask questions and {avatar.name} answers in character. Transcripts are saved with this avatar.
+          </p>
+        </div>
+        <div className="hero-actions">
+          <select
+            className="input"
+            style={{ maxWidth: "18rem" }}
+            value={conversationId}
+            onChange={(event) => openConversation(event.target.value)}
+            aria-label="Conversation"
+            disabled={isSending}
+          >
+            <option value={NEW_CONVERSATION}>New conversation</option>
+            {conversations.map((conversation) => (
+              <option key={conversation.id} value={conversation.id}>
+                {conversation.title} · {new Date(conversation.updated_at).toLocaleDateString()}
+              </option>
+            ))}
+          </select>
+          {conversationId ? (
+            <button className="button secondary" type="button" onClick={handleDelete} disabled={isSending}>
+              Delete transcript
+            </button>
+          ) : null}
+        </div>
+      </div>
+
+      <div className="chat-log" ref={logRef} aria-live="polite">
+        {messages.length === 0 ? (
+          <p className="page-lead">No questions yet. Try “What does a normal weekday look like for you?”</p>
+        ) : (
+          messages.map((entry) => (
+            <div key={entry.id} className={`chat-message ${entry.role}${entry.pending ? " pending" : ""}`}>
+              {entry.content}
+            </div>
+          ))
+        )}
+        {isSending ? <div className="chat-message assistant pending">{avatar.name} is typing…</div> : null}
+      </div>
+
+      {error ? <p className="message error">{error}</p> : null}
+
+      <form className="space-y-2" onSubmit={handleSubmit}>
+        <textarea
+          className="textarea"
+          placeholder={`Ask ${avatar.name} something…`}
+          maxLength={MAX_INTERVIEW_MESSAGE_LENGTH}
+          value={draft}
+          onChange={(event) => setDraft(event.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        <div>
+          <button className="button" type="submit" disabled={isSending || !draft.trim()}>
+            {isSending ? "Waiting for an answer…" : "Send"}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+
+interface SaveTemplateFormProps {
+  isSaving: boolean;
+  onSave: (template: { name: string; description: string | null; isShared: boolean }) => Promise<boolean> | boolean;
+}
+
+/** Small inline form for storing the current wizard selections as a persona template. */
+export function SaveTemplateForm({ isSaving, onSave }: SaveTemplateFormProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [isShared, setIsShared] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      setError("Give the template a name.");
+      return;
+    }
+    if (trimmed.length > 80) {
+      setError("Keep the name under 80 characters.");
+      return;
+    }
+    setError(null);
+    const saved = await onSave({ name: trimmed, description: description.trim() || null, isShared });
+    if (saved) {
+      setName("");
+      setDescription("");
+    }
+  };
+
+  return (
+    <details className="history-entry">
+      <summary>Save these choices as a template</summary>
+      <div className="space-y-2" style={{ marginTop: "0.75rem" }}>
+        <label className="field">
+          <span className="label">Template name</span>
+          <input
+            className="input"
+            value={name}
+            placeholder="e.g. Rural retiree"
+            onChange={(event) => setName(event.target.value)}
+            aria-invalid={error ? true : undefined}
+          />
+          {error ? <small className="field-error">{error}</small> : null}
+        </label>
+        <label className="field">
+          <span className="label">Description</span>
+          <input className="input" value={description} onChange={(event) => setDescription(event.target.value)} />
+        </label>
+        <label className="mode-option">
+          <input type="checkbox" checked={isShared} onChange={(event) => setIsShared(event.target.checked)} />
+          Share with everyone in the current workspace
+        </label>
+        <div>
+          <button className="button secondary" type="button" onClick={handleSave} disabled={isSaving}>
+            {isSaving ? "Saving…" : "Save template"}
+          </button>
+        </div>
+      </div>
+    </details>
+  );
+}
@@ -0,0 +1,117 @@
+"use client";
+
+import {
+  MAX_SCENARIO_IMAGES,
+  MAX_SCENARIO_PART_LENGTH,
+  MAX_SCENARIO_PROMPT_LENGTH,
+  SCENARIO_ASPECT_RATIOS,
+  SCENARIO_TIMES_OF_DAY,
+} from "@/lib/scenario-prompt";
+import type { ScenarioAspectRatio, ScenarioFields } from "@/lib/types/scenario-prompts";
+
+export type ScenarioDraft = Record<"setting" | "activity" | "mood" | "time_of_day" | "prompt", string> &
+  Pick<ScenarioFields, "image_count" | "aspect_ratio">;
+
+export function createEmptyScenarioDraft(): ScenarioDraft {
+  return { setting: "", activity: "", mood: "", time_of_day: "", prompt: "", image_count: 1, aspect_ratio: "1:1" };
+}
+
+interface ScenarioFieldsFormProps {
+  draft: ScenarioDraft;
+  onChange: (draft: ScenarioDraft) => void;
+}
+
+/** Inputs for the structured parts of a scene, shared by the scenario library and the avatar page. */
+export function ScenarioFieldsForm({ draft, onChange }: ScenarioFieldsFormProps) {
+  const set = <K extends keyof ScenarioDraft>(key: K, value: ScenarioDraft[K]) => onChange({ ...draft, [key]: value });
+
+  return (
+    <div className="space-y-2">
+      <div className="traits-grid">
+        <label className="field">
+          <span className="label">Setting</span>
+          <input
+            className="input"
+            placeholder="e.g. a busy farmers’ market"
+            maxLength={MAX_SCENARIO_PART_LENGTH}
+            value={draft.setting}
+            onChange={(event) => set("setting", event.target.value)}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Activity</span>
+          <input
+            className="input"
+            placeholder="e.g. haggling over tomatoes"
+            maxLength={MAX_SCENARIO_PART_LENGTH}
+            value={draft.activity}
+            onChange={(event) => set("activity", event.target.value)}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Mood</span>
+          <input
+            className="input"
+            placeholder="e.g. cheerful, a little rushed"
+            maxLength={MAX_SCENARIO_PART_LENGTH}
+            value={draft.mood}
+            onChange={(event) => set("mood", event.target.value)}
+          />
+        </label>
+        <label className="field">
+          <span className="label">Time of day</span>
+          <select
+            className="input"
+            value={draft.time_of_day}
+            onChange={(event) => set("time_of_day", event.target.value)}
+          >
+            <option value="">Any</option>
+            {SCENARIO_TIMES_OF_DAY.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span className="label">Images</span>
+          <select
+            className="input"
+            value={draft.image_count}
+            onChange={(event) => set("image_count", Number(event.target.value))}
+          >
+            {Array.from({ length: MAX_SCENARIO_IMAGES }, (_, index) => index + 1).map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="field">
+          <span className="label">Aspect ratio</span>
+          <select
+            className="input"
+            value={draft.aspect_ratio}
+            onChange={(event) => set("aspect_ratio", event.target.value as ScenarioAspectRatio)}
+          >
+            {SCENARIO_ASPECT_RATIOS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="field">
+        <span className="label">Extra direction</span>
+        <textarea
+          className="textarea"
+          placeholder="Anything else the scene should show"
+          maxLength={MAX_SCENARIO_PROMPT_LENGTH}
+          value={draft.prompt}
+          onChange={(event) => set("prompt", event.target.value)}
+        />
+      </label>
+    </div>
+  );
+}
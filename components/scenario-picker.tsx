@@ -0,0 +1,194 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { createEmptyScenarioDraft, ScenarioFieldsForm, type ScenarioDraft } from "@/components/scenario-fields-form";
+import type { ScenarioRequestInput } from "@/lib/api/avatars";
+import { logger } from "@/lib/logger";
+import { MAX_SCENARIOS_PER_REQUEST, describeScenario, parseScenarioFields } from "@/lib/scenario-prompt";
+import { createScenarioPrompt, getScenarioPromptsForUser } from "@/lib/supabase/scenario-prompts";
+import type { ScenarioPrompt } from "@/lib/types/scenario-prompts";
+
+interface ScenarioPickerProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  onGenerate: (scenarios: ScenarioRequestInput[]) => Promise<boolean>;
+}
+
+/** Lets the user tick several library prompts, and optionally describe a one-off scene, then request them together. */
+export function ScenarioPicker({ supabase, userId, requestId, onGenerate }: ScenarioPickerProps) {
+  const [prompts, setPrompts] = useState<ScenarioPrompt[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [includeCustom, setIncludeCustom] = useState(false);
+  const [draft, setDraft] = useState<ScenarioDraft>(createEmptyScenarioDraft);
+  const [saveName, setSaveName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    getScenarioPromptsForUser(supabase, userId).then(({ data, error: listError }) => {
+      if (listError) {
+        logger.error({
+          scope: "http.scenarioPrompt.list",
+          msg: "Failed to fetch scenario prompts",
+          requestId,
+          userId,
+          err: listError,
+        });
+      }
+      if (isMounted && data) setPrompts(data as ScenarioPrompt[]);
+    });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [requestId, supabase, userId]);
+
+  const toggle = (promptId: string) => {
+    setSelected((previous) => {
+      const next = new Set(previous);
+      if (next.has(promptId)) {
+        next.delete(promptId);
+      } else {
+        next.add(promptId);
+      }
+      return next;
+    });
+  };
+
+  const requestCount = selected.size + (includeCustom ? 1 : 0);
+  const imageCount =
+    prompts.filter((prompt) => selected.has(prompt.id)).reduce((sum, prompt) => sum + prompt.image_count, 0) +
+    (includeCustom ? draft.image_count : 0);
+
+  const handleSaveToLibrary = async () => {
+    const name = saveName.trim();
+    const fields = parseScenarioFields(draft);
+    if (!name) {
+      setError("Name the scenario before saving it.");
+      return;
+    }
+    if (!fields.ok) {
+      setError(fields.errors[0].replace(/^scenario(\.| )/, "The scenario "));
+      return;
+    }
+
+    setIsBusy(true);
+    setError(null);
+    const { data, error: createError } = await createScenarioPrompt(supabase, {
+      user_id: userId,
+      name,
+      ...fields.value,
+    });
+    setIsBusy(false);
+
+    if (createError || !data) {
+      logger.error({
+        scope: "http.scenarioPrompt.create",
+        msg: "Failed to save scenario prompt",
+        requestId,
+        userId,
+        err: createError ?? new Error("Scenario prompt insert returned empty response"),
+      });
+      setError(
+        createError?.code === "23505" ? `You already have a scenario named “${name}”.` : "Could not save this scenario."
+      );
+      return;
+    }
+
+    const prompt = data as ScenarioPrompt;
+    setPrompts((previous) => [...previous, prompt].sort((a, b) => a.name.localeCompare(b.name)));
+    setSelected((previous) => new Set(previous).add(prompt.id));
+    setIncludeCustom(false);
+    setDraft(createEmptyScenarioDraft());
+    setSaveName("");
+  };
+
+  const handleGenerate = async () => {
+    setError(null);
+    const scenarios: ScenarioRequestInput[] = Array.from(selected).map((id) => ({ scenario_prompt_id: id }));
+
+    if (includeCustom) {
+      const fields = parseScenarioFields(draft);
+      if (!fields.ok) {
+        setError(fields.errors[0].replace(/^scenario(\.| )/, "The custom scene "));
+        return;
+      }
+      scenarios.push({ ...fields.value, name: saveName.trim() || null });
+    }
+
+    if (scenarios.length === 0) {
+      setError("Pick at least one scenario, or describe a custom scene.");
+      return;
+    }
+    if (scenarios.length > MAX_SCENARIOS_PER_REQUEST) {
+      setError(`Pick at most ${MAX_SCENARIOS_PER_REQUEST} scenarios at a time.`);
+      return;
+    }
+
+    setIsBusy(true);
+    const succeeded = await onGenerate(scenarios);
+    setIsBusy(false);
+    if (succeeded) setSelected(new Set());
+  };
+
+  return (
+    <div className="space-y-2">
+      {prompts.length === 0 ? (
+        <p className="page-lead" style={{ margin: 0 }}>
+          Your scenario library is empty. Describe a scene below and save it to reuse it for any avatar.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {prompts.map((prompt) => (
+            <label key={prompt.id} className="mode-option">
+              <input type="checkbox" checked={selected.has(prompt.id)} onChange={() => toggle(prompt.id)} />
+              <span>
+                <strong>{prompt.name}</strong> · {prompt.image_count} × {prompt.aspect_ratio}
+                <br />
+                <small>{describeScenario(prompt)}</small>
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <label className="mode-option">
+        <input type="checkbox" checked={includeCustom} onChange={(event) => setIncludeCustom(event.target.checked)} />
+        Describe a custom scene
+      </label>
+      {includeCustom ? (
+        <div className="form-card space-y-2">
+          <ScenarioFieldsForm draft={draft} onChange={setDraft} />
+          <div className="hero-actions" style={{ alignItems: "center" }}>
+            <input
+              className="input"
+              style={{ maxWidth: "16rem" }}
+              placeholder="Name (used as the image label)"
+              value={saveName}
+              onChange={(event) => setSaveName(event.target.value)}
+            />
+            <button className="button secondary" type="button" onClick={handleSaveToLibrary} disabled={isBusy}>
+              Save to library
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {error ? <p className="message error">{error}</p> : null}
+
+      <div className="hero-actions" style={{ alignItems: "center" }}>
+        <button className="button" type="button" onClick={handleGenerate} disabled={isBusy || requestCount === 0}>
+          {requestCount > 1 ? `Generate ${requestCount} scenes` : "Generate scene"}
+          {imageCount > requestCount ? ` (${imageCount} images)` : ""}
+        </button>
+        <Link href="/scenarios">Manage scenario library</Link>
+      </div>
+    </div>
+  );
+}
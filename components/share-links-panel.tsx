@@ -0,0 +1,203 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { logger } from "@/lib/logger";
+import { SHARE_EXPIRY_OPTIONS, buildShareUrl, getShareLinkState, shareLinkExpiry } from "@/lib/share-links";
+import {
+  createShareLink,
+  deleteShareLink,
+  getShareLinksForTarget,
+  revokeShareLink,
+} from "@/lib/supabase/share-links";
+import { createLinkToken } from "@/lib/tokens";
+import type { ShareLink, ShareTarget } from "@/lib/types/share-links";
+
+const SCOPE = "http.share.manage";
+
+interface ShareLinksPanelProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  /** Exactly one of `avatarId` and `collectionId`. */
+  avatarId?: string;
+  collectionId?: string;
+  /** What is being shared, e.g. "this persona" or "this collection". */
+  subject: string;
+}
+
+/** Creates, copies and revokes read-only `/share/<token>` links for an avatar or a collection. */
+export function ShareLinksPanel({
+  supabase,
+  userId,
+  requestId,
+  avatarId,
+  collectionId,
+  subject,
+}: ShareLinksPanelProps) {
+  const [links, setLinks] = useState<ShareLink[]>([]);
+  const [expiry, setExpiry] = useState(SHARE_EXPIRY_OPTIONS[0].value);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const target = useMemo<ShareTarget>(
+    () => (avatarId ? { avatarId } : { collectionId: collectionId ?? "" }),
+    [avatarId, collectionId]
+  );
+  const logFields = { scope: SCOPE, requestId, userId, avatarId, payloadSummary: { collectionId } };
+
+  const loadLinks = useCallback(async () => {
+    const { data, error: listError } = await getShareLinksForTarget(supabase, userId, target);
+    if (listError) {
+      logger.error({ scope: SCOPE, msg: "Failed to fetch share links", requestId, userId, err: listError });
+      return;
+    }
+    setLinks((data ?? []) as ShareLink[]);
+  }, [requestId, supabase, target, userId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const handleCreate = async () => {
+    const option = SHARE_EXPIRY_OPTIONS.find((entry) => entry.value === expiry) ?? SHARE_EXPIRY_OPTIONS[0];
+    setIsBusy(true);
+    setError(null);
+
+    const { data, error: createError } = await createShareLink(supabase, {
+      user_id: userId,
+      token: createLinkToken(),
+      expires_at: shareLinkExpiry(option.days),
+      ...("avatarId" in target ? { avatar_id: target.avatarId } : { collection_id: target.collectionId }),
+    });
+    setIsBusy(false);
+
+    if (createError || !data) {
+      logger.error({
+        ...logFields,
+        msg: "Failed to create share link",
+        err: createError ?? new Error("Share link insert returned empty response"),
+      });
+      setError("Could not create a share link. Please try again.");
+      return;
+    }
+
+    logger.info({ ...logFields, msg: "Share link created" });
+    setLinks((previous) => [data as ShareLink, ...previous]);
+    await copyLink(data as ShareLink);
+  };
+
+  const copyLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(buildShareUrl(window.location.origin, link.token));
+      setCopiedId(link.id);
+    } catch {
+      setCopiedId(null);
+    }
+  };
+
+  const handleRevoke = async (link: ShareLink) => {
+    if (!window.confirm("Revoke this link? Anyone using it will lose access straight away.")) return;
+    const { data, error: revokeError } = await revokeShareLink(supabase, link.id, userId);
+    if (revokeError || !data) {
+      logger.error({ ...logFields, msg: "Failed to revoke share link", err: revokeError ?? undefined });
+      setError("Could not revoke this link. Please try again.");
+      return;
+    }
+    logger.info({ ...logFields, msg: "Share link revoked" });
+    setLinks((previous) => previous.map((entry) => (entry.id === link.id ? (data as ShareLink) : entry)));
+  };
+
+  const handleDelete = async (link: ShareLink) => {
+    const { error: deleteError } = await deleteShareLink(supabase, link.id, userId);
+    if (deleteError) {
+      logger.error({ ...logFields, msg: "Failed to delete share link", err: deleteError });
+      setError("Could not remove this link.");
+      return;
+    }
+    setLinks((previous) => previous.filter((entry) => entry.id !== link.id));
+  };
+
+  return (
+    <div className="panel space-y-2 no-print">
+      <h2 className="page-title" style={{ margin: 0 }}>
+        Share links
+      </h2>
+      <p className="page-lead" style={{ margin: 0 }}>
+        Anyone with a link can view {subject} read-only, without an account. Revoke a link to cut off access.
+      </p>
+      <div className="hero-actions" style={{ alignItems: "center" }}>
+        <select
+          className="input"
+          style={{ maxWidth: "14rem" }}
+          aria-label="Link expiry"
+          value={expiry}
+          onChange={(event) => setExpiry(event.target.value)}
+        >
+          {SHARE_EXPIRY_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <button className="button" type="button" onClick={handleCreate} disabled={isBusy}>
+          {isBusy ? "Creating…" : "Create share link"}
+        </button>
+      </div>
+      {error ? <p className="message error">{error}</p> : null}
+      {links.length > 0 ? (
+        <div className="table-scroll">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Created</th>
+                <th>Status</th>
+                <th>Views</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {links.map((link) => {
+                const state = getShareLinkState(link);
+                return (
+                  <tr key={link.id}>
+                    <td>{new Date(link.created_at).toLocaleString()}</td>
+                    <td>
+                      {state === "active"
+                        ? link.expires_at
+                          ? `Active until ${new Date(link.expires_at).toLocaleString()}`
+                          : "Active, no expiry"
+                        : state === "revoked"
+                          ? "Revoked"
+                          : "Expired"}
+                    </td>
+                    <td>{link.view_count}</td>
+                    <td>
+                      <div className="hero-actions">
+                        {state === "active" ? (
+                          <>
+                            <button className="button secondary" type="button" onClick={() => copyLink(link)}>
+                              {copiedId === link.id ? "Copied" : "Copy link"}
+                            </button>
+                            <button className="button danger" type="button" onClick={() => handleRevoke(link)}>
+                              Revoke
+                            </button>
+                          </>
+                        ) : (
+                          <button className="button secondary" type="button" onClick={() => handleDelete(link)}>
+                            Remove
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
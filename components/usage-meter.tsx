@@ -0,0 +1,99 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { logger } from "@/lib/logger";
+import { getGenerationUsage, getPlanById } from "@/lib/supabase/usage";
+import type { GenerationUsage, Plan } from "@/lib/types/usage";
+import { GENERATION_KIND_LABELS, formatQuotaReset, remainingGenerations } from "@/lib/usage";
+
+interface UsageMeterProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+}
+
+/** This month's avatar and scene generations against the user's plan. */
+export function UsageMeter({ supabase, userId, requestId }: UsageMeterProps) {
+  const [usage, setUsage] = useState<GenerationUsage[]>([]);
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isMounted = true;
+
+    const loadUsage = async () => {
+      const { data, error: usageError } = await getGenerationUsage(supabase, userId);
+      if (!isMounted) return;
+      if (usageError) {
+        logger.error({
+          scope: "http.usage",
+          msg: "Failed to fetch generation usage",
+          requestId,
+          userId,
+          err: usageError,
+        });
+        setError("Could not load your usage.");
+        return;
+      }
+
+      const rows = (data ?? []) as GenerationUsage[];
+      setUsage(rows);
+      if (rows[0]) {
+        const { data: planRow } = await getPlanById(supabase, rows[0].plan_id);
+        if (isMounted) setPlan((planRow ?? null) as Plan | null);
+      }
+    };
+
+    loadUsage();
+
+    return () => {
+      isMounted = false;
+    };
+  }, [requestId, supabase, userId]);
+
+  if (error) return <p className="message error">{error}</p>;
+  if (usage.length === 0) return null;
+
+  return (
+    <div className="form-card">
+      <h2 className="page-title" style={{ margin: 0 }}>
+        Usage this month
+      </h2>
+      <p className="page-lead" style={{ margin: 0 }}>
+        {plan ? `${plan.name} plan · ` : ""}Resets on {formatQuotaReset(usage[0].period_end)}. Only jobs that reach
+        the generator count.
+      </p>
+      {usage.map((row) => {
+        const remaining = remainingGenerations(row);
+        const percent = row.quota ? Math.min((row.used / row.quota) * 100, 100) : 0;
+        const label = GENERATION_KIND_LABELS[row.kind];
+        return (
+          <div key={row.kind} className="space-y-2">
+            <span className="label">
+              {row.quota === null
+                ? `${row.used} ${label} · unlimited`
+                : `${row.used} of ${row.quota} ${label} · ${remaining} left`}
+            </span>
+            {row.quota !== null ? (
+              <div
+                className="progress-bar"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={row.quota}
+                aria-valuenow={row.used}
+                aria-label={`${label} used`}
+              >
+                <span
+                  className={`progress-segment ${remaining === 0 ? "exhausted" : "usage"}`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+"use client";
+
+import type { FieldMode, WizardFieldConfig, WizardFieldState } from "@/lib/avatar-wizard";
+
+const MODE_LABELS: Record<FieldMode, string> = {
+  generator: "Let the generator decide",
+  set: "Set it",
+  random: "Randomize",
+};
+
+interface WizardFieldProps {
+  config: WizardFieldConfig;
+  state: WizardFieldState;
+  error?: string;
+  onModeChange: (mode: FieldMode) => void;
+  onValueChange: (value: string) => void;
+  onReroll: () => void;
+}
+
+export function WizardField({ config, state, error, onModeChange, onValueChange, onReroll }: WizardFieldProps) {
+  const { key, label, input, options, placeholder, hint } = config;
+
+  return (
+    <fieldset className="wizard-field">
+      <legend className="label">{label}</legend>
+      <div className="mode-toggle" role="radiogroup" aria-label={`${label} source`}>
+        {(Object.keys(MODE_LABELS) as FieldMode[]).map((mode) => (
+          <label key={mode} className={state.mode === mode ? "mode-option active" : "mode-option"}>
+            <input
+              type="radio"
+              name={`${key}-mode`}
+              value={mode}
+              checked={state.mode === mode}
+              onChange={() => onModeChange(mode)}
+            />
+            {MODE_LABELS[mode]}
+          </label>
+        ))}
+      </div>
+
+      {state.mode === "set" && input === "select" ? (
+        <select
+          className="input"
+          value={state.value}
+          onChange={(event) => onValueChange(event.target.value)}
+          aria-invalid={error ? true : undefined}
+        >
+          <option value="">Choose an option</option>
+          {options?.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      ) : null}
+
+      {state.mode === "set" && input !== "select" ? (
+        <input
+          className="input"
+          type={input}
+          inputMode={input === "number" ? "numeric" : undefined}
+          placeholder={placeholder}
+          value={state.value}
+          onChange={(event) => onValueChange(event.target.value)}
+          aria-invalid={error ? true : undefined}
+        />
+      ) : null}
+
+      {state.mode === "random" ? (
+        <div className="hero-actions">
+          <span className="pill">{state.value || "—"}</span>
+          <button className="button secondary" type="button" onClick={onReroll}>
+            Re-roll
+          </button>
+        </div>
+      ) : null}
+
+      {state.mode === "set" && hint ? <small className="page-lead">{hint}</small> : null}
+      {error ? <small className="field-error">{error}</small> : null}
+    </fieldset>
+  );
+}
@@ -0,0 +1,267 @@
+"use client";
+
+import { useCallback, useEffect, useState, type FormEvent } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { ApiError } from "@/lib/api/client";
+import { requestWorkspaceInvitation } from "@/lib/api/workspaces";
+import { logger } from "@/lib/logger";
+import {
+  deleteWorkspaceInvitation,
+  getWorkspaceInvitations,
+  getWorkspaceMembers,
+  removeWorkspaceMember,
+  updateWorkspaceMemberRole,
+} from "@/lib/supabase/workspaces";
+import type {
+  WorkspaceInvitation,
+  WorkspaceMember,
+  WorkspaceMembership,
+  WorkspaceRole,
+} from "@/lib/types/workspaces";
+import { WORKSPACE_ROLES, buildInvitationUrl } from "@/lib/workspaces";
+
+const SCOPE = "http.workspace.members";
+
+interface WorkspaceMembersPanelProps {
+  supabase: SupabaseClient;
+  userId: string;
+  requestId: string;
+  membership: WorkspaceMembership;
+}
+
+/** Members and invitations of one workspace. Everyone sees the member list; owners can change roles and invite. */
+export function WorkspaceMembersPanel({ supabase, userId, requestId, membership }: WorkspaceMembersPanelProps) {
+  const workspaceId = membership.workspace_id;
+  const isOwner = membership.role === "owner";
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [invitations, setInvitations] = useState<WorkspaceInvitation[]>([]);
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<WorkspaceRole>("editor");
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+  const logFields = { scope: SCOPE, requestId, userId, payloadSummary: { workspaceId } };
+
+  const load = useCallback(async () => {
+    const [{ data: memberRows, error: membersError }, invitationResult] = await Promise.all([
+      getWorkspaceMembers(supabase, workspaceId),
+      isOwner ? getWorkspaceInvitations(supabase, workspaceId) : Promise.resolve({ data: [], error: null }),
+    ]);
+    if (membersError || invitationResult.error) {
+      logger.error({
+        scope: SCOPE,
+        msg: "Failed to fetch workspace members",
+        requestId,
+        userId,
+        err: membersError ?? invitationResult.error,
+      });
+    }
+    setMembers((memberRows ?? []) as WorkspaceMember[]);
+    setInvitations((invitationResult.data ?? []) as WorkspaceInvitation[]);
+  }, [isOwner, requestId, supabase, userId, workspaceId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleInvite = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setIsInviting(true);
+    setStatus(null);
+    setInviteUrl(null);
+
+    try {
+      const result = await requestWorkspaceInvitation(workspaceId, email, role, requestId);
+      setInvitations((previous) => [result.invitation, ...previous]);
+      setEmail("");
+      if (result.emailed) {
+        setStatus(`Invitation emailed to ${result.invitation.email}.`);
+      } else {
+        setInviteUrl(result.inviteUrl);
+        setStatus(`${result.invitation.email} already has an account. Send them this link to join:`);
+      }
+    } catch (error) {
+      logger.error({ ...logFields, msg: "Failed to invite workspace member", err: error });
+      setStatus(error instanceof ApiError ? error.message : "Could not send the invitation. Please try again.");
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: WorkspaceMember, nextRole: WorkspaceRole) => {
+    const { data, error } = await updateWorkspaceMemberRole(supabase, workspaceId, member.user_id, nextRole);
+    if (error || !data) {
+      logger.error({ ...logFields, msg: "Failed to change member role", err: error ?? undefined });
+      setStatus(error?.message ?? "Could not change this member’s role.");
+      return;
+    }
+    logger.info({
+      ...logFields,
+      msg: "Workspace member role changed",
+      payloadSummary: { workspaceId, memberId: member.user_id, role: nextRole },
+    });
+    setMembers((previous) =>
+      previous.map((entry) => (entry.user_id === member.user_id ? (data as WorkspaceMember) : entry))
+    );
+  };
+
+  const handleRemove = async (member: WorkspaceMember) => {
+    if (!window.confirm(`Remove ${member.email ?? "this member"} from the workspace?`)) return;
+    const { error } = await removeWorkspaceMember(supabase, workspaceId, member.user_id);
+    if (error) {
+      logger.error({ ...logFields, msg: "Failed to remove workspace member", err: error });
+      setStatus(error.message);
+      return;
+    }
+    logger.info({ ...logFields, msg: "Workspace member removed" });
+    setMembers((previous) => previous.filter((entry) => entry.user_id !== member.user_id));
+  };
+
+  const handleRevoke = async (invitation: WorkspaceInvitation) => {
+    const { error } = await deleteWorkspaceInvitation(supabase, invitation.id);
+    if (error) {
+      logger.error({ ...logFields, msg: "Failed to revoke invitation", err: error });
+      setStatus("Could not revoke this invitation.");
+      return;
+    }
+    setInvitations((previous) => previous.filter((entry) => entry.id !== invitation.id));
+  };
+
+  return (
+    <div className="panel space-y-2">
+      <h2 className="page-title" style={{ margin: 0 }}>
+        Members
+      </h2>
+      <div className="table-scroll">
+        <table className="data-table">
+          <thead>
+            <tr>
+              <th>Member</th>
+              <th>Role</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {members.map((member) => (
+              <tr key={member.user_id}>
+                <td>
+                  {member.email ?? member.user_id}
+                  {member.user_id === userId ? " (you)" : ""}
+                </td>
+                <td>
+                  {isOwner && member.user_id !== userId ? (
+                    <select
+                      className="input"
+                      aria-label={`Role of ${member.email ?? member.user_id}`}
+                      value={member.role}
+                      onChange={(event) => handleRoleChange(member, event.target.value as WorkspaceRole)}
+                    >
+                      {WORKSPACE_ROLES.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    WORKSPACE_ROLES.find((option) => option.value === member.role)?.label
+                  )}
+                </td>
+                <td>
+                  {isOwner && member.user_id !== userId ? (
+                    <button className="button secondary" type="button" onClick={() => handleRemove(member)}>
+                      Remove
+                    </button>
+                  ) : null}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {isOwner ? (
+        <form className="form-card" onSubmit={handleInvite}>
+          <h3 className="page-title" style={{ margin: 0 }}>
+            Invite someone
+          </h3>
+          <div className="traits-grid">
+            <label className="field">
+              <span className="label">Email</span>
+              <input
+                className="input"
+                type="email"
+                required
+                value={email}
+                placeholder="name@example.com"
+                onChange={(event) => setEmail(event.target.value)}
+              />
+            </label>
+            <label className="field">
+              <span className="label">Role</span>
+              <select
+                className="input"
+                value={role}
+                onChange={(event) => setRole(event.target.value as WorkspaceRole)}
+              >
+                {WORKSPACE_ROLES.map((option) => (
+                  <option key={option.value} value={option.value}>
+                    {option.label}: {option.description}
+                  </option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div>
+            <button className="button" type="submit" disabled={isInviting}>
+              {isInviting ? "Inviting…" : "Send invitation"}
+            </button>
+          </div>
+        </form>
+      ) : null}
+
+      {status ? <p className="message">{status}</p> : null}
+      {inviteUrl ? (
+        <input className="input" readOnly value={inviteUrl} onFocus={(event) => event.target.select()} />
+      ) : null}
+
+      {invitations.length > 0 ? (
+        <div className="table-scroll">
+          <table className="data-table">
+            <thead>
+              <tr>
+                <th>Pending invitation</th>
+                <th>Role</th>
+                <th>Expires</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {invitations.map((invitation) => (
+                <tr key={invitation.id}>
+                  <td>{invitation.email}</td>
+                  <td>{WORKSPACE_ROLES.find((option) => option.value === invitation.role)?.label}</td>
+                  <td>{new Date(invitation.expires_at).toLocaleDateString()}</td>
+                  <td>
+                    <div className="hero-actions">
+                      <button
+                        className="button secondary"
+                        type="button"
+                        onClick={() => setInviteUrl(buildInvitationUrl(window.location.origin, invitation.token))}
+                      >
+                        Show link
+                      </button>
+                      <button className="button danger" type="button" onClick={() => handleRevoke(invitation)}>
+                        Revoke
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+    </div>
+  );
+}
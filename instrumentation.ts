@@ -19,4 +19,14 @@ export async function register() {
       err: error,
     });
   });
+
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.GENERATION_WORKER_ENABLED !== "false") {
+    const { startGenerationWorker } = await import("./lib/generation-queue");
+    startGenerationWorker();
+  }
+
+  if (process.env.NEXT_RUNTIME === "nodejs" && process.env.DERIVATIVE_WORKER_ENABLED !== "false") {
+    const { startDerivativeWorker } = await import("./lib/image-derivatives");
+    startDerivativeWorker();
+  }
 }
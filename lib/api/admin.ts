@@ -0,0 +1,10 @@
+import type { GenerationJob } from "@/lib/types/generation-jobs";
+
+import { requestJson } from "./client";
+
+export async function fetchProblemGenerationJobs(requestId: string) {
+  return requestJson<{ stuck: GenerationJob[]; dead: GenerationJob[]; stuckBefore: string }>(
+    "/api/admin/generation-jobs",
+    { method: "GET", requestId }
+  );
+}
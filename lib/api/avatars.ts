@@ -0,0 +1,60 @@
+import type { AvatarImportRequest } from "@/lib/avatar-import";
+import type { AvatarGenerationOperation } from "@/lib/types/avatars";
+import type { AvatarConversationMessage } from "@/lib/types/conversations";
+import type { ScenarioFields } from "@/lib/types/scenario-prompts";
+
+import { requestJson } from "./client";
+
+export type GenerationRequestResult = { jobId: string; status: "dispatched" | "queued" | "dead" };
+
+export async function requestAvatarGeneration(
+  avatarId: string,
+  requestId: string,
+  operation: AvatarGenerationOperation = "generate"
+) {
+  return requestJson<GenerationRequestResult>(`/api/avatars/${avatarId}/generate`, {
+    method: "POST",
+    requestId,
+    body: JSON.stringify({ operation }),
+  });
+}
+
+/** A library prompt by id, or the fields of a one-off scene. */
+export type ScenarioRequestInput = { scenario_prompt_id: string } | (ScenarioFields & { name?: string | null });
+
+export type ScenarioRequestResult = {
+  jobs: { jobId: string; status: GenerationRequestResult["status"]; label: string | null }[];
+};
+
+export async function requestScenarioGeneration(avatarId: string, scenarios: ScenarioRequestInput[], requestId: string) {
+  return requestJson<ScenarioRequestResult>(`/api/avatars/${avatarId}/scenarios`, {
+    method: "POST",
+    requestId,
+    body: JSON.stringify({ scenarios }),
+  });
+}
+
+export type AvatarImportResult = { created: number; queued: number };
+
+export async function requestAvatarImport(importRequest: AvatarImportRequest, requestId: string) {
+  return requestJson<AvatarImportResult>("/api/avatars/import", {
+    method: "POST",
+    requestId,
+    body: JSON.stringify(importRequest),
+  });
+}
+
+export type InterviewReplyResult = { conversationId: string; messages: AvatarConversationMessage[] };
+
+export async function requestInterviewReply(
+  avatarId: string,
+  conversationId: string | null,
+  message: string,
+  requestId: string
+) {
+  return requestJson<InterviewReplyResult>(`/api/avatars/${avatarId}/interview`, {
+    method: "POST",
+    requestId,
+    body: JSON.stringify({ conversation_id: conversationId, message }),
+  });
+}
@@ -0,0 +1,27 @@
+export class ApiError extends Error {
+  status: number;
+  details?: unknown;
+
+  constructor(message: string, status: number, details?: unknown) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export async function requestJson<T>(path: string, init: RequestInit & { requestId: string }): Promise<T> {
+  const { requestId, headers, ...rest } = init;
+  const response = await fetch(path, {
+    ...rest,
+    headers: { "Content-Type": "application/json", "x-request-id": requestId, ...headers },
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const message = typeof data?.error === "string" ? data.error : `Request failed with status ${response.status}`;
+    throw new ApiError(message, response.status, data?.details);
+  }
+
+  return data as T;
+}
@@ -0,0 +1,13 @@
+import type { CohortRequest } from "@/lib/cohorts";
+
+import { requestJson } from "./client";
+
+export type CohortCreateResult = { cohortId: string; size: number };
+
+export async function requestCohortCreation(cohort: CohortRequest, requestId: string) {
+  return requestJson<CohortCreateResult>("/api/cohorts", {
+    method: "POST",
+    requestId,
+    body: JSON.stringify(cohort),
+  });
+}
@@ -0,0 +1,15 @@
+import { requestJson } from "./client";
+
+export type CollectionScenarioResult = { queued: number; skipped: number };
+
+export async function requestCollectionScenarioGeneration(
+  collectionId: string,
+  scenarioPrompt: string | undefined,
+  requestId: string
+) {
+  return requestJson<CollectionScenarioResult>(`/api/collections/${collectionId}/scenarios`, {
+    method: "POST",
+    requestId,
+    body: JSON.stringify({ scenario_prompt: scenarioPrompt ?? null }),
+  });
+}
@@ -0,0 +1,257 @@
+import { NextResponse, type NextRequest } from "next/server";
+import type { SupabaseClient, User } from "@supabase/supabase-js";
+
+import { createRequestId, logger } from "@/lib/logger";
+import { checkRateLimit, getRateLimitPolicy, rateLimitResponse, type RateLimitResult } from "@/lib/rate-limit";
+import { getAvatarById } from "@/lib/supabase/avatars";
+import { isAdminUser } from "@/lib/supabase/generation-jobs";
+import { createSupabaseServerClient } from "@/lib/supabase/server";
+import { getGenerationUsage } from "@/lib/supabase/usage";
+import { getWorkspaceMembership } from "@/lib/supabase/workspaces";
+import type { Avatar } from "@/lib/types/avatars";
+import type { GenerationJobKind } from "@/lib/types/generation-jobs";
+import type { GenerationUsage } from "@/lib/types/usage";
+import { QUOTA_EXCEEDED_CODE, quotaExceededMessage, remainingGenerations } from "@/lib/usage";
+import type { WorkspaceMembership, WorkspaceRole } from "@/lib/types/workspaces";
+import { WORKSPACE_COOKIE, hasWorkspaceRole, resolveActiveWorkspace } from "@/lib/workspaces";
+
+type HttpContext = { method: string; path: string };
+
+export interface UserRouteContext {
+  requestId: string;
+  http: HttpContext;
+  supabase: SupabaseClient;
+  user: User;
+}
+
+export interface AvatarRouteContext extends UserRouteContext {
+  avatar: Avatar;
+  /** The caller's role in the avatar's workspace. */
+  role: WorkspaceRole;
+}
+
+export interface WorkspaceRouteContext extends UserRouteContext {
+  membership: WorkspaceMembership;
+}
+
+type RouteResult<T> = { ok: true; context: T } | { ok: false; response: NextResponse };
+
+export function jsonError(message: string, status: number, extra?: Record<string, unknown>) {
+  return NextResponse.json({ error: message, ...extra }, { status });
+}
+
+/**
+ * Resolves the signed-in user from the Supabase session cookies. Every query made with the returned client runs
+ * under that user's identity, so RLS applies exactly as it does in the browser.
+ */
+export async function requireUser(request: NextRequest, scope: string): Promise<RouteResult<UserRouteContext>> {
+  const requestId = request.headers.get("x-request-id") ?? createRequestId();
+  const http = { method: request.method, path: request.nextUrl.pathname };
+  const supabase = createSupabaseServerClient();
+
+  const {
+    data: { user },
+    error,
+  } = await supabase.auth.getUser();
+
+  if (error || !user) {
+    logger.warn({ scope, msg: "Rejected unauthenticated request", requestId, http: { ...http, status: 401 } });
+    return { ok: false, response: jsonError("You need to sign in first.", 401) };
+  }
+
+  return { ok: true, context: { requestId, http, supabase, user } };
+}
+
+export async function requireAdmin(request: NextRequest, scope: string): Promise<RouteResult<UserRouteContext>> {
+  const userResult = await requireUser(request, scope);
+  if (!userResult.ok) return userResult;
+
+  const { requestId, http, supabase, user } = userResult.context;
+  const { isAdmin, error } = await isAdminUser(supabase, user.id);
+
+  if (error || !isAdmin) {
+    logger.warn({
+      scope,
+      msg: "Rejected non-admin request",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 403 },
+      err: error ?? undefined,
+    });
+    return { ok: false, response: jsonError("You don’t have access to this page.", 403) };
+  }
+
+  return userResult;
+}
+
+/**
+ * Loads an avatar the caller can see through one of their workspaces and checks they hold at least `minRole` in
+ * it. Viewers get a 403 for anything that writes.
+ */
+export async function requireAvatar(
+  request: NextRequest,
+  avatarId: string,
+  scope: string,
+  minRole: WorkspaceRole = "editor"
+): Promise<RouteResult<AvatarRouteContext>> {
+  const userResult = await requireUser(request, scope);
+  if (!userResult.ok) return userResult;
+
+  const { requestId, http, supabase, user } = userResult.context;
+  const { data: avatarRow, error } = await getAvatarById(supabase, avatarId);
+
+  if (error) {
+    logger.error({
+      scope,
+      msg: "Failed to load avatar",
+      requestId,
+      userId: user.id,
+      avatarId,
+      http: { ...http, status: 500 },
+      err: error,
+    });
+    return { ok: false, response: jsonError("Could not load avatar.", 500) };
+  }
+
+  if (!avatarRow) {
+    logger.warn({ scope, msg: "Avatar not found", requestId, userId: user.id, avatarId, http: { ...http, status: 404 } });
+    return { ok: false, response: jsonError("Avatar not found.", 404) };
+  }
+
+  const avatar = avatarRow as Avatar;
+  const { data: membership, error: membershipError } = await getWorkspaceMembership(
+    supabase,
+    avatar.workspace_id,
+    user.id
+  );
+  const role = (membership?.role ?? null) as WorkspaceRole | null;
+
+  if (membershipError || !role || !hasWorkspaceRole(role, minRole)) {
+    logger.warn({
+      scope,
+      msg: "Rejected request without the required workspace role",
+      requestId,
+      userId: user.id,
+      avatarId,
+      http: { ...http, status: 403 },
+      payloadSummary: { role, minRole },
+      err: membershipError ?? undefined,
+    });
+    return { ok: false, response: jsonError(`You need ${minRole} access to this workspace to do that.`, 403) };
+  }
+
+  return { ok: true, context: { ...userResult.context, avatar, role } };
+}
+
+/**
+ * Resolves the workspace the caller is working in from the `workspaceId` cookie, falling back to their personal
+ * workspace, and checks they hold at least `minRole` in it.
+ */
+export async function requireWorkspace(
+  request: NextRequest,
+  scope: string,
+  minRole: WorkspaceRole = "editor"
+): Promise<RouteResult<WorkspaceRouteContext>> {
+  const userResult = await requireUser(request, scope);
+  if (!userResult.ok) return userResult;
+
+  const { requestId, http, supabase, user } = userResult.context;
+  const { membership, error } = await resolveActiveWorkspace(
+    supabase,
+    user.id,
+    request.cookies.get(WORKSPACE_COOKIE)?.value
+  );
+
+  if (error) {
+    logger.error({
+      scope,
+      msg: "Failed to load workspaces",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 500 },
+      err: error,
+    });
+    return { ok: false, response: jsonError("Could not load your workspaces.", 500) };
+  }
+
+  if (!membership || !hasWorkspaceRole(membership.role, minRole)) {
+    logger.warn({
+      scope,
+      msg: "Rejected request without the required workspace role",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 403 },
+      payloadSummary: { workspaceId: membership?.workspace_id, role: membership?.role, minRole },
+    });
+    return { ok: false, response: jsonError(`You need ${minRole} access to this workspace to do that.`, 403) };
+  }
+
+  return { ok: true, context: { ...userResult.context, membership } };
+}
+
+/**
+ * Counts the request against the per-user limit of a policy in `RATE_LIMIT_POLICIES`. The middleware has already
+ * applied the same policy's per-IP limit.
+ */
+export async function requireRateLimit(
+  context: UserRouteContext,
+  scope: string,
+  policyId: string
+): Promise<RouteResult<RateLimitResult>> {
+  const { requestId, http, user } = context;
+  const result = await checkRateLimit(getRateLimitPolicy(policyId), { userId: user.id }, { scope, requestId, http });
+  return result.allowed ? { ok: true, context: result } : { ok: false, response: rateLimitResponse(result) };
+}
+
+/**
+ * Checks the caller has `count` generations of `kind` left this month. The queue enforces the quota again right
+ * before dispatch; this lets routes refuse up front with a clear message instead of queueing jobs that will fail.
+ */
+export async function requireGenerationQuota(
+  context: UserRouteContext,
+  scope: string,
+  kind: GenerationJobKind,
+  count = 1
+): Promise<RouteResult<GenerationUsage>> {
+  const { requestId, http, supabase, user } = context;
+  const { data, error } = await getGenerationUsage(supabase, user.id);
+  const usage = ((data ?? []) as GenerationUsage[]).find((row) => row.kind === kind);
+
+  if (error || !usage) {
+    logger.error({
+      scope,
+      msg: "Failed to load generation usage",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 500 },
+      err: error ?? new Error("Usage query returned no row for this kind"),
+    });
+    return { ok: false, response: jsonError("Could not check your generation quota.", 500) };
+  }
+
+  if (remainingGenerations(usage) < count) {
+    logger.warn({
+      scope,
+      msg: "Rejected generation over the monthly quota",
+      requestId,
+      userId: user.id,
+      http: { ...http, status: 429 },
+      payloadSummary: { kind, requested: count, used: usage.used, quota: usage.quota },
+    });
+    return {
+      ok: false,
+      response: jsonError(quotaExceededMessage(kind, usage, count), 429, { code: QUOTA_EXCEEDED_CODE, usage }),
+    };
+  }
+
+  return { ok: true, context: usage };
+}
+
+export async function readJsonBody(request: NextRequest): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await request.json();
+    return typeof body === "object" && body !== null && !Array.isArray(body) ? (body as Record<string, unknown>) : null;
+  } catch (error) {
+    return null;
+  }
+}
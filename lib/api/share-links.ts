@@ -0,0 +1,8 @@
+import type { SharedContent } from "@/lib/types/share-links";
+
+import { requestJson } from "./client";
+
+export async function fetchSharedContent(token: string, avatarId: string | null, requestId: string) {
+  const query = avatarId ? `?avatar=${encodeURIComponent(avatarId)}` : "";
+  return requestJson<SharedContent>(`/api/share/${encodeURIComponent(token)}${query}`, { method: "GET", requestId });
+}
@@ -0,0 +1,18 @@
+import type { WorkspaceInvitation, WorkspaceRole } from "@/lib/types/workspaces";
+
+import { requestJson } from "./client";
+
+export type WorkspaceInviteResult = { invitation: WorkspaceInvitation; inviteUrl: string; emailed: boolean };
+
+export async function requestWorkspaceInvitation(
+  workspaceId: string,
+  email: string,
+  role: WorkspaceRole,
+  requestId: string
+) {
+  return requestJson<WorkspaceInviteResult>(`/api/workspaces/${workspaceId}/invitations`, {
+    method: "POST",
+    requestId,
+    body: JSON.stringify({ email, role }),
+  });
+}
@@ -0,0 +1,133 @@
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+
+export type AvatarExportRecord = Avatar & { images: AvatarImage[] };
+
+export interface AvatarExport {
+  exported_at: string;
+  source: { type: "avatar" | "collection"; id: string; name: string };
+  avatars: AvatarExportRecord[];
+}
+
+// Database-only columns (the full-text `search_vector`, join rows from embedded selects) that `select("*")` returns.
+const INTERNAL_COLUMNS = ["search_vector", "avatar_collection_members"];
+
+function withoutInternalColumns(avatar: Avatar): Avatar {
+  return Object.fromEntries(
+    Object.entries(avatar).filter(([key]) => !INTERNAL_COLUMNS.includes(key))
+  ) as unknown as Avatar;
+}
+
+/** Bundles avatars with their image records, grouped per avatar, for download as JSON. */
+export function buildAvatarExport(
+  source: AvatarExport["source"],
+  avatars: Avatar[],
+  images: AvatarImage[]
+): AvatarExport {
+  return {
+    exported_at: new Date().toISOString(),
+    source,
+    avatars: avatars.map((avatar) => ({
+      ...withoutInternalColumns(avatar),
+      images: images.filter((image) => image.avatar_id === avatar.id),
+    })),
+  };
+}
+
+// Profile columns in CSV order. `extra_attributes` is flattened into `extra.<key>` columns after these.
+const CSV_COLUMNS = [
+  "id",
+  "name",
+  "age",
+  "height_cm",
+  "skin_tone",
+  "hair_color",
+  "marital_status",
+  "job_title",
+  "industry",
+  "address_line",
+  "city",
+  "region",
+  "country",
+  "hobbies",
+  "political_orientation",
+  "other_traits",
+  "persona_summary",
+  "status",
+  "profile_image_path",
+  "created_at",
+  "updated_at",
+] as const;
+
+/** Flattens nested objects into dotted keys; arrays of scalars are joined, anything else is kept as JSON. */
+export function flattenAttributes(value: Record<string, unknown>, prefix = ""): Record<string, string> {
+  const flat: Record<string, string> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (entry === null || entry === undefined) {
+      flat[path] = "";
+    } else if (typeof entry === "object" && !Array.isArray(entry)) {
+      Object.assign(flat, flattenAttributes(entry as Record<string, unknown>, path));
+    } else if (Array.isArray(entry)) {
+      flat[path] = entry.every((item) => typeof item !== "object") ? entry.join("; ") : JSON.stringify(entry);
+    } else {
+      flat[path] = String(entry);
+    }
+  }
+  return flat;
+}
+
+function toCsvCell(value: unknown) {
+  let text = value === null || value === undefined ? "" : Array.isArray(value) ? value.join("; ") : String(value);
+  // Spreadsheet apps treat these leading characters as formulas.
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** One row per avatar with the profile columns followed by every `extra_attributes` key used by any avatar. */
+export function buildAvatarCsv(avatars: Avatar[]) {
+  const extras = avatars.map((avatar) => flattenAttributes(avatar.extra_attributes ?? {}));
+  const extraKeys = Array.from(new Set(extras.flatMap((entry) => Object.keys(entry)))).sort();
+  const header = [...CSV_COLUMNS, ...extraKeys.map((key) => `extra.${key}`)];
+
+  const rows = avatars.map((avatar, index) => [
+    ...CSV_COLUMNS.map((column) => avatar[column]),
+    ...extraKeys.map((key) => extras[index][key] ?? ""),
+  ]);
+
+  return [header, ...rows].map((row) => row.map(toCsvCell).join(",")).join("\r\n");
+}
+
+export type AvatarExportFormat = "json" | "csv";
+
+/** Builds the export in the requested format and hands it to the browser as a download. */
+export function downloadAvatarExport(
+  format: AvatarExportFormat,
+  source: AvatarExport["source"],
+  avatars: Avatar[],
+  images: AvatarImage[]
+) {
+  if (format === "csv") {
+    downloadFile(exportFileName(source.name, "csv"), buildAvatarCsv(avatars), "text/csv;charset=utf-8");
+    return;
+  }
+  const exported = buildAvatarExport(source, avatars, images);
+  downloadFile(exportFileName(source.name, "json"), JSON.stringify(exported, null, 2), "application/json");
+}
+
+export function exportFileName(name: string, extension: string) {
+  const slug = name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return `${slug || "export"}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
+
+/** Triggers a browser download for generated content. */
+export function downloadFile(fileName: string, content: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
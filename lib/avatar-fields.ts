@@ -0,0 +1,145 @@
+import type { Avatar } from "@/lib/types/avatars";
+
+export type AvatarTextField =
+  | "name"
+  | "skin_tone"
+  | "hair_color"
+  | "marital_status"
+  | "job_title"
+  | "industry"
+  | "address_line"
+  | "city"
+  | "region"
+  | "country"
+  | "political_orientation"
+  | "other_traits"
+  | "persona_summary";
+
+export type AvatarDraft = Record<AvatarTextField | "age" | "height_cm" | "hobbies", string> & {
+  extra_attributes: { key: string; value: string }[];
+};
+
+export type AvatarFieldErrors = Partial<Record<keyof AvatarDraft, string>>;
+
+export type AvatarEditablePatch = Partial<
+  Pick<Avatar, AvatarTextField | "age" | "height_cm" | "hobbies" | "extra_attributes">
+>;
+
+export const MAX_AGE = 120;
+export const MAX_HEIGHT_CM = 272;
+
+export function parseHobbiesInput(value: string) {
+  return value
+    .split(/[,;\n]/)
+    .map((hobby) => hobby.trim())
+    .filter(Boolean);
+}
+
+export function formatHobbies(hobbies?: string[] | null) {
+  return hobbies?.length ? hobbies.join(", ") : "";
+}
+
+function formatExtraValue(value: unknown) {
+  if (value === null || value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function parseExtraValue(value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === "") return null;
+  // Keep numbers, booleans and JSON structures typed so values like `energy_level: 3` round-trip unchanged.
+  try {
+    return JSON.parse(trimmed);
+  } catch (error) {
+    return trimmed;
+  }
+}
+
+export function toAvatarDraft(avatar: Avatar): AvatarDraft {
+  return {
+    name: avatar.name,
+    age: String(avatar.age),
+    height_cm: avatar.height_cm ? String(avatar.height_cm) : "",
+    skin_tone: avatar.skin_tone ?? "",
+    hair_color: avatar.hair_color ?? "",
+    marital_status: avatar.marital_status ?? "",
+    job_title: avatar.job_title ?? "",
+    industry: avatar.industry ?? "",
+    address_line: avatar.address_line ?? "",
+    city: avatar.city ?? "",
+    region: avatar.region ?? "",
+    country: avatar.country ?? "",
+    hobbies: formatHobbies(avatar.hobbies),
+    political_orientation: avatar.political_orientation ?? "",
+    other_traits: avatar.other_traits ?? "",
+    persona_summary: avatar.persona_summary ?? "",
+    extra_attributes: Object.entries(avatar.extra_attributes ?? {}).map(([key, value]) => ({
+      key,
+      value: formatExtraValue(value),
+    })),
+  };
+}
+
+function parseWholeNumber(value: string, min: number, max: number) {
+  if (!/^\d+$/.test(value.trim())) return null;
+  const parsed = Number(value.trim());
+  return parsed >= min && parsed <= max ? parsed : null;
+}
+
+/**
+ * Converts the edit form's string values into an `avatars` update. Empty text becomes `null`, so clearing a field
+ * removes it rather than storing an empty string.
+ */
+export function validateAvatarDraft(draft: AvatarDraft) {
+  const errors: AvatarFieldErrors = {};
+  const text = (value: string) => (value.trim() === "" ? null : value.trim());
+
+  const name = draft.name.trim();
+  if (!name) errors.name = "Give this avatar a name.";
+
+  const age = parseWholeNumber(draft.age, 0, MAX_AGE);
+  if (age === null) errors.age = `Age must be a whole number between 0 and ${MAX_AGE}.`;
+
+  const height = draft.height_cm.trim() === "" ? null : parseWholeNumber(draft.height_cm, 30, MAX_HEIGHT_CM);
+  if (draft.height_cm.trim() !== "" && height === null) {
+    errors.height_cm = `Height must be a whole number of centimetres between 30 and ${MAX_HEIGHT_CM}.`;
+  }
+
+  const extraAttributes: Record<string, unknown> = {};
+  for (const { key, value } of draft.extra_attributes) {
+    const trimmedKey = key.trim();
+    if (!trimmedKey) {
+      if (value.trim()) errors.extra_attributes = "Every extra attribute needs a name.";
+      continue;
+    }
+    if (trimmedKey in extraAttributes) {
+      errors.extra_attributes = `“${trimmedKey}” is listed more than once.`;
+      continue;
+    }
+    extraAttributes[trimmedKey] = parseExtraValue(value);
+  }
+
+  const hobbies = parseHobbiesInput(draft.hobbies);
+
+  const patch: AvatarEditablePatch = {
+    name,
+    age: age ?? undefined,
+    height_cm: height,
+    skin_tone: text(draft.skin_tone),
+    hair_color: text(draft.hair_color),
+    marital_status: text(draft.marital_status),
+    job_title: text(draft.job_title),
+    industry: text(draft.industry),
+    address_line: text(draft.address_line),
+    city: text(draft.city),
+    region: text(draft.region),
+    country: text(draft.country),
+    hobbies: hobbies.length ? hobbies : null,
+    political_orientation: text(draft.political_orientation),
+    other_traits: text(draft.other_traits),
+    persona_summary: text(draft.persona_summary),
+    extra_attributes: Object.keys(extraAttributes).length ? extraAttributes : null,
+  };
+
+  return { patch, errors, isValid: Object.keys(errors).length === 0 };
+}
@@ -0,0 +1,87 @@
+import { ageRangeOptions } from "@/lib/avatar-options";
+import type { AvatarStatus } from "@/lib/types/avatars";
+
+export const AVATAR_PAGE_SIZE = 24;
+
+export const AVATAR_SORTS = {
+  newest: { label: "Newest first", column: "created_at", ascending: false },
+  oldest: { label: "Oldest first", column: "created_at", ascending: true },
+  updated: { label: "Recently updated", column: "updated_at", ascending: false },
+  name: { label: "Name A–Z", column: "name", ascending: true },
+  age_asc: { label: "Youngest first", column: "age", ascending: true },
+  age_desc: { label: "Oldest age first", column: "age", ascending: false },
+} as const;
+
+export type AvatarSort = keyof typeof AVATAR_SORTS;
+
+const STATUSES: AvatarStatus[] = ["pending", "generating", "ready", "failed"];
+
+export interface AvatarListFilters {
+  q?: string;
+  status?: AvatarStatus;
+  ageRange?: string;
+  country?: string;
+  city?: string;
+  job?: string;
+  industry?: string;
+  hobby?: string;
+  sort: AvatarSort;
+  page: number;
+}
+
+// URL parameter names for each filter; `sort` and `page` are handled separately.
+const TEXT_PARAMS = ["q", "country", "city", "job", "industry", "hobby"] as const;
+
+export function parseAvatarFilters(params: URLSearchParams): AvatarListFilters {
+  const filters: AvatarListFilters = { sort: "newest", page: 1 };
+
+  for (const key of TEXT_PARAMS) {
+    const value = params.get(key)?.trim();
+    if (value) filters[key] = value.slice(0, 100);
+  }
+
+  const status = params.get("status");
+  if (status && STATUSES.includes(status as AvatarStatus)) filters.status = status as AvatarStatus;
+
+  const ageRange = params.get("age");
+  if (ageRange && ageRangeOptions.some((option) => option.value === ageRange)) filters.ageRange = ageRange;
+
+  const sort = params.get("sort");
+  if (sort && Object.prototype.hasOwnProperty.call(AVATAR_SORTS, sort)) filters.sort = sort as AvatarSort;
+
+  const page = Number(params.get("page"));
+  if (Number.isInteger(page) && page > 1) filters.page = page;
+
+  return filters;
+}
+
+/** The inverse of `parseAvatarFilters`; defaults are left out so shared URLs stay short. */
+export function toAvatarFilterParams(filters: AvatarListFilters) {
+  const params = new URLSearchParams();
+  for (const key of TEXT_PARAMS) {
+    if (filters[key]) params.set(key, filters[key] as string);
+  }
+  if (filters.status) params.set("status", filters.status);
+  if (filters.ageRange) params.set("age", filters.ageRange);
+  if (filters.sort !== "newest") params.set("sort", filters.sort);
+  if (filters.page > 1) params.set("page", String(filters.page));
+  return params;
+}
+
+export function hasActiveFilters(filters: AvatarListFilters) {
+  return Boolean(
+    filters.q ||
+      filters.status ||
+      filters.ageRange ||
+      filters.country ||
+      filters.city ||
+      filters.job ||
+      filters.industry ||
+      filters.hobby
+  );
+}
+
+/** Escapes `%`, `_` and `\` so user input matches literally inside an `ilike` pattern. */
+export function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, (match) => `\\${match}`);
+}
@@ -0,0 +1,50 @@
+import type { AvatarImage } from "@/lib/types/avatars";
+
+export const MAX_IMAGE_LABEL_LENGTH = 80;
+export const MAX_IMAGE_DESCRIPTION_LENGTH = 500;
+export const MAX_IMAGE_TAGS = 12;
+export const MAX_IMAGE_TAG_LENGTH = 32;
+
+export type GalleryTypeFilter = "all" | AvatarImage["type"];
+
+export type GalleryFilters = { type: GalleryTypeFilter; tag: string };
+
+export const GALLERY_TYPE_FILTERS: { value: GalleryTypeFilter; label: string }[] = [
+  { value: "all", label: "All images" },
+  { value: "profile", label: "Profile portraits" },
+  { value: "scenario", label: "Scenes" },
+];
+
+/** Splits a comma-separated tag input into unique, lower-cased tags, capped in count and length. */
+export function parseImageTagsInput(value: string) {
+  const tags = value
+    .split(/[,;\n]/)
+    .map((tag) => tag.trim().toLowerCase().slice(0, MAX_IMAGE_TAG_LENGTH))
+    .filter(Boolean);
+  return Array.from(new Set(tags)).slice(0, MAX_IMAGE_TAGS);
+}
+
+/** Every tag used in the gallery, alphabetically, for the tag filter. */
+export function collectImageTags(images: Pick<AvatarImage, "tags">[]) {
+  return Array.from(new Set(images.flatMap((image) => image.tags ?? []))).sort((a, b) => a.localeCompare(b));
+}
+
+export function filterGalleryImages<T extends Pick<AvatarImage, "type" | "tags">>(images: T[], filters: GalleryFilters) {
+  return images.filter(
+    (image) =>
+      (filters.type === "all" || image.type === filters.type) &&
+      (!filters.tag || (image.tags ?? []).includes(filters.tag))
+  );
+}
+
+/** Moves `movedId` to where `targetId` sits, shifting the images in between by one. */
+export function moveImage<T extends Pick<AvatarImage, "id">>(images: T[], movedId: string, targetId: string) {
+  const from = images.findIndex((image) => image.id === movedId);
+  const to = images.findIndex((image) => image.id === targetId);
+  if (from === -1 || to === -1 || from === to) return images;
+
+  const next = [...images];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+}
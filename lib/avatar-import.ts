@@ -0,0 +1,444 @@
+import { MAX_AGE, MAX_HEIGHT_CM, parseHobbiesInput } from "@/lib/avatar-fields";
+import type { AvatarGenerationOperation, AvatarImage, NewAvatar } from "@/lib/types/avatars";
+import { isRecord, type ParseResult } from "@/lib/validation";
+
+export const MAX_IMPORT_ROWS = 500;
+
+export type AvatarImportTextField =
+  | "name"
+  | "skin_tone"
+  | "hair_color"
+  | "marital_status"
+  | "job_title"
+  | "industry"
+  | "address_line"
+  | "city"
+  | "region"
+  | "country"
+  | "political_orientation"
+  | "other_traits"
+  | "persona_summary";
+
+/**
+ * Where a source column ends up. `extra` stores the column under its own name in `extra_attributes` (minus an
+ * `extra.` prefix, so CSV exports round-trip); an empty string ignores the column.
+ */
+export type AvatarImportTarget =
+  | AvatarImportTextField
+  | "age"
+  | "height_cm"
+  | "hobbies"
+  | "extra_attributes"
+  | "profile_image_path"
+  | "images"
+  | "extra"
+  | "";
+
+export type AvatarImportMapping = Record<string, AvatarImportTarget>;
+
+export type AvatarImportGeneration = "missing" | "all" | "none";
+
+export const IMPORT_GENERATION_OPTIONS: { value: AvatarImportGeneration; label: string }[] = [
+  { value: "missing", label: "Only rows without a persona summary or image" },
+  { value: "all", label: "Every row (replaces imported personas and portraits)" },
+  { value: "none", label: "None; I’ll start generation later" },
+];
+
+export const IMPORT_TARGETS: { value: AvatarImportTarget; label: string }[] = [
+  { value: "", label: "Ignore" },
+  { value: "name", label: "Name" },
+  { value: "age", label: "Age" },
+  { value: "height_cm", label: "Height (cm)" },
+  { value: "skin_tone", label: "Skin tone" },
+  { value: "hair_color", label: "Hair color" },
+  { value: "marital_status", label: "Marital status" },
+  { value: "job_title", label: "Job title" },
+  { value: "industry", label: "Industry" },
+  { value: "address_line", label: "Address line" },
+  { value: "city", label: "City" },
+  { value: "region", label: "Region" },
+  { value: "country", label: "Country" },
+  { value: "hobbies", label: "Hobbies" },
+  { value: "political_orientation", label: "Political orientation" },
+  { value: "other_traits", label: "Other traits" },
+  { value: "persona_summary", label: "Persona summary" },
+  { value: "extra_attributes", label: "Extra attributes (JSON object)" },
+  { value: "profile_image_path", label: "Profile image path" },
+  { value: "images", label: "Image records (JSON export)" },
+  { value: "extra", label: "Extra attribute (column name as key)" },
+];
+
+const TEXT_FIELDS: AvatarImportTextField[] = [
+  "name",
+  "skin_tone",
+  "hair_color",
+  "marital_status",
+  "job_title",
+  "industry",
+  "address_line",
+  "city",
+  "region",
+  "country",
+  "political_orientation",
+  "other_traits",
+  "persona_summary",
+];
+
+const MAX_TEXT_LENGTH = 4000;
+
+export type ImportedAvatarImage = Pick<AvatarImage, "type" | "storage_path" | "is_primary"> &
+  Partial<Pick<AvatarImage, "label" | "description">>;
+
+export type ImportedAvatar = Omit<NewAvatar, "user_id"> & { images: ImportedAvatarImage[] };
+
+export interface AvatarImportRowResult {
+  row: number;
+  name: string;
+  errors: string[];
+  operation: AvatarGenerationOperation | null;
+  avatar?: ImportedAvatar;
+}
+
+export type AvatarImportRequest = {
+  records: Record<string, unknown>[];
+  mapping: AvatarImportMapping;
+  generation: AvatarImportGeneration;
+};
+
+function isBlank(value: unknown) {
+  return value === undefined || value === null || (typeof value === "string" && value.trim() === "");
+}
+
+/** Undoes the `'` the CSV export puts in front of cells that would otherwise be read as formulas. */
+function unescapeCell(value: string) {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+/** RFC 4180 parser: quoted cells may contain commas, doubled quotes and line breaks. */
+export function parseCsv(text: string) {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Reads an uploaded file into records keyed by column name. JSON may be an array of objects or an avatar export
+ * (`{ avatars: [...] }`); anything else is treated as CSV with a header row.
+ */
+export function parseImportFile(
+  fileName: string,
+  text: string
+): ParseResult<{ columns: string[]; records: Record<string, unknown>[] }> {
+  const source = text.replace(/^\uFEFF/, "");
+
+  if (fileName.toLowerCase().endsWith(".json")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(source);
+    } catch (error) {
+      return { ok: false, errors: ["The file is not valid JSON."] };
+    }
+
+    const list = Array.isArray(parsed) ? parsed : isRecord(parsed) ? parsed.avatars : null;
+    if (!Array.isArray(list) || !list.every(isRecord)) {
+      return { ok: false, errors: ["JSON imports must be an array of objects or an avatar export."] };
+    }
+    const columns = Array.from(new Set(list.flatMap((record) => Object.keys(record))));
+    return { ok: true, value: { columns, records: list } };
+  }
+
+  const [header, ...rows] = parseCsv(source);
+  if (!header) {
+    return { ok: false, errors: ["The file is empty."] };
+  }
+  const columns = header.map((column) => column.trim());
+  const duplicate = columns.find((column, index) => column && columns.indexOf(column) !== index);
+  if (duplicate) {
+    return { ok: false, errors: [`The column “${duplicate}” appears more than once.`] };
+  }
+
+  const records = rows.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, unescapeCell(cells[index] ?? "")]))
+  );
+  return { ok: true, value: { columns, records } };
+}
+
+function normalizeColumn(column: string) {
+  return column
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+/** Pre-selects targets for columns whose names match a field's key or label, e.g. "Job title" or `extra.mood`. */
+export function suggestImportMapping(columns: string[]): AvatarImportMapping {
+  return Object.fromEntries(
+    columns.map((column) => {
+      if (column.startsWith("extra.")) return [column, "extra"];
+      const normalized = normalizeColumn(column);
+      const match = IMPORT_TARGETS.find(
+        (target) =>
+          target.value &&
+          target.value !== "extra" &&
+          (target.value === normalized || normalizeColumn(target.label) === normalized)
+      );
+      return [column, match?.value ?? ""];
+    })
+  );
+}
+
+function parseWholeNumber(value: unknown) {
+  if (typeof value === "number") return Number.isInteger(value) ? value : null;
+  if (typeof value === "string" && /^\d+$/.test(value.trim())) return Number(value.trim());
+  return null;
+}
+
+function parseHobbies(value: unknown, errors: string[]) {
+  if (Array.isArray(value)) {
+    if (!value.every((hobby) => typeof hobby === "string")) {
+      errors.push("hobbies must be a list of text values");
+      return null;
+    }
+    const hobbies = value.map((hobby) => hobby.trim()).filter(Boolean);
+    return hobbies.length ? hobbies : null;
+  }
+  if (typeof value !== "string") {
+    errors.push("hobbies must be text separated by commas or semicolons");
+    return null;
+  }
+  const hobbies = parseHobbiesInput(value);
+  if (hobbies.some((hobby) => hobby.length > 80)) {
+    errors.push("each hobby must be at most 80 characters; separate hobbies with commas or semicolons");
+  }
+  return hobbies.length ? hobbies : null;
+}
+
+function parseExtraObject(value: unknown, errors: string[]) {
+  if (isRecord(value)) return value;
+  if (typeof value === "string") {
+    try {
+      const parsed = JSON.parse(value);
+      if (isRecord(parsed)) return parsed;
+    } catch (error) {
+      // Reported below.
+    }
+  }
+  errors.push("extra_attributes must be a JSON object");
+  return {};
+}
+
+function parseExtraValue(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  // Keep numbers and booleans typed, matching how the edit form stores extra attributes.
+  try {
+    return JSON.parse(value.trim());
+  } catch (error) {
+    return value.trim();
+  }
+}
+
+function isOwnStoragePath(path: string, userId: string) {
+  return path.startsWith(`${userId}/`) && !path.includes("..");
+}
+
+function parseImages(value: unknown, userId: string, errors: string[]): ImportedAvatarImage[] {
+  if (!Array.isArray(value)) {
+    errors.push("images must be a list of image records");
+    return [];
+  }
+
+  const images: ImportedAvatarImage[] = [];
+  for (const entry of value) {
+    if (!isRecord(entry) || typeof entry.storage_path !== "string") {
+      errors.push("every image needs a storage_path");
+      continue;
+    }
+    if (!isOwnStoragePath(entry.storage_path, userId)) {
+      errors.push(`image ${entry.storage_path} is not in your storage folder`);
+      continue;
+    }
+    images.push({
+      storage_path: entry.storage_path,
+      type: entry.type === "scenario" ? "scenario" : "profile",
+      is_primary: entry.is_primary === true,
+      label: typeof entry.label === "string" ? entry.label : null,
+      description: typeof entry.description === "string" ? entry.description : null,
+    });
+  }
+  return images;
+}
+
+/** Which generation an imported row needs under the chosen option, or null if it should be left alone. */
+export function planImportGeneration(
+  avatar: Pick<ImportedAvatar, "persona_summary" | "images">,
+  generation: AvatarImportGeneration
+): AvatarGenerationOperation | null {
+  if (generation === "none") return null;
+  if (generation === "all" || !avatar.persona_summary) return "generate";
+  return avatar.images.length === 0 ? "regenerate_portrait" : null;
+}
+
+/**
+ * Maps one source record onto avatar columns and validates it. Numbers must be whole and within the form's limits,
+ * which also keeps them inside the `int2` columns; image paths must sit in the importing user's storage folder.
+ */
+export function validateImportRecord(
+  record: Record<string, unknown>,
+  mapping: AvatarImportMapping,
+  userId: string
+): { avatar?: ImportedAvatar; errors: string[] } {
+  const errors: string[] = [];
+  const avatar: ImportedAvatar = { name: "", age: 0, images: [] };
+  const extraAttributes: Record<string, unknown> = {};
+  let profileImagePath: string | null = null;
+  let hasAgeValue = false;
+
+  for (const [column, target] of Object.entries(mapping)) {
+    const value = record[column];
+    if (!target || isBlank(value)) continue;
+
+    if (TEXT_FIELDS.includes(target as AvatarImportTextField)) {
+      const text = typeof value === "string" || typeof value === "number" ? String(value).trim() : null;
+      if (text === null) {
+        errors.push(`${column} must be text`);
+      } else if (text.length > MAX_TEXT_LENGTH) {
+        errors.push(`${column} must be at most ${MAX_TEXT_LENGTH} characters`);
+      } else {
+        avatar[target as AvatarImportTextField] = text;
+      }
+    } else if (target === "age") {
+      hasAgeValue = true;
+      const age = parseWholeNumber(value);
+      if (age === null || age > MAX_AGE) {
+        errors.push(`age must be a whole number between 0 and ${MAX_AGE} (got “${String(value)}”)`);
+      } else {
+        avatar.age = age;
+      }
+    } else if (target === "height_cm") {
+      const height = parseWholeNumber(value);
+      if (height === null || height < 30 || height > MAX_HEIGHT_CM) {
+        errors.push(`height_cm must be a whole number between 30 and ${MAX_HEIGHT_CM} (got “${String(value)}”)`);
+      } else {
+        avatar.height_cm = height;
+      }
+    } else if (target === "hobbies") {
+      avatar.hobbies = parseHobbies(value, errors);
+    } else if (target === "extra_attributes") {
+      Object.assign(extraAttributes, parseExtraObject(value, errors));
+    } else if (target === "extra") {
+      extraAttributes[column.replace(/^extra\./, "")] = parseExtraValue(value);
+    } else if (target === "profile_image_path") {
+      if (typeof value !== "string" || !isOwnStoragePath(value.trim(), userId)) {
+        errors.push("profile_image_path must point into your storage folder");
+      } else {
+        profileImagePath = value.trim();
+      }
+    } else if (target === "images") {
+      avatar.images = parseImages(value, userId, errors);
+    }
+  }
+
+  if (!avatar.name) errors.push("name is required");
+  if (!hasAgeValue) errors.push("age is required");
+  if (Object.keys(extraAttributes).length) avatar.extra_attributes = extraAttributes;
+
+  // A bare profile path becomes the primary portrait unless the image records already include it.
+  if (profileImagePath && !avatar.images.some((image) => image.storage_path === profileImagePath)) {
+    avatar.images = [
+      { storage_path: profileImagePath, type: "profile", is_primary: true },
+      ...avatar.images.map((image) => ({ ...image, is_primary: false })),
+    ];
+  }
+  if (avatar.images.length && !avatar.images.some((image) => image.is_primary)) {
+    avatar.images[0].is_primary = true;
+  }
+
+  return errors.length ? { errors } : { avatar, errors };
+}
+
+/** The dry run: validates every record and reports what would be created and queued, without writing anything. */
+export function previewAvatarImport(request: AvatarImportRequest, userId: string): AvatarImportRowResult[] {
+  return request.records.map((record, index) => {
+    const { avatar, errors } = validateImportRecord(record, request.mapping, userId);
+    const nameColumn = Object.keys(request.mapping).find((column) => request.mapping[column] === "name");
+    return {
+      // Row numbers match the spreadsheet, where row 1 is the header.
+      row: index + 2,
+      name: avatar?.name ?? (nameColumn ? String(record[nameColumn] ?? "") : ""),
+      errors,
+      operation: avatar ? planImportGeneration(avatar, request.generation) : null,
+      avatar,
+    };
+  });
+}
+
+export function parseAvatarImportRequest(body: unknown): ParseResult<AvatarImportRequest> {
+  if (!isRecord(body)) {
+    return { ok: false, errors: ["Body must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const records = Array.isArray(body.records) && body.records.every(isRecord) ? body.records : null;
+  if (!records || records.length === 0) {
+    errors.push("records must be a non-empty list of objects");
+  } else if (records.length > MAX_IMPORT_ROWS) {
+    errors.push(`imports are limited to ${MAX_IMPORT_ROWS} rows`);
+  }
+
+  const targets = IMPORT_TARGETS.map((target) => target.value);
+  const mapping = isRecord(body.mapping) ? body.mapping : null;
+  if (!mapping || !Object.values(mapping).every((target) => targets.includes(target as AvatarImportTarget))) {
+    errors.push(`mapping must map column names to one of: ${targets.filter(Boolean).join(", ")}`);
+  }
+
+  const generation = body.generation ?? "missing";
+  if (!IMPORT_GENERATION_OPTIONS.some((option) => option.value === generation)) {
+    errors.push(`generation must be one of ${IMPORT_GENERATION_OPTIONS.map((option) => option.value).join(", ")}`);
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      records: records as Record<string, unknown>[],
+      mapping: mapping as AvatarImportMapping,
+      generation: generation as AvatarImportGeneration,
+    },
+  };
+}
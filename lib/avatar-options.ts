@@ -0,0 +1,134 @@
+// minAge/maxAge bound each range (inclusive) when filtering avatars by age.
+export const ageRangeOptions = [
+  { label: "Baby", value: "baby", numericAge: 1, minAge: 0, maxAge: 1 },
+  { label: "Toddler", value: "toddler", numericAge: 3, minAge: 2, maxAge: 4 },
+  { label: "Child", value: "child", numericAge: 8, minAge: 5, maxAge: 12 },
+  { label: "Teenager", value: "teenager", numericAge: 16, minAge: 13, maxAge: 19 },
+  { label: "Young adult", value: "young-adult", numericAge: 24, minAge: 20, maxAge: 29 },
+  { label: "Adult", value: "adult", numericAge: 34, minAge: 30, maxAge: 39 },
+  { label: "Middle aged", value: "middle-aged", numericAge: 48, minAge: 40, maxAge: 54 },
+  { label: "Older adult", value: "older-adult", numericAge: 64, minAge: 55, maxAge: 69 },
+  { label: "Senior", value: "senior", numericAge: 74, minAge: 70, maxAge: 120 },
+];
+
+export const skinToneOptions = [
+  "Very fair",
+  "Fair",
+  "Medium",
+  "Olive",
+  "Brown",
+  "Dark",
+  "Prefer not to say",
+];
+
+export const ethnicityOptions = [
+  "Black or African descent",
+  "East Asian",
+  "Hispanic/Latino",
+  "Indigenous",
+  "Middle Eastern/North African",
+  "South Asian",
+  "Southeast Asian",
+  "White",
+  "Mixed/Other",
+  "Prefer not to say",
+];
+
+export const hairColorOptions = ["Black", "Dark brown", "Light brown", "Blonde", "Red", "Auburn", "Grey", "White", "Bald"];
+
+export const maritalStatusOptions = [
+  "Single",
+  "In a relationship",
+  "Married",
+  "Civil partnership",
+  "Separated",
+  "Divorced",
+  "Widowed",
+];
+
+export const industryOptions = [
+  "Agriculture",
+  "Construction",
+  "Creative & media",
+  "Education",
+  "Energy",
+  "Finance",
+  "Government",
+  "Healthcare",
+  "Hospitality",
+  "Logistics",
+  "Manufacturing",
+  "Nonprofit",
+  "Retail",
+  "Technology",
+];
+
+export const jobTitleOptions = [
+  "Barista",
+  "Bus driver",
+  "Civil engineer",
+  "Delivery rider",
+  "Farmer",
+  "Graphic designer",
+  "High school teacher",
+  "Nurse",
+  "Office manager",
+  "Pharmacist",
+  "Retail associate",
+  "Software developer",
+  "Student",
+  "Retired",
+];
+
+export const politicalOrientationOptions = [
+  "Progressive",
+  "Liberal",
+  "Centrist",
+  "Conservative",
+  "Libertarian",
+  "Apolitical",
+  "Prefer not to say",
+];
+
+export const hobbyOptions = [
+  "Baking",
+  "Birdwatching",
+  "Board games",
+  "Cycling",
+  "Fishing",
+  "Gardening",
+  "Hiking",
+  "Knitting",
+  "Photography",
+  "Playing guitar",
+  "Reading",
+  "Running",
+  "Video games",
+  "Volunteering",
+  "Yoga",
+];
+
+export const locationOptions = [
+  { country: "United States", region: "California", city: "Sacramento" },
+  { country: "United States", region: "Ohio", city: "Columbus" },
+  { country: "United States", region: "Texas", city: "El Paso" },
+  { country: "Canada", region: "Ontario", city: "Hamilton" },
+  { country: "Mexico", region: "Jalisco", city: "Guadalajara" },
+  { country: "Brazil", region: "Minas Gerais", city: "Belo Horizonte" },
+  { country: "United Kingdom", region: "England", city: "Leeds" },
+  { country: "Germany", region: "Bavaria", city: "Nuremberg" },
+  { country: "Denmark", region: "Central Denmark", city: "Aarhus" },
+  { country: "Nigeria", region: "Lagos", city: "Ikeja" },
+  { country: "Kenya", region: "Nairobi", city: "Nairobi" },
+  { country: "India", region: "Karnataka", city: "Mysuru" },
+  { country: "Japan", region: "Osaka", city: "Sakai" },
+  { country: "Australia", region: "Queensland", city: "Townsville" },
+];
+
+export const countryOptions = Array.from(new Set(locationOptions.map((location) => location.country)));
+
+export const streetNames = ["Maple Street", "Station Road", "Harbor View", "Elm Avenue", "Market Lane", "Hillside Drive"];
+
+export const firstNames = ["Alex", "Sam", "Jordan", "Priya", "Mateo", "Amara", "Yuki", "Lena", "Tomás", "Ifeoma"];
+
+export const lastNames = ["Okafor", "Nguyen", "Silva", "Schmidt", "Patel", "Kowalski", "Haddad", "Jensen", "Moreau"];
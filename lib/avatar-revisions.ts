@@ -0,0 +1,124 @@
+import type { AvatarRevisionField, AvatarRevisionSource } from "@/lib/types/avatars";
+
+export type DiffSegment = { type: "same" | "added" | "removed"; text: string };
+
+export const REVISION_FIELD_LABELS: Record<AvatarRevisionField, string> = {
+  name: "Name",
+  age: "Age",
+  height_cm: "Height (cm)",
+  skin_tone: "Skin tone",
+  hair_color: "Hair color",
+  marital_status: "Marital status",
+  job_title: "Job title",
+  industry: "Industry",
+  address_line: "Address",
+  city: "City",
+  region: "Region",
+  country: "Country",
+  hobbies: "Hobbies",
+  political_orientation: "Political orientation",
+  other_traits: "Other traits & quirks",
+  persona_summary: "Narrative profile",
+  extra_attributes: "Extra attributes",
+};
+
+export const REVISION_SOURCE_LABELS: Record<AvatarRevisionSource, string> = {
+  user: "Edited",
+  n8n: "Generated",
+  restore: "Restored",
+};
+
+/** Long free text gets a side-by-side word diff; every other field is shown as before → after. */
+export const NARRATIVE_FIELDS: AvatarRevisionField[] = ["persona_summary", "other_traits"];
+
+// Word-level LCS is quadratic; past this many cells (about 1,000 changed words per side, after trimming the shared
+// start and end) the diff just shows both texts as replaced.
+const MAX_DIFF_CELLS = 1_000_000;
+
+export function formatRevisionValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "—";
+  if (Array.isArray(value)) return value.length ? value.join(", ") : "—";
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    if (!entries.length) return "—";
+    return entries
+      .map(([key, entry]) => `${key.replace(/_/g, " ")}: ${typeof entry === "string" ? entry : JSON.stringify(entry)}`)
+      .join("; ");
+  }
+  return String(value);
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment["type"], text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Word-level diff of two texts. Each token is a word plus the whitespace after it, and only the words are compared, so
+ * a reflowed paragraph still lines up. Unchanged words carry the spacing they have in `after`.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = before.trimStart().match(/\S+\s*/g) ?? [];
+  const b = after.trimStart().match(/\S+\s*/g) ?? [];
+  const wordsA = a.map((token) => token.trimEnd());
+  const wordsB = b.map((token) => token.trimEnd());
+
+  // Edits usually touch a few sentences, so the shared start and end are matched directly and kept out of the table.
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && wordsA[prefix] === wordsB[prefix]) prefix += 1;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    wordsA[a.length - 1 - suffix] === wordsB[b.length - 1 - suffix]
+  ) {
+    suffix += 1;
+  }
+
+  const segments: DiffSegment[] = [];
+  b.slice(0, prefix).forEach((token) => pushSegment(segments, "same", token));
+
+  const rows = a.length - prefix - suffix;
+  const columns = b.length - prefix - suffix;
+  if (rows * columns > MAX_DIFF_CELLS) {
+    pushSegment(segments, "removed", a.slice(prefix, a.length - suffix).join(""));
+    pushSegment(segments, "added", b.slice(prefix, b.length - suffix).join(""));
+  } else {
+    // lengths[i * width + j] is the LCS length of the middle of a from i and the middle of b from j
+    const width = columns + 1;
+    const lengths = new Uint32Array((rows + 1) * width);
+    for (let i = rows - 1; i >= 0; i -= 1) {
+      for (let j = columns - 1; j >= 0; j -= 1) {
+        lengths[i * width + j] =
+          wordsA[prefix + i] === wordsB[prefix + j]
+            ? lengths[(i + 1) * width + j + 1] + 1
+            : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < rows && j < columns) {
+      if (wordsA[prefix + i] === wordsB[prefix + j]) {
+        pushSegment(segments, "same", b[prefix + j]);
+        i += 1;
+        j += 1;
+      } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+        pushSegment(segments, "removed", a[prefix + i]);
+        i += 1;
+      } else {
+        pushSegment(segments, "added", b[prefix + j]);
+        j += 1;
+      }
+    }
+    while (i < rows) pushSegment(segments, "removed", a[prefix + i++]);
+    while (j < columns) pushSegment(segments, "added", b[prefix + j++]);
+  }
+
+  b.slice(b.length - suffix).forEach((token) => pushSegment(segments, "same", token));
+  return segments;
+}
@@ -0,0 +1,69 @@
+import type { AvatarImage } from "@/lib/types/avatars";
+import type { ParseResult } from "@/lib/validation";
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export const UPLOAD_IMAGE_TYPES: { mimeType: string; extension: string; label: string }[] = [
+  { mimeType: "image/jpeg", extension: "jpg", label: "JPEG" },
+  { mimeType: "image/png", extension: "png", label: "PNG" },
+  { mimeType: "image/webp", extension: "webp", label: "WebP" },
+];
+
+export const UPLOAD_IMAGE_ACCEPT = UPLOAD_IMAGE_TYPES.map((type) => type.mimeType).join(",");
+
+export const UPLOAD_IMAGE_KINDS: { value: AvatarImage["type"]; label: string }[] = [
+  { value: "scenario", label: "Scene" },
+  { value: "profile", label: "Portrait" },
+];
+
+// File signatures, so a renamed file can't pass as an image just by its extension or reported type.
+function sniffMimeType(bytes: Uint8Array) {
+  const ascii = (start: number, end: number) => String.fromCharCode(...Array.from(bytes.slice(start, end)));
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (ascii(0, 8) === "\x89PNG\r\n\x1a\n") return "image/png";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  return null;
+}
+
+/**
+ * Checks an image picked for upload: it must be a non-empty JPEG, PNG or WebP of at most `MAX_UPLOAD_BYTES`, and its
+ * content must match. Returns the content type and file extension to store it with.
+ */
+export async function validateImageUpload(file: File): Promise<ParseResult<{ mimeType: string; extension: string }>> {
+  const errors: string[] = [];
+  const allowed = UPLOAD_IMAGE_TYPES.map((type) => type.label).join(", ");
+
+  if (file.size === 0) errors.push("The file is empty.");
+  if (file.size > MAX_UPLOAD_BYTES) {
+    errors.push(`Images can be at most ${Math.round(MAX_UPLOAD_BYTES / (1024 * 1024))} MB.`);
+  }
+  if (errors.length > 0) return { ok: false, errors };
+
+  const sniffed = sniffMimeType(new Uint8Array(await file.slice(0, 12).arrayBuffer()));
+  const type = UPLOAD_IMAGE_TYPES.find((entry) => entry.mimeType === sniffed);
+  if (!type) {
+    return { ok: false, errors: [`Only ${allowed} images can be uploaded.`] };
+  }
+
+  return { ok: true, value: { mimeType: type.mimeType, extension: type.extension } };
+}
+
+/**
+ * `<creator_id>/<avatar_id>/upload-<uuid>.<ext>`. The first folder is the avatar's `user_id` (its creator), not the
+ * uploader: the storage policies match the path to the avatar and then check the uploader's workspace role. Keeping
+ * files directly in the avatar's folder means deleting the avatar also sweeps up orphaned uploads.
+ */
+export function buildUploadPath(creatorId: string, avatarId: string, extension: string) {
+  return `${creatorId}/${avatarId}/upload-${crypto.randomUUID()}.${extension}`;
+}
+
+/** A default label from the file name, e.g. "beach-day_02.jpg" becomes "beach day 02". */
+export function labelFromFileName(fileName: string) {
+  return (
+    fileName
+      .replace(/\.[^.]+$/, "")
+      .replace(/[-_]+/g, " ")
+      .trim()
+      .slice(0, 80) || null
+  );
+}
@@ -0,0 +1,318 @@
+import { MAX_HEIGHT_CM, parseHobbiesInput } from "@/lib/avatar-fields";
+import {
+  ageRangeOptions,
+  countryOptions,
+  firstNames,
+  hairColorOptions,
+  hobbyOptions,
+  industryOptions,
+  jobTitleOptions,
+  lastNames,
+  locationOptions,
+  maritalStatusOptions,
+  politicalOrientationOptions,
+  skinToneOptions,
+  streetNames,
+} from "@/lib/avatar-options";
+import type { NewAvatar } from "@/lib/types/avatars";
+import type { PersonaTemplate, PersonaTemplateFieldValues } from "@/lib/types/persona-templates";
+
+export type WizardFieldKey =
+  | "name"
+  | "skin_tone"
+  | "height_cm"
+  | "hair_color"
+  | "marital_status"
+  | "job_title"
+  | "industry"
+  | "address_line"
+  | "city"
+  | "region"
+  | "country"
+  | "hobbies"
+  | "political_orientation";
+
+/** `generator` leaves the column empty for n8n to fill, `set` and `random` store a value up front. */
+export type FieldMode = "generator" | "set" | "random";
+
+export type WizardFieldState = { mode: FieldMode; value: string };
+
+export type WizardState = {
+  ageRange: string;
+  ethnicity: string;
+  energyLevel: number;
+  extroversion: number;
+  misc: string;
+  fields: Record<WizardFieldKey, WizardFieldState>;
+  /** Additional `extra_attributes` carried over from a persona template. */
+  extraAttributes: Record<string, unknown>;
+};
+
+export type WizardFieldConfig = {
+  key: WizardFieldKey;
+  label: string;
+  input: "text" | "number" | "select";
+  options?: string[];
+  placeholder?: string;
+  hint?: string;
+};
+
+export type WizardStep = {
+  id: string;
+  title: string;
+  lead: string;
+  fields: WizardFieldConfig[];
+};
+
+export const WIZARD_STEPS: WizardStep[] = [
+  {
+    id: "basics",
+    title: "Basics",
+    lead: "Who is this person at a glance?",
+    fields: [
+      { key: "name", label: "Name", input: "text", placeholder: "e.g. Maria Okafor" },
+      { key: "marital_status", label: "Marital status", input: "select", options: maritalStatusOptions },
+    ],
+  },
+  {
+    id: "appearance",
+    title: "Appearance",
+    lead: "How they look in their portrait and scenes.",
+    fields: [
+      { key: "skin_tone", label: "Skin tone", input: "select", options: skinToneOptions },
+      { key: "hair_color", label: "Hair color", input: "select", options: hairColorOptions },
+      { key: "height_cm", label: "Height (cm)", input: "number", placeholder: "e.g. 172" },
+    ],
+  },
+  {
+    id: "work-location",
+    title: "Work & location",
+    lead: "What they do and where they live.",
+    fields: [
+      { key: "job_title", label: "Job title", input: "text", placeholder: "e.g. Night-shift nurse" },
+      { key: "industry", label: "Industry", input: "select", options: industryOptions },
+      { key: "address_line", label: "Address", input: "text", placeholder: "e.g. 14 Station Road" },
+      { key: "city", label: "City", input: "text" },
+      { key: "region", label: "Region", input: "text" },
+      { key: "country", label: "Country", input: "select", options: countryOptions },
+    ],
+  },
+  {
+    id: "lifestyle",
+    title: "Lifestyle & personality",
+    lead: "What fills their free time and how they see the world.",
+    fields: [
+      {
+        key: "hobbies",
+        label: "Hobbies",
+        input: "text",
+        placeholder: "e.g. gardening, board games",
+        hint: "Separate hobbies with commas.",
+      },
+      {
+        key: "political_orientation",
+        label: "Political orientation",
+        input: "select",
+        options: politicalOrientationOptions,
+      },
+    ],
+  },
+];
+
+export const WIZARD_FIELDS = WIZARD_STEPS.flatMap((step) => step.fields);
+
+const MAX_TEXT_LENGTH = 120;
+
+export function createInitialWizardState(): WizardState {
+  return {
+    ageRange: "young-adult",
+    ethnicity: "",
+    energyLevel: 3,
+    extroversion: 3,
+    misc: "",
+    fields: Object.fromEntries(
+      WIZARD_FIELDS.map((field) => [field.key, { mode: "generator", value: "" }])
+    ) as WizardState["fields"],
+    extraAttributes: {},
+  };
+}
+
+function pick<T>(values: T[]) {
+  return values[Math.floor(Math.random() * values.length)];
+}
+
+function pickSome<T>(values: T[], count: number) {
+  return [...values].sort(() => Math.random() - 0.5).slice(0, count);
+}
+
+/** Draws a random value for a field, staying consistent with location fields that are already filled in. */
+export function randomFieldValue(key: WizardFieldKey, state: WizardState): string {
+  const country = state.fields.country.mode === "generator" ? "" : state.fields.country.value;
+  const region = state.fields.region.mode === "generator" ? "" : state.fields.region.value;
+  const matchingLocations = locationOptions.filter(
+    (location) => (!country || location.country === country) && (!region || location.region === region)
+  );
+  const location = pick(matchingLocations.length ? matchingLocations : locationOptions);
+
+  switch (key) {
+    case "name":
+      return `${pick(firstNames)} ${pick(lastNames)}`;
+    case "height_cm":
+      return String(150 + Math.floor(Math.random() * 46));
+    case "skin_tone":
+      return pick(skinToneOptions.filter((tone) => tone !== "Prefer not to say"));
+    case "hair_color":
+      return pick(hairColorOptions);
+    case "marital_status":
+      return pick(maritalStatusOptions);
+    case "job_title":
+      return pick(jobTitleOptions);
+    case "industry":
+      return pick(industryOptions);
+    case "address_line":
+      return `${1 + Math.floor(Math.random() * 200)} ${pick(streetNames)}`;
+    case "city":
+      return location.city;
+    case "region":
+      return location.region;
+    case "country":
+      return location.country;
+    case "hobbies":
+      return pickSome(hobbyOptions, 2 + Math.floor(Math.random() * 2)).join(", ");
+    case "political_orientation":
+      return pick(politicalOrientationOptions.filter((option) => option !== "Prefer not to say"));
+  }
+}
+
+export function validateWizardFields(state: WizardState, keys: WizardFieldKey[]) {
+  const errors: Partial<Record<WizardFieldKey | "ageRange", string>> = {};
+
+  if (!ageRangeOptions.some((option) => option.value === state.ageRange)) {
+    errors.ageRange = "Please choose an age range.";
+  }
+
+  for (const key of keys) {
+    const { mode, value } = state.fields[key];
+    if (mode === "generator") continue;
+    const trimmed = value.trim();
+
+    if (!trimmed) {
+      errors[key] = "Enter a value or let the generator decide.";
+    } else if (key === "height_cm") {
+      const height = Number(trimmed);
+      if (!Number.isInteger(height) || height < 30 || height > MAX_HEIGHT_CM) {
+        errors[key] = `Height must be a whole number between 30 and ${MAX_HEIGHT_CM} cm.`;
+      }
+    } else if (key === "hobbies") {
+      if (parseHobbiesInput(trimmed).length === 0) errors[key] = "List at least one hobby.";
+    } else if (trimmed.length > MAX_TEXT_LENGTH) {
+      errors[key] = `Keep this under ${MAX_TEXT_LENGTH} characters.`;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Turns the wizard state into an `avatars` insert. Fields left to the generator stay null and are listed in
+ * `extra_attributes.generator_decides` so the workflow knows which columns it should fill in.
+ */
+export function buildAvatarPayload(state: WizardState, userId: string): NewAvatar {
+  const ageSelection = ageRangeOptions.find((option) => option.value === state.ageRange) ?? ageRangeOptions[4];
+  const explicit = (key: WizardFieldKey) => {
+    const { mode, value } = state.fields[key];
+    return mode === "generator" || !value.trim() ? null : value.trim();
+  };
+  const hobbies = explicit("hobbies");
+  const height = explicit("height_cm");
+
+  return {
+    user_id: userId,
+    name: explicit("name") ?? `New avatar (${ageSelection.label})`,
+    age: ageSelection.numericAge,
+    height_cm: height ? Number(height) : null,
+    skin_tone: explicit("skin_tone"),
+    hair_color: explicit("hair_color"),
+    marital_status: explicit("marital_status"),
+    job_title: explicit("job_title"),
+    industry: explicit("industry"),
+    address_line: explicit("address_line"),
+    city: explicit("city"),
+    region: explicit("region"),
+    country: explicit("country"),
+    hobbies: hobbies ? parseHobbiesInput(hobbies) : null,
+    political_orientation: explicit("political_orientation"),
+    other_traits: state.misc.trim() || null,
+    persona_summary: null,
+    profile_image_path: null,
+    status: "pending",
+    extra_attributes: {
+      ...state.extraAttributes,
+      age_range: ageSelection.label,
+      ethnicity: state.ethnicity || null,
+      skin_tone_choice: explicit("skin_tone"),
+      energy_level: state.energyLevel,
+      extroversion: state.extroversion,
+      generator_decides: WIZARD_FIELDS.filter((field) => state.fields[field.key].mode === "generator").map(
+        (field) => field.key
+      ),
+      randomized: WIZARD_FIELDS.filter((field) => state.fields[field.key].mode === "random").map((field) => field.key),
+    },
+  };
+}
+
+// Keys the wizard manages itself; everything else in a template's `extra_attributes` is passed through untouched.
+const WIZARD_EXTRA_KEYS = ["age_range", "ethnicity", "energy_level", "extroversion"];
+
+/**
+ * Pre-fills the wizard from a template. Fields the template sets switch to `set`; everything else is reset to the
+ * generator so applying a second template does not leave values from the first behind.
+ */
+export function applyPersonaTemplate(template: Pick<PersonaTemplate, "field_values" | "extra_attributes">) {
+  const state = createInitialWizardState();
+  const values = template.field_values ?? {};
+  const extras = template.extra_attributes ?? {};
+
+  for (const { key } of WIZARD_FIELDS) {
+    const value = values[key];
+    if (value === null || value === undefined || value === "") continue;
+    state.fields[key] = { mode: "set", value: Array.isArray(value) ? value.join(", ") : String(value) };
+  }
+
+  const ageRange = ageRangeOptions.find(
+    (option) => option.value === extras.age_range || option.label === extras.age_range
+  );
+  if (ageRange) state.ageRange = ageRange.value;
+  if (typeof extras.ethnicity === "string") state.ethnicity = extras.ethnicity;
+  if (typeof extras.energy_level === "number") state.energyLevel = extras.energy_level;
+  if (typeof extras.extroversion === "number") state.extroversion = extras.extroversion;
+  state.misc = values.other_traits ?? "";
+  state.extraAttributes = Object.fromEntries(
+    Object.entries(extras).filter(([key]) => !WIZARD_EXTRA_KEYS.includes(key))
+  );
+
+  return state;
+}
+
+/** The inverse of `applyPersonaTemplate`: only fields with a value are stored, randomized ones as drawn. */
+export function buildTemplateValues(state: WizardState) {
+  const payload = buildAvatarPayload(state, "");
+  const field_values: PersonaTemplateFieldValues = {};
+
+  for (const { key } of WIZARD_FIELDS) {
+    if (state.fields[key].mode === "generator") continue;
+    (field_values as Record<string, unknown>)[key] = payload[key];
+  }
+  if (payload.other_traits) field_values.other_traits = payload.other_traits;
+
+  return {
+    field_values,
+    extra_attributes: {
+      ...state.extraAttributes,
+      age_range: state.ageRange,
+      ethnicity: state.ethnicity || null,
+      energy_level: state.energyLevel,
+      extroversion: state.extroversion,
+    },
+  };
+}
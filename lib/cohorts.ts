@@ -0,0 +1,138 @@
+import { ageRangeOptions, countryOptions, ethnicityOptions } from "@/lib/avatar-options";
+import { buildAvatarPayload, createInitialWizardState } from "@/lib/avatar-wizard";
+import type { Avatar, NewAvatar } from "@/lib/types/avatars";
+import type { CohortDimension, CohortDistribution, CohortProgress } from "@/lib/types/cohorts";
+import { isRecord, type ParseResult } from "@/lib/validation";
+
+export const MIN_COHORT_SIZE = 1;
+export const MAX_COHORT_SIZE = 200;
+
+const SCALE_OPTIONS = ["1", "2", "3", "4", "5"];
+
+export const COHORT_DIMENSIONS: { key: CohortDimension; label: string; options: { value: string; label: string }[] }[] =
+  [
+    { key: "ageRanges", label: "Age range", options: ageRangeOptions.map(({ value, label }) => ({ value, label })) },
+    {
+      key: "ethnicities",
+      label: "Ethnicity",
+      options: ethnicityOptions.map((option) => ({ value: option, label: option })),
+    },
+    { key: "countries", label: "Country", options: countryOptions.map((option) => ({ value: option, label: option })) },
+    { key: "energyLevels", label: "Energy level", options: SCALE_OPTIONS.map((value) => ({ value, label: value })) },
+    { key: "extroversion", label: "Social comfort", options: SCALE_OPTIONS.map((value) => ({ value, label: value })) },
+  ];
+
+export type CohortRequest = { name: string; size: number; distribution: CohortDistribution };
+
+export function parseCohortRequest(body: unknown): ParseResult<CohortRequest> {
+  if (!isRecord(body)) {
+    return { ok: false, errors: ["Body must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const name = typeof body.name === "string" ? body.name.trim() : "";
+  if (!name || name.length > 80) errors.push("name must be between 1 and 80 characters");
+
+  const size = body.size;
+  if (typeof size !== "number" || !Number.isInteger(size) || size < MIN_COHORT_SIZE || size > MAX_COHORT_SIZE) {
+    errors.push(`size must be a whole number between ${MIN_COHORT_SIZE} and ${MAX_COHORT_SIZE}`);
+  }
+
+  const rawDistribution = isRecord(body.distribution) ? body.distribution : {};
+  const distribution = {} as CohortDistribution;
+  for (const { key, options } of COHORT_DIMENSIONS) {
+    const weights = isRecord(rawDistribution[key]) ? rawDistribution[key] : {};
+    distribution[key] = {};
+    for (const [option, weight] of Object.entries(weights)) {
+      if (!options.some((entry) => entry.value === option)) {
+        errors.push(`${key} has an unknown option "${option}"`);
+      } else if (typeof weight !== "number" || !Number.isFinite(weight) || weight < 0) {
+        errors.push(`${key}.${option} must be a non-negative number`);
+      } else if (weight > 0) {
+        distribution[key][option] = weight;
+      }
+    }
+  }
+
+  if (Object.keys(distribution.ageRanges).length === 0) {
+    errors.push("ageRanges needs at least one option with a weight above zero");
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { name, size: size as number, distribution } };
+}
+
+/**
+ * Splits `size` across the weighted options with the largest-remainder method, so the counts always add up to `size`
+ * and each option is within one of its exact share.
+ */
+export function allocateCounts(size: number, weights: Record<string, number>) {
+  const entries = Object.entries(weights).filter(([, weight]) => weight > 0);
+  const total = entries.reduce((sum, [, weight]) => sum + weight, 0);
+  if (total === 0) return {};
+
+  const shares = entries.map(([option, weight]) => {
+    const exact = (size * weight) / total;
+    return { option, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let remaining = size - shares.reduce((sum, share) => sum + share.count, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (remaining === 0) break;
+    share.count += 1;
+    remaining -= 1;
+  }
+
+  return Object.fromEntries(shares.map((share) => [share.option, share.count]));
+}
+
+function shuffle<T>(values: T[]) {
+  const copy = [...values];
+  for (let index = copy.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(Math.random() * (index + 1));
+    [copy[index], copy[swap]] = [copy[swap], copy[index]];
+  }
+  return copy;
+}
+
+/** One value per cohort member for a dimension, matching its allocation, in random order. Null when unweighted. */
+function assignDimension(size: number, weights: Record<string, number>): (string | null)[] {
+  const counts = allocateCounts(size, weights);
+  const values = Object.entries(counts).flatMap(([option, count]) => Array<string>(count).fill(option));
+  return values.length ? shuffle(values) : Array<null>(size).fill(null);
+}
+
+/**
+ * Builds the `avatars` rows for a cohort. Each dimension is allocated and shuffled independently, so the marginal
+ * distributions match the targets exactly while combinations vary.
+ */
+export function buildCohortAvatars(request: CohortRequest, userId: string, cohortId: string): NewAvatar[] {
+  const { size, distribution } = request;
+  const ageRanges = assignDimension(size, distribution.ageRanges);
+  const ethnicities = assignDimension(size, distribution.ethnicities);
+  const countries = assignDimension(size, distribution.countries);
+  const energyLevels = assignDimension(size, distribution.energyLevels);
+  const extroversion = assignDimension(size, distribution.extroversion);
+
+  return Array.from({ length: size }, (_, index) => {
+    const state = createInitialWizardState();
+    state.ageRange = ageRanges[index] ?? state.ageRange;
+    state.ethnicity = ethnicities[index] ?? "";
+    state.energyLevel = Number(energyLevels[index] ?? state.energyLevel);
+    state.extroversion = Number(extroversion[index] ?? state.extroversion);
+    if (countries[index]) state.fields.country = { mode: "set", value: countries[index] as string };
+
+    const payload = buildAvatarPayload(state, userId);
+    return {
+      ...payload,
+      name: `${request.name} #${index + 1}`,
+      cohort_id: cohortId,
+      extra_attributes: { ...payload.extra_attributes, cohort_index: index + 1 },
+    };
+  });
+}
+
+export function summarizeCohortProgress(avatars: Pick<Avatar, "status">[]): CohortProgress {
+  const progress: CohortProgress = { total: avatars.length, pending: 0, generating: 0, ready: 0, failed: 0 };
+  for (const avatar of avatars) progress[avatar.status] += 1;
+  return progress;
+}
@@ -0,0 +1,322 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { createRequestId, logger } from "./logger";
+import { triggerAvatarGeneration, triggerScenarioGeneration } from "./n8n";
+import { createSupabaseAdminClient } from "./supabase/admin";
+import { getAvatarById, updateAvatar } from "./supabase/avatars";
+import {
+  claimGenerationJobs,
+  insertGenerationJob,
+  insertGenerationJobs,
+  updateGenerationJob,
+} from "./supabase/generation-jobs";
+import { recordGenerationUsage, releaseGenerationUsage } from "./supabase/usage";
+import type { ScenarioJobPayload } from "./scenario-prompt";
+import type { Avatar } from "./types/avatars";
+import type { GenerationJob, GenerationJobKind } from "./types/generation-jobs";
+import type { GenerationCharge } from "./types/usage";
+import { quotaExceededMessage } from "./usage";
+
+const BASE_BACKOFF_MS = 30_000;
+const MAX_BACKOFF_MS = 30 * 60_000;
+const WORKER_INTERVAL_MS = 15_000;
+const WORKER_BATCH_SIZE = 5;
+const DEFAULT_BATCH_DISPATCH_PER_MINUTE = 12;
+
+type ProcessResult = { status: "dispatched" | "queued" | "dead" } | { status: "over_quota"; message: string };
+
+export function getBackoffDelay(attempt: number) {
+  return Math.min(BASE_BACKOFF_MS * 2 ** Math.max(attempt - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Records a generation request and claims it for the caller, so the first dispatch can happen inline without the
+ * worker picking up the same job. Failed attempts are handed back to the queue by `processGenerationJob`.
+ * `requestedBy` is charged for the job and defaults to `userId`.
+ */
+export async function enqueueGenerationJob(
+  supabase: SupabaseClient,
+  job: {
+    userId: string;
+    requestedBy?: string;
+    avatarId: string;
+    kind: GenerationJobKind;
+    payload?: Record<string, unknown>;
+  }
+) {
+  return insertGenerationJob(supabase, {
+    user_id: job.userId,
+    requested_by: job.requestedBy ?? job.userId,
+    avatar_id: job.avatarId,
+    kind: job.kind,
+    payload: job.payload ?? {},
+    status: "processing",
+    attempts: 1,
+    locked_at: new Date().toISOString(),
+  });
+}
+
+/**
+ * Queues many jobs at once for the worker, spacing their first attempts so at most `GENERATION_BATCH_PER_MINUTE`
+ * are due each minute. Used for cohorts, where dispatching everything inline would flood n8n.
+ */
+export async function scheduleGenerationJobs(
+  supabase: SupabaseClient,
+  jobs: {
+    id?: string;
+    userId: string;
+    requestedBy?: string;
+    avatarId: string;
+    kind: GenerationJobKind;
+    payload?: Record<string, unknown>;
+  }[]
+) {
+  const perMinute = Number(process.env.GENERATION_BATCH_PER_MINUTE) || DEFAULT_BATCH_DISPATCH_PER_MINUTE;
+  const start = Date.now();
+
+  return insertGenerationJobs(
+    supabase,
+    jobs.map((job, index) => ({
+      id: job.id,
+      user_id: job.userId,
+      requested_by: job.requestedBy ?? job.userId,
+      avatar_id: job.avatarId,
+      kind: job.kind,
+      payload: job.payload ?? {},
+      status: "queued",
+      next_attempt_at: new Date(start + Math.floor((index * 60_000) / perMinute)).toISOString(),
+    }))
+  );
+}
+
+async function dispatchJob(supabase: SupabaseClient, job: GenerationJob, requestId: string) {
+  const { data: avatarRow, error } = await getAvatarById(supabase, job.avatar_id, job.user_id);
+  if (error) throw error;
+  if (!avatarRow) throw new Error("Avatar no longer exists.");
+
+  const avatar = avatarRow as Avatar;
+  // Scheduled jobs (e.g. cohorts) leave their avatar pending until the worker first picks them up.
+  if (job.kind === "avatar" && avatar.status === "pending") {
+    const { error: updateError } = await updateAvatar(supabase, avatar.id, avatar.user_id, {
+      status: "generating",
+      n8n_job_id: job.id,
+    });
+    if (updateError) throw updateError;
+  }
+
+  if (job.kind === "avatar") {
+    await triggerAvatarGeneration(avatar, job.id, requestId, job.payload.operation ?? "generate");
+  } else {
+    await triggerScenarioGeneration(avatar, job.id, job.payload as ScenarioJobPayload, requestId);
+  }
+}
+
+/** Scene jobs cost one unit per image they ask n8n for; avatar jobs cost one. */
+function getJobUnits(job: Pick<GenerationJob, "kind" | "payload">) {
+  if (job.kind !== "scenario") return 1;
+  return (job.payload as ScenarioJobPayload).scenario?.image_count ?? 1;
+}
+
+async function chargeJob(supabase: SupabaseClient, job: GenerationJob): Promise<GenerationCharge> {
+  const { data, error } = await recordGenerationUsage(supabase, {
+    userId: job.requested_by ?? job.user_id,
+    kind: job.kind,
+    jobId: job.id,
+    avatarId: job.avatar_id,
+    units: getJobUnits(job),
+  });
+  if (error) throw error;
+  if (!data) throw new Error("Usage charge returned empty response.");
+  return data;
+}
+
+/** Takes an avatar out of `generating` once its job will never reach n8n. */
+async function releaseJobAvatar(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  failureReason: string,
+  requestId: string
+) {
+  if (job.kind !== "avatar") return;
+
+  // A failed regeneration leaves the existing persona in place, so the avatar goes back to ready.
+  const isRegeneration = String(job.payload.operation ?? "").startsWith("regenerate");
+  const { error } = await updateAvatar(supabase, job.avatar_id, job.user_id, {
+    status: isRegeneration ? "ready" : "failed",
+    failure_reason: failureReason,
+  });
+  if (error) {
+    logger.error({
+      scope: "queue.job",
+      msg: "Failed to release avatar after its job was dropped",
+      requestId,
+      userId: job.user_id,
+      avatarId: job.avatar_id,
+      jobId: job.id,
+      err: error,
+    });
+  }
+}
+
+async function markJobOverQuota(supabase: SupabaseClient, job: GenerationJob, message: string, requestId: string) {
+  await updateGenerationJob(supabase, job.id, {
+    status: "failed",
+    locked_at: null,
+    last_error: message,
+    completed_at: new Date().toISOString(),
+  });
+  await releaseJobAvatar(supabase, job, message, requestId);
+}
+
+async function markJobDead(supabase: SupabaseClient, job: GenerationJob, lastError: string, requestId: string) {
+  await updateGenerationJob(supabase, job.id, { status: "dead", locked_at: null, last_error: lastError });
+  await releaseJobAvatar(supabase, job, `We couldn’t reach the generator after ${job.attempts} attempts.`, requestId);
+
+  // The job never reached n8n, so it shouldn't count against the quota.
+  const { error: refundError } = await releaseGenerationUsage(supabase, job.id);
+  if (refundError) {
+    logger.error({
+      scope: "queue.job",
+      msg: "Failed to refund usage for dead-lettered job",
+      requestId,
+      userId: job.requested_by ?? job.user_id,
+      avatarId: job.avatar_id,
+      jobId: job.id,
+      err: refundError,
+    });
+  }
+
+  logger.error({
+    scope: "queue.job",
+    msg: "Generation job moved to dead letter",
+    requestId,
+    userId: job.user_id,
+    avatarId: job.avatar_id,
+    jobId: job.id,
+    operation: job.kind,
+    retryCount: job.attempts - 1,
+    err: new Error(lastError),
+  });
+}
+
+/**
+ * Charges the requester's monthly quota and sends a claimed job to n8n. Jobs over quota fail straight away. On
+ * dispatch failure the job is re-queued with exponential backoff until `max_attempts` is reached, at which point it is
+ * dead-lettered, refunded, and avatar jobs flip the avatar to `failed`.
+ */
+export async function processGenerationJob(
+  supabase: SupabaseClient,
+  job: GenerationJob,
+  requestId = createRequestId()
+): Promise<ProcessResult> {
+  const context = {
+    scope: "queue.job",
+    requestId,
+    userId: job.user_id,
+    avatarId: job.avatar_id,
+    jobId: job.id,
+    operation: job.kind,
+    retryCount: job.attempts - 1,
+  };
+
+  let charge: GenerationCharge;
+  try {
+    charge = await chargeJob(supabase, job);
+    if (charge.allowed) await dispatchJob(supabase, job, requestId);
+  } catch (error) {
+    const lastError = error instanceof Error ? error.message : String(error);
+
+    if (job.attempts >= job.max_attempts) {
+      await markJobDead(supabase, job, lastError, requestId);
+      return { status: "dead" };
+    }
+
+    const delayMs = getBackoffDelay(job.attempts);
+    const { error: updateError } = await updateGenerationJob(supabase, job.id, {
+      status: "queued",
+      locked_at: null,
+      last_error: lastError,
+      next_attempt_at: new Date(Date.now() + delayMs).toISOString(),
+    });
+    if (updateError) {
+      logger.error({ ...context, msg: "Failed to re-queue generation job", err: updateError });
+    }
+
+    logger.warn({ ...context, msg: "Generation job scheduled for retry", payloadSummary: { delayMs }, err: error });
+    return { status: "queued" };
+  }
+
+  if (!charge.allowed) {
+    const message = quotaExceededMessage(job.kind, charge, getJobUnits(job));
+    await markJobOverQuota(supabase, job, message, requestId);
+    logger.warn({
+      ...context,
+      msg: "Generation job rejected: monthly quota used up",
+      payloadSummary: { requestedBy: job.requested_by ?? job.user_id, used: charge.used, quota: charge.quota },
+    });
+    return { status: "over_quota", message };
+  }
+
+  const { error: updateError } = await updateGenerationJob(supabase, job.id, {
+    status: "dispatched",
+    locked_at: null,
+    last_error: null,
+    dispatched_at: new Date().toISOString(),
+  });
+  if (updateError) {
+    logger.error({ ...context, msg: "Failed to mark generation job as dispatched", err: updateError });
+  }
+
+  logger.info({ ...context, msg: "Generation job dispatched" });
+  return { status: "dispatched" };
+}
+
+export async function runGenerationWorker(supabase: SupabaseClient, batchSize = WORKER_BATCH_SIZE) {
+  const { data, error } = await claimGenerationJobs(supabase, batchSize);
+  if (error) {
+    logger.error({ scope: "queue.worker", msg: "Failed to claim generation jobs", err: error });
+    return 0;
+  }
+
+  const jobs = (data ?? []) as GenerationJob[];
+  for (const job of jobs) {
+    await processGenerationJob(supabase, job);
+  }
+  return jobs.length;
+}
+
+export function startGenerationWorker() {
+  const globalState = globalThis as typeof globalThis & { __generationWorker?: ReturnType<typeof setInterval> };
+  if (globalState.__generationWorker) return;
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    logger.warn({ scope: "queue.worker", msg: "Generation worker disabled: SUPABASE_SERVICE_ROLE_KEY is not set" });
+    return;
+  }
+
+  const supabase = createSupabaseAdminClient();
+  let isRunning = false;
+
+  globalState.__generationWorker = setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+    const start = Date.now();
+    try {
+      const processed = await runGenerationWorker(supabase);
+      if (processed > 0) {
+        logger.info({
+          scope: "queue.worker",
+          msg: "Processed generation jobs",
+          durationMs: Date.now() - start,
+          payloadSummary: { processed },
+        });
+      }
+    } catch (error) {
+      logger.error({ scope: "queue.worker", msg: "Generation worker tick failed", err: error });
+    } finally {
+      isRunning = false;
+    }
+  }, WORKER_INTERVAL_MS);
+
+  logger.info({ scope: "queue.worker", msg: "Generation worker started", payloadSummary: { intervalMs: WORKER_INTERVAL_MS } });
+}
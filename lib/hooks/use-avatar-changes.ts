@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { RealtimePostgresChangesPayload, SupabaseClient } from "@supabase/supabase-js";
+
+import { logger } from "@/lib/logger";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+
+const FALLBACK_POLL_INTERVAL_MS = 10000;
+
+export type AvatarChangesState = "idle" | "connecting" | "live" | "polling";
+
+interface AvatarChangesOptions {
+  supabase: SupabaseClient;
+  userId: string | null;
+  /** Watch a workspace's avatars instead of the ones the user created. */
+  workspaceId?: string | null;
+  requestId: string;
+  onAvatarChange?: (payload: RealtimePostgresChangesPayload<Avatar>) => void;
+  onImageChange?: (payload: RealtimePostgresChangesPayload<AvatarImage>) => void;
+  /** Reloads state from Supabase when the realtime channel is unavailable. */
+  onPoll: () => Promise<void> | void;
+  /** Polling only runs while this returns true, e.g. while an avatar is still generating. */
+  shouldPoll: () => boolean;
+}
+
+/**
+ * Subscribes to inserts, updates and deletes on the signed-in user's `avatars` and `avatar_images` rows, or on a
+ * workspace's rows when `workspaceId` is set. If the realtime channel errors or times out, the hook falls back to
+ * polling `onPoll` until the channel recovers.
+ */
+export function useAvatarChanges({
+  supabase,
+  userId,
+  workspaceId,
+  requestId,
+  onAvatarChange,
+  onImageChange,
+  onPoll,
+  shouldPoll,
+}: AvatarChangesOptions) {
+  const [state, setState] = useState<AvatarChangesState>("idle");
+  const handlers = useRef({ onAvatarChange, onImageChange, onPoll, shouldPoll });
+
+  useEffect(() => {
+    handlers.current = { onAvatarChange, onImageChange, onPoll, shouldPoll };
+  });
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let isActive = true;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      setState("polling");
+      pollTimer = setInterval(() => {
+        if (handlers.current.shouldPoll()) {
+          handlers.current.onPoll();
+        }
+      }, FALLBACK_POLL_INTERVAL_MS);
+    };
+
+    setState("connecting");
+
+    const filter = workspaceId ? `workspace_id=eq.${workspaceId}` : `user_id=eq.${userId}`;
+    const channel = supabase
+      .channel(`avatar-changes:${workspaceId ?? userId}`)
+      .on<Avatar>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "avatars", filter },
+        (payload) => handlers.current.onAvatarChange?.(payload)
+      )
+      .on<AvatarImage>(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "avatar_images", filter },
+        (payload) => handlers.current.onImageChange?.(payload)
+      )
+      .subscribe((status, error) => {
+        if (!isActive) return;
+
+        if (status === "SUBSCRIBED") {
+          stopPolling();
+          setState("live");
+          // Catch up on anything that changed between the initial load and the subscription going live.
+          handlers.current.onPoll();
+          return;
+        }
+
+        if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+          logger.warn({
+            scope: "realtime.avatar",
+            msg: "Realtime channel unavailable, falling back to polling",
+            requestId,
+            userId,
+            eventType: status,
+            err: error,
+          });
+          startPolling();
+        }
+      });
+
+    return () => {
+      isActive = false;
+      stopPolling();
+      supabase.removeChannel(channel);
+    };
+  }, [requestId, supabase, userId, workspaceId]);
+
+  return state;
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  avatarImagePath,
+  resolveAvatarImageUrls,
+  type AvatarImageSource,
+  type ResolveOptions,
+} from "@/lib/supabase/avatar-urls";
+
+const MIN_REFRESH_DELAY_MS = 5000;
+
+/**
+ * Signed URLs for a set of avatar images, keyed by image id. URLs are re-signed shortly before they expire, so
+ * long-lived pages keep rendering images without a reload. Pass `size` to load a thumbnail or medium variant.
+ */
+export function useAvatarImageUrls(
+  supabase: SupabaseClient,
+  images: AvatarImageSource[],
+  options: ResolveOptions = {}
+) {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const imagesRef = useRef(images);
+  imagesRef.current = images;
+  const { expiresIn, size } = options;
+  const imagesKey = images.map((image) => `${image.id}:${avatarImagePath(image, size)}`).join("|");
+
+  useEffect(() => {
+    let cancelled = false;
+    let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const resolve = async () => {
+      const { urls: resolved, refreshAt } = await resolveAvatarImageUrls(supabase, imagesRef.current, {
+        expiresIn,
+        size,
+      });
+      if (cancelled) return;
+      setUrls(resolved);
+      if (refreshAt !== null) {
+        refreshTimer = setTimeout(resolve, Math.max(refreshAt - Date.now(), MIN_REFRESH_DELAY_MS));
+      }
+    };
+
+    resolve();
+
+    return () => {
+      cancelled = true;
+      if (refreshTimer) clearTimeout(refreshTimer);
+    };
+  }, [expiresIn, imagesKey, size, supabase]);
+
+  return urls;
+}
@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { logger } from "@/lib/logger";
+import { getWorkspaceMemberships } from "@/lib/supabase/workspaces";
+import type { WorkspaceMembership } from "@/lib/types/workspaces";
+import { getActiveWorkspaceId, pickActiveMembership, sortMemberships } from "@/lib/workspaces";
+
+/**
+ * The signed-in user's workspace memberships and the active one, resolved from the `workspaceId` cookie. Falls
+ * back to the personal workspace when the cookie is missing or points at a workspace the user has left.
+ */
+export function useWorkspaces(supabase: SupabaseClient, userId: string | null, requestId: string) {
+  const [memberships, setMemberships] = useState<WorkspaceMembership[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    if (!userId) return;
+    const { data, error } = await getWorkspaceMemberships(supabase, userId);
+    if (error) {
+      logger.error({ scope: "http.workspace.list", msg: "Failed to fetch workspaces", requestId, userId, err: error });
+    }
+    setMemberships(sortMemberships((data ?? []) as WorkspaceMembership[]));
+    setIsLoading(false);
+  }, [requestId, supabase, userId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const active = isLoading ? null : pickActiveMembership(memberships, getActiveWorkspaceId());
+
+  return { memberships, active, isLoading, reload };
+}
@@ -0,0 +1,156 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import sharp from "sharp";
+
+import { createRequestId, logger } from "./logger";
+import { createSupabaseAdminClient } from "./supabase/admin";
+import { isImageInAvatarFolder } from "./supabase/avatar-urls";
+import {
+  claimImageDerivatives,
+  downloadAvatarObject,
+  updateImageDerivatives,
+  uploadAvatarObject,
+} from "./supabase/avatars";
+import type { AvatarImage } from "./types/avatars";
+
+const WORKER_INTERVAL_MS = 10_000;
+const WORKER_BATCH_SIZE = 4;
+const MAX_ATTEMPTS = 3;
+const WEBP_QUALITY = 80;
+
+export type ImageDerivative = "thumbnail" | "medium";
+
+// Thumbnails are cropped squares for list cards; medium images keep their aspect ratio for gallery cards.
+const DERIVATIVE_SIZES: Record<ImageDerivative, { width: number; height?: number; fit: "cover" | "inside" }> = {
+  thumbnail: { width: 160, height: 160, fit: "cover" },
+  medium: { width: 800, fit: "inside" },
+};
+
+/** `<user_id>/<avatar_id>/portrait.png` becomes `<user_id>/<avatar_id>/portrait.thumbnail.webp`. */
+export function derivativePath(storagePath: string, derivative: ImageDerivative) {
+  return `${storagePath.replace(/\.[^./]+$/, "")}.${derivative}.webp`;
+}
+
+async function renderDerivative(source: Buffer, derivative: ImageDerivative) {
+  const { width, height, fit } = DERIVATIVE_SIZES[derivative];
+  return sharp(source)
+    .rotate()
+    .resize({ width, height, fit, withoutEnlargement: true })
+    .webp({ quality: WEBP_QUALITY })
+    .toBuffer();
+}
+
+/**
+ * Downloads the original, writes both WebP variants next to it and records their paths on the image row. The service
+ * role can reach every folder, so images whose path leaves their avatar's folder are refused.
+ */
+export async function createImageDerivatives(supabase: SupabaseClient, image: AvatarImage) {
+  if (!isImageInAvatarFolder(image, { id: image.avatar_id, user_id: image.user_id })) {
+    throw new Error("Image path is outside its avatar's storage folder.");
+  }
+
+  const { data: original, error: downloadError } = await downloadAvatarObject(supabase, image.storage_path);
+  if (downloadError || !original) throw downloadError ?? new Error("Original image download returned no data.");
+
+  const source = Buffer.from(await original.arrayBuffer());
+  const paths = {} as Record<ImageDerivative, string>;
+
+  for (const derivative of Object.keys(DERIVATIVE_SIZES) as ImageDerivative[]) {
+    const path = derivativePath(image.storage_path, derivative);
+    const { error: uploadError } = await uploadAvatarObject(
+      supabase,
+      path,
+      await renderDerivative(source, derivative),
+      "image/webp",
+      true
+    );
+    if (uploadError) throw uploadError;
+    paths[derivative] = path;
+  }
+
+  const { error } = await updateImageDerivatives(supabase, image.id, {
+    thumbnail_path: paths.thumbnail,
+    medium_path: paths.medium,
+    derivatives_status: "ready",
+    derivatives_locked_at: null,
+  });
+  if (error) throw error;
+}
+
+async function processImageDerivatives(supabase: SupabaseClient, image: AvatarImage) {
+  const requestId = createRequestId();
+  const start = Date.now();
+  const context = {
+    scope: "queue.derivatives",
+    requestId,
+    userId: image.user_id,
+    avatarId: image.avatar_id,
+    imageId: image.id,
+    retryCount: image.derivatives_attempts - 1,
+  };
+
+  try {
+    await createImageDerivatives(supabase, image);
+    logger.info({ ...context, msg: "Image derivatives created", durationMs: Date.now() - start });
+  } catch (error) {
+    // Pages fall back to the original, so a failure only costs bandwidth; give up after a few attempts.
+    const isFinal = image.derivatives_attempts >= MAX_ATTEMPTS;
+    const { error: updateError } = await updateImageDerivatives(supabase, image.id, {
+      derivatives_status: isFinal ? "failed" : "pending",
+      derivatives_locked_at: null,
+    });
+    if (updateError) {
+      logger.error({ ...context, msg: "Failed to release image derivative claim", err: updateError });
+    }
+    logger[isFinal ? "error" : "warn"]({
+      ...context,
+      msg: isFinal ? "Image derivatives failed permanently" : "Image derivatives will be retried",
+      durationMs: Date.now() - start,
+      err: error,
+    });
+  }
+}
+
+export async function runDerivativeWorker(supabase: SupabaseClient, batchSize = WORKER_BATCH_SIZE) {
+  const { data, error } = await claimImageDerivatives(supabase, batchSize);
+  if (error) {
+    logger.error({ scope: "queue.derivatives", msg: "Failed to claim images for derivatives", err: error });
+    return 0;
+  }
+
+  const images = (data ?? []) as AvatarImage[];
+  for (const image of images) {
+    await processImageDerivatives(supabase, image);
+  }
+  return images.length;
+}
+
+export function startDerivativeWorker() {
+  const globalState = globalThis as typeof globalThis & { __derivativeWorker?: ReturnType<typeof setInterval> };
+  if (globalState.__derivativeWorker) return;
+
+  if (!process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    logger.warn({ scope: "queue.derivatives", msg: "Derivative worker disabled: SUPABASE_SERVICE_ROLE_KEY is not set" });
+    return;
+  }
+
+  const supabase = createSupabaseAdminClient();
+  let isRunning = false;
+
+  globalState.__derivativeWorker = setInterval(async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await runDerivativeWorker(supabase);
+    } catch (error) {
+      logger.error({ scope: "queue.derivatives", msg: "Derivative worker tick failed", err: error });
+    } finally {
+      isRunning = false;
+    }
+  }, WORKER_INTERVAL_MS);
+
+  logger.info({
+    scope: "queue.derivatives",
+    msg: "Derivative worker started",
+    payloadSummary: { intervalMs: WORKER_INTERVAL_MS },
+  });
+}
@@ -0,0 +1,101 @@
+import { logger } from "./logger";
+
+export type LlmMessage = { role: "system" | "user" | "assistant"; content: string };
+
+export interface LlmCompletionContext {
+  requestId: string;
+  userId?: string;
+  avatarId?: string;
+}
+
+/** A chat model backend. Add a provider by implementing this and registering a factory in `LLM_PROVIDERS`. */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  complete(messages: LlmMessage[], context: LlmCompletionContext): Promise<string>;
+}
+
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_OPENAI_MODEL = "gpt-4o-mini";
+const REQUEST_TIMEOUT_MS = 60_000;
+
+/**
+ * Answers without any network call, and always answers the same input the same way. Used for local development and
+ * tests, and whenever `LLM_PROVIDER` is unset.
+ */
+export function createStubProvider(): LlmProvider {
+  return {
+    name: "stub",
+    model: "stub-1",
+    async complete(messages) {
+      const system = messages.find((message) => message.role === "system")?.content ?? "";
+      const question = [...messages].reverse().find((message) => message.role === "user")?.content ?? "";
+      const persona = system.match(/^You are (.+?)[,.]/m)?.[1] ?? "this persona";
+      const turn = messages.filter((message) => message.role === "user").length;
+      return (
+        `(${persona}, stub reply ${turn}) You asked: “${question.trim()}”. ` +
+        "Set LLM_PROVIDER to get real answers."
+      );
+    },
+  };
+}
+
+/** Any endpoint that speaks the OpenAI chat completions API: OpenAI itself, OpenRouter, a local server and so on. */
+export function createOpenAiCompatibleProvider(): LlmProvider {
+  const apiKey = process.env.LLM_API_KEY;
+  const baseUrl = (process.env.LLM_BASE_URL || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, "");
+  const model = process.env.LLM_MODEL || DEFAULT_OPENAI_MODEL;
+
+  return {
+    name: "openai",
+    model,
+    async complete(messages, context) {
+      if (!apiKey) throw new Error("LLM_API_KEY is not configured.");
+
+      const start = Date.now();
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ model, messages, temperature: 0.8 }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      logger.info({
+        scope: "llm.call",
+        msg: "Chat completion finished",
+        requestId: context.requestId,
+        userId: context.userId,
+        avatarId: context.avatarId,
+        externalService: "llm.openai",
+        statusCode: response.status,
+        durationMs: Date.now() - start,
+        payloadSummary: { model, messages: messages.length },
+      });
+
+      if (!response.ok) {
+        throw new Error(data?.error?.message ?? `Chat completion failed with status ${response.status}`);
+      }
+      const content = data?.choices?.[0]?.message?.content;
+      if (typeof content !== "string" || !content.trim()) {
+        throw new Error("Chat completion returned no content.");
+      }
+      return content.trim();
+    },
+  };
+}
+
+export const LLM_PROVIDERS: Record<string, () => LlmProvider> = {
+  stub: createStubProvider,
+  openai: createOpenAiCompatibleProvider,
+};
+
+/** The provider selected by `LLM_PROVIDER`, falling back to the stub. */
+export function getLlmProvider(): LlmProvider {
+  const name = process.env.LLM_PROVIDER || "stub";
+  const factory = LLM_PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown LLM_PROVIDER "${name}". Use one of: ${Object.keys(LLM_PROVIDERS).join(", ")}.`);
+  }
+  return factory();
+}
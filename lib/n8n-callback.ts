@@ -0,0 +1,183 @@
+import type { Avatar } from "@/lib/types/avatars";
+import { UUID_PATTERN, isRecord, type ParseResult } from "@/lib/validation";
+
+export type AvatarProfileFields = Partial<
+  Pick<
+    Avatar,
+    | "name"
+    | "age"
+    | "height_cm"
+    | "skin_tone"
+    | "hair_color"
+    | "marital_status"
+    | "job_title"
+    | "industry"
+    | "address_line"
+    | "city"
+    | "region"
+    | "country"
+    | "political_orientation"
+    | "other_traits"
+  >
+> & { hobbies?: string[] | null };
+
+export interface AvatarCallbackPayload {
+  avatarId: string;
+  userId: string;
+  jobId: string | null;
+  status: "ready" | "failed";
+  error: string | null;
+  personaSummary: string | null;
+  profile: AvatarProfileFields;
+  profileImage: {
+    storagePath: string;
+    label: string | null;
+    description: string | null;
+  } | null;
+}
+
+const TEXT_PROFILE_FIELDS = [
+  "name",
+  "skin_tone",
+  "hair_color",
+  "marital_status",
+  "job_title",
+  "industry",
+  "address_line",
+  "city",
+  "region",
+  "country",
+  "political_orientation",
+  "other_traits",
+] as const;
+
+function optionalText(value: unknown, field: string, errors: string[]) {
+  if (value === undefined || value === null) return null;
+  if (typeof value !== "string") {
+    errors.push(`${field} must be a string`);
+    return null;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+function optionalSmallInt(value: unknown, field: string, errors: string[]) {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 0 || value > 32767) {
+    errors.push(`${field} must be a whole number between 0 and 32767`);
+    return undefined;
+  }
+  return value;
+}
+
+function parseHobbies(value: unknown, errors: string[]) {
+  if (value === undefined) return undefined;
+  if (value === null) return null;
+  if (typeof value === "string") {
+    return value
+      .split(",")
+      .map((hobby) => hobby.trim())
+      .filter(Boolean);
+  }
+  if (Array.isArray(value) && value.every((hobby) => typeof hobby === "string")) {
+    return (value as string[]).map((hobby) => hobby.trim()).filter(Boolean);
+  }
+  errors.push("profile.hobbies must be a string or an array of strings");
+  return undefined;
+}
+
+function parseProfile(value: unknown, errors: string[]): AvatarProfileFields {
+  if (value === undefined || value === null) return {};
+  if (!isRecord(value)) {
+    errors.push("profile must be an object");
+    return {};
+  }
+
+  const profile: AvatarProfileFields = {};
+  for (const field of TEXT_PROFILE_FIELDS) {
+    if (value[field] === undefined) continue;
+    const text = optionalText(value[field], `profile.${field}`, errors);
+    if (field === "name") {
+      if (text) profile.name = text;
+    } else {
+      profile[field] = text;
+    }
+  }
+
+  const age = optionalSmallInt(value.age, "profile.age", errors);
+  if (age !== undefined) profile.age = age;
+  const height = optionalSmallInt(value.height_cm, "profile.height_cm", errors);
+  if (height !== undefined) profile.height_cm = height;
+  const hobbies = parseHobbies(value.hobbies, errors);
+  if (hobbies !== undefined) profile.hobbies = hobbies;
+
+  return profile;
+}
+
+function parseProfileImage(value: unknown, errors: string[]): AvatarCallbackPayload["profileImage"] {
+  if (value === undefined || value === null) return null;
+  if (!isRecord(value)) {
+    errors.push("profile_image must be an object");
+    return null;
+  }
+
+  const storagePath = optionalText(value.storage_path, "profile_image.storage_path", errors);
+  if (!storagePath) {
+    errors.push("profile_image.storage_path is required");
+    return null;
+  }
+
+  return {
+    storagePath,
+    label: optionalText(value.label, "profile_image.label", errors),
+    description: optionalText(value.description, "profile_image.description", errors),
+  };
+}
+
+/**
+ * Validates the completion payload n8n posts back once an avatar generation run finishes.
+ * Field names mirror the outgoing request so the workflow can echo `avatar_id`, `user_id` and `job_id` untouched.
+ */
+export function parseAvatarCallback(body: unknown): ParseResult<AvatarCallbackPayload> {
+  if (!isRecord(body)) {
+    return { ok: false, errors: ["Body must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+
+  const avatarId = typeof body.avatar_id === "string" ? body.avatar_id : "";
+  if (!UUID_PATTERN.test(avatarId)) errors.push("avatar_id must be a UUID");
+
+  const userId = typeof body.user_id === "string" ? body.user_id : "";
+  if (!UUID_PATTERN.test(userId)) errors.push("user_id must be a UUID");
+
+  const jobId = optionalText(body.n8n_job_id ?? body.job_id, "n8n_job_id", errors);
+
+  const status = body.status;
+  if (status !== "ready" && status !== "failed") {
+    errors.push('status must be "ready" or "failed"');
+  }
+
+  const error = optionalText(body.error, "error", errors);
+  const personaSummary = optionalText(body.persona_summary, "persona_summary", errors);
+  const profile = parseProfile(body.profile, errors);
+  const profileImage = parseProfileImage(body.profile_image, errors);
+
+  if (errors.length > 0) {
+    return { ok: false, errors };
+  }
+
+  return {
+    ok: true,
+    value: {
+      avatarId,
+      userId,
+      jobId,
+      status: status as AvatarCallbackPayload["status"],
+      error,
+      personaSummary,
+      profile,
+      profileImage,
+    },
+  };
+}
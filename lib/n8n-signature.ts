@@ -0,0 +1,109 @@
+export const N8N_SIGNATURE_HEADER = "x-n8n-signature";
+export const N8N_TIMESTAMP_HEADER = "x-n8n-timestamp";
+export const REQUEST_ID_HEADER = "x-request-id";
+
+const SIGNATURE_VERSION = "v1";
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+const encoder = new TextEncoder();
+
+// Signatures seen within the tolerance window. Scoped to this server instance, which is enough to stop a captured
+// request from being replayed against the same deployment while the timestamp check bounds everything else.
+const seenSignatures = new Map<string, number>();
+
+export type SignatureVerification =
+  | { ok: true; requestId: string; timestamp: number }
+  | { ok: false; reason: "missing_headers" | "stale_timestamp" | "invalid_signature" | "replayed" };
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+function timingSafeEqual(a: string, b: string) {
+  if (a.length !== b.length) return false;
+  let mismatch = 0;
+  for (let index = 0; index < a.length; index += 1) {
+    mismatch |= a.charCodeAt(index) ^ b.charCodeAt(index);
+  }
+  return mismatch === 0;
+}
+
+function buildSignedMessage(timestamp: number, requestId: string, body: string) {
+  return `${timestamp}.${requestId}.${body}`;
+}
+
+function rememberSignature(signature: string, expiresAt: number, now: number) {
+  seenSignatures.forEach((expiry, key) => {
+    if (expiry <= now) seenSignatures.delete(key);
+  });
+  if (seenSignatures.has(signature)) return false;
+  seenSignatures.set(signature, expiresAt);
+  return true;
+}
+
+export async function computeSignature(secret: string, message: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(message));
+  return toHex(signature);
+}
+
+/**
+ * Builds the headers for a signed webhook request. The signature covers the timestamp, the request id and the raw
+ * body, so none of them can be swapped without invalidating it.
+ */
+export async function signWebhookRequest(body: string, secret: string, requestId: string, now = Date.now()) {
+  const timestamp = Math.floor(now / 1000);
+  const digest = await computeSignature(secret, buildSignedMessage(timestamp, requestId, body));
+  return {
+    [N8N_TIMESTAMP_HEADER]: String(timestamp),
+    [N8N_SIGNATURE_HEADER]: `${SIGNATURE_VERSION}=${digest}`,
+    [REQUEST_ID_HEADER]: requestId,
+  };
+}
+
+/**
+ * Verifies a request signed with `signWebhookRequest`. Rejects timestamps outside the tolerance window and any
+ * signature already accepted by this instance.
+ */
+export async function verifyWebhookRequest(
+  headers: Headers,
+  body: string,
+  secret: string,
+  options: { toleranceSeconds?: number; now?: number } = {}
+): Promise<SignatureVerification> {
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const now = options.now ?? Date.now();
+
+  const signatureHeader = headers.get(N8N_SIGNATURE_HEADER)?.trim().toLowerCase();
+  const timestampHeader = headers.get(N8N_TIMESTAMP_HEADER);
+  const requestId = headers.get(REQUEST_ID_HEADER);
+
+  if (!signatureHeader || !timestampHeader || !requestId) {
+    return { ok: false, reason: "missing_headers" };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return { ok: false, reason: "stale_timestamp" };
+  }
+
+  const [version, digest] = signatureHeader.split("=", 2);
+  const expected = await computeSignature(secret, buildSignedMessage(timestamp, requestId, body));
+  if (version !== SIGNATURE_VERSION || !digest || !timingSafeEqual(expected, digest)) {
+    return { ok: false, reason: "invalid_signature" };
+  }
+
+  if (!rememberSignature(digest, (timestamp + toleranceSeconds) * 1000, now)) {
+    return { ok: false, reason: "replayed" };
+  }
+
+  return { ok: true, requestId, timestamp };
+}
@@ -1,9 +1,12 @@
-import type { Avatar } from "@/lib/types/avatars";
+import type { ScenarioJobPayload } from "@/lib/scenario-prompt";
+import type { Avatar, AvatarGenerationOperation } from "@/lib/types/avatars";
 
 import { createRequestId, logger, safeSummary } from "./logger";
+import { signWebhookRequest } from "./n8n-signature";
 
 interface WebhookContext {
   requestId?: string;
+  jobId?: string;
   userId?: string;
   avatarId?: string;
   eventType: string;
@@ -12,6 +15,25 @@ interface WebhookContext {
 
 type N8nPayload = Record<string, unknown>;
 
+async function buildSignatureHeaders(body: string, requestId: string, context: WebhookContext) {
+  const secret = process.env.N8N_WEBHOOK_SECRET;
+  if (!secret) {
+    const error = new Error("Webhook signing secret is not configured.");
+    logger.error({
+      scope: "webhook.error",
+      msg: "Webhook signing secret missing",
+      requestId,
+      userId: context.userId,
+      avatarId: context.avatarId,
+      jobId: context.jobId,
+      eventType: context.eventType,
+      err: error,
+    });
+    throw error;
+  }
+  return signWebhookRequest(body, secret, requestId);
+}
+
 async function postToWebhook(url: string | undefined, payload: N8nPayload, context: WebhookContext) {
   if (!url) {
     const error = new Error("Webhook URL is not configured.");
@@ -21,6 +43,7 @@ async function postToWebhook(url: string | undefined, payload: N8nPayload, conte
       requestId: context.requestId,
       userId: context.userId,
       avatarId: context.avatarId,
+      jobId: context.jobId,
       eventType: context.eventType,
       err: error,
     });
@@ -44,6 +67,7 @@ async function postToWebhook(url: string | undefined, payload: N8nPayload, conte
     requestId,
     userId: context.userId,
     avatarId: context.avatarId,
+    jobId: context.jobId,
     eventType: context.eventType,
     targetUrl,
     payloadSummary: safeSummary(payload),
@@ -51,10 +75,11 @@ async function postToWebhook(url: string | undefined, payload: N8nPayload, conte
   });
 
   try {
+    const body = JSON.stringify(payload);
     const response = await fetch(url, {
       method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(payload),
+      headers: { "Content-Type": "application/json", ...(await buildSignatureHeaders(body, requestId, context)) },
+      body,
     });
 
     const durationMs = Date.now() - start;
@@ -67,6 +92,7 @@ async function postToWebhook(url: string | undefined, payload: N8nPayload, conte
         requestId,
         userId: context.userId,
         avatarId: context.avatarId,
+        jobId: context.jobId,
         eventType: context.eventType,
         statusCode: response.status,
         durationMs,
@@ -82,6 +108,7 @@ async function postToWebhook(url: string | undefined, payload: N8nPayload, conte
       requestId,
       userId: context.userId,
       avatarId: context.avatarId,
+      jobId: context.jobId,
       eventType: context.eventType,
       statusCode: response.status,
       durationMs,
@@ -95,6 +122,7 @@ async function postToWebhook(url: string | undefined, payload: N8nPayload, conte
         requestId,
         userId: context.userId,
         avatarId: context.avatarId,
+        jobId: context.jobId,
         eventType: context.eventType,
         err: error,
       });
@@ -103,27 +131,44 @@ async function postToWebhook(url: string | undefined, payload: N8nPayload, conte
   }
 }
 
-export async function triggerAvatarGeneration(avatar: Avatar, requestId?: string) {
+export async function triggerAvatarGeneration(
+  avatar: Avatar,
+  jobId: string,
+  requestId?: string,
+  operation: AvatarGenerationOperation = "generate"
+) {
   const context: WebhookContext = {
     requestId,
+    jobId,
     userId: avatar.user_id,
     avatarId: avatar.id,
     eventType: "avatar.generation",
-    operation: "avatar.generation.request",
+    operation: `avatar.generation.${operation}`,
   };
 
+  // `operation` tells the workflow which parts to produce: everything for generate/retry, only the narrative for
+  // regenerate_persona, only a new profile image for regenerate_portrait.
   const payload: N8nPayload = {
     avatar_id: avatar.id,
     user_id: avatar.user_id,
+    job_id: jobId,
+    operation,
     profile: avatar,
   };
 
-  await postToWebhook(process.env.NEXT_PUBLIC_N8N_AVATAR_WEBHOOK_URL, payload, context);
+  await postToWebhook(process.env.N8N_AVATAR_WEBHOOK_URL, payload, context);
+  return { jobId };
 }
 
-export async function triggerScenarioGeneration(avatar: Avatar, scenarioPrompt?: string, requestId?: string) {
+export async function triggerScenarioGeneration(
+  avatar: Avatar,
+  jobId: string,
+  scenario: ScenarioJobPayload = {},
+  requestId?: string
+) {
   const context: WebhookContext = {
     requestId,
+    jobId,
     userId: avatar.user_id,
     avatarId: avatar.id,
     eventType: "avatar.scenario",
@@ -133,11 +178,21 @@ export async function triggerScenarioGeneration(avatar: Avatar, scenarioPrompt?:
   const payload: N8nPayload = {
     avatar_id: avatar.id,
     user_id: avatar.user_id,
+    job_id: jobId,
     profile: avatar,
     persona_summary: avatar.persona_summary,
     profile_image_path: avatar.profile_image_path,
-    scenario_prompt: scenarioPrompt ?? null,
+    scenario_prompt: scenario.scenario_prompt ?? null,
+    // Structured requests (older jobs only have `scenario_prompt`). Write `image_label` and `image_description` onto
+    // each generated `avatar_images` row.
+    scenario_prompt_id: scenario.scenario_prompt_id ?? null,
+    scenario: scenario.scenario ?? null,
+    image_count: scenario.scenario?.image_count ?? 1,
+    aspect_ratio: scenario.scenario?.aspect_ratio ?? "1:1",
+    image_label: scenario.image_label ?? null,
+    image_description: scenario.image_description ?? null,
   };
 
-  await postToWebhook(process.env.NEXT_PUBLIC_N8N_SCENES_WEBHOOK_URL, payload, context);
+  await postToWebhook(process.env.N8N_SCENES_WEBHOOK_URL, payload, context);
+  return { jobId };
 }
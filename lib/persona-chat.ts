@@ -0,0 +1,90 @@
+import { formatHobbies } from "@/lib/avatar-fields";
+import type { LlmMessage } from "@/lib/llm";
+import type { Avatar } from "@/lib/types/avatars";
+import type { AvatarConversationMessage } from "@/lib/types/conversations";
+import { isRecord, type ParseResult } from "@/lib/validation";
+
+export const MAX_INTERVIEW_MESSAGE_LENGTH = 2000;
+// Older turns are dropped from the model's context (never from the transcript) to keep requests bounded.
+const MAX_CONTEXT_MESSAGES = 40;
+
+export type InterviewRequest = { conversationId?: string; message: string };
+
+export function parseInterviewRequest(body: unknown): ParseResult<InterviewRequest> {
+  if (!isRecord(body)) {
+    return { ok: false, errors: ["Body must be a JSON object"] };
+  }
+
+  const errors: string[] = [];
+  const message = typeof body.message === "string" ? body.message.trim() : "";
+  if (!message || message.length > MAX_INTERVIEW_MESSAGE_LENGTH) {
+    errors.push(`message must be between 1 and ${MAX_INTERVIEW_MESSAGE_LENGTH} characters`);
+  }
+
+  const conversationId = body.conversation_id ?? undefined;
+  if (conversationId !== undefined && typeof conversationId !== "string") {
+    errors.push("conversation_id must be a string");
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, value: { message, conversationId: conversationId as string | undefined } };
+}
+
+function describeExtraAttributes(extra: Avatar["extra_attributes"]) {
+  return Object.entries(extra ?? {})
+    .filter(([, value]) => value !== null && value !== "")
+    .map(([key, value]) => `${key.replace(/_/g, " ")}: ${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join("; ");
+}
+
+/**
+ * Instructions that make the model answer in character. Only filled-in fields are listed, and the persona summary
+ * comes last so the model treats it as the fullest description.
+ */
+export function buildPersonaSystemPrompt(avatar: Avatar) {
+  const location = [avatar.city, avatar.region, avatar.country].filter(Boolean).join(", ");
+  const facts = [
+    ["Age", String(avatar.age)],
+    ["Job", [avatar.job_title, avatar.industry ? `in ${avatar.industry}` : null].filter(Boolean).join(" ")],
+    ["Lives in", location],
+    ["Marital status", avatar.marital_status],
+    ["Height", avatar.height_cm ? `${avatar.height_cm} cm` : null],
+    [
+      "Appearance",
+      [avatar.skin_tone, avatar.hair_color ? `${avatar.hair_color} hair` : null].filter(Boolean).join(", "),
+    ],
+    ["Hobbies", formatHobbies(avatar.hobbies)],
+    ["Political orientation", avatar.political_orientation],
+    ["Other traits", avatar.other_traits],
+    ["Further attributes", describeExtraAttributes(avatar.extra_attributes)],
+  ].filter((fact): fact is [string, string] => Boolean(fact[1]));
+
+  return [
+    `You are ${avatar.name}, a real person being interviewed by a researcher.`,
+    "Stay in character for the whole conversation and answer in the first person, as this person would speak.",
+    "Draw on the profile below. Where it is silent, improvise details consistent with it and keep them consistent " +
+      "in later answers. Never mention that you are an AI, a model or a persona, and never break character.",
+    "",
+    "Profile:",
+    ...facts.map(([label, value]) => `- ${label}: ${value}`),
+    ...(avatar.persona_summary ? ["", "Your story in your own words:", avatar.persona_summary] : []),
+  ].join("\n");
+}
+
+/** The messages sent to the provider: the persona prompt, the recent transcript, then the new question. */
+export function buildInterviewMessages(
+  avatar: Avatar,
+  history: Pick<AvatarConversationMessage, "role" | "content">[],
+  message: string
+): LlmMessage[] {
+  return [
+    { role: "system", content: buildPersonaSystemPrompt(avatar) },
+    ...history.slice(-MAX_CONTEXT_MESSAGES).map(({ role, content }) => ({ role, content })),
+    { role: "user", content: message },
+  ];
+}
+
+export function conversationTitle(message: string) {
+  const firstLine = message.split("\n")[0].trim();
+  return firstLine.length > 80 ? `${firstLine.slice(0, 77)}…` : firstLine;
+}
@@ -0,0 +1,256 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import { logger } from "./logger";
+import { createSupabaseAdminClient } from "./supabase/admin";
+
+export interface RateLimitPolicy {
+  id: string;
+  /** Matched against the request path by the middleware. */
+  pattern: RegExp;
+  methods: string[];
+  /** Requests per window from one IP, enforced by the middleware before any handler runs. */
+  perIp: number;
+  /** Requests per window for one signed-in user, enforced by route handlers through `requireRateLimit`. */
+  perUser?: number;
+  windowSeconds: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the current window ends. */
+  retryAfter: number;
+}
+
+/** Counts one hit against `key` and reports the hits so far in the current fixed window. */
+export interface RateLimitStore {
+  hit(key: string, windowSeconds: number): Promise<{ hits: number; resetAt: number }>;
+}
+
+type RateLimitLogContext = { scope: string; requestId: string; http: { method: string; path: string } };
+
+export const RATE_LIMITED_CODE = "rate_limited";
+
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+// Sweep expired in-memory buckets once the map grows past this many keys.
+const MEMORY_SWEEP_THRESHOLD = 10_000;
+
+/**
+ * Checked in order; the middleware applies the first match. The last entry is a catch-all for mutating API calls.
+ * n8n callbacks are excluded because a cohort can legitimately produce hundreds of them in a few minutes. Avatar inserts
+ * never pass through here; the `limit_avatar_creation` trigger (migration `0024`) limits them in the database.
+ */
+export const RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  {
+    id: "avatar.generate",
+    pattern: /^\/api\/avatars\/[^/]+\/generate$/,
+    methods: ["POST"],
+    perIp: 30,
+    perUser: 10,
+    windowSeconds: 60,
+  },
+  {
+    id: "avatar.scenarios",
+    pattern: /^\/api\/avatars\/[^/]+\/scenarios$/,
+    methods: ["POST"],
+    perIp: 30,
+    perUser: 10,
+    windowSeconds: 60,
+  },
+  {
+    id: "avatar.interview",
+    pattern: /^\/api\/avatars\/[^/]+\/interview$/,
+    methods: ["POST"],
+    perIp: 60,
+    perUser: 20,
+    windowSeconds: 60,
+  },
+  {
+    id: "avatar.import",
+    pattern: /^\/api\/avatars\/import$/,
+    methods: ["POST"],
+    perIp: 10,
+    perUser: 5,
+    windowSeconds: 600,
+  },
+  {
+    id: "cohort.create",
+    pattern: /^\/api\/cohorts$/,
+    methods: ["POST"],
+    perIp: 10,
+    perUser: 5,
+    windowSeconds: 600,
+  },
+  {
+    id: "collection.scenarios",
+    pattern: /^\/api\/collections\/[^/]+\/scenarios$/,
+    methods: ["POST"],
+    perIp: 15,
+    perUser: 5,
+    windowSeconds: 60,
+  },
+  {
+    id: "workspace.invite",
+    pattern: /^\/api\/workspaces\/[^/]+\/invitations$/,
+    methods: ["POST"],
+    perIp: 60,
+    perUser: 30,
+    windowSeconds: 3600,
+  },
+  {
+    id: "api.mutation",
+    pattern: /^\/api\/(?!webhooks\/)/,
+    methods: MUTATING_METHODS,
+    perIp: 120,
+    windowSeconds: 60,
+  },
+];
+
+export function findRateLimitPolicy(method: string, path: string) {
+  return RATE_LIMIT_POLICIES.find((policy) => policy.methods.includes(method) && policy.pattern.test(path)) ?? null;
+}
+
+export function getRateLimitPolicy(id: string) {
+  const policy = RATE_LIMIT_POLICIES.find((entry) => entry.id === id);
+  if (!policy) throw new Error(`Unknown rate limit policy "${id}".`);
+  return policy;
+}
+
+/** Per-process counters. Fine for development and tests; each server instance keeps its own, so not for production. */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { windowStart: number; hits: number }>();
+
+  return {
+    async hit(key, windowSeconds) {
+      const windowMs = windowSeconds * 1000;
+      const now = Date.now();
+      const windowStart = Math.floor(now / windowMs) * windowMs;
+
+      if (buckets.size > MEMORY_SWEEP_THRESHOLD) {
+        buckets.forEach((bucket, bucketKey) => {
+          if (bucket.windowStart + windowMs <= now) buckets.delete(bucketKey);
+        });
+      }
+
+      const bucket = buckets.get(key);
+      const hits = bucket && bucket.windowStart === windowStart ? bucket.hits + 1 : 1;
+      buckets.set(key, { windowStart, hits });
+      return { hits, resetAt: windowStart + windowMs };
+    },
+  };
+}
+
+/** Counters shared by every instance through `hit_rate_limit()` (migration `0024`). Needs the service role key. */
+export function createPostgresRateLimitStore(): RateLimitStore {
+  const supabase = createSupabaseAdminClient();
+
+  return {
+    async hit(key, windowSeconds) {
+      const { data, error } = await supabase
+        .rpc("hit_rate_limit", { bucket_key: key, window_seconds: windowSeconds })
+        .single<{ hit_count: number; reset_at: string }>();
+      if (error) throw error;
+      if (!data) throw new Error("Rate limit query returned no bucket.");
+      return { hits: data.hit_count, resetAt: new Date(data.reset_at).getTime() };
+    },
+  };
+}
+
+/**
+ * The store picked by `RATE_LIMIT_STORE` ("memory" or "postgres"). Without it, production uses Postgres when the
+ * service role key is set and everything else uses memory. Cached per runtime, like the background workers.
+ */
+export function getRateLimitStore() {
+  const globalState = globalThis as typeof globalThis & { __rateLimitStore?: RateLimitStore };
+  if (globalState.__rateLimitStore) return globalState.__rateLimitStore;
+
+  const configured = process.env.RATE_LIMIT_STORE;
+  const usePostgres =
+    configured === "postgres" ||
+    (!configured && process.env.NODE_ENV === "production" && Boolean(process.env.SUPABASE_SERVICE_ROLE_KEY));
+
+  globalState.__rateLimitStore = usePostgres ? createPostgresRateLimitStore() : createMemoryRateLimitStore();
+  return globalState.__rateLimitStore;
+}
+
+/**
+ * The address that per-IP limits are keyed on. Hosts that know the peer address set `request.ip`. Behind your own
+ * proxies, each trusted hop appends the address it saw to `X-Forwarded-For`, so the client is the entry
+ * `RATE_LIMIT_TRUSTED_PROXY_HOPS` places from the right. Entries left of it are whatever the client sent, and
+ * rotating them must not buy a fresh bucket. Returns null when the address can't be known; callers then skip the
+ * per-IP limit rather than pool every client into one bucket.
+ */
+export function getClientIp(request: NextRequest) {
+  if (request.ip) return request.ip;
+
+  const trustedHops = Number.parseInt(process.env.RATE_LIMIT_TRUSTED_PROXY_HOPS ?? "1", 10);
+  if (!Number.isFinite(trustedHops) || trustedHops < 1) return null;
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  return hops[hops.length - trustedHops] ?? hops[0] ?? null;
+}
+
+/**
+ * Counts a request against `policy` for a signed-in user (per-user limit) or, without one, an IP address (per-IP
+ * limit). A store failure lets the request through: losing abuse protection briefly beats failing every request.
+ */
+export async function checkRateLimit(
+  policy: RateLimitPolicy,
+  subject: { userId: string } | { ip: string },
+  context: RateLimitLogContext,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitResult> {
+  const isUser = "userId" in subject;
+  const limit = isUser ? policy.perUser ?? policy.perIp : policy.perIp;
+  const key = `${policy.id}:${isUser ? `user:${subject.userId}` : `ip:${subject.ip}`}`;
+  const userId = isUser ? subject.userId : undefined;
+
+  try {
+    const { hits, resetAt } = await store.hit(key, policy.windowSeconds);
+    const retryAfter = Math.max(Math.ceil((resetAt - Date.now()) / 1000), 1);
+    const result = { allowed: hits <= limit, limit, remaining: Math.max(limit - hits, 0), retryAfter };
+
+    if (!result.allowed) {
+      logger.warn({
+        scope: context.scope,
+        msg: "Rate limit exceeded",
+        requestId: context.requestId,
+        userId,
+        http: { ...context.http, status: 429 },
+        payloadSummary: { policy: policy.id, keyType: isUser ? "user" : "ip", limit, retryAfter },
+      });
+    }
+    return result;
+  } catch (error) {
+    logger.error({
+      scope: context.scope,
+      msg: "Rate limit store failed, allowing request",
+      requestId: context.requestId,
+      userId,
+      http: context.http,
+      payloadSummary: { policy: policy.id },
+      err: error,
+    });
+    return { allowed: true, limit, remaining: limit, retryAfter: 0 };
+  }
+}
+
+export function rateLimitResponse(result: RateLimitResult) {
+  const wait = `${result.retryAfter} second${result.retryAfter === 1 ? "" : "s"}`;
+  return NextResponse.json(
+    { error: `Too many requests. Please wait ${wait} and try again.`, code: RATE_LIMITED_CODE },
+    {
+      status: 429,
+      headers: {
+        "Retry-After": String(result.retryAfter),
+        "RateLimit-Limit": String(result.limit),
+        "RateLimit-Remaining": String(result.remaining),
+      },
+    }
+  );
+}
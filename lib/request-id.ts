@@ -1,6 +1,6 @@
 import { createRequestId } from "./logger";
 
-function readCookie(name: string) {
+export function readCookie(name: string) {
   if (typeof document === "undefined") return null;
   const pattern = `; ${document.cookie}`;
   const parts = pattern.split(`; ${name}=`);
@@ -0,0 +1,213 @@
+import type { ScenarioAspectRatio, ScenarioFields, ScenarioPrompt } from "@/lib/types/scenario-prompts";
+import { UUID_PATTERN, isRecord, type ParseResult } from "@/lib/validation";
+
+export const MAX_SCENARIO_PROMPT_LENGTH = 500;
+export const MAX_SCENARIO_PART_LENGTH = 120;
+export const MAX_SCENARIO_IMAGES = 4;
+// Each entry becomes its own generation job, so one click can't flood the scenes workflow.
+export const MAX_SCENARIOS_PER_REQUEST = 5;
+
+export const SCENARIO_ASPECT_RATIOS: { value: ScenarioAspectRatio; label: string }[] = [
+  { value: "1:1", label: "Square (1:1)" },
+  { value: "4:5", label: "Portrait (4:5)" },
+  { value: "9:16", label: "Story (9:16)" },
+  { value: "3:2", label: "Landscape (3:2)" },
+  { value: "16:9", label: "Widescreen (16:9)" },
+];
+
+export const SCENARIO_TIMES_OF_DAY = ["Early morning", "Morning", "Midday", "Afternoon", "Evening", "Night"];
+
+const SCENARIO_TEXT_PARTS = ["setting", "activity", "mood", "time_of_day"] as const;
+
+/** A scene to request: the structured fields plus where they came from, which ends up on the generated images. */
+export type ScenarioRequest = ScenarioFields & { name: string | null; scenario_prompt_id: string | null };
+
+/** Validates the optional free-text `scenario_prompt` sent with scene requests. Blank prompts become undefined. */
+export function parseScenarioPrompt(raw: unknown): ParseResult<string | undefined> {
+  if (raw !== undefined && raw !== null && typeof raw !== "string") {
+    return { ok: false, errors: ["scenario_prompt must be a string."] };
+  }
+
+  const prompt = raw?.trim() || undefined;
+  if (prompt && prompt.length > MAX_SCENARIO_PROMPT_LENGTH) {
+    return { ok: false, errors: [`scenario_prompt must be at most ${MAX_SCENARIO_PROMPT_LENGTH} characters.`] };
+  }
+
+  return { ok: true, value: prompt };
+}
+
+/** Validates the structured fields shared by library prompts and one-off scene requests. */
+export function parseScenarioFields(raw: Record<string, unknown>, field = "scenario"): ParseResult<ScenarioFields> {
+  const parts = {} as Record<(typeof SCENARIO_TEXT_PARTS)[number], string | null>;
+  for (const part of SCENARIO_TEXT_PARTS) {
+    const value = raw[part];
+    if (value !== undefined && value !== null && typeof value !== "string") {
+      return { ok: false, errors: [`${field}.${part} must be a string.`] };
+    }
+    const text = typeof value === "string" ? value.trim() || null : null;
+    if (text && text.length > MAX_SCENARIO_PART_LENGTH) {
+      return { ok: false, errors: [`${field}.${part} must be at most ${MAX_SCENARIO_PART_LENGTH} characters.`] };
+    }
+    parts[part] = text;
+  }
+
+  const prompt = parseScenarioPrompt(raw.prompt);
+  if (!prompt.ok) {
+    return {
+      ok: false,
+      errors: [`${field}.prompt must be text of at most ${MAX_SCENARIO_PROMPT_LENGTH} characters.`],
+    };
+  }
+
+  const imageCount = raw.image_count ?? 1;
+  if (
+    typeof imageCount !== "number" ||
+    !Number.isInteger(imageCount) ||
+    imageCount < 1 ||
+    imageCount > MAX_SCENARIO_IMAGES
+  ) {
+    return {
+      ok: false,
+      errors: [`${field}.image_count must be a whole number between 1 and ${MAX_SCENARIO_IMAGES}.`],
+    };
+  }
+
+  const aspectRatio = raw.aspect_ratio ?? "1:1";
+  if (!SCENARIO_ASPECT_RATIOS.some((option) => option.value === aspectRatio)) {
+    return {
+      ok: false,
+      errors: [
+        `${field}.aspect_ratio must be one of ${SCENARIO_ASPECT_RATIOS.map((option) => option.value).join(", ")}.`,
+      ],
+    };
+  }
+
+  if (!Object.values(parts).some(Boolean) && !prompt.value) {
+    return { ok: false, errors: [`${field} needs at least a setting, activity, mood, time of day or prompt.`] };
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...parts,
+      prompt: prompt.value ?? null,
+      image_count: imageCount,
+      aspect_ratio: aspectRatio as ScenarioAspectRatio,
+    },
+  };
+}
+
+/**
+ * Reads the scenes requested for an avatar. The body is either `{ scenarios: [...] }`, where each entry is a
+ * `scenario_prompt_id` from the user's library or a one-off set of fields, or the older `{ scenario_prompt }` text.
+ * Library entries are returned as ids for the caller to load, so their stored fields are what gets used.
+ */
+export function parseScenarioRequests(
+  body: Record<string, unknown>
+): ParseResult<{ promptIds: string[]; custom: ScenarioRequest[] }> {
+  if (body.scenarios === undefined) {
+    const legacy = parseScenarioPrompt(body.scenario_prompt);
+    if (!legacy.ok) return legacy;
+    return {
+      ok: true,
+      value: {
+        promptIds: [],
+        custom: [
+          {
+            setting: null,
+            activity: null,
+            mood: null,
+            time_of_day: null,
+            prompt: legacy.value ?? null,
+            image_count: 1,
+            aspect_ratio: "1:1",
+            name: null,
+            scenario_prompt_id: null,
+          },
+        ],
+      },
+    };
+  }
+
+  if (!Array.isArray(body.scenarios) || body.scenarios.length === 0) {
+    return { ok: false, errors: ["scenarios must be a non-empty list."] };
+  }
+  if (body.scenarios.length > MAX_SCENARIOS_PER_REQUEST) {
+    return { ok: false, errors: [`Pick at most ${MAX_SCENARIOS_PER_REQUEST} scenarios at a time.`] };
+  }
+
+  const promptIds: string[] = [];
+  const custom: ScenarioRequest[] = [];
+  for (const [index, entry] of body.scenarios.entries()) {
+    const field = `scenarios[${index}]`;
+    if (!isRecord(entry)) return { ok: false, errors: [`${field} must be an object.`] };
+
+    if (entry.scenario_prompt_id !== undefined) {
+      if (typeof entry.scenario_prompt_id !== "string" || !UUID_PATTERN.test(entry.scenario_prompt_id)) {
+        return { ok: false, errors: [`${field}.scenario_prompt_id must be a UUID.`] };
+      }
+      promptIds.push(entry.scenario_prompt_id);
+      continue;
+    }
+
+    const fields = parseScenarioFields(entry, field);
+    if (!fields.ok) return fields;
+    const name = typeof entry.name === "string" ? entry.name.trim().slice(0, 80) || null : null;
+    custom.push({ ...fields.value, name, scenario_prompt_id: null });
+  }
+
+  return { ok: true, value: { promptIds, custom } };
+}
+
+export function fromScenarioPrompt(prompt: ScenarioPrompt): ScenarioRequest {
+  return {
+    setting: prompt.setting,
+    activity: prompt.activity,
+    mood: prompt.mood,
+    time_of_day: prompt.time_of_day,
+    prompt: prompt.prompt,
+    image_count: prompt.image_count,
+    aspect_ratio: prompt.aspect_ratio,
+    name: prompt.name,
+    scenario_prompt_id: prompt.id,
+  };
+}
+
+/** One line describing the scene, e.g. "Setting: rooftop garden · Mood: relaxed · Time of day: Evening". */
+export function describeScenario(scenario: ScenarioFields) {
+  return [
+    scenario.setting ? `Setting: ${scenario.setting}` : null,
+    scenario.activity ? `Activity: ${scenario.activity}` : null,
+    scenario.mood ? `Mood: ${scenario.mood}` : null,
+    scenario.time_of_day ? `Time of day: ${scenario.time_of_day}` : null,
+    scenario.prompt,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * The generation job payload for one scene request. `scenario_prompt` keeps the flat text older workflows read;
+ * the workflow writes `image_label` and `image_description` onto each `avatar_images` row it creates, so every
+ * image records the prompt that produced it.
+ */
+export function buildScenarioJobPayload(scenario: ScenarioRequest) {
+  const description = describeScenario(scenario);
+  return {
+    scenario_prompt: description || null,
+    scenario_prompt_id: scenario.scenario_prompt_id,
+    scenario: {
+      setting: scenario.setting,
+      activity: scenario.activity,
+      mood: scenario.mood,
+      time_of_day: scenario.time_of_day,
+      prompt: scenario.prompt,
+      image_count: scenario.image_count,
+      aspect_ratio: scenario.aspect_ratio,
+    },
+    image_label: scenario.name ?? scenario.activity ?? scenario.setting ?? null,
+    image_description: description || null,
+  };
+}
+
+export type ScenarioJobPayload = Partial<ReturnType<typeof buildScenarioJobPayload>>;
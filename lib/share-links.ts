@@ -0,0 +1,52 @@
+import type { Avatar } from "@/lib/types/avatars";
+import type { ShareLink, SharedAvatar } from "@/lib/types/share-links";
+
+export type ShareLinkState = "active" | "expired" | "revoked";
+
+export const SHARE_EXPIRY_OPTIONS: { value: string; label: string; days: number | null }[] = [
+  { value: "7", label: "Expires in 7 days", days: 7 },
+  { value: "1", label: "Expires in 24 hours", days: 1 },
+  { value: "30", label: "Expires in 30 days", days: 30 },
+  { value: "never", label: "Never expires", days: null },
+];
+
+export function shareLinkExpiry(days: number | null, now = Date.now()) {
+  return days === null ? null : new Date(now + days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+export function getShareLinkState(
+  link: Pick<ShareLink, "expires_at" | "revoked_at">,
+  now = Date.now()
+): ShareLinkState {
+  if (link.revoked_at) return "revoked";
+  if (link.expires_at && new Date(link.expires_at).getTime() <= now) return "expired";
+  return "active";
+}
+
+export function buildShareUrl(origin: string, token: string) {
+  return `${origin}/share/${token}`;
+}
+
+/** Strips an avatar down to the fields a share link may show. */
+export function toSharedAvatar(avatar: Avatar): SharedAvatar {
+  return {
+    id: avatar.id,
+    name: avatar.name,
+    age: avatar.age,
+    height_cm: avatar.height_cm,
+    skin_tone: avatar.skin_tone,
+    hair_color: avatar.hair_color,
+    marital_status: avatar.marital_status,
+    job_title: avatar.job_title,
+    industry: avatar.industry,
+    address_line: avatar.address_line,
+    city: avatar.city,
+    region: avatar.region,
+    country: avatar.country,
+    hobbies: avatar.hobbies,
+    political_orientation: avatar.political_orientation,
+    other_traits: avatar.other_traits,
+    persona_summary: avatar.persona_summary,
+    extra_attributes: avatar.extra_attributes,
+  };
+}
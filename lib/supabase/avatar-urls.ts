@@ -0,0 +1,147 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { logger } from "@/lib/logger";
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+
+import { AVATAR_BUCKET } from "./avatars";
+
+const DEFAULT_EXPIRES_IN_SECONDS = Number(process.env.NEXT_PUBLIC_AVATAR_URL_TTL_SECONDS) || 3600;
+// Treat URLs as stale this long before they actually expire, so images never render with a dead link.
+const REFRESH_MARGIN_MS = 60_000;
+
+type CachedUrl = { url: string; expiresAt: number };
+
+const signedUrlCache = new Map<string, CachedUrl>();
+
+export type AvatarImageSize = "thumbnail" | "medium" | "original";
+
+export interface ResolveOptions {
+  expiresIn?: number;
+  /** Which variant of `avatar_images` rows to sign. Falls back to the original until the variant exists. */
+  size?: AvatarImageSize;
+  /**
+   * Set to false to always sign fresh URLs. Server code should: the cache is module state, so on the server it would be
+   * shared by every request and could hand out URLs that are minutes from expiring.
+   */
+  cache?: boolean;
+}
+
+export type AvatarImageSource = Pick<AvatarImage, "id" | "storage_path"> &
+  Partial<Pick<AvatarImage, "thumbnail_path" | "medium_path">>;
+
+export interface ResolvedUrls {
+  urls: Record<string, string>;
+  /** When the earliest of the returned URLs should be refreshed, or null if none expire. */
+  refreshAt: number | null;
+}
+
+function isFresh(entry: CachedUrl | undefined, now: number): entry is CachedUrl {
+  return Boolean(entry && entry.expiresAt - REFRESH_MARGIN_MS > now);
+}
+
+/**
+ * Resolves storage paths in the private `avatars` bucket to signed URLs, issuing one batched request for every path
+ * that is not cached or is close to expiring. Absolute URLs are passed through unchanged.
+ */
+export async function resolveAvatarUrls(
+  supabase: SupabaseClient,
+  paths: (string | null | undefined)[],
+  options: ResolveOptions = {}
+): Promise<ResolvedUrls> {
+  const expiresIn = options.expiresIn ?? DEFAULT_EXPIRES_IN_SECONDS;
+  const useCache = options.cache ?? true;
+  const now = Date.now();
+  const unique = Array.from(new Set(paths.filter((path): path is string => Boolean(path))));
+  const urls: Record<string, string> = {};
+  const expiries: number[] = [];
+  const missing: string[] = [];
+
+  for (const path of unique) {
+    if (path.startsWith("http")) {
+      urls[path] = path;
+      continue;
+    }
+    const cached = useCache ? signedUrlCache.get(path) : undefined;
+    if (isFresh(cached, now)) {
+      urls[path] = cached.url;
+      expiries.push(cached.expiresAt);
+    } else {
+      missing.push(path);
+    }
+  }
+
+  if (missing.length > 0) {
+    const { data, error } = await supabase.storage.from(AVATAR_BUCKET).createSignedUrls(missing, expiresIn);
+    if (error) {
+      logger.warn({
+        scope: "storage.signedUrl",
+        msg: "Failed to sign avatar URLs",
+        payloadSummary: { count: missing.length },
+        err: error,
+      });
+    }
+
+    const expiresAt = now + expiresIn * 1000;
+    for (const entry of data ?? []) {
+      if (!entry.path || !entry.signedUrl || entry.error) continue;
+      if (useCache) signedUrlCache.set(entry.path, { url: entry.signedUrl, expiresAt });
+      urls[entry.path] = entry.signedUrl;
+      expiries.push(expiresAt);
+    }
+  }
+
+  const refreshAt = expiries.length ? Math.min(...expiries) - REFRESH_MARGIN_MS : null;
+
+  return { urls, refreshAt };
+}
+
+export async function resolveAvatarUrl(
+  supabase: SupabaseClient,
+  path: string | null | undefined,
+  options?: ResolveOptions
+) {
+  if (!path) return null;
+  const { urls } = await resolveAvatarUrls(supabase, [path], options);
+  return urls[path] ?? null;
+}
+
+export function avatarImagePath(image: AvatarImageSource, size: AvatarImageSize = "original") {
+  if (size === "thumbnail") return image.thumbnail_path ?? image.storage_path;
+  if (size === "medium") return image.medium_path ?? image.storage_path;
+  return image.storage_path;
+}
+
+/** `<creator id>/<avatar id>/`: the storage folder every file of an avatar lives in. */
+export function avatarFolder(avatar: Pick<Avatar, "id" | "user_id">) {
+  return `${avatar.user_id}/${avatar.id}/`;
+}
+
+/**
+ * True when every path on the image row points into its avatar's folder. Rows are writable by editors, so code that
+ * reads storage with the service role checks this first; otherwise a row could point at another user's files.
+ * Absolute URLs are not storage paths and pass.
+ */
+export function isImageInAvatarFolder(image: AvatarImageSource, avatar: Pick<Avatar, "id" | "user_id">) {
+  const folder = avatarFolder(avatar);
+  return [image.storage_path, image.thumbnail_path, image.medium_path].every(
+    (path) => !path || path.startsWith("http") || (path.startsWith(folder) && !path.includes(".."))
+  );
+}
+
+/** Signed URLs keyed by image id, for rendering `avatar_images` rows at the requested size. */
+export async function resolveAvatarImageUrls(
+  supabase: SupabaseClient,
+  images: AvatarImageSource[],
+  options: ResolveOptions = {}
+): Promise<ResolvedUrls> {
+  const paths = images.map((image) => avatarImagePath(image, options.size));
+  const { urls, refreshAt } = await resolveAvatarUrls(supabase, paths, options);
+  const byImage = Object.fromEntries(
+    images.map((image, index) => [image.id, urls[paths[index]]] as const).filter(([, url]) => Boolean(url))
+  );
+  return { urls: byImage, refreshAt };
+}
+
+export function forgetAvatarUrls(paths: string[]) {
+  paths.forEach((path) => signedUrlCache.delete(path));
+}
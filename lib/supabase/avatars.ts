@@ -1,49 +1,188 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
-import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+import {
+  AVATAR_PAGE_SIZE,
+  AVATAR_SORTS,
+  escapeLikePattern,
+  type AvatarListFilters,
+} from "@/lib/avatar-filters";
+import { ageRangeOptions } from "@/lib/avatar-options";
+import type { Avatar, AvatarImage, AvatarPersonaVersion, NewAvatar } from "@/lib/types/avatars";
 
 export const AVATAR_BUCKET = "avatars";
 
-export async function getAvatarsForUser(supabase: SupabaseClient, userId: string) {
+/**
+ * One page of a workspace's avatars matching `filters`, with the total match count. Free-text search uses the
+ * `search_vector` full-text index over `persona_summary` and `other_traits`.
+ */
+export async function getAvatarsForWorkspace(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  filters: AvatarListFilters = { sort: "newest", page: 1 },
+  pageSize = AVATAR_PAGE_SIZE
+) {
+  let query = supabase.from("avatars").select("*", { count: "exact" }).eq("workspace_id", workspaceId);
+
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.ageRange) {
+    const range = ageRangeOptions.find((option) => option.value === filters.ageRange);
+    if (range) query = query.gte("age", range.minAge).lte("age", range.maxAge);
+  }
+  if (filters.country) query = query.ilike("country", `%${escapeLikePattern(filters.country)}%`);
+  if (filters.city) query = query.ilike("city", `%${escapeLikePattern(filters.city)}%`);
+  if (filters.job) query = query.ilike("job_title", `%${escapeLikePattern(filters.job)}%`);
+  if (filters.industry) query = query.ilike("industry", `%${escapeLikePattern(filters.industry)}%`);
+  if (filters.hobby) query = query.contains("hobbies", [filters.hobby]);
+  if (filters.q) query = query.textSearch("search_vector", filters.q, { type: "websearch", config: "english" });
+
+  const sort = AVATAR_SORTS[filters.sort];
+  const from = (filters.page - 1) * pageSize;
+
+  return query
+    .order(sort.column, { ascending: sort.ascending })
+    .order("id", { ascending: true })
+    .range(from, from + pageSize - 1);
+}
+
+/**
+ * With a user client, RLS limits the lookup to avatars in the caller's workspaces. Service-role callers pass the
+ * creator's `userId` to check the avatar is the one a job or callback was issued for.
+ */
+export async function getAvatarById(supabase: SupabaseClient, avatarId: string, userId?: string) {
+  const query = supabase.from("avatars").select("*").eq("id", avatarId);
+  return (userId ? query.eq("user_id", userId) : query).maybeSingle();
+}
+
+export async function createAvatar(supabase: SupabaseClient, payload: NewAvatar) {
+  return supabase.from("avatars").insert(payload).select("*").single();
+}
+
+export async function createAvatars(supabase: SupabaseClient, payloads: (NewAvatar & { id?: string })[]) {
+  return supabase.from("avatars").insert(payloads).select("*");
+}
+
+/** Removes avatar rows only; used to roll back a bulk insert before any files were written for them. */
+export async function deleteAvatarRows(supabase: SupabaseClient, avatarIds: string[], userId: string) {
+  return supabase.from("avatars").delete().in("id", avatarIds).eq("user_id", userId);
+}
+
+export async function updateAvatar(
+  supabase: SupabaseClient,
+  avatarId: string,
+  userId: string,
+  patch: Partial<Omit<Avatar, "id" | "user_id" | "created_at" | "updated_at">>
+) {
   return supabase
     .from("avatars")
-    .select("*")
+    .update(patch)
+    .eq("id", avatarId)
     .eq("user_id", userId)
-    .order("created_at", { ascending: false });
+    .select("*")
+    .single();
+}
+
+async function listAvatarFolder(supabase: SupabaseClient, userId: string, avatarId: string) {
+  const folder = `${userId}/${avatarId}`;
+  const { data, error } = await supabase.storage.from(AVATAR_BUCKET).list(folder, { limit: 1000 });
+  if (error) return { paths: [] as string[], error };
+  return { paths: (data ?? []).map((object) => `${folder}/${object.name}`), error: null };
+}
+
+export async function removeAvatarObjects(supabase: SupabaseClient, paths: string[]) {
+  const storagePaths = Array.from(new Set(paths.filter((path) => path && !path.startsWith("http"))));
+  if (storagePaths.length === 0) {
+    return { data: [], error: null };
+  }
+  return supabase.storage.from(AVATAR_BUCKET).remove(storagePaths);
+}
+
+/**
+ * Deletes an avatar together with its files in the `avatars` bucket. Storage is cleaned up first so a failure
+ * leaves the row in place to retry, rather than orphaning files nobody can find any more.
+ */
+export async function deleteAvatar(
+  supabase: SupabaseClient,
+  avatar: Pick<Avatar, "id" | "user_id" | "profile_image_path">
+) {
+  const { data: images, error: imageError } = await supabase
+    .from("avatar_images")
+    .select("storage_path, thumbnail_path, medium_path")
+    .eq("avatar_id", avatar.id)
+    .eq("user_id", avatar.user_id);
+  if (imageError) return { error: imageError };
+
+  const { paths: folderPaths, error: folderError } = await listAvatarFolder(supabase, avatar.user_id, avatar.id);
+  if (folderError) return { error: folderError };
+
+  const { error: storageError } = await removeAvatarObjects(supabase, [
+    ...(images ?? []).flatMap((image) => [image.storage_path, image.thumbnail_path ?? "", image.medium_path ?? ""]),
+    ...folderPaths,
+    avatar.profile_image_path ?? "",
+  ]);
+  if (storageError) return { error: storageError };
+
+  const { error } = await supabase.from("avatars").delete().eq("id", avatar.id).eq("user_id", avatar.user_id);
+  return { error };
+}
+
+export async function deleteAvatarImage(supabase: SupabaseClient, image: AvatarImage) {
+  const { error: storageError } = await removeAvatarObjects(supabase, [
+    image.storage_path,
+    image.thumbnail_path ?? "",
+    image.medium_path ?? "",
+  ]);
+  if (storageError) return { error: storageError };
+
+  const { error } = await supabase.from("avatar_images").delete().eq("id", image.id).eq("user_id", image.user_id);
+  return { error };
 }
 
-export async function getAvatarById(supabase: SupabaseClient, avatarId: string, userId: string) {
+export async function getPersonaHistory(supabase: SupabaseClient, avatarId: string) {
   return supabase
-    .from("avatars")
+    .from("avatar_persona_history")
     .select("*")
-    .eq("id", avatarId)
-    .eq("user_id", userId)
-    .maybeSingle();
+    .eq("avatar_id", avatarId)
+    .order("created_at", { ascending: false });
 }
 
-export async function createAvatar(
+export async function insertPersonaHistory(
   supabase: SupabaseClient,
-  payload: Omit<Avatar, "id" | "created_at" | "updated_at" | "persona_summary" | "profile_image_path" | "status"> &
-    Partial<Pick<Avatar, "persona_summary" | "profile_image_path" | "status">>
+  payload: Omit<AvatarPersonaVersion, "id" | "created_at">
 ) {
-  return supabase.from("avatars").insert(payload).select("*").single();
+  return supabase.from("avatar_persona_history").insert(payload).select("*").single();
+}
+
+export async function getAvatarRevisions(supabase: SupabaseClient, avatarId: string) {
+  return supabase
+    .from("avatar_revisions")
+    .select("*")
+    .eq("avatar_id", avatarId)
+    .order("created_at", { ascending: false });
+}
+
+export async function restoreAvatarRevision(supabase: SupabaseClient, revisionId: string) {
+  return supabase.rpc("restore_avatar_revision", { target_revision_id: revisionId });
 }
 
-export async function getAvatarImages(supabase: SupabaseClient, avatarId: string, userId: string) {
+export async function getAvatarImages(supabase: SupabaseClient, avatarId: string) {
   return supabase
     .from("avatar_images")
     .select("*")
     .eq("avatar_id", avatarId)
-    .eq("user_id", userId)
     .order("is_primary", { ascending: false })
+    .order("position", { ascending: true, nullsFirst: false })
     .order("created_at", { ascending: false });
 }
 
-export async function getPrimaryAvatarImages(
-  supabase: SupabaseClient,
-  avatarIds: string[],
-  userId: string
-) {
+export async function getPrimaryAvatarImages(supabase: SupabaseClient, avatarIds: string[]) {
+  if (avatarIds.length === 0) {
+    return { data: [], error: null };
+  }
+
+  return supabase.from("avatar_images").select("*").in("avatar_id", avatarIds).eq("is_primary", true);
+}
+
+export async function getImagesForAvatars(supabase: SupabaseClient, avatarIds: string[]) {
   if (avatarIds.length === 0) {
     return { data: [], error: null };
   }
@@ -52,28 +191,100 @@ export async function getPrimaryAvatarImages(
     .from("avatar_images")
     .select("*")
     .in("avatar_id", avatarIds)
+    .order("created_at", { ascending: true });
+}
+
+type AvatarImageOptionalField =
+  | "workspace_id"
+  | "label"
+  | "description"
+  | "is_primary"
+  | "tags"
+  | "position"
+  | "thumbnail_path"
+  | "medium_path"
+  | "derivatives_status"
+  | "derivatives_attempts"
+  | "derivatives_locked_at";
+
+export async function insertAvatarImage(
+  supabase: SupabaseClient,
+  payload: Omit<AvatarImage, "id" | "created_at" | AvatarImageOptionalField> &
+    Partial<Pick<AvatarImage, AvatarImageOptionalField>>
+) {
+  return supabase.from("avatar_images").insert(payload).select("*").single();
+}
+
+export async function insertAvatarImages(
+  supabase: SupabaseClient,
+  payloads: (Omit<AvatarImage, "id" | "created_at" | AvatarImageOptionalField> &
+    Partial<Pick<AvatarImage, AvatarImageOptionalField>>)[]
+) {
+  return supabase.from("avatar_images").insert(payloads);
+}
+
+export async function uploadAvatarObject(
+  supabase: SupabaseClient,
+  path: string,
+  file: Blob | Buffer,
+  contentType: string,
+  upsert = false
+) {
+  return supabase.storage.from(AVATAR_BUCKET).upload(path, file, { contentType, upsert });
+}
+
+/** Copies a file inside the `avatars` bucket; the caller needs write access to both folders. */
+export async function copyAvatarObject(supabase: SupabaseClient, fromPath: string, toPath: string) {
+  return supabase.storage.from(AVATAR_BUCKET).copy(fromPath, toPath);
+}
+
+export async function clearPrimaryAvatarImages(supabase: SupabaseClient, avatarId: string, userId: string) {
+  return supabase
+    .from("avatar_images")
+    .update({ is_primary: false })
+    .eq("avatar_id", avatarId)
     .eq("user_id", userId)
     .eq("is_primary", true);
 }
 
-export async function getPublicAvatarUrl(supabase: SupabaseClient, path: string | null | undefined) {
-  if (!path) return null;
-  if (path.startsWith("http")) return path;
-  const { data } = supabase.storage.from(AVATAR_BUCKET).getPublicUrl(path);
-  return data.publicUrl ?? null;
+export async function updateAvatarImage(
+  supabase: SupabaseClient,
+  imageId: string,
+  userId: string,
+  patch: Partial<Pick<AvatarImage, "label" | "description" | "tags">>
+) {
+  return supabase
+    .from("avatar_images")
+    .update(patch)
+    .eq("id", imageId)
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+}
+
+/** Persists the gallery order; `orderedImageIds` lists the avatar's images first to last. */
+export async function reorderAvatarImages(supabase: SupabaseClient, avatarId: string, orderedImageIds: string[]) {
+  return supabase.rpc("reorder_avatar_images", {
+    target_avatar_id: avatarId,
+    ordered_image_ids: orderedImageIds,
+  });
+}
+
+/** Service-role only: claims images whose thumbnail and medium variants still need to be written. */
+export async function claimImageDerivatives(supabase: SupabaseClient, batchSize: number) {
+  return supabase.rpc("claim_avatar_image_derivatives", { batch_size: batchSize });
 }
 
-export async function getPublicAvatarUrls(
+export async function updateImageDerivatives(
   supabase: SupabaseClient,
-  images: AvatarImage[]
-): Promise<Record<string, string>> {
-  const entries = await Promise.all(
-    images.map(async (image) => {
-      const url = await getPublicAvatarUrl(supabase, image.storage_path);
-      return [image.id, url] as const;
-    })
-  );
-  return Object.fromEntries(entries.filter(([, url]) => Boolean(url)) as [string, string][]);
+  imageId: string,
+  patch: Partial<Pick<AvatarImage, "thumbnail_path" | "medium_path" | "derivatives_status" | "derivatives_locked_at">>
+) {
+  return supabase.from("avatar_images").update(patch).eq("id", imageId);
+}
+
+export async function downloadAvatarObject(supabase: SupabaseClient, path: string) {
+  return supabase.storage.from(AVATAR_BUCKET).download(path);
 }
 
 export async function setPrimaryAvatarImage(supabase: SupabaseClient, targetImageId: string) {
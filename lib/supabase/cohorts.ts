@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AvatarCohort } from "@/lib/types/cohorts";
+
+export async function getCohortsForUser(supabase: SupabaseClient, userId: string) {
+  return supabase
+    .from("avatar_cohorts")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+}
+
+export async function getCohortById(supabase: SupabaseClient, cohortId: string, userId: string) {
+  return supabase
+    .from("avatar_cohorts")
+    .select("*")
+    .eq("id", cohortId)
+    .eq("user_id", userId)
+    .maybeSingle();
+}
+
+export async function createCohort(
+  supabase: SupabaseClient,
+  payload: Pick<AvatarCohort, "user_id" | "name" | "size" | "distribution">
+) {
+  return supabase.from("avatar_cohorts").insert(payload).select("*").single();
+}
+
+/** Removes a cohort together with its avatars. Used to roll back a batch that could not be queued. */
+export async function deleteCohortWithAvatars(supabase: SupabaseClient, cohortId: string, userId: string) {
+  const { error } = await supabase.from("avatars").delete().eq("cohort_id", cohortId).eq("user_id", userId);
+  if (error) return { error };
+  return supabase.from("avatar_cohorts").delete().eq("id", cohortId).eq("user_id", userId);
+}
+
+export async function getCohortAvatars(supabase: SupabaseClient, cohortId: string, userId: string) {
+  return supabase
+    .from("avatars")
+    .select("*")
+    .eq("cohort_id", cohortId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+}
+
+/** Status of every avatar in the user's cohorts, for progress bars on the cohort list. */
+export async function getCohortAvatarStatuses(supabase: SupabaseClient, userId: string) {
+  return supabase.from("avatars").select("id, cohort_id, status").eq("user_id", userId).not("cohort_id", "is", null);
+}
@@ -0,0 +1,83 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AvatarCollection } from "@/lib/types/collections";
+
+/** Collections with their member count, newest first. */
+export async function getCollectionsForUser(supabase: SupabaseClient, userId: string) {
+  return supabase
+    .from("avatar_collections")
+    .select("*, avatar_collection_members(count)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+}
+
+export async function getCollectionById(supabase: SupabaseClient, collectionId: string, userId: string) {
+  return supabase
+    .from("avatar_collections")
+    .select("*")
+    .eq("id", collectionId)
+    .eq("user_id", userId)
+    .maybeSingle();
+}
+
+export async function createCollection(
+  supabase: SupabaseClient,
+  payload: Pick<AvatarCollection, "user_id" | "name"> & Partial<Pick<AvatarCollection, "description">>
+) {
+  return supabase.from("avatar_collections").insert(payload).select("*").single();
+}
+
+export async function updateCollection(
+  supabase: SupabaseClient,
+  collectionId: string,
+  userId: string,
+  patch: Partial<Pick<AvatarCollection, "name" | "description">>
+) {
+  return supabase
+    .from("avatar_collections")
+    .update(patch)
+    .eq("id", collectionId)
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+}
+
+export async function deleteCollection(supabase: SupabaseClient, collectionId: string, userId: string) {
+  return supabase.from("avatar_collections").delete().eq("id", collectionId).eq("user_id", userId);
+}
+
+/** Avatars in a collection, newest first. Members can come from any workspace the collection owner belongs to. */
+export async function getCollectionAvatars(supabase: SupabaseClient, collectionId: string, userId: string) {
+  return supabase
+    .from("avatars")
+    .select("*, avatar_collection_members!inner(collection_id, user_id, created_at)")
+    .eq("avatar_collection_members.collection_id", collectionId)
+    .eq("avatar_collection_members.user_id", userId)
+    .order("created_at", { ascending: false });
+}
+
+export async function addAvatarsToCollection(
+  supabase: SupabaseClient,
+  collectionId: string,
+  userId: string,
+  avatarIds: string[]
+) {
+  return supabase.from("avatar_collection_members").upsert(
+    avatarIds.map((avatarId) => ({ collection_id: collectionId, avatar_id: avatarId, user_id: userId })),
+    { onConflict: "collection_id,avatar_id", ignoreDuplicates: true }
+  );
+}
+
+export async function removeAvatarsFromCollection(
+  supabase: SupabaseClient,
+  collectionId: string,
+  userId: string,
+  avatarIds: string[]
+) {
+  return supabase
+    .from("avatar_collection_members")
+    .delete()
+    .eq("collection_id", collectionId)
+    .eq("user_id", userId)
+    .in("avatar_id", avatarIds);
+}
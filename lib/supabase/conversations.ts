@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { AvatarConversation, AvatarConversationMessage } from "@/lib/types/conversations";
+
+/** Interview transcripts for one avatar, most recently active first. */
+export async function getConversationsForAvatar(supabase: SupabaseClient, avatarId: string, userId: string) {
+  return supabase
+    .from("avatar_conversations")
+    .select("*")
+    .eq("avatar_id", avatarId)
+    .eq("user_id", userId)
+    .order("updated_at", { ascending: false });
+}
+
+export async function getConversationById(supabase: SupabaseClient, conversationId: string, userId: string) {
+  return supabase
+    .from("avatar_conversations")
+    .select("*")
+    .eq("id", conversationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+}
+
+export async function createConversation(
+  supabase: SupabaseClient,
+  payload: Pick<AvatarConversation, "avatar_id" | "user_id" | "title" | "provider" | "model">
+) {
+  return supabase.from("avatar_conversations").insert(payload).select("*").single();
+}
+
+/** Bumps `updated_at` through the trigger so the conversation moves to the top of the list. */
+export async function touchConversation(
+  supabase: SupabaseClient,
+  conversationId: string,
+  userId: string,
+  patch: Partial<Pick<AvatarConversation, "provider" | "model">> = {}
+) {
+  return supabase
+    .from("avatar_conversations")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", conversationId)
+    .eq("user_id", userId);
+}
+
+export async function deleteConversation(supabase: SupabaseClient, conversationId: string, userId: string) {
+  return supabase.from("avatar_conversations").delete().eq("id", conversationId).eq("user_id", userId);
+}
+
+export async function getConversationMessages(supabase: SupabaseClient, conversationId: string, userId: string) {
+  return supabase
+    .from("avatar_conversation_messages")
+    .select("*")
+    .eq("conversation_id", conversationId)
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+}
+
+export async function insertConversationMessages(
+  supabase: SupabaseClient,
+  payloads: Pick<AvatarConversationMessage, "conversation_id" | "user_id" | "role" | "content" | "created_at">[]
+) {
+  return supabase.from("avatar_conversation_messages").insert(payloads).select("*");
+}
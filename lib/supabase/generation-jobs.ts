@@ -0,0 +1,76 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { GenerationJob, GenerationJobKind } from "@/lib/types/generation-jobs";
+
+export async function insertGenerationJob(
+  supabase: SupabaseClient,
+  payload: {
+    user_id: string;
+    avatar_id: string;
+    kind: GenerationJobKind;
+    payload: Record<string, unknown>;
+  } & Partial<Pick<GenerationJob, "requested_by" | "status" | "attempts" | "locked_at" | "max_attempts">>
+) {
+  return supabase.from("generation_jobs").insert(payload).select("*").single();
+}
+
+export async function insertGenerationJobs(
+  supabase: SupabaseClient,
+  payloads: ({
+    id?: string;
+    user_id: string;
+    avatar_id: string;
+    kind: GenerationJobKind;
+    payload: Record<string, unknown>;
+  } & Partial<Pick<GenerationJob, "requested_by" | "status" | "next_attempt_at">>)[]
+) {
+  return supabase.from("generation_jobs").insert(payloads).select("*");
+}
+
+export async function getGenerationJobById(supabase: SupabaseClient, jobId: string) {
+  return supabase.from("generation_jobs").select("*").eq("id", jobId).maybeSingle();
+}
+
+export async function updateGenerationJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  patch: Partial<Omit<GenerationJob, "id" | "user_id" | "avatar_id" | "kind" | "created_at" | "updated_at">>
+) {
+  return supabase.from("generation_jobs").update(patch).eq("id", jobId).select("*").maybeSingle();
+}
+
+export async function claimGenerationJobs(supabase: SupabaseClient, batchSize: number) {
+  return supabase.rpc("claim_generation_jobs", { batch_size: batchSize });
+}
+
+export async function getDeadGenerationJobs(supabase: SupabaseClient, limit = 100) {
+  return supabase
+    .from("generation_jobs")
+    .select("*")
+    .eq("status", "dead")
+    .order("updated_at", { ascending: false })
+    .limit(limit);
+}
+
+/**
+ * Jobs that stopped moving, oldest first. Dispatched scenario jobs are left out: scenes have no callback, so
+ * `dispatched` is as far as they ever get.
+ */
+export async function getStuckGenerationJobs(supabase: SupabaseClient, olderThan: Date, limit = 100) {
+  const cutoff = olderThan.toISOString();
+  return supabase
+    .from("generation_jobs")
+    .select("*")
+    .or(
+      `and(status.eq.dispatched,kind.neq.scenario,dispatched_at.lt.${cutoff}),` +
+        `and(status.eq.processing,locked_at.lt.${cutoff}),` +
+        `and(status.eq.queued,next_attempt_at.lt.${cutoff})`
+    )
+    .order("created_at", { ascending: true })
+    .limit(limit);
+}
+
+export async function isAdminUser(supabase: SupabaseClient, userId: string) {
+  const { data, error } = await supabase.from("admin_users").select("user_id").eq("user_id", userId).maybeSingle();
+  return { isAdmin: Boolean(data), error };
+}
@@ -0,0 +1,44 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { PersonaTemplate } from "@/lib/types/persona-templates";
+
+/**
+ * Built-in templates first, then the user's own templates and those shared with their workspaces, as far as RLS
+ * lets the caller see them.
+ */
+export async function getPersonaTemplates(supabase: SupabaseClient) {
+  return supabase
+    .from("persona_templates")
+    .select("*")
+    .order("is_builtin", { ascending: false })
+    .order("name", { ascending: true });
+}
+
+export async function createPersonaTemplate(
+  supabase: SupabaseClient,
+  payload: Pick<PersonaTemplate, "user_id" | "name" | "field_values" | "extra_attributes"> &
+    Partial<Pick<PersonaTemplate, "workspace_id" | "description" | "is_shared">>
+) {
+  return supabase.from("persona_templates").insert(payload).select("*").single();
+}
+
+export async function updatePersonaTemplate(
+  supabase: SupabaseClient,
+  templateId: string,
+  userId: string,
+  patch: Partial<
+    Pick<PersonaTemplate, "workspace_id" | "name" | "description" | "field_values" | "extra_attributes" | "is_shared">
+  >
+) {
+  return supabase
+    .from("persona_templates")
+    .update(patch)
+    .eq("id", templateId)
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+}
+
+export async function deletePersonaTemplate(supabase: SupabaseClient, templateId: string, userId: string) {
+  return supabase.from("persona_templates").delete().eq("id", templateId).eq("user_id", userId);
+}
@@ -0,0 +1,26 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ScenarioFields, ScenarioPrompt } from "@/lib/types/scenario-prompts";
+
+export async function getScenarioPromptsForUser(supabase: SupabaseClient, userId: string) {
+  return supabase.from("scenario_prompts").select("*").eq("user_id", userId).order("name", { ascending: true });
+}
+
+export async function getScenarioPromptsByIds(supabase: SupabaseClient, promptIds: string[], userId: string) {
+  if (promptIds.length === 0) {
+    return { data: [], error: null };
+  }
+
+  return supabase.from("scenario_prompts").select("*").in("id", promptIds).eq("user_id", userId);
+}
+
+export async function createScenarioPrompt(
+  supabase: SupabaseClient,
+  payload: Pick<ScenarioPrompt, "user_id" | "name"> & ScenarioFields
+) {
+  return supabase.from("scenario_prompts").insert(payload).select("*").single();
+}
+
+export async function deleteScenarioPrompt(supabase: SupabaseClient, promptId: string, userId: string) {
+  return supabase.from("scenario_prompts").delete().eq("id", promptId).eq("user_id", userId);
+}
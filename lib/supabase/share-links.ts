@@ -0,0 +1,46 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ShareLink, ShareTarget } from "@/lib/types/share-links";
+
+/** The owner's links for one avatar or collection, newest first. */
+export async function getShareLinksForTarget(supabase: SupabaseClient, userId: string, target: ShareTarget) {
+  const query = supabase.from("share_links").select("*").eq("user_id", userId);
+  return ("avatarId" in target
+    ? query.eq("avatar_id", target.avatarId)
+    : query.eq("collection_id", target.collectionId)
+  ).order("created_at", { ascending: false });
+}
+
+export async function createShareLink(
+  supabase: SupabaseClient,
+  payload: Pick<ShareLink, "user_id" | "token" | "expires_at"> &
+    Partial<Pick<ShareLink, "avatar_id" | "collection_id">>
+) {
+  return supabase.from("share_links").insert(payload).select("*").single();
+}
+
+export async function revokeShareLink(supabase: SupabaseClient, linkId: string, userId: string) {
+  return supabase
+    .from("share_links")
+    .update({ revoked_at: new Date().toISOString() })
+    .eq("id", linkId)
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+}
+
+export async function deleteShareLink(supabase: SupabaseClient, linkId: string, userId: string) {
+  return supabase.from("share_links").delete().eq("id", linkId).eq("user_id", userId);
+}
+
+/** Service-role only: looks a link up by its token for the public share route. */
+export async function getShareLinkByToken(supabase: SupabaseClient, token: string) {
+  return supabase.from("share_links").select("*").eq("token", token).maybeSingle();
+}
+
+export async function recordShareLinkView(supabase: SupabaseClient, link: Pick<ShareLink, "id" | "view_count">) {
+  return supabase
+    .from("share_links")
+    .update({ view_count: link.view_count + 1, last_viewed_at: new Date().toISOString() })
+    .eq("id", link.id);
+}
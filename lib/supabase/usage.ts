@@ -0,0 +1,36 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { GenerationJobKind } from "@/lib/types/generation-jobs";
+import type { GenerationCharge } from "@/lib/types/usage";
+
+export async function getGenerationUsage(supabase: SupabaseClient, userId: string) {
+  return supabase.rpc("get_generation_usage", { target_user_id: userId });
+}
+
+export async function getPlanById(supabase: SupabaseClient, planId: string) {
+  return supabase.from("plans").select("*").eq("id", planId).maybeSingle();
+}
+
+/**
+ * Service role only. Charges `units` for the job unless that would go over the user's quota; charging the same job
+ * twice is a no-op.
+ */
+export async function recordGenerationUsage(
+  supabase: SupabaseClient,
+  charge: { userId: string; kind: GenerationJobKind; jobId: string; avatarId: string; units: number }
+) {
+  return supabase
+    .rpc("record_generation_usage", {
+      target_user_id: charge.userId,
+      target_kind: charge.kind,
+      target_job_id: charge.jobId,
+      target_avatar_id: charge.avatarId,
+      target_units: charge.units,
+    })
+    .single<GenerationCharge>();
+}
+
+/** Service role only. Refunds a job that never reached n8n. */
+export async function releaseGenerationUsage(supabase: SupabaseClient, jobId: string) {
+  return supabase.from("generation_usage").delete().eq("job_id", jobId);
+}
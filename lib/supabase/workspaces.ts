@@ -0,0 +1,100 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { WorkspaceInvitation, WorkspaceMember, WorkspaceRole } from "@/lib/types/workspaces";
+
+/** The user's memberships joined with their workspace, oldest first. */
+export async function getWorkspaceMemberships(supabase: SupabaseClient, userId: string) {
+  return supabase
+    .from("workspace_members")
+    .select("*, workspace:workspaces!inner(*)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: true });
+}
+
+export async function getWorkspaceMembership(supabase: SupabaseClient, workspaceId: string, userId: string) {
+  return supabase
+    .from("workspace_members")
+    .select("*, workspace:workspaces!inner(*)")
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .maybeSingle();
+}
+
+/** Creates a shared workspace; a trigger makes the creator its owner. */
+export async function createWorkspace(supabase: SupabaseClient, userId: string, name: string) {
+  return supabase.from("workspaces").insert({ name, created_by: userId }).select("*").single();
+}
+
+export async function renameWorkspace(supabase: SupabaseClient, workspaceId: string, name: string) {
+  return supabase.from("workspaces").update({ name }).eq("id", workspaceId).select("*").single();
+}
+
+/** Deletes a shared workspace together with every avatar in it. Personal workspaces can't be deleted. */
+export async function deleteWorkspace(supabase: SupabaseClient, workspaceId: string) {
+  return supabase.from("workspaces").delete().eq("id", workspaceId).eq("is_personal", false);
+}
+
+export async function getWorkspaceMembers(supabase: SupabaseClient, workspaceId: string) {
+  return supabase
+    .from("workspace_members")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .order("created_at", { ascending: true });
+}
+
+export async function updateWorkspaceMemberRole(
+  supabase: SupabaseClient,
+  workspaceId: string,
+  userId: string,
+  role: WorkspaceRole
+) {
+  return supabase
+    .from("workspace_members")
+    .update({ role })
+    .eq("workspace_id", workspaceId)
+    .eq("user_id", userId)
+    .select("*")
+    .single();
+}
+
+/** Removes a member, or lets the caller leave when `userId` is their own id. */
+export async function removeWorkspaceMember(supabase: SupabaseClient, workspaceId: string, userId: string) {
+  return supabase.from("workspace_members").delete().eq("workspace_id", workspaceId).eq("user_id", userId);
+}
+
+/** Pending invitations, newest first. Only owners can see them. */
+export async function getWorkspaceInvitations(supabase: SupabaseClient, workspaceId: string) {
+  return supabase
+    .from("workspace_invitations")
+    .select("*")
+    .eq("workspace_id", workspaceId)
+    .is("accepted_at", null)
+    .order("created_at", { ascending: false });
+}
+
+export async function createWorkspaceInvitation(
+  supabase: SupabaseClient,
+  payload: Pick<WorkspaceInvitation, "workspace_id" | "email" | "role" | "token" | "invited_by">
+) {
+  return supabase.from("workspace_invitations").insert(payload).select("*").single();
+}
+
+/** Clears an address's expired pending invitation, which would otherwise block inviting it again. */
+export async function deleteExpiredWorkspaceInvitations(supabase: SupabaseClient, workspaceId: string, email: string) {
+  return supabase
+    .from("workspace_invitations")
+    .delete()
+    .eq("workspace_id", workspaceId)
+    .eq("email", email)
+    .is("accepted_at", null)
+    .lt("expires_at", new Date().toISOString());
+}
+
+export async function deleteWorkspaceInvitation(supabase: SupabaseClient, invitationId: string) {
+  return supabase.from("workspace_invitations").delete().eq("id", invitationId);
+}
+
+/** Joins the workspace an invitation points to; fails unless it was sent to the caller's email and is pending. */
+export async function acceptWorkspaceInvitation(supabase: SupabaseClient, token: string) {
+  return supabase.rpc("accept_workspace_invitation", { invitation_token: token }).single<WorkspaceMember>();
+}
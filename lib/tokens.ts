@@ -0,0 +1,8 @@
+// Long enough that tokens can't be guessed; share and invitation links have no other credential.
+const LINK_TOKEN_BYTES = 24;
+
+/** A random hex token for links whose URL is the credential. */
+export function createLinkToken() {
+  const bytes = crypto.getRandomValues(new Uint8Array(LINK_TOKEN_BYTES));
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
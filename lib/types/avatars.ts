@@ -1,8 +1,12 @@
 export type AvatarStatus = "pending" | "generating" | "ready" | "failed";
 
+export type AvatarGenerationOperation = "generate" | "retry" | "regenerate_persona" | "regenerate_portrait";
+
 export interface Avatar {
   id: string;
+  /** The creator; files live in their storage folder. Access is decided by membership of `workspace_id`. */
   user_id: string;
+  workspace_id: string;
   name: string;
   age: number;
   height_cm?: number | null;
@@ -15,26 +19,95 @@ export interface Avatar {
   city?: string | null;
   region?: string | null;
   country?: string | null;
-  hobbies?: string | null;
+  hobbies?: string[] | null;
   political_orientation?: string | null;
   other_traits?: string | null;
   persona_summary?: string | null;
   profile_image_path?: string | null;
   status: AvatarStatus;
   n8n_job_id?: string | null;
+  failure_reason?: string | null;
+  cohort_id?: string | null;
   extra_attributes?: Record<string, any> | null;
   created_at: string;
   updated_at: string;
 }
 
+export type NewAvatar = Omit<
+  Avatar,
+  "id" | "workspace_id" | "created_at" | "updated_at" | "persona_summary" | "profile_image_path" | "status"
+> &
+  Partial<Pick<Avatar, "workspace_id" | "persona_summary" | "profile_image_path" | "status">>;
+
+export type AvatarImageDerivativesStatus = "pending" | "processing" | "ready" | "failed" | "skipped";
+
 export interface AvatarImage {
   id: string;
   avatar_id: string;
+  /** Always the avatar's creator, whoever added the image. */
   user_id: string;
+  /** Copied from the avatar by a trigger. */
+  workspace_id: string;
   type: "profile" | "scenario";
   label?: string | null;
   description?: string | null;
   storage_path: string;
+  /** WebP variants written by the derivative worker; null until they exist. */
+  thumbnail_path: string | null;
+  medium_path: string | null;
+  derivatives_status: AvatarImageDerivativesStatus;
+  derivatives_attempts: number;
+  derivatives_locked_at: string | null;
   is_primary: boolean;
+  tags: string[];
+  position: number | null;
+  created_at: string;
+}
+
+export interface AvatarPersonaVersion {
+  id: string;
+  avatar_id: string;
+  user_id: string;
+  persona_summary: string;
+  job_id?: string | null;
+  operation?: AvatarGenerationOperation | null;
+  created_at: string;
+}
+
+export type AvatarRevisionSource = "user" | "n8n" | "restore";
+
+export type AvatarRevisionField =
+  | "name"
+  | "age"
+  | "height_cm"
+  | "skin_tone"
+  | "hair_color"
+  | "marital_status"
+  | "job_title"
+  | "industry"
+  | "address_line"
+  | "city"
+  | "region"
+  | "country"
+  | "hobbies"
+  | "political_orientation"
+  | "other_traits"
+  | "persona_summary"
+  | "extra_attributes";
+
+/** Written by a trigger on every update that changes a tracked field; see migration `0022`. */
+export interface AvatarRevision {
+  id: string;
+  avatar_id: string;
+  /** The signed-in user behind the change; null for n8n callbacks. */
+  changed_by: string | null;
+  source: AvatarRevisionSource;
+  job_id: string | null;
+  restored_from: string | null;
+  changed_fields: AvatarRevisionField[];
+  /** Every tracked field before the change. Restoring the revision writes these back. */
+  snapshot: Pick<Avatar, AvatarRevisionField>;
+  /** The changed fields after the change. */
+  changes: Partial<Pick<Avatar, AvatarRevisionField>>;
   created_at: string;
 }
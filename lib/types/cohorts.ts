@@ -0,0 +1,18 @@
+import type { AvatarStatus } from "@/lib/types/avatars";
+
+export type CohortDimension = "ageRanges" | "ethnicities" | "countries" | "energyLevels" | "extroversion";
+
+/** Relative weights per option, e.g. `{ adult: 2, senior: 1 }`. An empty dimension is left to the generator. */
+export type CohortDistribution = Record<CohortDimension, Record<string, number>>;
+
+export interface AvatarCohort {
+  id: string;
+  user_id: string;
+  name: string;
+  size: number;
+  distribution: CohortDistribution;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CohortProgress = Record<AvatarStatus, number> & { total: number };
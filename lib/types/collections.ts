@@ -0,0 +1,17 @@
+export interface AvatarCollection {
+  id: string;
+  user_id: string;
+  name: string;
+  description?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AvatarCollectionMember {
+  collection_id: string;
+  avatar_id: string;
+  user_id: string;
+  created_at: string;
+}
+
+export type AvatarCollectionWithCount = AvatarCollection & { avatar_collection_members: { count: number }[] };
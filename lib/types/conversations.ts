@@ -0,0 +1,21 @@
+export type ConversationRole = "user" | "assistant";
+
+export interface AvatarConversation {
+  id: string;
+  avatar_id: string;
+  user_id: string;
+  title: string;
+  provider: string;
+  model: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AvatarConversationMessage {
+  id: string;
+  conversation_id: string;
+  user_id: string;
+  role: ConversationRole;
+  content: string;
+  created_at: string;
+}
@@ -0,0 +1,24 @@
+export type GenerationJobKind = "avatar" | "scenario";
+
+export type GenerationJobStatus = "queued" | "processing" | "dispatched" | "completed" | "failed" | "dead";
+
+export interface GenerationJob {
+  id: string;
+  /** The avatar's creator; results are written to their storage folder. */
+  user_id: string;
+  /** Who asked for the job and is charged for it; null on jobs queued before usage metering. */
+  requested_by: string | null;
+  avatar_id: string;
+  kind: GenerationJobKind;
+  payload: Record<string, any>;
+  status: GenerationJobStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_at?: string | null;
+  dispatched_at?: string | null;
+  completed_at?: string | null;
+  last_error?: string | null;
+  created_at: string;
+  updated_at: string;
+}
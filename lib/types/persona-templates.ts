@@ -0,0 +1,37 @@
+import type { Avatar } from "@/lib/types/avatars";
+
+export type PersonaTemplateFieldValues = Partial<
+  Pick<
+    Avatar,
+    | "name"
+    | "height_cm"
+    | "skin_tone"
+    | "hair_color"
+    | "marital_status"
+    | "job_title"
+    | "industry"
+    | "address_line"
+    | "city"
+    | "region"
+    | "country"
+    | "hobbies"
+    | "political_orientation"
+    | "other_traits"
+  >
+>;
+
+export interface PersonaTemplate {
+  id: string;
+  /** Null for built-in templates. */
+  user_id: string | null;
+  /** The workspace whose members see the template when `is_shared` is set. */
+  workspace_id: string | null;
+  name: string;
+  description?: string | null;
+  field_values: PersonaTemplateFieldValues;
+  extra_attributes: Record<string, any>;
+  is_shared: boolean;
+  is_builtin: boolean;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,20 @@
+export type ScenarioAspectRatio = "1:1" | "4:5" | "3:2" | "16:9" | "9:16";
+
+/** The structured parts of a scene request. Every text part is optional; n8n fills in whatever is left open. */
+export interface ScenarioFields {
+  setting: string | null;
+  activity: string | null;
+  mood: string | null;
+  time_of_day: string | null;
+  image_count: number;
+  aspect_ratio: ScenarioAspectRatio;
+  prompt: string | null;
+}
+
+export interface ScenarioPrompt extends ScenarioFields {
+  id: string;
+  user_id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+}
@@ -0,0 +1,56 @@
+import type { Avatar, AvatarImage } from "@/lib/types/avatars";
+import type { AvatarCollection } from "@/lib/types/collections";
+
+export interface ShareLink {
+  id: string;
+  user_id: string;
+  token: string;
+  avatar_id: string | null;
+  collection_id: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
+export type ShareTarget = { avatarId: string } | { collectionId: string };
+
+/** The profile fields a share link exposes; ids of owners, jobs and cohorts stay private. */
+export type SharedAvatar = Pick<
+  Avatar,
+  | "id"
+  | "name"
+  | "age"
+  | "height_cm"
+  | "skin_tone"
+  | "hair_color"
+  | "marital_status"
+  | "job_title"
+  | "industry"
+  | "address_line"
+  | "city"
+  | "region"
+  | "country"
+  | "hobbies"
+  | "political_orientation"
+  | "other_traits"
+  | "persona_summary"
+  | "extra_attributes"
+>;
+
+export type SharedImage = Pick<AvatarImage, "id" | "type" | "label" | "description" | "tags" | "is_primary"> & {
+  url: string;
+  medium_url: string;
+};
+
+export type SharedAvatarDetail = { avatar: SharedAvatar; images: SharedImage[] };
+
+export type SharedCollection = {
+  collection: Pick<AvatarCollection, "name" | "description">;
+  avatars: (SharedAvatar & { thumbnail_url: string | null })[];
+};
+
+export type SharedContent =
+  | ({ kind: "avatar"; expiresAt: string | null } & SharedAvatarDetail)
+  | ({ kind: "collection"; expiresAt: string | null } & SharedCollection);
@@ -0,0 +1,28 @@
+import type { GenerationJobKind } from "@/lib/types/generation-jobs";
+
+export interface Plan {
+  id: string;
+  name: string;
+  /** null means unlimited. */
+  monthly_avatar_quota: number | null;
+  monthly_scenario_quota: number | null;
+  is_default: boolean;
+  created_at: string;
+}
+
+/** One row per generation kind, as returned by `get_generation_usage()` for the current calendar month (UTC). */
+export interface GenerationUsage {
+  kind: GenerationJobKind;
+  used: number;
+  quota: number | null;
+  plan_id: string;
+  period_start: string;
+  period_end: string;
+}
+
+export interface GenerationCharge {
+  allowed: boolean;
+  used: number;
+  quota: number | null;
+  period_end: string;
+}
@@ -0,0 +1,36 @@
+export type WorkspaceRole = "owner" | "editor" | "viewer";
+
+export interface Workspace {
+  id: string;
+  name: string;
+  created_by: string;
+  /** Every user has exactly one personal workspace; it can't be deleted. */
+  is_personal: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WorkspaceMember {
+  workspace_id: string;
+  user_id: string;
+  role: WorkspaceRole;
+  email: string | null;
+  created_at: string;
+}
+
+/** A membership of the signed-in user, joined with its workspace. */
+export interface WorkspaceMembership extends WorkspaceMember {
+  workspace: Workspace;
+}
+
+export interface WorkspaceInvitation {
+  id: string;
+  workspace_id: string;
+  email: string;
+  role: WorkspaceRole;
+  token: string;
+  invited_by: string;
+  expires_at: string;
+  accepted_at: string | null;
+  created_at: string;
+}
@@ -0,0 +1,34 @@
+import type { GenerationJobKind } from "@/lib/types/generation-jobs";
+import type { GenerationUsage } from "@/lib/types/usage";
+
+/** Returned as `code` with 429 responses so the browser can tell an exhausted quota from other errors. */
+export const QUOTA_EXCEEDED_CODE = "quota_exceeded";
+
+export const GENERATION_KIND_LABELS: Record<GenerationJobKind, string> = {
+  avatar: "avatar generations",
+  scenario: "scene generations",
+};
+
+export function remainingGenerations(usage: Pick<GenerationUsage, "used" | "quota">) {
+  return usage.quota === null ? Infinity : Math.max(usage.quota - usage.used, 0);
+}
+
+export function formatQuotaReset(periodEnd: string) {
+  return new Date(periodEnd).toLocaleDateString("en-US", { month: "long", day: "numeric", timeZone: "UTC" });
+}
+
+/** What the user sees when `requested` more generations of `kind` would go over their monthly quota. */
+export function quotaExceededMessage(
+  kind: GenerationJobKind,
+  usage: Pick<GenerationUsage, "used" | "quota" | "period_end">,
+  requested = 1
+) {
+  const label = GENERATION_KIND_LABELS[kind];
+  const remaining = remainingGenerations(usage);
+  const resets = `Your quota resets on ${formatQuotaReset(usage.period_end)}.`;
+
+  if (remaining === 0) {
+    return `You’ve used all ${usage.quota} ${label} included in your plan this month. ${resets}`;
+  }
+  return `This needs ${requested} ${label}, but you have ${remaining} left this month. ${resets}`;
+}
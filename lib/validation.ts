@@ -0,0 +1,8 @@
+/** What every request and payload parser returns: the parsed value, or the messages explaining why it was rejected. */
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+export const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,82 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import { readCookie } from "@/lib/request-id";
+import { getWorkspaceMemberships } from "@/lib/supabase/workspaces";
+import type { WorkspaceMembership, WorkspaceRole } from "@/lib/types/workspaces";
+import type { ParseResult } from "@/lib/validation";
+
+/** Cookie holding the id of the workspace the user last switched to; read by pages and route handlers alike. */
+export const WORKSPACE_COOKIE = "workspaceId";
+
+export const MAX_WORKSPACE_NAME_LENGTH = 80;
+
+export const WORKSPACE_ROLES: { value: WorkspaceRole; label: string; description: string }[] = [
+  { value: "viewer", label: "Viewer", description: "Can browse avatars, images and persona history." },
+  { value: "editor", label: "Editor", description: "Can also create, edit, generate and delete avatars." },
+  { value: "owner", label: "Owner", description: "Can also manage members, invitations and the workspace." },
+];
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 0, editor: 1, owner: 2 };
+
+export function hasWorkspaceRole(role: WorkspaceRole | null | undefined, minRole: WorkspaceRole) {
+  return role ? ROLE_RANK[role] >= ROLE_RANK[minRole] : false;
+}
+
+/** Personal workspace first, then shared workspaces by name. */
+export function sortMemberships(memberships: WorkspaceMembership[]) {
+  return [...memberships].sort(
+    (a, b) =>
+      Number(b.workspace.is_personal) - Number(a.workspace.is_personal) ||
+      a.workspace.name.localeCompare(b.workspace.name)
+  );
+}
+
+/** The membership for `preferredId` if the user still belongs to it, otherwise their personal workspace. */
+export function pickActiveMembership(memberships: WorkspaceMembership[], preferredId: string | null | undefined) {
+  return (
+    memberships.find((membership) => membership.workspace_id === preferredId) ??
+    memberships.find((membership) => membership.workspace.is_personal) ??
+    memberships[0] ??
+    null
+  );
+}
+
+/** Loads the user's memberships and picks the active one; `preferredId` is the `workspaceId` cookie value. */
+export async function resolveActiveWorkspace(
+  supabase: SupabaseClient,
+  userId: string,
+  preferredId: string | null | undefined
+) {
+  const { data, error } = await getWorkspaceMemberships(supabase, userId);
+  if (error) return { membership: null, error };
+  return { membership: pickActiveMembership((data ?? []) as WorkspaceMembership[], preferredId), error: null };
+}
+
+export function getActiveWorkspaceId() {
+  return readCookie(WORKSPACE_COOKIE);
+}
+
+export function setActiveWorkspaceId(workspaceId: string) {
+  document.cookie = `${WORKSPACE_COOKIE}=${workspaceId}; path=/; max-age=31536000; samesite=lax`;
+}
+
+export function buildInvitationUrl(origin: string, token: string) {
+  return `${origin}/invitations/${token}`;
+}
+
+export function parseInvitationInput(
+  body: Record<string, unknown>
+): ParseResult<{ email: string; role: WorkspaceRole }> {
+  const errors: string[] = [];
+  const email = typeof body.email === "string" ? body.email.trim().toLowerCase() : "";
+  const role = body.role ?? "editor";
+
+  if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    errors.push("email must be a valid email address.");
+  }
+  if (typeof role !== "string" || !Object.prototype.hasOwnProperty.call(ROLE_RANK, role)) {
+    errors.push(`role must be one of ${Object.keys(ROLE_RANK).join(", ")}.`);
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: { email, role: role as WorkspaceRole } };
+}
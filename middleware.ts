@@ -1,6 +1,7 @@
 import { NextResponse, type NextRequest } from "next/server";
 
 import { createRequestId, logger } from "./lib/logger";
+import { checkRateLimit, findRateLimitPolicy, getClientIp, rateLimitResponse } from "./lib/rate-limit";
 
 function shouldLogRequest(path: string) {
   if (path.startsWith("/_next") || path.startsWith("/favicon") || path.startsWith("/assets")) {
@@ -9,10 +10,36 @@ function shouldLogRequest(path: string) {
   return true;
 }
 
-export function middleware(request: NextRequest) {
+// Share and invitation tokens are credentials; keep them out of request logs.
+function redactPath(path: string) {
+  return path.replace(/^(\/(?:api\/)?(?:share|invitations)\/)[^/]+/, "$1[token]");
+}
+
+export async function middleware(request: NextRequest) {
   const existingRequestId =
     request.headers.get("x-request-id") ?? request.cookies.get("requestId")?.value ?? createRequestId();
 
+  // Per-IP limits run here, before any handler; route handlers add per-user limits with `requireRateLimit`. Without a
+  // known client address only the per-user limits apply.
+  const policy = findRateLimitPolicy(request.method, request.nextUrl.pathname);
+  const clientIp = policy ? getClientIp(request) : null;
+  if (policy && clientIp) {
+    const result = await checkRateLimit(
+      policy,
+      { ip: clientIp },
+      {
+        scope: "http.ratelimit",
+        requestId: existingRequestId,
+        http: { method: request.method, path: redactPath(request.nextUrl.pathname) },
+      }
+    );
+    if (!result.allowed) {
+      const limited = rateLimitResponse(result);
+      limited.headers.set("x-request-id", existingRequestId);
+      return limited;
+    }
+  }
+
   const requestHeaders = new Headers(request.headers);
   requestHeaders.set("x-request-id", existingRequestId);
 
@@ -39,7 +66,7 @@ export function middleware(request: NextRequest) {
       requestId: existingRequestId,
       http: {
         method: request.method,
-        path: request.nextUrl.pathname,
+        path: redactPath(request.nextUrl.pathname),
       },
     });
   }
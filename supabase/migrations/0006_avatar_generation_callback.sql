@@ -0,0 +1,5 @@
+-- Track why a generation run failed when n8n reports back through the callback route
+alter table public.avatars
+  add column if not exists failure_reason text null;
+
+create index if not exists avatars_n8n_job_id_idx on public.avatars (n8n_job_id);
@@ -0,0 +1,68 @@
+-- Durable queue for avatar and scenario generation requests sent to n8n
+create table if not exists public.generation_jobs (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  avatar_id uuid not null references public.avatars(id) on delete cascade,
+  kind text not null check (kind in ('avatar', 'scenario')),
+  payload jsonb not null default '{}'::jsonb,
+  status text not null default 'queued'
+    check (status in ('queued', 'processing', 'dispatched', 'completed', 'failed', 'dead')),
+  attempts int2 not null default 0,
+  max_attempts int2 not null default 5,
+  next_attempt_at timestamptz not null default timezone('utc', now()),
+  locked_at timestamptz null,
+  dispatched_at timestamptz null,
+  completed_at timestamptz null,
+  last_error text null
+);
+
+create index if not exists generation_jobs_user_id_idx on public.generation_jobs (user_id);
+create index if not exists generation_jobs_avatar_id_idx on public.generation_jobs (avatar_id);
+create index if not exists generation_jobs_due_idx on public.generation_jobs (status, next_attempt_at);
+
+create trigger set_generation_jobs_updated_at
+before update on public.generation_jobs
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+-- Users can see their own jobs; only the service role (API routes and the worker) writes to the queue.
+alter table public.generation_jobs enable row level security;
+
+create policy "Users can select their generation jobs" on public.generation_jobs
+  for select using (auth.uid() = user_id);
+
+-- Claim due jobs for the worker. Jobs stuck in processing (e.g. a crashed worker) are reclaimed after five minutes.
+create or replace function public.claim_generation_jobs(batch_size int default 5)
+returns setof public.generation_jobs
+language sql
+set search_path = public
+as $$
+  update public.generation_jobs
+    set status = 'processing',
+        locked_at = timezone('utc', now()),
+        attempts = attempts + 1
+    where id in (
+      select id from public.generation_jobs
+        where (status = 'queued' and next_attempt_at <= timezone('utc', now()))
+           or (status = 'processing' and locked_at < timezone('utc', now()) - interval '5 minutes')
+        order by next_attempt_at
+        for update skip locked
+        limit batch_size
+    )
+    returning *;
+$$;
+
+revoke execute on function public.claim_generation_jobs(int) from public, anon, authenticated;
+
+-- Operators who can review stuck and dead jobs from /admin/jobs. Rows are managed with the service role only.
+create table if not exists public.admin_users (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+alter table public.admin_users enable row level security;
+
+create policy "Users can see their own admin membership" on public.admin_users
+  for select using (auth.uid() = user_id);
@@ -0,0 +1,21 @@
+-- Broadcast avatar and image changes over Supabase Realtime. Subscribers only receive rows their RLS policies allow.
+do $$
+begin
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'avatars'
+  ) then
+    alter publication supabase_realtime add table public.avatars;
+  end if;
+
+  if not exists (
+    select 1 from pg_publication_tables
+    where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = 'avatar_images'
+  ) then
+    alter publication supabase_realtime add table public.avatar_images;
+  end if;
+end;
+$$;
+
+-- Include the full old row in delete events so clients can tell which avatar an image belonged to.
+alter table public.avatar_images replica identity full;
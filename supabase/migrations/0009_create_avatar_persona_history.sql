@@ -0,0 +1,20 @@
+-- Previous persona narratives, kept when a retry or regeneration replaces the current summary
+create table if not exists public.avatar_persona_history (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  avatar_id uuid not null references public.avatars(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  persona_summary text not null,
+  job_id text null,
+  operation text null
+);
+
+create index if not exists avatar_persona_history_avatar_id_idx on public.avatar_persona_history (avatar_id);
+
+alter table public.avatar_persona_history enable row level security;
+
+create policy "Users can select their persona history" on public.avatar_persona_history
+  for select using (auth.uid() = user_id);
+
+create policy "Users can delete their persona history" on public.avatar_persona_history
+  for delete using (auth.uid() = user_id);
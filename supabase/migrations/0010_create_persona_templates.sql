@@ -0,0 +1,81 @@
+-- Named presets of avatar field values that can be applied in the new-avatar wizard
+create table if not exists public.persona_templates (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  user_id uuid null references auth.users(id) on delete cascade,
+  name text not null,
+  description text null,
+  -- Avatar columns (name, job_title, hobbies, ...) keyed by column name
+  field_values jsonb not null default '{}'::jsonb,
+  extra_attributes jsonb not null default '{}'::jsonb,
+  is_shared boolean not null default false,
+  is_builtin boolean not null default false,
+  constraint persona_templates_owner_check check (is_builtin = (user_id is null))
+);
+
+create index if not exists persona_templates_user_id_idx on public.persona_templates (user_id);
+
+create trigger set_persona_templates_updated_at
+before update on public.persona_templates
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.persona_templates enable row level security;
+
+create policy "Users can select their own, shared and built-in templates" on public.persona_templates
+  for select using (is_builtin or auth.uid() = user_id or (is_shared and auth.role() = 'authenticated'));
+
+create policy "Users can insert their templates" on public.persona_templates
+  for insert with check (auth.uid() = user_id and not is_builtin);
+
+create policy "Users can update their templates" on public.persona_templates
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id and not is_builtin);
+
+create policy "Users can delete their templates" on public.persona_templates
+  for delete using (auth.uid() = user_id);
+
+-- Built-in templates
+insert into public.persona_templates (id, name, description, field_values, extra_attributes, is_builtin)
+values
+  (
+    '00000000-0000-4000-8000-000000000101',
+    'Rural retiree',
+    'Recently retired, lives outside a small town and keeps busy with the garden and the local community.',
+    '{"job_title": "Retired", "industry": "Agriculture", "marital_status": "Married", "hobbies": ["Gardening", "Fishing", "Volunteering"]}'::jsonb,
+    '{"age_range": "senior", "energy_level": 2, "extroversion": 3}'::jsonb,
+    true
+  ),
+  (
+    '00000000-0000-4000-8000-000000000102',
+    'Gen Z gig worker',
+    'Juggles delivery shifts and side hustles from a phone; digital native with an irregular schedule.',
+    '{"job_title": "Delivery rider", "industry": "Logistics", "marital_status": "Single", "hobbies": ["Video games", "Cycling", "Photography"]}'::jsonb,
+    '{"age_range": "young-adult", "energy_level": 4, "extroversion": 3}'::jsonb,
+    true
+  ),
+  (
+    '00000000-0000-4000-8000-000000000103',
+    'Suburban parent',
+    'Works full time while raising school-age kids; plans everything around the family calendar.',
+    '{"job_title": "Office manager", "marital_status": "Married", "hobbies": ["Baking", "Running", "Board games"]}'::jsonb,
+    '{"age_range": "adult", "energy_level": 3, "extroversion": 3}'::jsonb,
+    true
+  ),
+  (
+    '00000000-0000-4000-8000-000000000104',
+    'Urban young professional',
+    'Early-career knowledge worker renting in a big city, career-focused and socially active.',
+    '{"job_title": "Software developer", "industry": "Technology", "marital_status": "In a relationship", "hobbies": ["Yoga", "Reading", "Hiking"]}'::jsonb,
+    '{"age_range": "young-adult", "energy_level": 4, "extroversion": 4}'::jsonb,
+    true
+  ),
+  (
+    '00000000-0000-4000-8000-000000000105',
+    'Small business owner',
+    'Runs a neighbourhood shop with a handful of staff and wears every hat in the business.',
+    '{"job_title": "Shop owner", "industry": "Retail", "hobbies": ["Fishing", "Reading"]}'::jsonb,
+    '{"age_range": "middle-aged", "energy_level": 4, "extroversion": 4}'::jsonb,
+    true
+  )
+on conflict (id) do nothing;
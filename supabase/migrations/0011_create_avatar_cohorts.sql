@@ -0,0 +1,37 @@
+-- Cohorts group avatars forged together in one batch from a set of target distributions
+create table if not exists public.avatar_cohorts (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  size int2 not null check (size between 1 and 200),
+  -- Target weights per dimension, e.g. {"ageRanges": {"adult": 2, "senior": 1}, "countries": {...}}
+  distribution jsonb not null default '{}'::jsonb
+);
+
+create index if not exists avatar_cohorts_user_id_idx on public.avatar_cohorts (user_id);
+
+create trigger set_avatar_cohorts_updated_at
+before update on public.avatar_cohorts
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.avatar_cohorts enable row level security;
+
+create policy "Users can select their cohorts" on public.avatar_cohorts
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their cohorts" on public.avatar_cohorts
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their cohorts" on public.avatar_cohorts
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can delete their cohorts" on public.avatar_cohorts
+  for delete using (auth.uid() = user_id);
+
+alter table public.avatars
+  add column if not exists cohort_id uuid null references public.avatar_cohorts(id) on delete set null;
+
+create index if not exists avatars_cohort_id_idx on public.avatars (cohort_id);
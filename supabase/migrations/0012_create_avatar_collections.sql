@@ -0,0 +1,59 @@
+-- Named collections (projects) that group avatars; an avatar can belong to any number of them
+create table if not exists public.avatar_collections (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  description text null
+);
+
+create index if not exists avatar_collections_user_id_idx on public.avatar_collections (user_id);
+
+create trigger set_avatar_collections_updated_at
+before update on public.avatar_collections
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+create table if not exists public.avatar_collection_members (
+  collection_id uuid not null references public.avatar_collections(id) on delete cascade,
+  avatar_id uuid not null references public.avatars(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (collection_id, avatar_id)
+);
+
+create index if not exists avatar_collection_members_avatar_id_idx on public.avatar_collection_members (avatar_id);
+
+alter table public.avatar_collections enable row level security;
+alter table public.avatar_collection_members enable row level security;
+
+create policy "Users can select their collections" on public.avatar_collections
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their collections" on public.avatar_collections
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their collections" on public.avatar_collections
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can delete their collections" on public.avatar_collections
+  for delete using (auth.uid() = user_id);
+
+create policy "Users can select their collection members" on public.avatar_collection_members
+  for select using (auth.uid() = user_id);
+
+-- Both the collection and the avatar must belong to the caller
+create policy "Users can insert their collection members" on public.avatar_collection_members
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.avatar_collections c where c.id = collection_id and c.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.avatars a where a.id = avatar_id and a.user_id = auth.uid()
+    )
+  );
+
+create policy "Users can delete their collection members" on public.avatar_collection_members
+  for delete using (auth.uid() = user_id);
@@ -0,0 +1,10 @@
+-- Full-text search over the persona narrative and free-form traits, plus indexes for list filters
+alter table public.avatars
+  add column if not exists search_vector tsvector
+  generated always as (
+    to_tsvector('english', coalesce(persona_summary, '') || ' ' || coalesce(other_traits, ''))
+  ) stored;
+
+create index if not exists avatars_search_vector_idx on public.avatars using gin (search_vector);
+create index if not exists avatars_hobbies_idx on public.avatars using gin (hobbies);
+create index if not exists avatars_user_id_created_at_idx on public.avatars (user_id, created_at desc);
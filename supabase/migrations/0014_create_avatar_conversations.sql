@@ -0,0 +1,60 @@
+-- "Interview the persona" transcripts: one conversation per chat session with an avatar, and its messages in order
+create table if not exists public.avatar_conversations (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  avatar_id uuid not null references public.avatars(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  title text not null,
+  provider text not null,
+  model text not null
+);
+
+create index if not exists avatar_conversations_avatar_id_idx
+  on public.avatar_conversations (avatar_id, updated_at desc);
+
+create trigger set_avatar_conversations_updated_at
+before update on public.avatar_conversations
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+create table if not exists public.avatar_conversation_messages (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  conversation_id uuid not null references public.avatar_conversations(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null
+);
+
+create index if not exists avatar_conversation_messages_conversation_id_idx
+  on public.avatar_conversation_messages (conversation_id, created_at);
+
+alter table public.avatar_conversations enable row level security;
+alter table public.avatar_conversation_messages enable row level security;
+
+create policy "Users can select their conversations" on public.avatar_conversations
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert conversations for their avatars" on public.avatar_conversations
+  for insert with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.avatars a where a.id = avatar_id and a.user_id = auth.uid())
+  );
+
+create policy "Users can update their conversations" on public.avatar_conversations
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can delete their conversations" on public.avatar_conversations
+  for delete using (auth.uid() = user_id);
+
+create policy "Users can select their conversation messages" on public.avatar_conversation_messages
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert messages into their conversations" on public.avatar_conversation_messages
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.avatar_conversations c where c.id = conversation_id and c.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,37 @@
+-- Per-user library of named, structured scenario prompts used to request scenes
+create table if not exists public.scenario_prompts (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  setting text null,
+  activity text null,
+  mood text null,
+  time_of_day text null,
+  image_count smallint not null default 1 check (image_count between 1 and 4),
+  aspect_ratio text not null default '1:1' check (aspect_ratio in ('1:1', '4:5', '3:2', '16:9', '9:16')),
+  prompt text null,
+  unique (user_id, name)
+);
+
+create index if not exists scenario_prompts_user_id_idx on public.scenario_prompts (user_id);
+
+create trigger set_scenario_prompts_updated_at
+before update on public.scenario_prompts
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.scenario_prompts enable row level security;
+
+create policy "Users can select their scenario prompts" on public.scenario_prompts
+  for select using (auth.uid() = user_id);
+
+create policy "Users can insert their scenario prompts" on public.scenario_prompts
+  for insert with check (auth.uid() = user_id);
+
+create policy "Users can update their scenario prompts" on public.scenario_prompts
+  for update using (auth.uid() = user_id) with check (auth.uid() = user_id);
+
+create policy "Users can delete their scenario prompts" on public.scenario_prompts
+  for delete using (auth.uid() = user_id);
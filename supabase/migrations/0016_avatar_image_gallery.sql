@@ -0,0 +1,59 @@
+-- Gallery management: free-form tags and a user-controlled display order for avatar images
+alter table public.avatar_images
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists position integer null;
+
+-- Existing images keep their current order: newest first within each avatar
+update public.avatar_images as images
+  set position = ordered.row_number
+  from (
+    select id, row_number() over (partition by avatar_id order by created_at desc) - 1 as row_number
+    from public.avatar_images
+  ) as ordered
+  where images.id = ordered.id and images.position is null;
+
+create index if not exists avatar_images_avatar_id_position_idx on public.avatar_images (avatar_id, position);
+create index if not exists avatar_images_tags_idx on public.avatar_images using gin (tags);
+
+-- New images (including ones written by n8n) go to the front of the gallery unless a position is given
+create or replace function public.set_avatar_image_position()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.position is null then
+    select coalesce(min(position), 0) - 1 into new.position
+    from public.avatar_images
+    where avatar_id = new.avatar_id;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger set_avatar_images_position
+before insert on public.avatar_images
+for each row
+execute function public.set_avatar_image_position();
+
+-- Stores a new gallery order in one call; ids that are not the caller's images of this avatar are ignored
+create or replace function public.reorder_avatar_images(target_avatar_id uuid, ordered_image_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or not exists (
+    select 1 from public.avatars where id = target_avatar_id and user_id = auth.uid()
+  ) then
+    raise exception 'Not authorized to reorder images of this avatar';
+  end if;
+
+  update public.avatar_images as images
+    set position = ordered.ordinality - 1
+    from unnest(ordered_image_ids) with ordinality as ordered(id, ordinality)
+    where images.id = ordered.id
+      and images.avatar_id = target_avatar_id
+      and images.user_id = auth.uid();
+end;
+$$;
@@ -0,0 +1,5 @@
+-- Direct uploads: the avatars bucket only accepts JPEG, PNG and WebP images of at most 10 MB
+update storage.buckets
+  set file_size_limit = 10485760,
+    allowed_mime_types = array['image/jpeg', 'image/png', 'image/webp']
+  where id = 'avatars';
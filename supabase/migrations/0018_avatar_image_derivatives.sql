@@ -0,0 +1,89 @@
+-- Thumbnail and medium WebP variants of each avatar image, produced by the server's derivative worker
+alter table public.avatar_images
+  add column if not exists thumbnail_path text null,
+  add column if not exists medium_path text null,
+  add column if not exists derivatives_status text not null default 'pending'
+    check (derivatives_status in ('pending', 'processing', 'ready', 'failed', 'skipped')),
+  add column if not exists derivatives_attempts int2 not null default 0,
+  add column if not exists derivatives_locked_at timestamptz null;
+
+create index if not exists avatar_images_derivatives_due_idx on public.avatar_images (derivatives_status)
+  where derivatives_status in ('pending', 'processing');
+
+-- Every new image (and any image whose file is replaced) is queued for derivatives. Absolute URLs are not in our
+-- bucket, so there is nothing to resize.
+create or replace function public.queue_avatar_image_derivatives()
+returns trigger
+language plpgsql
+as $$
+begin
+  if tg_op = 'UPDATE' and new.storage_path is not distinct from old.storage_path then
+    return new;
+  end if;
+
+  new.thumbnail_path := null;
+  new.medium_path := null;
+  new.derivatives_attempts := 0;
+  new.derivatives_locked_at := null;
+  new.derivatives_status := case when new.storage_path like 'http%' then 'skipped' else 'pending' end;
+  return new;
+end;
+$$;
+
+create trigger queue_avatar_images_derivatives
+before insert or update of storage_path on public.avatar_images
+for each row
+execute function public.queue_avatar_image_derivatives();
+
+-- The derivative worker reads and writes storage with the service role, going by the paths on the row. Keep every
+-- path inside `<user_id>/<avatar_id>/`, so a row can't point the worker (or a signed URL) at someone else's files.
+create or replace function public.check_avatar_image_paths()
+returns trigger
+language plpgsql
+as $$
+declare
+  folder text := new.user_id::text || '/' || new.avatar_id::text || '/';
+  path text;
+begin
+  foreach path in array array[new.storage_path, new.thumbnail_path, new.medium_path] loop
+    if path is not null
+      and path not like 'http%'
+      and (left(path, char_length(folder)) <> folder or position('..' in path) > 0)
+    then
+      raise exception 'Image paths must live under %', folder;
+    end if;
+  end loop;
+  return new;
+end;
+$$;
+
+create trigger check_avatar_images_paths
+before insert or update of storage_path, thumbnail_path, medium_path, user_id, avatar_id on public.avatar_images
+for each row
+execute function public.check_avatar_image_paths();
+
+-- Existing images are backfilled by the worker
+update public.avatar_images set derivatives_status = 'skipped' where storage_path like 'http%';
+
+-- Claim images that still need derivatives. Claims stuck in processing are reclaimed after five minutes.
+create or replace function public.claim_avatar_image_derivatives(batch_size int default 5)
+returns setof public.avatar_images
+language sql
+set search_path = public
+as $$
+  update public.avatar_images
+    set derivatives_status = 'processing',
+        derivatives_locked_at = timezone('utc', now()),
+        derivatives_attempts = derivatives_attempts + 1
+    where id in (
+      select id from public.avatar_images
+        where derivatives_status = 'pending'
+           or (derivatives_status = 'processing' and derivatives_locked_at < timezone('utc', now()) - interval '5 minutes')
+        order by created_at desc
+        for update skip locked
+        limit batch_size
+    )
+    returning *;
+$$;
+
+revoke execute on function public.claim_avatar_image_derivatives(int) from public, anon, authenticated;
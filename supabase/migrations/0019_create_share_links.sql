@@ -0,0 +1,54 @@
+-- Read-only share links for a single avatar or a whole collection, opened at /share/<token> without an account.
+-- The public route reads them with the service role; RLS below only covers the owner managing their links.
+create table if not exists public.share_links (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  token text not null unique check (char_length(token) >= 32),
+  avatar_id uuid null references public.avatars(id) on delete cascade,
+  collection_id uuid null references public.avatar_collections(id) on delete cascade,
+  expires_at timestamptz null,
+  revoked_at timestamptz null,
+  view_count integer not null default 0,
+  last_viewed_at timestamptz null,
+  check ((avatar_id is null) <> (collection_id is null))
+);
+
+create index if not exists share_links_user_id_idx on public.share_links (user_id);
+create index if not exists share_links_avatar_id_idx on public.share_links (avatar_id);
+create index if not exists share_links_collection_id_idx on public.share_links (collection_id);
+
+alter table public.share_links enable row level security;
+
+create policy "Users can select their share links" on public.share_links
+  for select using (auth.uid() = user_id);
+
+-- The shared avatar or collection must belong to the caller, also when a link is edited
+create policy "Users can insert their share links" on public.share_links
+  for insert with check (
+    auth.uid() = user_id
+    and (
+      avatar_id is null
+      or exists (select 1 from public.avatars a where a.id = avatar_id and a.user_id = auth.uid())
+    )
+    and (
+      collection_id is null
+      or exists (select 1 from public.avatar_collections c where c.id = collection_id and c.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can update their share links" on public.share_links
+  for update using (auth.uid() = user_id) with check (
+    auth.uid() = user_id
+    and (
+      avatar_id is null
+      or exists (select 1 from public.avatars a where a.id = avatar_id and a.user_id = auth.uid())
+    )
+    and (
+      collection_id is null
+      or exists (select 1 from public.avatar_collections c where c.id = collection_id and c.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can delete their share links" on public.share_links
+  for delete using (auth.uid() = user_id);
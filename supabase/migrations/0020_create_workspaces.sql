@@ -0,0 +1,206 @@
+-- Team workspaces: avatars belong to a workspace, and members see or edit them according to their role.
+-- Every user gets a personal workspace, so existing data and single-user setups keep working unchanged.
+create table if not exists public.workspaces (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  name text not null check (char_length(name) between 1 and 80),
+  created_by uuid not null references auth.users(id) on delete cascade,
+  is_personal boolean not null default false
+);
+
+create unique index if not exists workspaces_personal_idx on public.workspaces (created_by) where is_personal;
+
+create trigger set_workspaces_updated_at
+before update on public.workspaces
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+create table if not exists public.workspace_members (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  -- Copied from auth.users so members can see who else is in the workspace
+  email text null,
+  created_at timestamptz not null default timezone('utc', now()),
+  primary key (workspace_id, user_id)
+);
+
+create index if not exists workspace_members_user_id_idx on public.workspace_members (user_id);
+
+create table if not exists public.workspace_invitations (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  email text not null check (email = lower(email)),
+  role text not null check (role in ('owner', 'editor', 'viewer')),
+  token text not null unique check (char_length(token) >= 32),
+  invited_by uuid not null references auth.users(id) on delete cascade,
+  expires_at timestamptz not null default timezone('utc', now()) + interval '14 days',
+  accepted_at timestamptz null
+);
+
+create index if not exists workspace_invitations_workspace_id_idx on public.workspace_invitations (workspace_id);
+create unique index if not exists workspace_invitations_pending_idx
+  on public.workspace_invitations (workspace_id, email) where accepted_at is null;
+
+-- True when the caller belongs to the workspace with at least `min_role` (viewer < editor < owner). Security definer
+-- so policies on other tables can call it without tripping over the membership table's own RLS.
+create or replace function public.has_workspace_role(target_workspace_id uuid, min_role text default 'viewer')
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from public.workspace_members m
+    where m.workspace_id = target_workspace_id
+      and m.user_id = auth.uid()
+      and array_position(array['viewer', 'editor', 'owner'], m.role)
+        >= array_position(array['viewer', 'editor', 'owner'], min_role)
+  );
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+alter table public.workspace_invitations enable row level security;
+
+-- Creators can always see their workspace, so `insert ... returning` works before the owner row exists
+create policy "Users can select their workspaces" on public.workspaces
+  for select using (auth.uid() = created_by or public.has_workspace_role(id, 'viewer'));
+
+create policy "Users can create workspaces" on public.workspaces
+  for insert with check (auth.uid() = created_by and not is_personal);
+
+create policy "Users can update workspaces they own" on public.workspaces
+  for update using (public.has_workspace_role(id, 'owner')) with check (public.has_workspace_role(id, 'owner'));
+
+create policy "Users can delete shared workspaces they own" on public.workspaces
+  for delete using (public.has_workspace_role(id, 'owner') and not is_personal);
+
+create policy "Users can select members of their workspaces" on public.workspace_members
+  for select using (public.has_workspace_role(workspace_id, 'viewer'));
+
+-- Owners manage membership; anyone can leave a workspace
+create policy "Users can update members of workspaces they own" on public.workspace_members
+  for update using (public.has_workspace_role(workspace_id, 'owner'))
+  with check (public.has_workspace_role(workspace_id, 'owner'));
+
+create policy "Users can remove members or leave workspaces" on public.workspace_members
+  for delete using (public.has_workspace_role(workspace_id, 'owner') or auth.uid() = user_id);
+
+create policy "Users can select invitations of workspaces they own" on public.workspace_invitations
+  for select using (public.has_workspace_role(workspace_id, 'owner'));
+
+create policy "Users can create invitations for workspaces they own" on public.workspace_invitations
+  for insert with check (public.has_workspace_role(workspace_id, 'owner') and auth.uid() = invited_by);
+
+create policy "Users can delete invitations of workspaces they own" on public.workspace_invitations
+  for delete using (public.has_workspace_role(workspace_id, 'owner'));
+
+-- The creator of a new workspace becomes its first owner
+create or replace function public.add_workspace_creator()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.workspace_members (workspace_id, user_id, role, email)
+  select new.id, new.created_by, 'owner', u.email from auth.users u where u.id = new.created_by
+  on conflict (workspace_id, user_id) do nothing;
+  return new;
+end;
+$$;
+
+create trigger add_workspaces_creator
+after insert on public.workspaces
+for each row
+execute function public.add_workspace_creator();
+
+-- Keep at least one owner, so a workspace can never be orphaned
+create or replace function public.keep_workspace_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.role = 'owner'
+    and (tg_op = 'DELETE' or new.role <> 'owner')
+    and exists (select 1 from public.workspaces w where w.id = old.workspace_id)
+    and not exists (
+      select 1 from public.workspace_members m
+      where m.workspace_id = old.workspace_id and m.role = 'owner' and m.user_id <> old.user_id
+    )
+  then
+    raise exception 'A workspace needs at least one owner';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+create trigger keep_workspace_members_owner
+before update or delete on public.workspace_members
+for each row
+execute function public.keep_workspace_owner();
+
+-- Personal workspaces for new and existing users
+create or replace function public.create_personal_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.workspaces (name, created_by, is_personal)
+  values ('Personal', new.id, true)
+  on conflict do nothing;
+  return new;
+end;
+$$;
+
+drop trigger if exists create_personal_workspace_for_new_user on auth.users;
+
+create trigger create_personal_workspace_for_new_user
+  after insert on auth.users
+  for each row execute function public.create_personal_workspace();
+
+insert into public.workspaces (name, created_by, is_personal)
+select 'Personal', u.id, true from auth.users u
+on conflict do nothing;
+
+-- Accepts an invitation for the signed-in user. The invitation must be addressed to their email and still pending.
+create or replace function public.accept_workspace_invitation(invitation_token text)
+returns public.workspace_members
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  invitation public.workspace_invitations%rowtype;
+  caller_email text;
+  membership public.workspace_members%rowtype;
+begin
+  select lower(email) into caller_email from auth.users where id = auth.uid();
+  if caller_email is null then
+    raise exception 'Sign in to accept this invitation';
+  end if;
+
+  select * into invitation from public.workspace_invitations where token = invitation_token for update;
+  if not found or invitation.accepted_at is not null or invitation.expires_at < timezone('utc', now()) then
+    raise exception 'This invitation is no longer valid';
+  end if;
+  if invitation.email <> caller_email then
+    raise exception 'This invitation was sent to a different email address';
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, role, email)
+  values (invitation.workspace_id, auth.uid(), invitation.role, caller_email)
+  on conflict (workspace_id, user_id) do update set role = excluded.role
+  returning * into membership;
+
+  update public.workspace_invitations set accepted_at = timezone('utc', now()) where id = invitation.id;
+
+  return membership;
+end;
+$$;
@@ -0,0 +1,345 @@
+-- Moves avatars, their images and files from per-user ownership to workspace membership. `user_id` stays on every
+-- row as the creator (and the storage folder owner); access is now decided by the caller's role in the workspace.
+alter table public.avatars
+  add column if not exists workspace_id uuid null references public.workspaces(id) on delete cascade;
+alter table public.avatar_images
+  add column if not exists workspace_id uuid null references public.workspaces(id) on delete cascade;
+alter table public.persona_templates
+  add column if not exists workspace_id uuid null references public.workspaces(id) on delete cascade;
+
+update public.avatars a
+  set workspace_id = w.id
+  from public.workspaces w
+  where a.workspace_id is null and w.created_by = a.user_id and w.is_personal;
+
+update public.avatar_images i
+  set workspace_id = a.workspace_id
+  from public.avatars a
+  where i.workspace_id is null and a.id = i.avatar_id;
+
+-- Templates that were shared with everyone are now shared with their owner's personal workspace only
+update public.persona_templates t
+  set workspace_id = w.id
+  from public.workspaces w
+  where t.workspace_id is null and not t.is_builtin and w.created_by = t.user_id and w.is_personal;
+
+alter table public.avatars alter column workspace_id set not null;
+alter table public.avatar_images alter column workspace_id set not null;
+
+create index if not exists avatars_workspace_id_created_at_idx on public.avatars (workspace_id, created_at desc);
+create index if not exists avatar_images_workspace_id_idx on public.avatar_images (workspace_id);
+create index if not exists persona_templates_workspace_id_idx on public.persona_templates (workspace_id);
+
+-- New avatars land in the creator's personal workspace unless the insert names one. Images always follow their
+-- avatar, so the n8n callback, imports and uploads never have to know about workspaces.
+create or replace function public.set_avatar_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.workspace_id is null then
+    select w.id into new.workspace_id from public.workspaces w where w.created_by = new.user_id and w.is_personal;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger set_avatars_workspace
+before insert on public.avatars
+for each row
+execute function public.set_avatar_workspace();
+
+create or replace function public.set_avatar_image_workspace()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  select a.workspace_id into new.workspace_id from public.avatars a where a.id = new.avatar_id;
+  return new;
+end;
+$$;
+
+create trigger set_avatar_images_workspace
+before insert or update of avatar_id on public.avatar_images
+for each row
+execute function public.set_avatar_image_workspace();
+
+create or replace function public.move_avatar_images_with_avatar()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.avatar_images set workspace_id = new.workspace_id where avatar_id = new.id;
+  return new;
+end;
+$$;
+
+create trigger move_avatars_images
+after update of workspace_id on public.avatars
+for each row
+when (old.workspace_id is distinct from new.workspace_id)
+execute function public.move_avatar_images_with_avatar();
+
+-- Avatars: viewers read, editors write. Moving an avatar needs editor rights in both workspaces.
+drop policy if exists "Users can select their avatars" on public.avatars;
+drop policy if exists "Users can insert their avatars" on public.avatars;
+drop policy if exists "Users can update their avatars" on public.avatars;
+drop policy if exists "Users can delete their avatars" on public.avatars;
+
+create policy "Users can select avatars in their workspaces" on public.avatars
+  for select using (public.has_workspace_role(workspace_id, 'viewer'));
+
+create policy "Users can insert avatars into their workspaces" on public.avatars
+  for insert with check (auth.uid() = user_id and public.has_workspace_role(workspace_id, 'editor'));
+
+create policy "Users can update avatars in their workspaces" on public.avatars
+  for update using (public.has_workspace_role(workspace_id, 'editor'))
+  with check (public.has_workspace_role(workspace_id, 'editor'));
+
+create policy "Users can delete avatars in their workspaces" on public.avatars
+  for delete using (public.has_workspace_role(workspace_id, 'editor'));
+
+-- `user_id` names the storage folder the avatar's files live in, so it can never change. Policies can't compare
+-- against the stored row, so a trigger rejects the change for every caller, the service role included.
+create or replace function public.keep_avatar_creator()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.user_id is distinct from old.user_id then
+    raise exception 'The creator of an avatar cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger keep_avatars_creator
+before update of user_id on public.avatars
+for each row
+execute function public.keep_avatar_creator();
+
+-- Image rows keep the avatar creator as `user_id`, matching the storage folder their files live in
+drop policy if exists "Users can select their avatar images" on public.avatar_images;
+drop policy if exists "Users can insert their avatar images" on public.avatar_images;
+drop policy if exists "Users can update their avatar images" on public.avatar_images;
+drop policy if exists "Users can delete their avatar images" on public.avatar_images;
+
+create policy "Users can select avatar images in their workspaces" on public.avatar_images
+  for select using (public.has_workspace_role(workspace_id, 'viewer'));
+
+create policy "Users can insert avatar images into their workspaces" on public.avatar_images
+  for insert with check (
+    public.has_workspace_role(workspace_id, 'editor')
+    and exists (select 1 from public.avatars a where a.id = avatar_id and a.user_id = avatar_images.user_id)
+  );
+
+create policy "Users can update avatar images in their workspaces" on public.avatar_images
+  for update using (public.has_workspace_role(workspace_id, 'editor'))
+  with check (public.has_workspace_role(workspace_id, 'editor'));
+
+create policy "Users can delete avatar images in their workspaces" on public.avatar_images
+  for delete using (public.has_workspace_role(workspace_id, 'editor'));
+
+-- Files live under `<creator id>/<avatar id>/`. Workspace members reach them through the avatar; anything outside
+-- an avatar folder (or in the folder of an avatar that no longer exists) stays private to the folder owner.
+create or replace function public.can_access_avatar_object(object_name text, min_role text)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from public.avatars a where a.id::text = (storage.foldername(object_name))[2]) then exists (
+      select 1 from public.avatars a
+      where a.id::text = (storage.foldername(object_name))[2]
+        and a.user_id::text = (storage.foldername(object_name))[1]
+        and public.has_workspace_role(a.workspace_id, min_role)
+    )
+    else (storage.foldername(object_name))[1] = auth.uid()::text
+  end;
+$$;
+
+drop policy if exists "Users can upload their avatar assets" on storage.objects;
+drop policy if exists "Users can read their avatar assets" on storage.objects;
+drop policy if exists "Users can update their avatar assets" on storage.objects;
+drop policy if exists "Users can delete their avatar assets" on storage.objects;
+
+create policy "Users can upload avatar assets in their workspaces" on storage.objects
+  for insert to authenticated
+  with check (bucket_id = 'avatars' and auth.uid() is not null and public.can_access_avatar_object(name, 'editor'));
+
+create policy "Users can read avatar assets in their workspaces" on storage.objects
+  for select to authenticated
+  using (bucket_id = 'avatars' and auth.uid() is not null and public.can_access_avatar_object(name, 'viewer'));
+
+create policy "Users can update avatar assets in their workspaces" on storage.objects
+  for update to authenticated
+  using (bucket_id = 'avatars' and auth.uid() is not null and public.can_access_avatar_object(name, 'editor'));
+
+create policy "Users can delete avatar assets in their workspaces" on storage.objects
+  for delete to authenticated
+  using (bucket_id = 'avatars' and auth.uid() is not null and public.can_access_avatar_object(name, 'editor'));
+
+-- Gallery functions check the editor role instead of image ownership
+create or replace function public.set_primary_avatar_image(target_image_id uuid)
+returns avatar_images
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target_record avatar_images%rowtype;
+begin
+  select * into target_record from public.avatar_images where id = target_image_id;
+  if not found then
+    raise exception 'Avatar image not found';
+  end if;
+
+  if auth.uid() is null or not public.has_workspace_role(target_record.workspace_id, 'editor') then
+    raise exception 'Not authorized to update this avatar image';
+  end if;
+
+  update public.avatar_images
+    set is_primary = false
+    where avatar_id = target_record.avatar_id
+      and id <> target_image_id;
+
+  update public.avatar_images
+    set is_primary = true
+    where id = target_image_id
+    returning * into target_record;
+
+  return target_record;
+end;
+$$;
+
+create or replace function public.reorder_avatar_images(target_avatar_id uuid, ordered_image_ids uuid[])
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if auth.uid() is null or not exists (
+    select 1 from public.avatars
+    where id = target_avatar_id and public.has_workspace_role(workspace_id, 'editor')
+  ) then
+    raise exception 'Not authorized to reorder images of this avatar';
+  end if;
+
+  update public.avatar_images as images
+    set position = ordered.ordinality - 1
+    from unnest(ordered_image_ids) with ordinality as ordered(id, ordinality)
+    where images.id = ordered.id
+      and images.avatar_id = target_avatar_id;
+end;
+$$;
+
+-- Persona history follows the avatar
+drop policy if exists "Users can select their persona history" on public.avatar_persona_history;
+drop policy if exists "Users can delete their persona history" on public.avatar_persona_history;
+
+create policy "Users can select persona history in their workspaces" on public.avatar_persona_history
+  for select using (
+    exists (
+      select 1 from public.avatars a
+      where a.id = avatar_id and public.has_workspace_role(a.workspace_id, 'viewer')
+    )
+  );
+
+create policy "Users can delete persona history in their workspaces" on public.avatar_persona_history
+  for delete using (
+    exists (
+      select 1 from public.avatars a
+      where a.id = avatar_id and public.has_workspace_role(a.workspace_id, 'editor')
+    )
+  );
+
+-- Collections and conversations stay personal, but may include any avatar the caller can see
+drop policy if exists "Users can insert their collection members" on public.avatar_collection_members;
+
+create policy "Users can insert their collection members" on public.avatar_collection_members
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.avatar_collections c where c.id = collection_id and c.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.avatars a where a.id = avatar_id and public.has_workspace_role(a.workspace_id, 'viewer')
+    )
+  );
+
+drop policy if exists "Users can insert conversations for their avatars" on public.avatar_conversations;
+
+create policy "Users can insert conversations for their avatars" on public.avatar_conversations
+  for insert with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.avatars a where a.id = avatar_id and public.has_workspace_role(a.workspace_id, 'viewer')
+    )
+  );
+
+-- Publishing a share link needs editor rights on the avatar
+drop policy if exists "Users can insert their share links" on public.share_links;
+drop policy if exists "Users can update their share links" on public.share_links;
+
+create policy "Users can insert their share links" on public.share_links
+  for insert with check (
+    auth.uid() = user_id
+    and (
+      avatar_id is null
+      or exists (
+        select 1 from public.avatars a where a.id = avatar_id and public.has_workspace_role(a.workspace_id, 'editor')
+      )
+    )
+    and (
+      collection_id is null
+      or exists (select 1 from public.avatar_collections c where c.id = collection_id and c.user_id = auth.uid())
+    )
+  );
+
+create policy "Users can update their share links" on public.share_links
+  for update using (auth.uid() = user_id) with check (
+    auth.uid() = user_id
+    and (
+      avatar_id is null
+      or exists (
+        select 1 from public.avatars a where a.id = avatar_id and public.has_workspace_role(a.workspace_id, 'editor')
+      )
+    )
+    and (
+      collection_id is null
+      or exists (select 1 from public.avatar_collections c where c.id = collection_id and c.user_id = auth.uid())
+    )
+  );
+
+-- Shared templates are visible to the members of the template's workspace rather than to every signed-in user
+drop policy if exists "Users can select their own, shared and built-in templates" on public.persona_templates;
+drop policy if exists "Users can insert their templates" on public.persona_templates;
+drop policy if exists "Users can update their templates" on public.persona_templates;
+
+create policy "Users can select their own, workspace-shared and built-in templates" on public.persona_templates
+  for select using (
+    is_builtin or auth.uid() = user_id or (is_shared and public.has_workspace_role(workspace_id, 'viewer'))
+  );
+
+create policy "Users can insert their templates" on public.persona_templates
+  for insert with check (
+    auth.uid() = user_id
+    and not is_builtin
+    and (workspace_id is null or public.has_workspace_role(workspace_id, 'viewer'))
+  );
+
+create policy "Users can update their templates" on public.persona_templates
+  for update using (auth.uid() = user_id) with check (
+    auth.uid() = user_id
+    and not is_builtin
+    and (workspace_id is null or public.has_workspace_role(workspace_id, 'viewer'))
+  );
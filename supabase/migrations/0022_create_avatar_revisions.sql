@@ -0,0 +1,145 @@
+-- Field-level history of avatar edits, written by a trigger so every path (edit form, n8n callback, restore) is covered
+create table if not exists public.avatar_revisions (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  avatar_id uuid not null references public.avatars(id) on delete cascade,
+  changed_by uuid null references auth.users(id) on delete set null,
+  source text not null check (source in ('user', 'n8n', 'restore')),
+  job_id text null,
+  restored_from uuid null references public.avatar_revisions(id) on delete set null,
+  changed_fields text[] not null,
+  -- Every tracked field as it was before this change; restoring a revision writes these back
+  snapshot jsonb not null,
+  -- Only the changed fields, as they were after this change
+  changes jsonb not null
+);
+
+create index if not exists avatar_revisions_avatar_id_created_at_idx
+  on public.avatar_revisions (avatar_id, created_at desc);
+
+alter table public.avatar_revisions enable row level security;
+
+create policy "Users can select avatar revisions in their workspaces" on public.avatar_revisions
+  for select using (
+    exists (
+      select 1 from public.avatars a
+      where a.id = avatar_id and public.has_workspace_role(a.workspace_id, 'viewer')
+    )
+  );
+
+-- Callbacks run with the service role, so there is no auth.uid(); restores flag themselves through a local setting
+create or replace function public.record_avatar_revision()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  tracked_fields constant text[] := array[
+    'name', 'age', 'height_cm', 'skin_tone', 'hair_color', 'marital_status', 'job_title', 'industry',
+    'address_line', 'city', 'region', 'country', 'hobbies', 'political_orientation', 'other_traits',
+    'persona_summary', 'extra_attributes'
+  ];
+  old_values jsonb := to_jsonb(old);
+  new_values jsonb := to_jsonb(new);
+  field text;
+  changed text[] := '{}';
+  snapshot_values jsonb := '{}'::jsonb;
+  changed_values jsonb := '{}'::jsonb;
+  revision_source text;
+begin
+  foreach field in array tracked_fields loop
+    snapshot_values := snapshot_values || jsonb_build_object(field, old_values -> field);
+    if old_values -> field is distinct from new_values -> field then
+      changed := changed || field;
+      changed_values := changed_values || jsonb_build_object(field, new_values -> field);
+    end if;
+  end loop;
+
+  if cardinality(changed) = 0 then
+    return new;
+  end if;
+
+  revision_source := coalesce(
+    nullif(current_setting('avatar_revisions.source', true), ''),
+    case when auth.uid() is null then 'n8n' else 'user' end
+  );
+
+  insert into public.avatar_revisions (
+    avatar_id, changed_by, source, job_id, restored_from, changed_fields, snapshot, changes
+  )
+  values (
+    new.id,
+    auth.uid(),
+    revision_source,
+    case when revision_source = 'n8n' then new.n8n_job_id end,
+    nullif(current_setting('avatar_revisions.restored_from', true), '')::uuid,
+    changed,
+    snapshot_values,
+    changed_values
+  );
+
+  return new;
+end;
+$$;
+
+drop trigger if exists record_avatar_revision on public.avatars;
+create trigger record_avatar_revision
+after update on public.avatars
+for each row
+execute procedure public.record_avatar_revision();
+
+-- Writes a revision's snapshot back onto its avatar; the resulting update is itself recorded as a 'restore' revision
+create or replace function public.restore_avatar_revision(target_revision_id uuid)
+returns avatars
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  revision_record avatar_revisions%rowtype;
+  restored avatars%rowtype;
+  avatar_record avatars%rowtype;
+begin
+  select * into revision_record from public.avatar_revisions where id = target_revision_id;
+  if not found then
+    raise exception 'Avatar revision not found';
+  end if;
+
+  select * into avatar_record from public.avatars where id = revision_record.avatar_id;
+  if auth.uid() is null or not public.has_workspace_role(avatar_record.workspace_id, 'editor') then
+    raise exception 'Not authorized to restore this avatar';
+  end if;
+
+  restored := jsonb_populate_record(avatar_record, revision_record.snapshot);
+
+  perform set_config('avatar_revisions.source', 'restore', true);
+  perform set_config('avatar_revisions.restored_from', target_revision_id::text, true);
+
+  update public.avatars
+    set name = restored.name,
+        age = restored.age,
+        height_cm = restored.height_cm,
+        skin_tone = restored.skin_tone,
+        hair_color = restored.hair_color,
+        marital_status = restored.marital_status,
+        job_title = restored.job_title,
+        industry = restored.industry,
+        address_line = restored.address_line,
+        city = restored.city,
+        region = restored.region,
+        country = restored.country,
+        hobbies = restored.hobbies,
+        political_orientation = restored.political_orientation,
+        other_traits = restored.other_traits,
+        persona_summary = restored.persona_summary,
+        extra_attributes = restored.extra_attributes
+    where id = avatar_record.id
+    returning * into avatar_record;
+
+  perform set_config('avatar_revisions.source', '', true);
+  perform set_config('avatar_revisions.restored_from', '', true);
+
+  return avatar_record;
+end;
+$$;
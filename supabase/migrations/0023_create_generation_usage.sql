@@ -0,0 +1,156 @@
+-- Monthly generation quotas per plan, and a ledger of every generation job sent to n8n
+create table if not exists public.plans (
+  id text primary key,
+  created_at timestamptz not null default timezone('utc', now()),
+  name text not null,
+  -- null means unlimited
+  monthly_avatar_quota int null check (monthly_avatar_quota >= 0),
+  monthly_scenario_quota int null check (monthly_scenario_quota >= 0),
+  is_default boolean not null default false
+);
+
+create unique index if not exists plans_single_default_idx on public.plans (is_default) where is_default;
+
+insert into public.plans (id, name, monthly_avatar_quota, monthly_scenario_quota, is_default)
+values
+  ('free', 'Free', 20, 60, true),
+  ('pro', 'Pro', 200, 1000, false),
+  ('unlimited', 'Unlimited', null, null, false)
+on conflict (id) do nothing;
+
+alter table public.plans enable row level security;
+
+create policy "Users can select plans" on public.plans
+  for select using (auth.uid() is not null);
+
+-- Users without a row are on the default plan. Rows are managed with the service role only.
+create table if not exists public.user_plans (
+  user_id uuid primary key references auth.users(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now()),
+  plan_id text not null references public.plans(id)
+);
+
+create trigger set_user_plans_updated_at
+before update on public.user_plans
+for each row
+execute function public.set_current_timestamp_updated_at();
+
+alter table public.user_plans enable row level security;
+
+create policy "Users can select their plan" on public.user_plans
+  for select using (auth.uid() = user_id);
+
+-- Who asked for the job and pays for it. Jobs run as the avatar's creator, which may be someone else in a workspace.
+alter table public.generation_jobs
+  add column if not exists requested_by uuid null references auth.users(id) on delete set null;
+
+create table if not exists public.generation_usage (
+  id uuid primary key default uuid_generate_v4(),
+  created_at timestamptz not null default timezone('utc', now()),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  avatar_id uuid null references public.avatars(id) on delete set null,
+  job_id uuid null references public.generation_jobs(id) on delete set null,
+  kind text not null check (kind in ('avatar', 'scenario')),
+  units int not null default 1 check (units > 0)
+);
+
+create index if not exists generation_usage_user_id_created_at_idx
+  on public.generation_usage (user_id, created_at desc);
+-- A job is charged once however many dispatch attempts it takes
+create unique index if not exists generation_usage_job_id_idx
+  on public.generation_usage (job_id) where job_id is not null;
+
+alter table public.generation_usage enable row level security;
+
+create policy "Users can select their generation usage" on public.generation_usage
+  for select using (auth.uid() = user_id);
+
+-- Usage for the current calendar month (UTC) against the user's plan. Signed-in users can only read their own; the
+-- service role (the generation queue) can read anyone's.
+create or replace function public.get_generation_usage(target_user_id uuid)
+returns table (
+  kind text,
+  used int,
+  quota int,
+  plan_id text,
+  period_start timestamptz,
+  period_end timestamptz
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with plan as (
+    select p.*
+    from public.plans p
+    left join public.user_plans up on up.plan_id = p.id and up.user_id = target_user_id
+    where up.user_id is not null or p.is_default
+    order by up.user_id is not null desc
+    limit 1
+  ),
+  period as (
+    select date_trunc('month', now() at time zone 'utc') at time zone 'utc' as starts_at
+  )
+  select
+    kinds.kind,
+    coalesce((
+      select sum(u.units)::int
+      from public.generation_usage u
+      where u.user_id = target_user_id and u.kind = kinds.kind and u.created_at >= period.starts_at
+    ), 0),
+    case kinds.kind when 'avatar' then plan.monthly_avatar_quota else plan.monthly_scenario_quota end,
+    plan.id,
+    period.starts_at,
+    period.starts_at + interval '1 month'
+  from (values ('avatar'), ('scenario')) as kinds(kind), plan, period
+  where auth.role() = 'service_role' or auth.uid() = target_user_id;
+$$;
+
+revoke execute on function public.get_generation_usage(uuid) from public, anon;
+grant execute on function public.get_generation_usage(uuid) to authenticated, service_role;
+
+-- Charges `target_units` generations to a user if their quota allows all of them (a scene job costs one unit per
+-- image). Called by the queue right before dispatching to n8n.
+create or replace function public.record_generation_usage(
+  target_user_id uuid,
+  target_kind text,
+  target_job_id uuid,
+  target_avatar_id uuid,
+  target_units int default 1
+)
+returns table (allowed boolean, used int, quota int, period_end timestamptz)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  usage_record record;
+begin
+  -- Serialise charges per user so two concurrent dispatches can't both take the last unit
+  perform pg_advisory_xact_lock(hashtext('generation_usage:' || target_user_id::text));
+
+  select * into usage_record
+  from public.get_generation_usage(target_user_id) as current_usage
+  where current_usage.kind = target_kind;
+
+  if target_job_id is not null
+    and exists (select 1 from public.generation_usage g where g.job_id = target_job_id) then
+    return query select true, usage_record.used, usage_record.quota, usage_record.period_end;
+    return;
+  end if;
+
+  if usage_record.quota is not null and usage_record.used + target_units > usage_record.quota then
+    return query select false, usage_record.used, usage_record.quota, usage_record.period_end;
+    return;
+  end if;
+
+  insert into public.generation_usage (user_id, avatar_id, job_id, kind, units)
+  values (target_user_id, target_avatar_id, target_job_id, target_kind, target_units);
+
+  return query select true, usage_record.used + target_units, usage_record.quota, usage_record.period_end;
+end;
+$$;
+
+revoke execute on function public.record_generation_usage(uuid, text, uuid, uuid, int) from public, anon, authenticated;
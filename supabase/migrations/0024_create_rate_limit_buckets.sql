@@ -0,0 +1,56 @@
+-- Fixed-window counters behind the Postgres rate limit store. One row per key, reused as windows roll over.
+create table if not exists public.rate_limit_buckets (
+  key text primary key,
+  window_start timestamptz not null,
+  hits int not null default 0
+);
+
+-- No policies: only the service role (middleware and route handlers) reads or writes buckets.
+alter table public.rate_limit_buckets enable row level security;
+
+-- Counts one hit against `bucket_key` in the current window and returns the total so far and when the window ends
+create or replace function public.hit_rate_limit(bucket_key text, window_seconds int)
+returns table (hit_count int, reset_at timestamptz)
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.rate_limit_buckets as bucket (key, window_start, hits)
+  values (bucket_key, to_timestamp(floor(extract(epoch from now()) / window_seconds) * window_seconds), 1)
+  on conflict (key) do update
+    set hits = case when bucket.window_start = excluded.window_start then bucket.hits + 1 else 1 end,
+        window_start = excluded.window_start
+  returning bucket.hits, bucket.window_start + make_interval(secs => window_seconds);
+$$;
+
+revoke execute on function public.hit_rate_limit(text, int) from public, anon, authenticated;
+
+-- The wizard inserts avatars straight from the browser, so no route handler sees it. Limit inserts per signed-in user
+-- here instead: one hit per statement, so a cohort or import counts once however many avatars it creates.
+create or replace function public.limit_avatar_creation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  bucket record;
+begin
+  if auth.uid() is null then
+    return null;
+  end if;
+
+  select * into bucket from public.hit_rate_limit('avatar.create:user:' || auth.uid()::text, 60);
+  if bucket.hit_count > 10 then
+    raise exception 'Too many avatars created. Please wait % seconds and try again.',
+      greatest(ceil(extract(epoch from bucket.reset_at - now())), 1)::int
+      using errcode = 'P0001', hint = 'rate_limited';
+  end if;
+  return null;
+end;
+$$;
+
+create trigger limit_avatars_creation
+before insert on public.avatars
+for each statement
+execute function public.limit_avatar_creation();